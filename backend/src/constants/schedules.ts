@@ -0,0 +1,43 @@
+// constants/schedules.ts
+
+// Cadences of the background syncs, run by services/scheduler.ts through the job queue.
+// Every tick enqueues the job unless the same job is still queued or running.
+// Times are in SCHEDULER_TIMEZONE (UTC by default). Schedules are paused / resumed through
+// POST /api/admin/schedules/:name/pause|resume; renaming one resets its state.
+
+import { ScheduleDefinition } from '../types/jobModels.js';
+
+export const SCHEDULE_DEFINITIONS: ScheduleDefinition[] = [
+  // --- Repository discovery ---
+  { name: 'top_repos', description: 'Top repositories (delta sync)', jobType: 'sync_quick', payload: { mode: 'incremental' }, cron: '0 1 * * *', jitterSeconds: 300 },
+  { name: 'top_lists', description: 'Language and topic top lists', jobType: 'sync_top_lists', cron: '0 4 * * 0', jitterSeconds: 600 },
+  { name: 'growing', description: 'Growing repositories', jobType: 'sync_growing', cron: '30 2 * * *', jitterSeconds: 300 },
+  { name: 'trending', description: 'Trending repositories', jobType: 'sync_trending', cron: '0 */6 * * *', jitterSeconds: 300 },
+  { name: 'reconcile', description: 'Renames, transfers and deletions', jobType: 'repos_reconcile', cron: '0 13 * * *', jitterSeconds: 600 },
+
+  // --- GH Archive windows ---
+  { name: 'gharchive_weekly', description: 'GH Archive trends, last 7 days', jobType: 'gharchive_weekly', cron: '0 5 * * *', jitterSeconds: 300 },
+  { name: 'gharchive_monthly', description: 'GH Archive trends, last 30 days', jobType: 'gharchive_monthly', cron: '0 6 * * 1', jitterSeconds: 600 },
+  { name: 'gharchive_quarterly', description: 'GH Archive trends, last 90 days', jobType: 'gharchive_quarterly', cron: '0 7 1 * *', jitterSeconds: 600 },
+
+  // --- Enrichment (each worker only picks what is missing or due) ---
+  { name: 'readmes', description: 'Missing READMEs', jobType: 'readme_missing', cron: '0 */3 * * *', jitterSeconds: 300 },
+  { name: 'contributors', description: 'Missing contributors', jobType: 'contributors_missing', cron: '0 2 * * 0', jitterSeconds: 600 },
+  { name: 'commit_activity', description: 'Missing commit activity', jobType: 'activity_missing', cron: '0 3 * * *', jitterSeconds: 300 },
+  { name: 'commits', description: 'Recent commits', jobType: 'commits_missing', cron: '30 */6 * * *', jitterSeconds: 300 },
+  { name: 'issues', description: 'Issue and pull request analytics', jobType: 'issues_analytics', cron: '0 10 * * *', jitterSeconds: 600 },
+  { name: 'releases', description: 'Release histories', jobType: 'releases_missing', cron: '0 11 * * *', jitterSeconds: 600 },
+  { name: 'dependencies', description: 'Dependency manifests', jobType: 'dependencies_missing', cron: '0 12 * * *', jitterSeconds: 600 },
+  // After the dependencies: package-based rules read what they stored
+  { name: 'tech_stack', description: 'Tech-stack fingerprints', jobType: 'tech_stack_missing', cron: '0 14 * * *', jitterSeconds: 600 },
+
+  // --- Developers ---
+  // The follower-graph crawl (developers_follow_graph) is opt-in: POST /api/workers/follow-graph only
+  { name: 'developer_missions', description: 'Developer scouting missions', jobType: 'developers_scout', cron: '0 8 * * *', jitterSeconds: 600 },
+  { name: 'organizations', description: 'Organization profiles and aggregates', jobType: 'orgs_sync', cron: '0 15 * * *', jitterSeconds: 600 },
+
+  // --- Derived data ---
+  { name: 'growth_metrics', description: 'Stars / forks growth from snapshots', jobType: 'metrics_growth', cron: '0 0 * * *', jitterSeconds: 120 },
+  { name: 'health_scores', description: 'Health score recomputation', jobType: 'metrics_health', cron: '30 0 * * *', jitterSeconds: 120 },
+  { name: 'embeddings', description: 'Repository embeddings', jobType: 'embed_repos', cron: '0 9 * * *', jitterSeconds: 600 },
+];
@@ -0,0 +1,128 @@
+// constants/techStack.ts
+
+// Frameworks and tooling recognized by the tech-stack worker (services/fetchings/techStackWorkerService.ts).
+// A rule matches on the repo's top-level entries, on its GitHub Actions workflows, or on a dependency
+// declared in a root manifest (repository_dependencies). Ids are what /api/repos/filter?tech= expects.
+
+import { DependencyEcosystem } from '../types/models.js';
+
+export type TechCategory =
+  | 'framework'
+  | 'testing'
+  | 'ci'
+  | 'containers'
+  | 'infrastructure'
+  | 'monorepo'
+  | 'package_manager'
+  | 'linting';
+
+export interface TechRule {
+  id: string;
+  label: string;
+  category: TechCategory;
+  files?: RegExp;          // Top-level file names
+  dirs?: RegExp;           // Top-level directory names
+  workflows?: boolean;     // Any .github/workflows/*.yml
+  packages?: Partial<Record<DependencyEcosystem, RegExp>>; // Normalized dependency names
+}
+
+export const TECH_CATEGORY_LABELS: Record<TechCategory, string> = {
+  framework: 'Frameworks',
+  testing: 'Testing',
+  ci: 'CI',
+  containers: 'Containers',
+  infrastructure: 'Infrastructure',
+  monorepo: 'Monorepo',
+  package_manager: 'Package Managers',
+  linting: 'Linting & Formatting',
+};
+
+export const TECH_RULES: TechRule[] = [
+  // --- Frameworks ---
+  { id: 'nextjs', label: 'Next.js', category: 'framework', files: /^next\.config\.(js|mjs|cjs|ts)$/, packages: { npm: /^next$/ } },
+  { id: 'nuxt', label: 'Nuxt', category: 'framework', files: /^nuxt\.config\.(js|mjs|ts)$/, packages: { npm: /^nuxt$/ } },
+  { id: 'sveltekit', label: 'SvelteKit', category: 'framework', files: /^svelte\.config\.(js|mjs|ts)$/, packages: { npm: /^@sveltejs\/kit$/ } },
+  { id: 'astro', label: 'Astro', category: 'framework', files: /^astro\.config\.(js|mjs|ts)$/, packages: { npm: /^astro$/ } },
+  { id: 'remix', label: 'Remix', category: 'framework', files: /^remix\.config\.(js|mjs)$/, packages: { npm: /^@remix-run\/(node|react)$/ } },
+  { id: 'gatsby', label: 'Gatsby', category: 'framework', files: /^gatsby-config\.(js|mjs|ts)$/, packages: { npm: /^gatsby$/ } },
+  { id: 'angular', label: 'Angular', category: 'framework', files: /^angular\.json$/, packages: { npm: /^@angular\/core$/ } },
+  { id: 'react', label: 'React', category: 'framework', packages: { npm: /^react$/ } },
+  { id: 'vue', label: 'Vue', category: 'framework', packages: { npm: /^vue$/ } },
+  { id: 'vite', label: 'Vite', category: 'framework', files: /^vite\.config\.(js|mjs|cjs|ts|mts)$/, packages: { npm: /^vite$/ } },
+  { id: 'electron', label: 'Electron', category: 'framework', packages: { npm: /^electron$/ } },
+  { id: 'tauri', label: 'Tauri', category: 'framework', dirs: /^src-tauri$/, packages: { cargo: /^tauri$/ } },
+  { id: 'express', label: 'Express', category: 'framework', packages: { npm: /^express$/ } },
+  { id: 'nestjs', label: 'NestJS', category: 'framework', files: /^nest-cli\.json$/, packages: { npm: /^@nestjs\/core$/ } },
+  { id: 'django', label: 'Django', category: 'framework', files: /^manage\.py$/, packages: { pypi: /^django$/ } },
+  { id: 'flask', label: 'Flask', category: 'framework', packages: { pypi: /^flask$/ } },
+  { id: 'fastapi', label: 'FastAPI', category: 'framework', packages: { pypi: /^fastapi$/ } },
+  { id: 'rails', label: 'Ruby on Rails', category: 'framework', files: /^config\.ru$/ },
+  { id: 'laravel', label: 'Laravel', category: 'framework', files: /^artisan$/ },
+  { id: 'spring-boot', label: 'Spring Boot', category: 'framework', packages: { maven: /^org\.springframework\.boot:/ } },
+  { id: 'flutter', label: 'Flutter', category: 'framework', files: /^pubspec\.yaml$/ },
+  { id: 'actix-web', label: 'Actix Web', category: 'framework', packages: { cargo: /^actix-web$/ } },
+  { id: 'axum', label: 'Axum', category: 'framework', packages: { cargo: /^axum$/ } },
+  { id: 'gin', label: 'Gin', category: 'framework', packages: { go: /^github\.com\/gin-gonic\/gin$/ } },
+
+  // --- Testing ---
+  { id: 'jest', label: 'Jest', category: 'testing', files: /^jest\.config\.(js|mjs|cjs|ts|json)$/, packages: { npm: /^jest$/ } },
+  { id: 'vitest', label: 'Vitest', category: 'testing', files: /^vitest\.(config|workspace)\.(js|mjs|ts|mts)$/, packages: { npm: /^vitest$/ } },
+  { id: 'mocha', label: 'Mocha', category: 'testing', files: /^\.mocharc\.(js|cjs|json|ya?ml)$/, packages: { npm: /^mocha$/ } },
+  { id: 'playwright', label: 'Playwright', category: 'testing', files: /^playwright\.config\.(js|ts)$/, packages: { npm: /^@playwright\/test$/, pypi: /^playwright$/ } },
+  { id: 'cypress', label: 'Cypress', category: 'testing', files: /^cypress\.(config\.(js|ts)|json)$/, dirs: /^cypress$/, packages: { npm: /^cypress$/ } },
+  { id: 'pytest', label: 'pytest', category: 'testing', files: /^(pytest\.ini|conftest\.py)$/, packages: { pypi: /^pytest$/ } },
+  { id: 'junit', label: 'JUnit', category: 'testing', packages: { maven: /^(junit:junit|org\.junit\.jupiter:)/ } },
+  { id: 'phpunit', label: 'PHPUnit', category: 'testing', files: /^phpunit\.xml(\.dist)?$/ },
+
+  // --- CI providers ---
+  { id: 'github-actions', label: 'GitHub Actions', category: 'ci', workflows: true },
+  { id: 'gitlab-ci', label: 'GitLab CI', category: 'ci', files: /^\.gitlab-ci\.ya?ml$/ },
+  { id: 'circleci', label: 'CircleCI', category: 'ci', dirs: /^\.circleci$/ },
+  { id: 'travis-ci', label: 'Travis CI', category: 'ci', files: /^\.travis\.ya?ml$/ },
+  { id: 'jenkins', label: 'Jenkins', category: 'ci', files: /^Jenkinsfile$/ },
+  { id: 'azure-pipelines', label: 'Azure Pipelines', category: 'ci', files: /^azure-pipelines\.ya?ml$/ },
+  { id: 'buildkite', label: 'Buildkite', category: 'ci', dirs: /^\.buildkite$/ },
+  { id: 'appveyor', label: 'AppVeyor', category: 'ci', files: /^\.?appveyor\.ya?ml$/ },
+  { id: 'drone', label: 'Drone', category: 'ci', files: /^\.drone\.ya?ml$/ },
+
+  // --- Containers ---
+  { id: 'docker', label: 'Docker', category: 'containers', files: /^(Dockerfile(\..+)?|Containerfile)$/ },
+  { id: 'docker-compose', label: 'Docker Compose', category: 'containers', files: /^(docker-)?compose(\..+)?\.ya?ml$/ },
+  { id: 'devcontainer', label: 'Dev Container', category: 'containers', files: /^\.devcontainer\.json$/, dirs: /^\.devcontainer$/ },
+  { id: 'helm', label: 'Helm', category: 'containers', files: /^Chart\.yaml$/, dirs: /^(charts|helm)$/ },
+  { id: 'kubernetes', label: 'Kubernetes', category: 'containers', dirs: /^(k8s|kubernetes|kustomize)$/, files: /^kustomization\.ya?ml$/ },
+
+  // --- Infrastructure as code ---
+  { id: 'terraform', label: 'Terraform', category: 'infrastructure', files: /\.tf$/, dirs: /^terraform$/ },
+  { id: 'pulumi', label: 'Pulumi', category: 'infrastructure', files: /^Pulumi\.ya?ml$/ },
+  { id: 'aws-cdk', label: 'AWS CDK', category: 'infrastructure', files: /^cdk\.json$/ },
+  { id: 'serverless', label: 'Serverless Framework', category: 'infrastructure', files: /^serverless\.(ya?ml|ts|js)$/ },
+  { id: 'ansible', label: 'Ansible', category: 'infrastructure', files: /^ansible\.cfg$/, dirs: /^(ansible|playbooks)$/ },
+  { id: 'vagrant', label: 'Vagrant', category: 'infrastructure', files: /^Vagrantfile$/ },
+  { id: 'nix', label: 'Nix', category: 'infrastructure', files: /^(flake\.nix|shell\.nix|default\.nix)$/ },
+
+  // --- Monorepo tooling ---
+  { id: 'turborepo', label: 'Turborepo', category: 'monorepo', files: /^turbo\.json$/ },
+  { id: 'nx', label: 'Nx', category: 'monorepo', files: /^nx\.json$/ },
+  { id: 'lerna', label: 'Lerna', category: 'monorepo', files: /^lerna\.json$/ },
+  { id: 'pnpm-workspaces', label: 'pnpm Workspaces', category: 'monorepo', files: /^pnpm-workspace\.yaml$/ },
+  { id: 'rush', label: 'Rush', category: 'monorepo', files: /^rush\.json$/ },
+  { id: 'bazel', label: 'Bazel', category: 'monorepo', files: /^(WORKSPACE|WORKSPACE\.bazel|MODULE\.bazel|\.bazelrc)$/ },
+  { id: 'go-workspaces', label: 'Go Workspaces', category: 'monorepo', files: /^go\.work$/ },
+
+  // --- Package managers (from lockfiles) ---
+  { id: 'npm', label: 'npm', category: 'package_manager', files: /^package-lock\.json$/ },
+  { id: 'yarn', label: 'Yarn', category: 'package_manager', files: /^(yarn\.lock|\.yarnrc\.yml)$/ },
+  { id: 'pnpm', label: 'pnpm', category: 'package_manager', files: /^pnpm-lock\.yaml$/ },
+  { id: 'bun', label: 'Bun', category: 'package_manager', files: /^bun\.lockb?$/ },
+  { id: 'poetry', label: 'Poetry', category: 'package_manager', files: /^poetry\.lock$/ },
+  { id: 'uv', label: 'uv', category: 'package_manager', files: /^uv\.lock$/ },
+  { id: 'pipenv', label: 'Pipenv', category: 'package_manager', files: /^Pipfile(\.lock)?$/ },
+
+  // --- Linting & formatting ---
+  { id: 'eslint', label: 'ESLint', category: 'linting', files: /^(\.eslintrc(\..+)?|eslint\.config\.(js|mjs|cjs|ts))$/, packages: { npm: /^eslint$/ } },
+  { id: 'prettier', label: 'Prettier', category: 'linting', files: /^(\.prettierrc(\..+)?|prettier\.config\.(js|mjs|cjs))$/, packages: { npm: /^prettier$/ } },
+  { id: 'biome', label: 'Biome', category: 'linting', files: /^biome\.jsonc?$/, packages: { npm: /^@biomejs\/biome$/ } },
+  { id: 'ruff', label: 'Ruff', category: 'linting', files: /^\.?ruff\.toml$/, packages: { pypi: /^ruff$/ } },
+  { id: 'pre-commit', label: 'pre-commit', category: 'linting', files: /^\.pre-commit-config\.ya?ml$/ },
+];
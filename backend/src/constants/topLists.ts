@@ -0,0 +1,49 @@
+// constants/topLists.ts
+
+// Language- and topic-scoped top lists maintained by the 'sync_top_lists' job.
+// Each list is stored as its own tag in repositories.categories (see topListCategory).
+// Add or remove entries here; the API and the UI sidebar pick them up from GET /api/top-lists.
+
+export interface TopListDefinition {
+  kind: 'language' | 'topic';
+  // Exactly as GitHub search expects it: language:"C++", topic:llm
+  value: string;
+  label: string;
+  // How many repos to keep (GitHub search stops at 1000)
+  limit: number;
+}
+
+export const TOP_LIST_DEFINITIONS: TopListDefinition[] = [
+  // --- Languages ---
+  { kind: 'language', value: 'Rust', label: 'Rust', limit: 500 },
+  { kind: 'language', value: 'TypeScript', label: 'TypeScript', limit: 500 },
+  { kind: 'language', value: 'Python', label: 'Python', limit: 500 },
+  { kind: 'language', value: 'Go', label: 'Go', limit: 500 },
+  { kind: 'language', value: 'JavaScript', label: 'JavaScript', limit: 500 },
+  { kind: 'language', value: 'C++', label: 'C++', limit: 300 },
+  { kind: 'language', value: 'C', label: 'C', limit: 300 },
+  { kind: 'language', value: 'Java', label: 'Java', limit: 300 },
+
+  // --- Topics ---
+  { kind: 'topic', value: 'llm', label: 'LLM', limit: 300 },
+  { kind: 'topic', value: 'machine-learning', label: 'Machine Learning', limit: 300 },
+  { kind: 'topic', value: 'kubernetes', label: 'Kubernetes', limit: 200 },
+  { kind: 'topic', value: 'cli', label: 'CLI Tools', limit: 200 },
+  { kind: 'topic', value: 'react', label: 'React', limit: 200 },
+  { kind: 'topic', value: 'self-hosted', label: 'Self-Hosted', limit: 200 },
+];
+
+// Category tag of a list, e.g. 'top_lang_rust', 'top_lang_cpp', 'top_topic_llm'
+export function topListCategory(list: TopListDefinition): string {
+  const slug = list.value.toLowerCase()
+    .replace(/\+/g, 'p')
+    .replace(/#/g, 'sharp')
+    .replace(/[^a-z0-9]+/g, '-');
+  return `${list.kind === 'language' ? 'top_lang' : 'top_topic'}_${slug}`;
+}
+
+// GitHub search for a list, most starred first
+export function topListSearchQuery(list: TopListDefinition): string {
+  const qualifier = list.kind === 'language' ? `language:"${list.value}"` : `topic:${list.value}`;
+  return `${qualifier} stars:>1 sort:stars-desc`;
+}
@@ -4,22 +4,27 @@ import dotenv from "dotenv";
 import path from "path";
 import { fileURLToPath } from "url";
 import cors from "cors";
-import githubService from "./services/githubService.js";
-import workerService from './services/workerService.js';
-import developerWorkerService from "./services/developerWorkerService.js";
 import { generateSummary } from "./services/aiServices/aiService.js"; // Import the new service
 // import rateLimit from 'express-rate-limit';
 
 // 1. Import the service
-import { embedRepositories, generateEmbeddingLocal } from "./services/aiServices/embeddingService.js";
+import { generateEmbeddingLocal } from "./services/aiServices/embeddingService.js";
 import { searchIntelligently } from "./services/aiServices/searchAgentService.js";
 
-import readmeWorkerService from "./services/fetchings/readmeWorkerService.js";
-import commitActivityWorkerService from "./services/fetchings/commitActivityWorkerService.js";
-import contributorsWorkerService from "./services/fetchings/contributorsWorkerService.js";
-import commitsWorkerService from "./services/fetchings/commitsWorkerService.js";
-
-import newService from "./services/newService.js";
+// Background work goes through the persistent job queue (services are wired in jobHandlers)
+import jobQueueService from "./services/jobs/jobQueueService.js";
+import scheduler from "./services/scheduler.js";
+import topRepoCrawlerService from "./services/ingestion/topRepoCrawlerService.js";
+import topListSyncService from "./services/ingestion/topListSyncService.js";
+import fetchStateService from "./services/fetchings/fetchStateService.js";
+import dependenciesWorkerService from "./services/fetchings/dependenciesWorkerService.js";
+import repositoryReconciliationService from "./services/ingestion/repositoryReconciliationService.js";
+import followGraphWorkerService from "./services/followGraphWorkerService.js";
+import { topListCategory } from "./constants/topLists.js";
+import { TECH_CATEGORY_LABELS, TECH_RULES } from "./constants/techStack.js";
+import { jobHandlers } from "./services/jobs/jobHandlers.js";
+import { JobStatus, JobType } from "./types/jobModels.js";
+import githubClient from "./services/github/githubClient.js";
 
 
 // // Define Limiter: 100 requests per 15 minutes per IP
@@ -56,25 +61,52 @@ async function getGithubIdFromLocal(localId: number): Promise<string | null> {
   return res.rows[0].github_id;
 }
 
+// =============================================================================
+// HELPER: Enqueue a background job and answer 202 with its ID
+// =============================================================================
+
+async function enqueueAndRespond(
+  res: express.Response,
+  type: JobType,
+  message: string,
+  payload: Record<string, any> = {}
+) {
+  try {
+    const job = await jobQueueService.enqueue(type, payload);
+    res.status(202).json({ message, jobId: job.id, status: job.status });
+  } catch (error: any) {
+    console.error(`❌ Failed to enqueue ${type}:`, error);
+    res.status(500).json({ error: "Failed to enqueue job", details: error.message });
+  }
+}
+
 // Test Endpoint
 app.get('/test' , async (req, res) => {
    res.status(202).json({ message: "Test trigger received." });
 })
 
-// --- NEW: GH ARCHIVE (BIGQUERY) SYNC ENDPOINTS ---
+// --- NEW: GH ARCHIVE SYNC ENDPOINTS ---
+// ?source=bigquery|local forces a source; otherwise BigQuery is used when configured, else GHARCHIVE_DIR
+function ghArchiveSourcePayload(req: express.Request) {
+  const source = req.query.source;
+  return source === 'bigquery' || source === 'local' ? { source } : {};
+}
+
 app.post('/api/sync/gharchive/weekly', async (req, res) => {
-  newService.syncWeekly();
-  res.status(202).json({ message: "Weekly trends fetch started (GH Archive)." });
+  await enqueueAndRespond(res, 'gharchive_weekly', "Weekly trends fetch queued (GH Archive).", ghArchiveSourcePayload(req));
 });
 
 app.post('/api/sync/gharchive/monthly', async (req, res) => {
-  newService.syncMonthly();
-  res.status(202).json({ message: "Monthly trends fetch started (GH Archive)." });
+  await enqueueAndRespond(res, 'gharchive_monthly', "Monthly trends fetch queued (GH Archive).", ghArchiveSourcePayload(req));
 });
 
 app.post('/api/sync/gharchive/quarterly', async (req, res) => {
-  newService.syncQuarterly();
-  res.status(202).json({ message: "Quarterly trends fetch started (GH Archive)." });
+  await enqueueAndRespond(res, 'gharchive_quarterly', "Quarterly trends fetch queued (GH Archive).", ghArchiveSourcePayload(req));
+});
+
+// Only loads new hourly dumps from GHARCHIVE_DIR into gharchive_daily_events
+app.post('/api/sync/gharchive/import', async (req, res) => {
+  await enqueueAndRespond(res, 'gharchive_import', "Local GH Archive import queued.");
 });
 
 
@@ -96,13 +128,7 @@ app.get("/api/search/smart", async (req, res) => {
 
 // B. Admin Trigger: Start Embedding Process (Manual)
 app.post("/api/admin/embed-repos", async (req, res) => {
-  try {
-    // Start background process (do not await)
-    embedRepositories().catch(err => console.error("Background embedding failed:", err));
-    res.json({ message: "🚀 Embedding process started in background." });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
+  await enqueueAndRespond(res, 'embed_repos', "🚀 Embedding process queued.");
 });
 
 
@@ -125,70 +151,76 @@ app.post("/api/summarize", async (req, res) => {
 
 // Those fetch Missings .
 app.post("/api/workers/readme", async (req, res) => {
-  try {
-    readmeWorkerService.updateMissingReadmes().catch(console.error);
-    res.json({ message: "Background job: Fetching missing READMEs started." });
-  } catch (e: any) { res.status(500).json({ error: e.message }); }
+  await enqueueAndRespond(res, 'readme_missing', "Background job: Fetching missing READMEs queued.");
 });
 
 app.post("/api/workers/activity", async (req, res) => {
-  try {
-    commitActivityWorkerService.updateMissingCommitActivity().catch(console.error);
-    res.json({ message: "Background job: Fetching missing Commit Activity started." });
-  } catch (e: any) { res.status(500).json({ error: e.message }); }
+  await enqueueAndRespond(res, 'activity_missing', "Background job: Fetching missing Commit Activity queued.");
 });
 
 app.post("/api/workers/contributors", async (req, res) => {
-  try {
-    contributorsWorkerService.updateMissingContributors().catch(console.error);
-    res.json({ message: "Background job: Fetching missing Contributors started." });
-  } catch (e: any) { res.status(500).json({ error: e.message }); }
+  await enqueueAndRespond(res, 'contributors_missing', "Background job: Fetching missing Contributors queued.");
 });
 
+// ?mode=deep: also fills additions / deletions / files changed (and back-fills commits saved without them)
 app.post("/api/workers/commits", async (req, res) => {
-  try {
-    commitsWorkerService.updateMissingRecentCommits().catch(console.error);
-    res.json({ message: "Background job: Fetching missing Recent Commits started." });
-  } catch (e: any) { res.status(500).json({ error: e.message }); }
+  if (req.query.mode === 'deep') {
+    return enqueueAndRespond(res, 'commits_missing', "Background job: Deep-fetching Recent Commits with stats queued.", { mode: 'deep' });
+  }
+  await enqueueAndRespond(res, 'commits_missing', "Background job: Fetching missing Recent Commits queued.");
+});
+
+// Recent issues & PRs -> close / merge times, first response, PR backlog, external merge ratio
+app.post("/api/workers/issues", async (req, res) => {
+  await enqueueAndRespond(res, 'issues_analytics', "Background job: Issue & Pull Request analytics queued.");
+});
+
+app.post("/api/workers/releases", async (req, res) => {
+  await enqueueAndRespond(res, 'releases_missing', "Background job: Fetching missing Release histories queued.");
+});
+
+app.post("/api/workers/dependencies", async (req, res) => {
+  await enqueueAndRespond(res, 'dependencies_missing', "Background job: Parsing dependency manifests queued.");
+});
+
+// Uses the stored dependencies too: run after /api/workers/dependencies
+app.post("/api/workers/tech-stack", async (req, res) => {
+  await enqueueAndRespond(res, 'tech_stack_missing', "Background job: Tech-stack fingerprinting queued.");
+});
+
+// Resolves every repository by github_id: renames / transfers update the name, deleted or private ones leave the lists
+app.post("/api/workers/reconcile", async (req, res) => {
+  await enqueueAndRespond(res, 'repos_reconcile', "Background job: Repository reconciliation queued.");
 });
 
 
 app.post('/fetch-growing', async (req, res) => {
-  try {
-    await githubService.SaveGrowingRepositories();
-    res.status(202).json({ message: "Growing Repositories Fetch Started." });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
+  await enqueueAndRespond(res, 'sync_growing', "Growing Repositories Fetch Queued.");
 });
 
 app.post('/fetch-trending', async (req, res) => {
-  try {
-    await githubService.SaveTrendingRepositories();
-    res.status(202).json({ message: "Trending Repositories Fetch Started." });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
+  await enqueueAndRespond(res, 'sync_trending', "Trending Repositories Fetch Queued.");
 });
 
+// ?mode=incremental only re-fetches repos changed since their last sync
 app.post("/api/sync/quick", async (req, res) => {
-  try {
-    githubService.syncQuick(); // Non-blocking
-    res.status(202).json({ message: "Quick sync started successfully." });
-  } catch (error: any) {
-    console.error("❌ Quick sync trigger error:", error);
-    res.status(500).json({ error: "Failed to start quick sync", details: error.message });
-  }
+  const mode = req.query.mode === 'incremental' ? 'incremental' : 'full';
+  await enqueueAndRespond(res, 'sync_quick', `Quick ${mode} sync queued successfully.`, { mode });
 });
 
+// Crawls past the 1000-result search cap: ?target=50000 repos, ?reset=true restarts the saved frontier
 app.post("/api/sync/comprehensive", async (req, res) => {
-  try {
-    githubService.syncComprehensive(); // Non-blocking
-    res.status(202).json({ message: "Comprehensive sync started successfully." });
-  } catch (error: any) {
-    console.error("❌ Comprehensive sync trigger error:", error);
-    res.status(500).json({ error: "Failed to start comprehensive sync", details: error.message });
-  }
+  const mode = req.query.mode === 'incremental' ? 'incremental' : 'full';
+  const target = parseInt(req.query.target as string) || undefined;
+  const reset = req.query.reset === 'true';
+  await enqueueAndRespond(res, 'sync_comprehensive', `Comprehensive ${mode} sync queued successfully.`, { mode, target, reset });
+});
+
+// Language/topic top lists from constants/topLists.ts; ?list=top_lang_rust syncs a single one
+app.post("/api/sync/top-lists", async (req, res) => {
+  const list = req.query.list as string | undefined;
+  if (list && !topListSyncService.findByCategory(list)) return res.status(400).json({ error: "Unknown top list" });
+  await enqueueAndRespond(res, 'sync_top_lists', list ? `Top list ${list} sync queued.` : "Top lists sync queued.", { list });
 });
 
 // =============================================================================
@@ -196,105 +228,241 @@ app.post("/api/sync/comprehensive", async (req, res) => {
 // =============================================================================
 
 app.post("/api/developers/fetch", async (req, res) => {
+  const { username } = req.body;
+  if (!username) return res.status(400).json({ error: "Username is required" });
+  await enqueueAndRespond(res, 'developer_fetch', `Fetch of ${username} queued.`, { username });
+});
+
+app.post("/api/workers/scout", async (req, res) => {
+  await enqueueAndRespond(res, 'developers_scout', "Global Developer Scouting Mission Queued.");
+});
+
+// Opt-in: crawls follow edges among indexed developers, then recomputes influence and communities
+app.post("/api/workers/follow-graph", async (req, res) => {
+  const limit = parseInt(req.query.limit as string);
+  await enqueueAndRespond(
+    res, 'developers_follow_graph', "Follower graph crawl queued.",
+    Number.isFinite(limit) && limit > 0 ? { limit } : {}
+  );
+});
+
+app.post("/api/orgs/fetch", async (req, res) => {
+  const { login } = req.body;
+  if (!login) return res.status(400).json({ error: "Login is required" });
+  await enqueueAndRespond(res, 'org_fetch', `Fetch of organization ${login} queued.`, { login });
+});
+
+// New organizations (owners of indexed repos, scouted orgs) and the ones not refreshed for a week
+app.post("/api/workers/organizations", async (req, res) => {
+  await enqueueAndRespond(res, 'orgs_sync', "Organizations sync queued.");
+});
+
+app.post("/api/fetch/oussama", async (req, res) => {
+  await enqueueAndRespond(res, 'developer_fetch', "RakaOran Developer Scouting Mission Queued.", { username: "rakaoran" });
+});
+
+// =============================================================================
+// 3. WORKER TRIGGERS (Background Jobs)
+// =============================================================================
+
+// CONTRIBUTORS
+app.post("/api/workers/update-contributors", async (req, res) => {
+  const mode = req.query.mode === 'all' ? 'all' : 'missing';
+  const message = mode === 'all' ? `Queued refreshing ALL contributors.` : `Queued fetching MISSING contributors.`;
+  await enqueueAndRespond(res, 'worker_contributors', message, { mode });
+});
+
+// COMMIT ACTIVITY
+app.post("/api/workers/update-commit-activity", async (req, res) => {
+  const mode = req.query.mode === 'all' ? 'all' : 'missing';
+  const message = mode === 'all' ? `Queued refreshing ALL commit activity.` : `Queued fetching MISSING commit activity.`;
+  await enqueueAndRespond(res, 'worker_commit_activity', message, { mode });
+});
+
+// RECENT COMMITS
+app.post("/api/workers/update-recent-activity", async (req, res) => {
+  const mode = req.query.mode === 'all' ? 'all' : 'missing';
+  const message = mode === 'all' ? `Queued refreshing ALL recent commits.` : `Queued fetching MISSING recent commits.`;
+  await enqueueAndRespond(res, 'worker_recent_commits', message, { mode });
+});
+
+// MASTER RUNNER
+app.post("/api/workers/run-all", async (req, res) => {
+  const mode = req.query.mode === 'all' ? 'all' : 'missing';
+  await enqueueAndRespond(res, 'worker_run_all', `All background jobs queued (Force All: ${mode === 'all'})`, { mode });
+});
+
+app.post("/api/workers/runByOrder", async (req, res) => {
+  await enqueueAndRespond(res, 'worker_run_by_order', `runReposOneByOne queued`);
+});
+
+// Recompute stars/forks growth + acceleration from repository_snapshots
+app.post("/api/workers/growth-metrics", async (req, res) => {
+  await enqueueAndRespond(res, 'metrics_growth', "Growth metrics computation queued.");
+});
+
+// Rescore the repositories scored by an older health model (or not rescored for a day)
+app.post("/api/workers/health-scores", async (req, res) => {
+  await enqueueAndRespond(res, 'metrics_health', "Health score recomputation queued.");
+});
+
+// =============================================================================
+// 3a. SEARCH CRAWLER STATUS
+// =============================================================================
+
+app.get("/api/admin/crawls/:name", async (req, res) => {
   try {
-    const { username } = req.body;
-    if (!username) return res.status(400).json({ error: "Username is required" });
-    await developerWorkerService.fetchSpecificDeveloper(username);
-    res.status(200).json({ message: `Successfully fetched ${username}.` });
+    const status = await topRepoCrawlerService.getStatus(req.params.name);
+    if (!status) return res.status(404).json({ error: "Crawl not found" });
+    res.json(status);
   } catch (error: any) {
-    console.error("Error manual fetch:", error);
-    res.status(500).json({ error: "Failed to fetch developer" });
+    console.error("❌ Failed to read crawl status:", error);
+    res.status(500).json({ error: "Failed to read crawl status" });
   }
 });
 
-app.post("/api/workers/scout", async (req, res) => {
+// =============================================================================
+// 3b. JOB STATUS
+// =============================================================================
+
+app.get("/api/jobs", async (req, res) => {
   try {
-    developerWorkerService.runAllMissions();
-    res.status(202).json({ message: "Global Developer Scouting Mission Started." });
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const status = req.query.status as JobStatus | undefined;
+    const jobs = await jobQueueService.listJobs(limit, status);
+    res.json({ data: jobs });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Error listing jobs:', error);
+    res.status(500).json({ error: "Failed to list jobs" });
   }
 });
 
-app.post("/api/fetch/oussama", async (req, res) => {
+app.get("/api/jobs/:id", async (req, res) => {
   try {
-    await developerWorkerService.fetchSpecificDeveloper("rakaoran");
-    res.status(202).json({ message: "RakaOran Developer Scouting Mission Started." });
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) return res.status(400).json({ error: "Invalid job id" });
+
+    const job = await jobQueueService.getJob(jobId);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    res.json(job);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Error fetching job:', error);
+    res.status(500).json({ error: "Failed to fetch job" });
   }
 });
 
-// =============================================================================
-// 3. WORKER TRIGGERS (Background Jobs)
-// =============================================================================
+// Server-Sent Events: pushes the job row on every progress/status change until it finishes
+app.get("/api/jobs/:id/events", async (req, res) => {
+  const jobId = parseInt(req.params.id);
+  if (isNaN(jobId)) return res.status(400).json({ error: "Invalid job id" });
 
-// CONTRIBUTORS
-app.post("/api/workers/update-contributors", async (req, res) => {
-  const mode = req.query.mode as string;
   try {
-    if (mode === 'all') {
-        await workerService.updateAllContributors();
-        res.status(202).json({ message: `Started refreshing ALL contributors.` });
-    } else {
-        await workerService.updateMissingContributors();
-        res.status(202).json({ message: `Started fetching MISSING contributors.` });
-    }
+    const job = await jobQueueService.getJob(jobId);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    const isFinished = (status: string) => ['completed', 'failed', 'cancelled'].includes(status);
+    const send = (payload: any) => res.write(`event: job\ndata: ${JSON.stringify(payload)}\n\n`);
+
+    send(job);
+    if (isFinished(job.status)) return res.end();
+
+    const channel = `job:${jobId}`;
+    const onUpdate = (updated: any) => {
+      send(updated);
+      if (isFinished(updated.status)) cleanup();
+    };
+    // Keeps proxies (nginx) from closing an idle stream during slow items
+    const keepAlive = setInterval(() => res.write(`: ping\n\n`), 20000);
+    const cleanup = () => {
+      clearInterval(keepAlive);
+      jobQueueService.events.off(channel, onUpdate);
+      res.end();
+    };
+
+    jobQueueService.events.on(channel, onUpdate);
+    req.on('close', cleanup);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Error streaming job:', error);
+    if (!res.headersSent) res.status(500).json({ error: "Failed to stream job" });
+    else res.end();
   }
 });
 
-// COMMIT ACTIVITY
-app.post("/api/workers/update-commit-activity", async (req, res) => {
-  const mode = req.query.mode as string;
+app.post("/api/jobs/:id/cancel", async (req, res) => {
   try {
-    if (mode === 'all') {
-        await workerService.updateAllCommitActivity();
-        res.status(202).json({ message: `Started refreshing ALL commit activity.` });
-    } else {
-        await workerService.updateMissingCommitActivity();
-        res.status(202).json({ message: `Started fetching MISSING commit activity.` });
+    const jobId = parseInt(req.params.id);
+    if (isNaN(jobId)) return res.status(400).json({ error: "Invalid job id" });
+
+    const job = await jobQueueService.cancelJob(jobId);
+    if (!job) return res.status(404).json({ error: "Job not found" });
+    if (!job.cancel_requested) {
+      return res.status(409).json({ error: `Job already ${job.status}`, job });
     }
+    res.status(202).json({ message: "Cancellation requested.", job });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Error cancelling job:', error);
+    res.status(500).json({ error: "Failed to cancel job" });
   }
 });
 
-// RECENT COMMITS
-app.post("/api/workers/update-recent-activity", async (req, res) => {
-  const mode = req.query.mode as string;
+// =============================================================================
+// 3b-2. SCHEDULES
+// =============================================================================
+
+// Every cron schedule with its pause flag, last / next run and the job it last enqueued
+app.get("/api/admin/schedules", async (req, res) => {
   try {
-    if (mode === 'all') {
-        await workerService.updateAllRecentCommits();
-        res.status(202).json({ message: `Started refreshing ALL recent commits.` });
-    } else {
-        await workerService.updateMissingRecentCommits();
-        res.status(202).json({ message: `Started fetching MISSING recent commits.` });
-    }
+    res.json({ data: await scheduler.getStatus() });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Error listing schedules:', error);
+    res.status(500).json({ error: "Failed to list schedules" });
   }
 });
 
-// MASTER RUNNER
-app.post("/api/workers/run-all", async (req, res) => {
-  const mode = req.query.mode as string;
+app.post("/api/admin/schedules/:name/:action(pause|resume)", async (req, res) => {
   try {
-    const forceAll = mode === 'all';
-    workerService.runAllJobs(forceAll); 
-    res.status(202).json({ message: `All background jobs started (Force All: ${forceAll})` });
+    const found = await scheduler.setPaused(req.params.name, req.params.action === 'pause');
+    if (!found) return res.status(404).json({ error: "Schedule not found" });
+    res.json({ message: `Schedule ${req.params.name} ${req.params.action === 'pause' ? 'paused' : 'resumed'}.` });
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    console.error('Error updating schedule:', error);
+    res.status(500).json({ error: "Failed to update schedule" });
   }
 });
 
-app.post("/api/workers/runByOrder", async (req, res) => {
+// =============================================================================
+// 3c. GITHUB TOKEN POOL
+// =============================================================================
+
+// Health + per-bucket budgets of every pooled token (tokens are masked)
+app.get("/api/admin/github/tokens", (req, res) => {
+  const tokens = githubClient.getStatus();
+  res.json({
+    total: tokens.length,
+    healthy: tokens.filter(t => t.health === 'healthy').length,
+    revoked: tokens.filter(t => t.health === 'revoked').length,
+    data: tokens,
+  });
+});
+
+// =============================================================================
+// 3d. ENRICHMENT FETCH STATE
+// =============================================================================
+
+// Per facet (readme, contributors, ...) counts by status, for spotting facets stuck in retries
+app.get("/api/admin/fetch-state", async (req, res) => {
   try {
-    workerService.runReposOneByOne(); 
-    res.status(202).json({ message: `runReposOneByOne started` });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.json({ data: await fetchStateService.getSummary() });
+  } catch (err: any) {
+    console.error('Error fetching fetch state:', err);
+    res.status(500).json({ error: "Failed to fetch fetch state" });
   }
 });
 
@@ -446,7 +614,13 @@ app.get("/api/developers/:login/details", async (req, res) => {
             ) ORDER BY t.stars_count DESC
           ) FILTER (WHERE t.id IS NOT NULL), 
           '[]'
-        ) as top_repos
+        ) as top_repos,
+        -- Last year's calendar for the heatmap
+        COALESCE((
+          SELECT json_agg(json_build_object('date', c.contribution_date, 'count', c.contribution_count) ORDER BY c.contribution_date)
+          FROM developer_contribution_days c
+          WHERE c.developer_github_id = d.github_id
+        ), '[]') as contribution_calendar
       FROM developers d
       LEFT JOIN developer_top_repos t ON d.id = t.developer_id
       WHERE d.login = $1
@@ -461,19 +635,154 @@ app.get("/api/developers/:login/details", async (req, res) => {
   }
 });
 
+// Influence in the follower graph + "influential in the network", "followed together", "you may also like"
+app.get("/api/developers/:login/network", async (req, res) => {
+  try {
+    const { rows } = await pool.query(`SELECT github_id FROM developers WHERE login = $1`, [req.params.login]);
+    if (rows.length === 0) return res.status(404).json({ error: "Developer not found" });
+    res.json(await followGraphWorkerService.getNetwork(rows[0].github_id));
+  } catch (err) {
+    console.error('Error fetching developer network:', err);
+    res.status(500).json({ error: "Failed to fetch developer network" });
+  }
+});
+
+// ORGANIZATION ENDPOINTS
+
+// GET /api/orgs (Search, language filter, sort & cursor pagination)
+app.get("/api/orgs", async (req, res) => {
+  try {
+    const { q, language, sort = "stars", limit = 30, cursor } = req.query;
+    const sortColumns: Record<string, string> = {
+      stars: "o.total_stars",
+      members: "o.members_count",
+      repos: "o.public_repos_count",
+    };
+    const sortColumn = sortColumns[sort as string] || sortColumns.stars;
+    const limitNum = Math.min(parseInt(limit as string) || 30, 100);
+
+    let where: string[] = [];
+    let params: any[] = [];
+    let idx = 1;
+
+    if (q) {
+      where.push(`(o.login ILIKE $${idx} OR o.name ILIKE $${idx} OR o.description ILIKE $${idx})`);
+      params.push(`%${q}%`);
+      idx++;
+    }
+
+    if (language) {
+      where.push(`o.language_mix @> jsonb_build_array(jsonb_build_object('language', $${idx}::text))`);
+      params.push(language);
+      idx++;
+    }
+
+    if (cursor) {
+      try {
+        const decoded = JSON.parse(Buffer.from(cursor as string, 'base64').toString('ascii'));
+        where.push(`(${sortColumn}, o.id) < ($${idx}, $${idx + 1})`);
+        params.push(decoded.v, decoded.i);
+        idx += 2;
+      } catch (e) { /* ignore invalid cursor */ }
+    }
+
+    const whereSQL = where.length ? "WHERE " + where.join(" AND ") : "";
+    params.push(limitNum);
+
+    const { rows } = await pool.query(`
+      SELECT o.id, o.github_id, o.login, o.name, o.description, o.avatar_url, o.location, o.is_verified,
+             o.members_count, o.public_repos_count, o.total_stars, o.total_forks,
+             o.language_mix, o.activity, o.last_fetched,
+             ${sortColumn} AS sort_value
+      FROM organizations o
+      ${whereSQL}
+      ORDER BY ${sortColumn} DESC, o.id DESC
+      LIMIT $${idx}
+    `, params);
+
+    let nextCursor = null;
+    if (rows.length === limitNum) {
+      const lastItem = rows[rows.length - 1];
+      nextCursor = Buffer.from(JSON.stringify({ v: lastItem.sort_value, i: lastItem.id })).toString('base64');
+    }
+
+    res.json({ data: rows.map(({ sort_value, ...org }) => org), nextCursor });
+  } catch (err) {
+    console.error("Error fetching organizations:", err);
+    res.status(500).json({ error: "Failed to fetch organizations" });
+  }
+});
+
+app.get("/api/orgs/:login", async (req, res) => {
+  try {
+    const { rows } = await pool.query(`SELECT * FROM organizations WHERE LOWER(login) = LOWER($1)`, [req.params.login]);
+    if (rows.length === 0) return res.status(404).json({ error: "Organization not found" });
+    const org = rows[0];
+
+    // The org's repositories we have analyses for (linkable), on top of its GitHub-wide top_repos
+    const indexedResult = await pool.query(`
+      SELECT r.id, r.full_name, r.name, r.description, r.stars_count, r.forks_count, r.language, r.pushed_at,
+             rs.health_score
+      FROM repositories r
+      LEFT JOIN repository_stats rs ON rs.repo_github_id = r.github_id
+      WHERE LOWER(r.owner_login) = LOWER($1) AND r.upstream_status = 'active'
+      ORDER BY r.stars_count DESC
+      LIMIT 12
+    `, [org.login]);
+
+    const snapshotsResult = await pool.query(`
+      SELECT snapshot_date, total_stars, total_forks, public_repos_count, members_count
+      FROM organization_snapshots
+      WHERE org_github_id = $1 AND snapshot_date >= CURRENT_DATE - 180
+      ORDER BY snapshot_date ASC
+    `, [org.github_id]);
+
+    // Stars gained since the last snapshot at least `days` old (null until there is one)
+    const snapshots = snapshotsResult.rows;
+    const latest = snapshots[snapshots.length - 1];
+    const starsGained = (days: number) => {
+      const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+      const base = [...snapshots].reverse().find(s => new Date(s.snapshot_date).getTime() <= cutoff);
+      return latest && base ? latest.total_stars - base.total_stars : null;
+    };
+
+    res.json({
+      ...org,
+      indexed_repos: indexedResult.rows,
+      trends: {
+        stars_gained_7d: starsGained(7),
+        stars_gained_30d: starsGained(30),
+        snapshots,
+      },
+    });
+  } catch (err) {
+    console.error('Error fetching organization details:', err);
+    res.status(500).json({ error: "Failed to fetch organization details" });
+  }
+});
+
 // REPOSITORY ENDPOINTS (Unified)
 
+const FILTER_PAGE_SIZE = 100;
+
 app.get("/api/repos/filter", async (req, res) => {
   try {
-    const { q, language, topic, min_stars, sort_by, source } = req.query;
+    const { q, language, topic, min_stars, sort_by, source, tech } = req.query;
+    const lastStars = req.query.lastStars ? parseInt(req.query.lastStars as string) : null;
+    const lastId = req.query.lastId ? parseInt(req.query.lastId as string) : null;
     const searchText = q ? `%${q}%` : null;
+    // ?tech=nextjs,docker: every listed id must be in the repo's tech_stack
+    const techIds = tech ? String(tech).split(',').map(id => id.trim()).filter(Boolean) : [];
     
     // Base filters
     const whereClauses = [
       `($1::text IS NULL OR r.name ILIKE $1 OR r.description ILIKE $1 OR r.readme_snippet ILIKE $1)`,
       `($2::text IS NULL OR r.language = $2)`,
       `($3::text IS NULL OR $3 = ANY(r.topics))`,
-      `r.stars_count >= $4`
+      `r.stars_count >= $4`,
+      `($5::jsonb IS NULL OR r.tech_stack @> $5::jsonb)`,
+      // Deleted, private or DMCA-blocked upstream: out of every list, searches included
+      `r.upstream_status = 'active'`
     ];
     
     let category = 'top';
@@ -490,19 +799,21 @@ app.get("/api/repos/filter", async (req, res) => {
       // Strict Mapping for Trends + CRITICAL SORT LOGIC FIX
       else if (s === 'trending_weekly') {
         category = 'trending_weekly';
-        // Sort by 7-day growth, NOT total stars. NULLS LAST puts repos with 0 growth at the bottom.
-        orderByClause = `rs.stars_growth_7d DESC NULLS LAST`; 
+        // Sort by composite trend score (then 7-day growth), NOT total stars. NULLS LAST puts unscored repos at the bottom.
+        orderByClause = `rs.trend_score_7d DESC NULLS LAST, rs.stars_growth_7d DESC NULLS LAST`; 
       }
       else if (s === 'trending_monthly') {
         category = 'trending_monthly';
-        orderByClause = `rs.stars_growth_30d DESC NULLS LAST`; 
+        orderByClause = `rs.trend_score_30d DESC NULLS LAST, rs.stars_growth_30d DESC NULLS LAST`; 
       }
       else if (s === 'trending_quarterly') {
         category = 'trending_quarterly';
-        orderByClause = `rs.stars_growth_90d DESC NULLS LAST`; 
+        orderByClause = `rs.trend_score_90d DESC NULLS LAST, rs.stars_growth_90d DESC NULLS LAST`; 
       }
       
       else if (['stub', 'complete'].includes(s)) category = s;
+      // Language/topic top lists (tags come from constants/topLists.ts, never from the request)
+      else if (topListSyncService.findByCategory(s)) category = s;
       
       whereClauses.push(`'${category}' = ANY(r.categories)`);
     }
@@ -514,6 +825,24 @@ app.get("/api/repos/filter", async (req, res) => {
         else if (sort_by === 'forks') orderByClause = `r.forks_count DESC`;
     }
 
+    const params: any[] = [
+      searchText, 
+      language, 
+      topic, 
+      min_stars ? parseInt(String(min_stars)) : 0,
+      techIds.length > 0 ? JSON.stringify(techIds.map(id => ({ id }))) : null
+    ];
+
+    // Category lists sorted by stars page with the same cursor as /api/repos/top (top lists hold up to 500)
+    const paginated = Boolean(source) && orderByClause === `r.stars_count DESC`;
+    if (paginated) {
+      orderByClause = `r.stars_count DESC, r.id DESC`;
+      if (lastStars !== null && lastId !== null) {
+        whereClauses.push(`(r.stars_count, r.id) < ($6, $7)`);
+        params.push(lastStars, lastId);
+      }
+    }
+
     const whereClause = whereClauses.join(' AND ');
     
     const queryText = `
@@ -521,22 +850,24 @@ app.get("/api/repos/filter", async (req, res) => {
         r.*, 
         rs.days_since_last_commit, rs.activity_score, rs.health_score,
         rs.commits_last_year, rs.latest_release_tag, rs.total_releases,
-        rs.stars_growth_7d, rs.stars_growth_30d, rs.stars_growth_90d -- Return growth stats
+        rs.stars_growth_7d, rs.stars_growth_30d, rs.stars_growth_90d, -- Return growth stats
+        rs.trend_score_7d, rs.trend_score_30d, rs.trend_score_90d, rs.trend_signals -- Why it's trending
       FROM repositories r
       LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
       WHERE ${whereClause}
       ORDER BY ${orderByClause}
-      LIMIT 100
+      LIMIT ${FILTER_PAGE_SIZE}
     `;
     
-    const { rows } = await pool.query(queryText, [
-      searchText, 
-      language, 
-      topic, 
-      min_stars ? parseInt(String(min_stars)) : 0
-    ]);
+    const { rows } = await pool.query(queryText, params);
+
+    const hasMore = paginated && rows.length === FILTER_PAGE_SIZE;
+    const nextCursor = hasMore ? {
+      lastStars: rows[rows.length - 1].stars_count,
+      lastId: rows[rows.length - 1].id
+    } : null;
     
-    res.json({ data: rows });
+    res.json({ data: rows, nextCursor, hasMore });
   } catch (err) {
     console.error('Search error:', err);
     res.status(500).json({ error: "Search failed" });
@@ -629,17 +960,23 @@ app.get("/api/repos/search", async (req, res) => {
     const fullName = req.query.full_name as string;
     if (!fullName) return res.status(400).json({ error: "full_name parameter is required" });
 
+    // Former names resolve too: the client redirects when full_name differs from what it asked for
+    const githubId = await repositoryReconciliationService.resolveFullName(fullName);
+    if (!githubId) return res.status(404).json({ error: "Repository not found" });
+
     const query = `
       SELECT r.*, rs.health_score, rs.activity_score
       FROM repositories r
       LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.full_name = $1
-      LIMIT 1
+      WHERE r.github_id = $1
     `;
     
-    const { rows } = await pool.query(query, [fullName]);
+    const { rows } = await pool.query(query, [githubId]);
     if (rows.length === 0) return res.status(404).json({ error: "Repository not found" });
-    res.json(rows[0]);
+    res.json({
+      ...rows[0],
+      redirected_from: rows[0].full_name.toLowerCase() === fullName.toLowerCase() ? null : fullName,
+    });
   } catch (err) {
     console.error('Error searching repository:', err);
     res.status(500).json({ error: "Failed to search repository" });
@@ -657,9 +994,12 @@ app.get("/api/repos/:id/details", async (req, res) => {
         rs.commits_last_month, rs.commits_last_year,
         rs.issues_closed_last_month, rs.pull_requests_merged_last_month,
         rs.stars_growth_30d, rs.forks_growth_30d, rs.contributors_count,
-        rs.activity_score, rs.health_score,
+        rs.activity_score, rs.health_score, rs.health_score_version, rs.health_breakdown,
         rs.avg_issue_close_time_days, rs.avg_pr_merge_time_days,
-        rs.days_since_last_commit, rs.latest_release_tag, rs.total_releases
+        rs.first_response_time_hours, rs.open_pull_requests_count, rs.open_pr_backlog_age_days,
+        rs.external_pr_merge_ratio, rs.issues_calculated_at,
+        rs.days_since_last_commit, rs.latest_release_tag, rs.total_releases, rs.release_cadence_days,
+        rs.trend_score_7d, rs.trend_score_30d, rs.trend_score_90d, rs.trend_signals
       FROM repositories r
       LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
       WHERE r.id = $1
@@ -677,10 +1017,22 @@ app.get("/api/repos/:id/details", async (req, res) => {
       WHERE repo_github_id = $1
       ORDER BY percentage DESC
     `, [githubId]);
+
+    // Full README; the source text is only sent when GitHub didn't render it
+    const readmeResult = await pool.query(`
+      SELECT path, file_name, format, size_bytes, html,
+             CASE WHEN html IS NULL THEN content END AS content,
+             sections, badges, fetched_at
+      FROM repository_readmes
+      WHERE repo_github_id = $1
+    `, [githubId]);
     
     res.json({
       ...repository,
       languages: languagesResult.rows,
+      readme: readmeResult.rows[0] || null,
+      fetch_state: await fetchStateService.getStates(githubId),
+      aliases: await repositoryReconciliationService.getAliases(githubId),
     });
     
   } catch (err) {
@@ -753,6 +1105,113 @@ app.get("/api/repos/:id/commits", async (req, res) => {
   }
 });
 
+// Release history, newest first (release notes only with ?notes=true, they can be long)
+app.get("/api/repos/:id/releases", async (req, res) => {
+  try {
+    const localId = parseInt(req.params.id);
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    const withNotes = req.query.notes === 'true';
+    const githubId = await getGithubIdFromLocal(localId);
+    if (!githubId) return res.status(404).json({ error: "Repository not found" });
+
+    const [releases, stats] = await Promise.all([
+      pool.query(
+        `SELECT tag_name, name, published_at, created_at, is_prerelease, is_latest,
+                author_login, html_url${withNotes ? ', body' : ''}
+         FROM repository_releases
+         WHERE repo_github_id = $1
+         ORDER BY published_at DESC NULLS LAST
+         LIMIT $2`,
+        [githubId, limit]
+      ),
+      pool.query(
+        `SELECT total_releases, latest_release_tag, latest_release_date, release_cadence_days
+         FROM repository_stats WHERE repo_github_id = $1`,
+        [githubId]
+      ),
+    ]);
+
+    res.json({
+      data: releases.rows,
+      total_releases: stats.rows[0]?.total_releases ?? releases.rowCount,
+      latest_release_tag: stats.rows[0]?.latest_release_tag ?? null,
+      latest_release_date: stats.rows[0]?.latest_release_date ?? null,
+      release_cadence_days: stats.rows[0]?.release_cadence_days ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching releases:', error);
+    res.status(500).json({ error: 'Failed to fetch releases' });
+  }
+});
+
+// Dependency graph: manifests found, what the repo depends on (linked to indexed repos where
+// possible) and which indexed repos depend on it
+app.get("/api/repos/:id/dependencies", async (req, res) => {
+  try {
+    const localId = parseInt(req.params.id);
+    const usedByLimit = Math.min(parseInt(req.query.used_by_limit as string) || 50, 500);
+    const githubId = await getGithubIdFromLocal(localId);
+    if (!githubId) return res.status(404).json({ error: "Repository not found" });
+
+    const [manifests, dependsOn, usedBy] = await Promise.all([
+      dependenciesWorkerService.getManifests(githubId),
+      dependenciesWorkerService.getDependsOn(githubId),
+      dependenciesWorkerService.getUsedBy(githubId, usedByLimit),
+    ]);
+
+    res.json({
+      manifests,
+      depends_on: dependsOn,
+      used_by: usedBy.data,
+      used_by_count: usedBy.total,
+    });
+  } catch (error) {
+    console.error('Error fetching dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch dependencies' });
+  }
+});
+
+// Tech-stack ids accepted by /api/repos/filter?tech=, with how many repos each was found in
+app.get('/api/tech-stack', async (req, res) => {
+  try {
+    const { rows } = await pool.query(
+      `SELECT entry->>'id' AS id, COUNT(*)::int AS count
+       FROM repositories, jsonb_array_elements(tech_stack) AS entry
+       WHERE upstream_status = 'active' -- Same scope as /api/repos/filter
+       GROUP BY entry->>'id'`
+    );
+    const counts = new Map(rows.map(row => [row.id, row.count]));
+
+    res.json({
+      data: TECH_RULES.map(({ id, label, category }) => ({ id, label, category, repo_count: counts.get(id) || 0 })),
+      categories: TECH_CATEGORY_LABELS,
+    });
+  } catch (err) {
+    console.error('Failed to fetch tech stack options:', err);
+    res.status(500).json({ error: "Failed to fetch tech stack options" });
+  }
+});
+
+// Available language/topic top lists + how many repos each currently holds
+app.get('/api/top-lists', async (req, res) => {
+  try {
+    const lists = topListSyncService.getLists().map(list => ({ ...list, category: topListCategory(list) }));
+    const { rows } = await pool.query(
+      `SELECT tag, COUNT(*)::int AS count
+       FROM repositories, unnest(categories) AS tag
+       WHERE tag = ANY($1)
+       GROUP BY tag`,
+      [lists.map(list => list.category)]
+    );
+    const counts = new Map(rows.map(row => [row.tag, row.count]));
+
+    res.json({ data: lists.map(list => ({ ...list, repo_count: counts.get(list.category) || 0 })) });
+  } catch (err) {
+    console.error('Failed to fetch top lists:', err);
+    res.status(500).json({ error: 'Failed to fetch top lists' });
+  }
+});
+
 app.get('/api/stats', async (req, res) => {
   try {
     const { rows } = await pool.query(`
@@ -799,12 +1258,22 @@ app.listen(port, () => {
   generateEmbeddingLocal("warmup"); 
   console.log("✅ AI Model Ready.");
 
+  jobQueueService.start(jobHandlers).catch(error => {
+    console.error("❌ Failed to start job runner:", error);
+  });
+
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    scheduler.start().catch(error => {
+      console.error("❌ Failed to start scheduler:", error);
+    });
+  }
+
   if (process.env.SYNC_DATA_ON_STARTUP === 'true') {
     (async () => {
       try {
         const { rows } = await pool.query('SELECT COUNT(*) as count FROM repositories');
         if (parseInt(rows[0].count, 10) === 0) {
-          await githubService.syncQuick();
+          await jobQueueService.enqueue('sync_quick');
         }
       } catch (error) {
         console.error("❌ Error during startup sync check:", error);
@@ -1,5 +1,7 @@
 import { pipeline } from '@xenova/transformers';
 import pool from "../../db.js";
+import { JobReporter } from "../../types/jobModels.js";
+import { noopReporter } from "../jobs/jobProgress.js";
 
 // Singleton to hold the model in memory (so we don't reload it constantly)
 let extractor: any = null;
@@ -22,11 +24,11 @@ export const generateEmbeddingLocal = async (text: string): Promise<number[]> =>
   return Array.from(output.data);
 };
 
-export const embedRepositories = async () => {
+export const embedRepositories = async (reporter: JobReporter = noopReporter) => {
   console.log("🚀 Starting Local Embedding Process...");
   
   // We loop indefinitely until no more work is found
-  while (true) {
+  while (!reporter.isCancelled()) {
     // 1. Fetch 50 repos that still have NULL embeddings
     const { rows } = await pool.query(
       `SELECT id, name, description, topics, readme_snippet 
@@ -41,9 +43,12 @@ export const embedRepositories = async () => {
     }
 
     console.log(`⚡ Processing batch of ${rows.length} repos...`);
+    reporter.addTotal(rows.length);
 
     // Process the batch
     for (const repo of rows) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(repo.name);
       try {
         // 2. Create the "Context String"
         // This is what the AI "reads" to understand your repo
@@ -63,7 +68,9 @@ export const embedRepositories = async () => {
           "UPDATE repositories SET embedding = $1 WHERE id = $2",
           [JSON.stringify(embedding), repo.id]
         );
+        reporter.completeItem();
       } catch (e: any) {
+        reporter.failItem(e.message);
         console.error(`   ❌ Failed to embed ${repo.name}:`, e.message);
       }
     }
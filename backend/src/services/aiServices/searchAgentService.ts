@@ -84,7 +84,7 @@ export const searchIntelligently = async (userQuery: string) => {
       language, topics, updated_at, 
       1 - (embedding <=> $1) as similarity
     FROM repositories
-    WHERE 1=1
+    WHERE upstream_status = 'active' -- Repos gone or blocked upstream never surface
   `;
 
   const params: any[] = [JSON.stringify(queryEmbedding)];
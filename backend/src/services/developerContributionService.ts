@@ -0,0 +1,208 @@
+import { PoolClient } from 'pg';
+import githubClient from './github/githubClient.js';
+import {
+  ActivitySchedule, ContributionDay, ContributionMetrics, ContributionSummary, ContributionYear, RepoContributionCount,
+} from '../types/developerModels.js';
+import { computeContributionMetrics } from './metrics/contributionMetrics.js';
+
+const BY_REPO_COUNT = 10;
+// Years of totals fetched (most recent first); each one is a contributionsCollection alias
+const MAX_YEARS = 10;
+// Repos (most committed to) whose default branch is sampled for commit hours
+const HOUR_SAMPLE_REPOS = 5;
+const HOUR_SAMPLE_COMMITS = 100;
+
+// Selected inside `user { ... }` by the developer query: last year's calendar, totals and per-repo counts
+export const CONTRIBUTIONS_FIELDS = `
+  contributionsCollection {
+    contributionYears
+    totalCommitContributions
+    totalPullRequestContributions
+    totalIssueContributions
+    totalPullRequestReviewContributions
+    restrictedContributionsCount
+    contributionCalendar {
+      totalContributions
+      weeks { contributionDays { date, contributionCount } }
+    }
+    commitContributionsByRepository(maxRepositories: 20) {
+      contributions(first: 1) { totalCount }
+      repository {
+        databaseId, name, nameWithOwner, description, url, stargazerCount, pushedAt, diskUsage
+        owner { login }
+        primaryLanguage { name }
+        repositoryTopics(first: 5) { nodes { topic { name } } }
+      }
+    }
+    pullRequestContributionsByRepository(maxRepositories: ${BY_REPO_COUNT}) {
+      contributions { totalCount }
+      repository { nameWithOwner }
+    }
+    issueContributionsByRepository(maxRepositories: ${BY_REPO_COUNT}) {
+      contributions { totalCount }
+      repository { nameWithOwner }
+    }
+    pullRequestReviewContributionsByRepository(maxRepositories: ${BY_REPO_COUNT}) {
+      contributions { totalCount }
+      repository { nameWithOwner }
+    }
+  }
+`;
+
+const YEAR_TOTALS_FRAGMENT = `
+  fragment YearTotals on ContributionsCollection {
+    totalCommitContributions
+    totalPullRequestContributions
+    totalIssueContributions
+    totalPullRequestReviewContributions
+    contributionCalendar { totalContributions }
+  }
+`;
+
+export interface DeveloperContributions {
+  days: ContributionDay[];
+  summary: ContributionSummary;
+  metrics: ContributionMetrics;
+  schedule: ActivitySchedule;
+}
+
+/**
+ * Contribution calendar and timeline of a developer. The calendar, totals and per-repo counts come
+ * with the developer query (CONTRIBUTIONS_FIELDS); two more requests add the per-year totals and a
+ * sample of commit timestamps for the hour-of-day schedule. Both are best effort: without the
+ * first the summary has no years, without the second the schedule falls back to weekdays.
+ */
+class DeveloperContributionService {
+
+  // ===========================================================================
+  // 1. COLLECTION
+  // ===========================================================================
+
+  // `user` is the developer query's result (needs `id` and CONTRIBUTIONS_FIELDS)
+  public async collect(login: string, user: any): Promise<DeveloperContributions> {
+    const collection = user.contributionsCollection || {};
+    const days: ContributionDay[] = (collection.contributionCalendar?.weeks || [])
+      .flatMap((week: any) => week.contributionDays)
+      .map((day: any) => ({ date: day.date, count: day.contributionCount || 0 }));
+
+    const commitRepos: RepoContributionCount[] = (collection.commitContributionsByRepository || [])
+      .map((c: any) => ({ repo: c.repository.nameWithOwner, count: c.contributions.totalCount }));
+
+    let byYear: ContributionYear[] = [];
+    let commitTimestamps: string[] = [];
+    try {
+      byYear = await this.fetchYearTotals(login, collection.contributionYears || []);
+    } catch (error: any) {
+      console.error(`   ⚠️ Contribution years of ${login} failed:`, error.message);
+    }
+    try {
+      commitTimestamps = await this.fetchCommitTimestamps(user.id, commitRepos.slice(0, HOUR_SAMPLE_REPOS));
+    } catch (error: any) {
+      console.error(`   ⚠️ Commit times of ${login} failed:`, error.message);
+    }
+
+    const summary: ContributionSummary = {
+      total_last_year: collection.contributionCalendar?.totalContributions || 0,
+      commits: collection.totalCommitContributions || 0,
+      pull_requests: collection.totalPullRequestContributions || 0,
+      issues: collection.totalIssueContributions || 0,
+      reviews: collection.totalPullRequestReviewContributions || 0,
+      restricted: collection.restrictedContributionsCount || 0,
+      by_repo: {
+        commits: commitRepos.slice(0, BY_REPO_COUNT),
+        pull_requests: toRepoCounts(collection.pullRequestContributionsByRepository),
+        issues: toRepoCounts(collection.issueContributionsByRepository),
+        reviews: toRepoCounts(collection.pullRequestReviewContributionsByRepository),
+      },
+      by_year: byYear,
+    };
+
+    const { metrics, schedule } = computeContributionMetrics(days, commitTimestamps);
+    return { days, summary, metrics, schedule };
+  }
+
+  // One aliased contributionsCollection per year; years whose alias errored are left out
+  private async fetchYearTotals(login: string, years: number[]): Promise<ContributionYear[]> {
+    const recentYears = [...years].sort((a, b) => b - a).slice(0, MAX_YEARS);
+    if (recentYears.length === 0) return [];
+
+    const variables: Record<string, string> = { login };
+    const declarations: string[] = ['$login: String!'];
+    const yearFields: string[] = [];
+    recentYears.forEach((year, i) => {
+      // A collection spans at most a year; the current one ends now
+      const to = Math.min(Date.UTC(year + 1, 0, 1) - 1000, Date.now());
+      variables[`f${i}`] = new Date(Date.UTC(year, 0, 1)).toISOString();
+      variables[`t${i}`] = new Date(to).toISOString();
+      declarations.push(`$f${i}: DateTime!, $t${i}: DateTime!`);
+      yearFields.push(`y${i}: contributionsCollection(from: $f${i}, to: $t${i}) { ...YearTotals }`);
+    });
+
+    const query = `
+      query ContributionYears(${declarations.join(', ')}) {
+        user(login: $login) { ${yearFields.join('\n          ')} }
+      }
+      ${YEAR_TOTALS_FRAGMENT}
+    `;
+    const { data } = await githubClient.graphqlPartial<{ user: Record<string, any> | null }>(query, variables);
+
+    const byYear: ContributionYear[] = [];
+    recentYears.forEach((year, i) => {
+      const totals = data?.user?.[`y${i}`];
+      if (!totals) return;
+      byYear.push({
+        year,
+        total: totals.contributionCalendar?.totalContributions || 0,
+        commits: totals.totalCommitContributions || 0,
+        pull_requests: totals.totalPullRequestContributions || 0,
+        issues: totals.totalIssueContributions || 0,
+        reviews: totals.totalPullRequestReviewContributions || 0,
+      });
+    });
+    return byYear.sort((a, b) => a.year - b.year);
+  }
+
+  // Authored dates of their last year of commits on the default branch of the given repos
+  private async fetchCommitTimestamps(userId: string, repos: RepoContributionCount[]): Promise<string[]> {
+    if (repos.length === 0) return [];
+    const histories = await githubClient.batchRepositoryQuery(
+      repos.map(repo => repo.repo),
+      `defaultBranchRef { target { ... on Commit {
+        history(first: ${HOUR_SAMPLE_COMMITS}, since: $since, author: {id: $userId}) { nodes { authoredDate } }
+      } } }`,
+      {
+        operationName: 'ContributionCommitTimes',
+        variables: { userId, since: new Date(Date.now() - 365 * 86400000).toISOString() },
+        declarations: ['$userId: ID!', '$since: GitTimestamp!'],
+      }
+    );
+
+    return [...histories.values()].flatMap(repo =>
+      (repo?.defaultBranchRef?.target?.history?.nodes || []).map((node: any) => node.authoredDate as string)
+    );
+  }
+
+  // ===========================================================================
+  // 2. WRITES
+  // ===========================================================================
+
+  // Replaces the stored calendar; call inside the developer's save transaction
+  public async saveDays(client: PoolClient, developerGithubId: number | string, days: ContributionDay[]): Promise<void> {
+    await client.query(`DELETE FROM developer_contribution_days WHERE developer_github_id = $1`, [developerGithubId]);
+    if (days.length === 0) return;
+    await client.query(
+      `INSERT INTO developer_contribution_days (developer_github_id, contribution_date, contribution_count)
+       SELECT $1::bigint, d.date, d.count
+       FROM UNNEST($2::date[], $3::int[]) AS d(date, count)`,
+      [developerGithubId, days.map(day => day.date), days.map(day => day.count)]
+    );
+  }
+}
+
+function toRepoCounts(byRepository: any[] | undefined): RepoContributionCount[] {
+  return (byRepository || [])
+    .map(c => ({ repo: c.repository.nameWithOwner, count: c.contributions.totalCount }))
+    .slice(0, BY_REPO_COUNT);
+}
+
+export default new DeveloperContributionService();
@@ -1,49 +1,54 @@
 import pool from '../db.js';
-import { GraphQLClient, gql } from 'graphql-request';
+import { gql } from 'graphql-request';
+import githubClient from './github/githubClient.js';
 import { DeveloperPersonas, CurrentWorkStatus, PrimaryWorkStatus, RepoLink, LanguageExpertise, LanguageStats, DeveloperBadge } from '../types/developerModels.js';
 import { PERSONA_DEFINITIONS } from '../constants/personas.js'; // Ensure .js extension for Node ESM
-
-const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+import { JobReporter } from '../types/jobModels.js';
+import { noopReporter } from './jobs/jobProgress.js';
+import organizationWorkerService from './organizationWorkerService.js';
+import developerContributionService, { CONTRIBUTIONS_FIELDS } from './developerContributionService.js';
 
 class developerWorkerService {
-  private graphqlClient: GraphQLClient;
-
-  constructor() {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) throw new Error('GITHUB_TOKEN is not set.');
-    this.graphqlClient = new GraphQLClient(GITHUB_GRAPHQL_URL, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-  }
-
   // ===========================================================================
   // MISSION CONTROL
   // ===========================================================================
 
-  public async runAllMissions(): Promise<void> {
+  public async runAllMissions(reporter: JobReporter = noopReporter): Promise<void> {
     console.log("🚀 Starting Global Developer Sync...");
-    await this.syncHallOfFame();
-    await this.syncTrendingExperts();
-    await this.syncBadgeHolders();
-    await this.syncRisingStars();
+    const missions = [
+      () => this.syncHallOfFame(reporter),
+      () => this.syncTrendingExperts(reporter),
+      () => this.syncBadgeHolders(reporter),
+      () => this.syncRisingStars(reporter),
+    ];
+    for (const mission of missions) {
+      if (reporter.isCancelled()) {
+        console.log("🛑 Developer Sync cancelled.");
+        return;
+      }
+      await mission();
+    }
     console.log("✅ All Missions Complete.");
   }
 
-  public async fetchSpecificDeveloper(username: string): Promise<void> {
+  public async fetchSpecificDeveloper(username: string, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🎯 Manual Fetch: ${username}...`);
+    reporter.addTotal(1);
+    reporter.startItem(username);
     // Manual fetch acts as a generic update, we'll treat it as a potential rising star check
     await this.analyzeAndSaveDeveloper(username, 'manual_fetch');
+    reporter.completeItem();
     console.log(`✅ Manual Fetch Complete: ${username}`);
   }
 
-  public async syncHallOfFame(): Promise<void> {
+  public async syncHallOfFame(reporter: JobReporter = noopReporter): Promise<void> {
     console.log("🏆 Mission: Hall of Fame (Top 200)...");
     const query = "followers:>500 sort:followers"; 
     // Context: 'hall_of_fame'
-    await this.scoutAndProcess(query, 'hall_of_fame', 200); 
+    await this.scoutAndProcess(query, 'hall_of_fame', 200, reporter); 
   }
 
-  public async syncBadgeHolders(): Promise<void> {
+  public async syncBadgeHolders(reporter: JobReporter = noopReporter): Promise<void> {
     console.log("🎖️ Mission: Badge Holders & Certified Experts...");
     const badgeQueries = [
       // existing
@@ -62,12 +67,13 @@ class developerWorkerService {
     ];
 
     for (const q of badgeQueries) {
+       if (reporter.isCancelled()) return;
        console.log(`   ↳ Scouting ${q.type}...`);
-       await this.scoutAndProcess(q.query, 'badge_holder', 150); // Limit 50 per cert to start
+       await this.scoutAndProcess(q.query, 'badge_holder', 150, reporter); // Limit 50 per cert to start
     }
   }
 
- public async syncTrendingExperts(): Promise<void> {
+ public async syncTrendingExperts(reporter: JobReporter = noopReporter): Promise<void> {
     console.log("🔥 Mission: Trending Experts (Keyword Optimized)...");
     
     // FIX: Removed 'language:' filters and converted them to keywords (e.g., "rust" instead of language:rust).
@@ -169,50 +175,58 @@ class developerWorkerService {
     ];
 
     for (const type of archetypes) {
+      if (reporter.isCancelled()) return;
       console.log(`   ↳ Scouting ${type.name}...`);
-      await this.scoutAndProcess(type.query, 'trending_expert', 200); 
+      await this.scoutAndProcess(type.query, 'trending_expert', 200, reporter); 
     }
   }
 
-  public async syncRisingStars(): Promise<void> {
+  public async syncRisingStars(reporter: JobReporter = noopReporter): Promise<void> {
     console.log("🚀 Mission: Rising Stars...");
     const twoYearsAgo = new Date();
     twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
     const dateStr = twoYearsAgo.toISOString().split('T')[0];
     const query = `created:>${dateStr} followers:>50 sort:followers`;
     // Context: 'rising_star'
-    await this.scoutAndProcess(query, 'rising_star', 100);
+    await this.scoutAndProcess(query, 'rising_star', 100, reporter);
   }
 
   // ===========================================================================
   // INTERNAL LOGIC
   // ===========================================================================
 
-  private async scoutAndProcess(searchQuery: string, missionContext: string, totalLimit: number): Promise<void> {
+  private async scoutAndProcess(
+    searchQuery: string,
+    missionContext: string,
+    totalLimit: number,
+    reporter: JobReporter = noopReporter
+  ): Promise<void> {
     let fetchedCount = 0;
     let page = 1;
     const perPage = 100;
 
     try {
       while (fetchedCount < totalLimit) {
-        const response = await fetch(
-          `https://api.github.com/search/users?q=${encodeURIComponent(searchQuery)}&per_page=${perPage}&page=${page}`,
-          { headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } }
+        const response = await githubClient.rest(
+          `/search/users?q=${encodeURIComponent(searchQuery)}&per_page=${perPage}&page=${page}`
         );
         
         if (!response.ok) break;
         const data = await response.json();
         const candidates = data.items || [];
         if (candidates.length === 0) break;
+        // The search total isn't known upfront, so the job total grows page by page
+        reporter.addTotal(Math.min(candidates.length, totalLimit - fetchedCount));
 
         for (const candidate of candidates) {
            if (fetchedCount >= totalLimit) break;
+           if (reporter.isCancelled()) return;
+           reporter.startItem(`${missionContext}: ${candidate.login}`);
            await this.analyzeAndSaveDeveloper(candidate.login, missionContext);
-           await this.sleep(1200); 
+           reporter.completeItem();
            fetchedCount++;
         }
         page++;
-        await this.sleep(2000); 
       }
     } catch (e) {
       console.error("   ❌ Scouting error:", e);
@@ -222,9 +236,7 @@ class developerWorkerService {
   private async analyzeAndSaveDeveloper(login: string, missionContext: string): Promise<void> {
     let restProfile: any = {};
     try {
-      const r = await fetch(`https://api.github.com/users/${login}`, {
-        headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` }
-      });
+      const r = await githubClient.rest(`/users/${login}`);
       if (!r.ok) {
          console.log(`User ${login} not found`);
          return;
@@ -232,7 +244,16 @@ class developerWorkerService {
       restProfile = await r.json();
     } catch (e) { return; }
 
-    const isOrganization = restProfile.type === 'Organization';
+    // Organizations have their own entity (no personas, streaks or contributions to score)
+    if (restProfile.type === 'Organization') {
+      try {
+        await organizationWorkerService.ingestOrganization(login);
+      } catch (e: any) {
+        console.error(`   ❌ Organization ${login} failed:`, e.message);
+      }
+      return;
+    }
+
     let graphqlData: any;
     
     const commonFields = `
@@ -248,36 +269,13 @@ class developerWorkerService {
       }
     `;
 
-    const contribQuery = `
-      contributionsCollection {
-          commitContributionsByRepository(maxRepositories: 20) {
-              contributions(first: 1) { totalCount } 
-              repository {
-                  databaseId, name, description, url, stargazerCount, pushedAt, diskUsage
-                  owner { login }
-                  primaryLanguage { name }
-                  repositoryTopics(first: 5) { nodes { topic { name } } }
-              }
-          }
-      }
-    `;
-
-    if (isOrganization) {
-        const orgQuery = gql`query Org($login: String!) { organization(login: $login) { ${commonFields} description } }`;
-        try {
-            const res: any = await this.graphqlClient.request(orgQuery, { login });
-            graphqlData = res.organization;
-            graphqlData.bio = graphqlData.description; 
-            graphqlData.contributionData = [];
-        } catch (e) { return; }
-    } else {
-        const userQuery = gql`query User($login: String!) { user(login: $login) { ${commonFields} ${contribQuery} } }`;
-        try {
-            const res: any = await this.graphqlClient.request(userQuery, { login });
-            graphqlData = res.user;
-            graphqlData.contributionData = res.user.contributionsCollection?.commitContributionsByRepository || [];
-        } catch (e) { return; }
-    }
+    // `id` filters the commit sample of the contribution timeline by author
+    const userQuery = gql`query User($login: String!) { user(login: $login) { id ${commonFields} ${CONTRIBUTIONS_FIELDS} } }`;
+    try {
+        const res: any = await githubClient.graphql(userQuery, { login });
+        graphqlData = res.user;
+        graphqlData.contributionData = res.user.contributionsCollection?.commitContributionsByRepository || [];
+    } catch (e) { return; }
 
     if (!graphqlData) return;
 
@@ -307,15 +305,20 @@ class developerWorkerService {
     const languageStats = this.calculateLanguageExpertise(allReposForAnalysis, login);
     
     const yearsActive = Math.floor((Date.now() - new Date(graphqlData.createdAt).getTime()) / (1000 * 60 * 60 * 24 * 365));
-    const velocityScore = totalStars / Math.max(1, yearsActive * 12);
+    // Stars per month on GitHub (Rising Star rule, star_velocity); velocity_score is the contribution pace
+    const starVelocity = totalStars / Math.max(1, yearsActive * 12);
+
+    // 5. Contribution calendar: streaks, schedule, velocity & momentum
+    const contributions = await developerContributionService.collect(login, graphqlData);
     
     // We pass everything to the saver, including the missionContext
     await this.saveDeveloperToDB({
       ...graphqlData,
       restProfile,
-      isOrganization,
+      isOrganization: false,
       totalStars,
-      velocityScore,
+      starVelocity,
+      contributions,
       badges, 
       personas,
       topRepos: ownedRepos.slice(0, 3),
@@ -421,7 +424,7 @@ class developerWorkerService {
       }
 
       // 1. Calculate Status Flags
-      const isRisingStar = !data.isOrganization && (data.velocityScore > 10 && yearsActive < 2);
+      const isRisingStar = !data.isOrganization && (data.starVelocity > 10 && yearsActive < 2);
       const isBadgeHolder = data.badges && data.badges.length > 0;
       
       // 2. Logic for Hall of Fame & Trending (Based on Mission)
@@ -437,6 +440,11 @@ class developerWorkerService {
           current_work, primary_work, language_expertise,
           created_at, last_fetched,
 
+          -- BEHAVIORAL STATS (contribution calendar)
+          consistency_streak, longest_streak, work_schedule, momentum_score,
+          contribution_summary, activity_schedule, contributions_fetched_at,
+          star_velocity,
+
           -- NEW BOOLEAN COLUMNS
           is_hall_of_fame,
           is_trending_expert,
@@ -444,6 +452,8 @@ class developerWorkerService {
           is_badge_holder
         ) VALUES (
           $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, NOW(),
+          $27, $28, $29, $30, $31, $32, NOW(),
+          $33,
           
           -- INITIAL VALUES (For new inserts)
           CASE WHEN $24 = 'hall_of_fame' THEN TRUE ELSE FALSE END,
@@ -463,6 +473,16 @@ class developerWorkerService {
           language_expertise = EXCLUDED.language_expertise,
           last_fetched = NOW(),
 
+          consistency_streak = EXCLUDED.consistency_streak,
+          longest_streak = EXCLUDED.longest_streak,
+          work_schedule = EXCLUDED.work_schedule,
+          velocity_score = EXCLUDED.velocity_score,
+          momentum_score = EXCLUDED.momentum_score,
+          contribution_summary = EXCLUDED.contribution_summary,
+          activity_schedule = EXCLUDED.activity_schedule,
+          contributions_fetched_at = EXCLUDED.contributions_fetched_at,
+          star_velocity = EXCLUDED.star_velocity,
+
           -- INTELLIGENT BOOLEAN UPDATES (Preserve existing flags)
           is_hall_of_fame = CASE 
             WHEN $24 = 'hall_of_fame' THEN TRUE 
@@ -485,7 +505,7 @@ class developerWorkerService {
         data.restProfile.followers, data.restProfile.public_repos, data.totalStars, yearsActive,
         data.isOrganization, data.company, data.location, data.websiteUrl, data.twitterUsername,
         dominantLanguage, JSON.stringify(data.badges), JSON.stringify(data.personas),
-        data.velocityScore, JSON.stringify(data.contributedRepos), 
+        data.contributions.metrics.velocity_score, JSON.stringify(data.contributedRepos), 
         JSON.stringify(data.currentWork), 
         JSON.stringify(data.primaryWork),
         JSON.stringify(data.languageStats || {}),
@@ -494,12 +514,24 @@ class developerWorkerService {
         // Params for logic
         mission,       // $24
         isRisingStar,  // $25
-        isBadgeHolder  // $26
+        isBadgeHolder, // $26
+
+        // Behavioral stats ($27-$32)
+        data.contributions.metrics.current_streak,
+        data.contributions.metrics.longest_streak,
+        data.contributions.metrics.work_schedule,
+        data.contributions.metrics.momentum_score,
+        JSON.stringify(data.contributions.summary),
+        JSON.stringify(data.contributions.schedule),
+
+        Math.round(data.starVelocity * 100) / 100 // $33
       ];
 
       const res = await client.query(query, values);
       const devId = res.rows[0].id;
 
+      await developerContributionService.saveDays(client, data.databaseId, data.contributions.days);
+
       if (data.topRepos && data.topRepos.length > 0) {
         await client.query('DELETE FROM developer_top_repos WHERE developer_id = $1', [devId]);
         for (const [index, repo] of data.topRepos.entries()) {
@@ -775,10 +807,6 @@ private async calculatePrimaryWork(repos: any[], ownerLogin: string): Promise<Pr
 
     return { expertise, favorites, polyglot_score };
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 export default new developerWorkerService();
\ No newline at end of file
@@ -1,31 +1,32 @@
 import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
 
 class CommitActivityWorkerService {
     
-  public async updateMissingCommitActivity(limit = 50): Promise<void> {
+  public async updateMissingCommitActivity(limit = 50, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Activity] Updating MISSING commit activity (Limit: ${limit})...`);
     
-    // Select repos where commit_activity_fetched is false/null
-    const { rows } = await pool.query(`
-      SELECT r.id, r.github_id, r.full_name 
-      FROM repositories r
-      LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.sync_status = 'complete' 
-      AND (rs.commit_activity_fetched IS FALSE OR rs.commit_activity_fetched IS NULL)
-      ORDER BY r.stars_count DESC
-      LIMIT $1
-    `, [limit]);
+    const due = fetchStateService.dueQuery('commit_activity', limit);
+    const { rows } = await pool.query(due.text, due.values);
 
     if (rows.length === 0) {
         console.log("   No missing commit activity to update.");
         return;
     }
 
+    reporter.addTotal(rows.length);
     for (const repo of rows) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(repo.full_name);
       try {
         await this.fetchAndSaveCommitActivity(repo.github_id, repo.full_name);
-        await this.sleep(1500); // Standard delay
+        reporter.completeItem();
       } catch (error: any) {
+        reporter.failItem(error.message);
+        await fetchStateService.markFailed('commit_activity', repo.github_id, error.message);
         console.error(`  ❌ Error updating commit activity for ${repo.full_name}:`, error.message);
       }
     }
@@ -38,38 +39,37 @@ class CommitActivityWorkerService {
 
     while (attempt < maxRetries) {
       try {
-        response = await fetch(
-          `https://api.github.com/repos/${fullName}/stats/commit_activity`,
-          { headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } }
-        );
+        response = await githubClient.rest(`/repos/${fullName}/stats/commit_activity`);
+
+        // 204: empty repository
+        if (response.status === 204 || response.status === 404) {
+          await fetchStateService.markNotFound('commit_activity', repoGithubId, `HTTP ${response.status}`);
+          return;
+        }
 
-        if (response.ok) break;
-        
         if (response.status === 202) {
           console.log(`  ⏳ GitHub computing stats for ${fullName}. Retrying...`);
           await this.sleep(2000);
           attempt++;
           continue;
         }
+
+        if (response.ok) break;
         throw new Error(`Failed to fetch activity: ${response.status}`);
       } catch (error) { throw error; }
     }
 
-    if (!response || !response.ok) return;
+    // Still computing after every retry: the backoff brings it back later
+    if (!response || response.status !== 200) throw new Error('GitHub is still computing commit activity');
 
     const activityData = await response.json();
-    if (!Array.isArray(activityData)) return;
+    if (!Array.isArray(activityData)) throw new Error('Unexpected commit activity payload');
 
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
       
-      // Mark as fetched
-      await client.query(`
-        INSERT INTO repository_stats (repo_github_id, commit_activity_fetched) 
-        VALUES ($1, TRUE)
-        ON CONFLICT (repo_github_id) DO UPDATE SET commit_activity_fetched = TRUE
-      `, [repoGithubId]);
+      await fetchStateService.markSuccess('commit_activity', repoGithubId, client);
       
       // Clear old data
       await client.query('DELETE FROM repository_commit_activity WHERE repo_github_id = $1', [repoGithubId]);
@@ -1,100 +1,247 @@
 import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { FetchFacet, RepositoryCommitRow } from '../../types/models.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
+
+const RECENT_COMMITS_COUNT = 30;
+// Repositories per aliased history query in deep mode (each one asks for 30 commits with stats)
+const DEEP_BATCH_SIZE = 10;
+
+// Stats of the default branch's latest commits; changedFilesIfAvailable is null on huge commits
+const COMMIT_HISTORY_FRAGMENT = `
+  fragment CommitHistory on Repository {
+    defaultBranchRef {
+      target {
+        ... on Commit {
+          history(first: ${RECENT_COMMITS_COUNT}) {
+            nodes {
+              oid
+              message
+              url
+              additions
+              deletions
+              changedFilesIfAvailable
+              author { name, email, user { login, avatarUrl } }
+              committer { name, date }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
 
 class CommitsWorkerService {
 
-  public async updateMissingRecentCommits(limit = 50): Promise<void> {
+  public async updateMissingRecentCommits(limit = 50, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Commits] Updating MISSING recent commits (Limit: ${limit})...`);
-    
-    const { rows } = await pool.query(`
-      SELECT r.id, r.github_id, r.full_name 
-      FROM repositories r
-      LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.sync_status = 'complete' 
-      AND (rs.recent_commits_fetched IS FALSE OR rs.recent_commits_fetched IS NULL)
-      ORDER BY r.stars_count DESC
-      LIMIT $1
-    `, [limit]);
+
+    const due = fetchStateService.dueQuery('commits', limit);
+    const { rows } = await pool.query(due.text, due.values);
 
     if (rows.length === 0) {
         console.log("   No missing commits to update.");
         return;
     }
 
+    reporter.addTotal(rows.length);
     for (const repo of rows) {
+        if (reporter.isCancelled()) break;
+        reporter.startItem(repo.full_name);
         try {
             await this.fetchAndSaveRecentCommits(repo.github_id, repo.full_name);
-            await this.sleep(1000); 
+            reporter.completeItem();
         } catch (error: any) {
+            reporter.failItem(error.message);
+            await fetchStateService.markFailed('commits', repo.github_id, error.message);
             console.error(`  ❌ Error commits for ${repo.full_name}:`, error.message);
         }
     }
   }
 
-  private async fetchAndSaveRecentCommits(repoGithubId: string, fullName: string): Promise<void> {
-    try {
-      const response = await fetch(
-        `https://api.github.com/repos/${fullName}/commits?per_page=30`,
-        { headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } }
-      );
+  /**
+   * DEEP MODE: recent commits WITH additions / deletions / files changed, which the REST list
+   * endpoint leaves out. Uses one aliased GraphQL `history` query per DEEP_BATCH_SIZE repos.
+   * Tracked as the 'commit_stats' facet: picks up repos never deep-fetched (or due for a retry)
+   * and repos whose commits were replaced by the plain list fetch since their last deep fetch.
+   */
+  public async deepFetchRecentCommits(limit = 200, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔬 [Commits] Deep-fetching recent commits with stats (Limit: ${limit})...`);
 
-      if (!response.ok) return;
+    const due = fetchStateService.dueQuery('commit_stats', limit, {
+      orWhere: `fs.status = 'success' AND EXISTS (
+        SELECT 1 FROM repository_fetch_state c
+        WHERE c.repo_github_id = r.github_id AND c.facet = 'commits' AND c.last_success_at > fs.last_success_at
+      )`,
+    });
+    const { rows } = await pool.query(due.text, due.values);
 
-      const commits = await response.json();
-      if (!Array.isArray(commits)) return;
+    if (rows.length === 0) {
+        console.log("   No commits to deep-fetch.");
+        return;
+    }
+
+    reporter.addTotal(rows.length);
+    for (let i = 0; i < rows.length; i += DEEP_BATCH_SIZE) {
+      if (reporter.isCancelled()) break;
+      const batch = rows.slice(i, i + DEEP_BATCH_SIZE);
+      reporter.startItem(`${batch[0].full_name} (+${batch.length - 1} more)`);
 
-      const client = await pool.connect();
       try {
-        await client.query('BEGIN');
-
-        await client.query(`
-            INSERT INTO repository_stats (repo_github_id, recent_commits_fetched)
-            VALUES ($1, TRUE)
-            ON CONFLICT (repo_github_id) DO UPDATE SET recent_commits_fetched = TRUE
-        `, [repoGithubId]);
-        
-        await client.query('DELETE FROM repository_commits WHERE repo_github_id = $1', [repoGithubId]);
-
-        for (const commit of commits) {
-          if (!commit.sha || !commit.commit) continue;
-          const commitData = commit.commit;
-          
-          // Note: Simple list fetch doesn't include detailed stats (additions/deletions)
-          // You would need individual fetches for that, which is expensive.
-          
-          await client.query(
-            `INSERT INTO repository_commits 
-             (repo_github_id, sha, commit_message, author_name, author_email, 
-              author_login, author_avatar_url, committer_name, committer_date, 
-              html_url, fetched_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
-            [
-              repoGithubId,
-              commit.sha,
-              commitData.message,
-              commitData.author?.name,
-              commitData.author?.email,
-              commit.author?.login,
-              commit.author?.avatar_url,
-              commitData.committer?.name,
-              commitData.committer?.date,
-              commit.html_url
-            ]
-          );
+        const histories = await this.fetchCommitHistoryBatch(batch.map(r => r.full_name));
+        for (const repo of batch) {
+          const history = histories.get(repo.full_name);
+          try {
+            if (history === undefined) throw new Error('History query failed');
+            if (history === null) {
+              await fetchStateService.markNotFound('commit_stats', repo.github_id, 'Repository not found');
+            } else if (history.length === 0) {
+              await fetchStateService.markNotFound('commit_stats', repo.github_id, 'Empty repository');
+            } else {
+              await this.saveCommits(repo.github_id, history, ['commits', 'commit_stats']);
+              console.log(`  ✓ ${history.length} commits with stats saved for ${repo.full_name}`);
+            }
+            reporter.completeItem();
+          } catch (error: any) {
+            reporter.failItem(error.message);
+            await fetchStateService.markFailed('commit_stats', repo.github_id, error.message);
+          }
+        }
+      } catch (error: any) {
+        // The whole request failed: every repo of the batch backs off
+        console.error(`  ❌ Commit history batch failed:`, error.message);
+        for (const repo of batch) {
+          reporter.failItem(error.message);
+          await fetchStateService.markFailed('commit_stats', repo.github_id, error.message);
         }
-        await client.query('COMMIT');
-        console.log(`  ✓ Commits saved for ${fullName}`);
-      } catch (e) {
-        await client.query('ROLLBACK');
-        throw e;
-      } finally {
-        client.release();
       }
-    } catch (error) { throw error; }
+    }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async fetchAndSaveRecentCommits(repoGithubId: string, fullName: string): Promise<void> {
+    const response = await githubClient.rest(`/repos/${fullName}/commits?per_page=${RECENT_COMMITS_COUNT}`);
+
+    // 409: empty repository
+    if (response.status === 404 || response.status === 409) {
+      await fetchStateService.markNotFound('commits', repoGithubId, `HTTP ${response.status}`);
+      return;
+    }
+    if (!response.ok) throw new Error(`GitHub API error: ${response.status}`);
+
+    const commits = await response.json();
+    if (!Array.isArray(commits)) throw new Error('Unexpected commits payload');
+
+    // Note: Simple list fetch doesn't include detailed stats (additions/deletions); see deepFetchRecentCommits
+    const rows: RepositoryCommitRow[] = commits
+      .filter((commit: any) => commit.sha && commit.commit)
+      .map((commit: any) => ({
+        sha: commit.sha,
+        commit_message: commit.commit.message,
+        author_name: commit.commit.author?.name,
+        author_email: commit.commit.author?.email,
+        author_login: commit.author?.login || null,
+        author_avatar_url: commit.author?.avatar_url || null,
+        committer_name: commit.commit.committer?.name,
+        committer_date: commit.commit.committer?.date,
+        additions: 0,
+        deletions: 0,
+        total_changes: 0,
+        files_changed: 0,
+        html_url: commit.html_url,
+      }));
+
+    await this.saveCommits(repoGithubId, rows);
+    console.log(`  ✓ Commits saved for ${fullName}`);
+  }
+
+  /**
+   * Returns, per 'owner/name', the mapped commits (empty for an empty repo), null when GitHub
+   * reports the repo as missing, or no entry when its alias errored for another reason.
+   */
+  private async fetchCommitHistoryBatch(fullNames: string[]): Promise<Map<string, RepositoryCommitRow[] | null>> {
+    const repos = await githubClient.batchRepositoryQuery(fullNames, '...CommitHistory', {
+      operationName: 'FetchCommitHistoryBatch',
+      fragment: COMMIT_HISTORY_FRAGMENT,
+    });
+
+    const histories = new Map<string, RepositoryCommitRow[] | null>();
+    repos.forEach((repo, fullName) => {
+      if (repo) {
+        const nodes: any[] = repo.defaultBranchRef?.target?.history?.nodes || [];
+        histories.set(fullName, nodes.map(node => this.toCommitRow(node)));
+      } else {
+        histories.set(fullName, null);
+      }
+    });
+    return histories;
+  }
+
+  private toCommitRow(node: any): RepositoryCommitRow {
+    const additions = node.additions || 0;
+    const deletions = node.deletions || 0;
+    return {
+      sha: node.oid,
+      commit_message: node.message || 'No message',
+      author_name: node.author?.name || 'Unknown',
+      author_email: node.author?.email || '',
+      author_login: node.author?.user?.login || null,
+      author_avatar_url: node.author?.user?.avatarUrl || null,
+      committer_name: node.committer?.name || 'Unknown',
+      committer_date: node.committer?.date,
+      additions,
+      deletions,
+      total_changes: additions + deletions,
+      files_changed: node.changedFilesIfAvailable || 0,
+      html_url: node.url,
+    };
+  }
+
+  // Replaces the stored recent commits and records the fetch as successful ('commit_stats' too in deep mode)
+  private async saveCommits(repoGithubId: string, commits: RepositoryCommitRow[], facets: FetchFacet[] = ['commits']): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const facet of facets) await fetchStateService.markSuccess(facet, repoGithubId, client);
+
+      await client.query('DELETE FROM repository_commits WHERE repo_github_id = $1', [repoGithubId]);
+
+      for (const commit of commits) {
+        await client.query(
+          `INSERT INTO repository_commits
+           (repo_github_id, sha, commit_message, author_name, author_email,
+            author_login, author_avatar_url, committer_name, committer_date,
+            additions, deletions, total_changes, files_changed, html_url, fetched_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW())
+           ON CONFLICT (repo_github_id, sha) DO NOTHING`,
+          [
+            repoGithubId,
+            commit.sha,
+            commit.commit_message,
+            commit.author_name,
+            commit.author_email,
+            commit.author_login,
+            commit.author_avatar_url,
+            commit.committer_name,
+            commit.committer_date,
+            commit.additions,
+            commit.deletions,
+            commit.total_changes,
+            commit.files_changed,
+            commit.html_url,
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 }
 
-export default new CommitsWorkerService();
\ No newline at end of file
+export default new CommitsWorkerService();
@@ -1,43 +1,32 @@
 import pool from '../../db.js';
-import { GraphQLClient, gql } from 'graphql-request';
-
-const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
 
 class ContributorsWorkerService {
-  private graphqlClient: GraphQLClient;
-
-  constructor() {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) throw new Error('GITHUB_TOKEN is not set.');
-    this.graphqlClient = new GraphQLClient(GITHUB_GRAPHQL_URL, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-  }
-
-  public async updateMissingContributors(limit = 50): Promise<void> {
+  public async updateMissingContributors(limit = 50, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Contributors] Updating MISSING contributors (Limit: ${limit})...`);
     
-    const { rows } = await pool.query(`
-      SELECT r.id, r.github_id, r.full_name 
-      FROM repositories r
-      LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.sync_status = 'complete' 
-      AND (rs.contributors_fetched IS FALSE OR rs.contributors_fetched IS NULL)
-      ORDER BY r.stars_count DESC 
-      LIMIT $1
-    `, [limit]);
+    const due = fetchStateService.dueQuery('contributors', limit);
+    const { rows } = await pool.query(due.text, due.values);
 
     if (rows.length === 0) {
         console.log("   No missing contributors to update.");
         return;
     }
 
+    reporter.addTotal(rows.length);
     for (const repo of rows) {
+        if (reporter.isCancelled()) break;
+        reporter.startItem(repo.full_name);
         try {
           await this.fetchAndSaveContributors(repo.github_id, repo.full_name);
+          reporter.completeItem();
           console.log(`  ✓ Contributors updated for ${repo.full_name}`);
-          await this.sleep(1500); 
         } catch (error: any) {
+          reporter.failItem(error.message);
+          await fetchStateService.markFailed('contributors', repo.github_id, error.message);
           console.error(`  ❌ Error contributors for ${repo.full_name}:`, error.message);
         }
     }
@@ -47,23 +36,24 @@ class ContributorsWorkerService {
     // Try REST first
     let response: Response;
     try {
-      response = await fetch(
-        `https://api.github.com/repos/${fullName}/contributors?per_page=30`,
-        {
-          headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` }
-        }
-      );
+      response = await githubClient.rest(`/repos/${fullName}/contributors?per_page=30`);
     } catch (err: any) { throw new Error(err.message); }
 
+    // 204: empty repository
+    if (response.status === 204 || response.status === 404) {
+      await fetchStateService.markNotFound('contributors', repoGithubId, `HTTP ${response.status}`);
+      return;
+    }
+
     if (response.ok) {
       const contributors = await response.json();
       await this.saveContributorsToDB(repoGithubId, contributors, 'all_time');
       return;
     }
 
-    // If REST fails (empty or large), fallback to GraphQL logic (simplified here)
+    // If REST fails (list too large), fallback to GraphQL logic (simplified here)
     // In a full implementation, you'd include the GraphQL fallback logic from your original workerService
-    console.warn(`  ⚠️ REST failed for ${fullName}, skipping fallback for this specific endpoint.`);
+    throw new Error(`REST failed (${response.status}), no fallback for this endpoint`);
   }
 
   private async saveContributorsToDB(repoGithubId: string, contributors: any[], dataType: string): Promise<void> {
@@ -72,10 +62,11 @@ class ContributorsWorkerService {
       await client.query('BEGIN');
       
       await client.query(`
-        INSERT INTO repository_stats (repo_github_id, contributors_fetched, contributors_data_type)
-        VALUES ($1, TRUE, $2)
-        ON CONFLICT (repo_github_id) DO UPDATE SET contributors_fetched = TRUE, contributors_data_type = $2
+        INSERT INTO repository_stats (repo_github_id, contributors_data_type)
+        VALUES ($1, $2)
+        ON CONFLICT (repo_github_id) DO UPDATE SET contributors_data_type = $2
       `, [repoGithubId, dataType]);
+      await fetchStateService.markSuccess('contributors', repoGithubId, client);
       
       await client.query('DELETE FROM repository_contributors WHERE repo_github_id = $1', [repoGithubId]);
 
@@ -99,10 +90,6 @@ class ContributorsWorkerService {
         client.release();
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 export default new ContributorsWorkerService();
\ No newline at end of file
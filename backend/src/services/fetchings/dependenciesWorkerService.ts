@@ -0,0 +1,253 @@
+import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { ParsedManifest } from '../../types/models.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
+import { MANIFEST_FILES, parseManifest } from './manifestParser.js';
+
+// Repositories per aliased query (each one asks for every manifest blob)
+const BATCH_SIZE = 10;
+const MANIFEST_PATHS = Object.keys(MANIFEST_FILES);
+
+// One `object(expression:)` per manifest at the root of the default branch, aliased m0, m1...
+const MANIFESTS_FRAGMENT = `
+  fragment Manifests on Repository {
+    ${MANIFEST_PATHS.map((path, i) => `m${i}: object(expression: "HEAD:${path}") { ... on Blob { text isTruncated } }`).join('\n    ')}
+  }
+`;
+
+class DependenciesWorkerService {
+
+  // ===========================================================================
+  // 1. FETCH
+  // ===========================================================================
+
+  /**
+   * Reads the manifests of repos never checked, due for a retry, or pushed to since the last
+   * fetch, and replaces the packages they publish and the dependencies they declare.
+   */
+  public async updateMissingDependencies(limit = 500, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔄 [Dependencies] Parsing dependency manifests (Limit: ${limit})...`);
+
+    const due = fetchStateService.dueQuery('dependencies', limit, { refreshOnPush: true });
+    const { rows } = await pool.query(due.text, due.values);
+
+    if (rows.length === 0) {
+      console.log("   No repositories pending a manifest check.");
+      return;
+    }
+
+    reporter.addTotal(rows.length);
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      if (reporter.isCancelled()) break;
+      const batch = rows.slice(i, i + BATCH_SIZE);
+      reporter.startItem(`${batch[0].full_name} (+${batch.length - 1} more)`);
+
+      try {
+        const manifests = await this.fetchManifestsBatch(batch.map(r => r.full_name));
+        for (const repo of batch) {
+          const found = manifests.get(repo.full_name);
+          try {
+            if (found === undefined) throw new Error('Manifest query failed');
+            if (found === null) {
+              await fetchStateService.markNotFound('dependencies', repo.github_id, 'Repository not found');
+            } else {
+              await this.saveManifests(repo.github_id, found);
+              if (found.length > 0) {
+                const count = found.reduce((sum, manifest) => sum + manifest.dependencies.length, 0);
+                console.log(`  ✓ ${count} dependencies from ${found.map(m => m.manifest_path).join(', ')} for ${repo.full_name}`);
+              }
+            }
+            reporter.completeItem();
+          } catch (error: any) {
+            reporter.failItem(error.message);
+            await fetchStateService.markFailed('dependencies', repo.github_id, error.message);
+          }
+        }
+      } catch (error: any) {
+        // The whole request failed: every repo of the batch backs off
+        console.error(`  ❌ Manifest batch failed:`, error.message);
+        for (const repo of batch) {
+          reporter.failItem(error.message);
+          await fetchStateService.markFailed('dependencies', repo.github_id, error.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns, per 'owner/name', the parsed manifests found (possibly none), null when GitHub
+   * reports the repo as missing, or no entry when its alias errored for another reason.
+   */
+  private async fetchManifestsBatch(fullNames: string[]): Promise<Map<string, ParsedManifest[] | null>> {
+    const repos = await githubClient.batchRepositoryQuery(fullNames, '...Manifests', {
+      operationName: 'FetchManifestsBatch',
+      fragment: MANIFESTS_FRAGMENT,
+    });
+
+    const results = new Map<string, ParsedManifest[] | null>();
+    repos.forEach((repo, fullName) => {
+      if (repo) {
+        const manifests: ParsedManifest[] = [];
+        MANIFEST_PATHS.forEach((path, j) => {
+          const blob = repo[`m${j}`];
+          // Missing file, binary blob, or too large to come back whole
+          if (!blob?.text || blob.isTruncated) return;
+          const manifest = parseManifest(path, blob.text);
+          if (manifest) manifests.push(manifest);
+        });
+        results.set(fullName, manifests);
+      } else {
+        results.set(fullName, null);
+      }
+    });
+    return results;
+  }
+
+  private async saveManifests(repoGithubId: string, manifests: ParsedManifest[]): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM repository_packages WHERE repo_github_id = $1', [repoGithubId]);
+      await client.query('DELETE FROM repository_dependencies WHERE repo_github_id = $1', [repoGithubId]);
+
+      for (const manifest of manifests) {
+        if (manifest.package_name) {
+          await client.query(
+            `INSERT INTO repository_packages (repo_github_id, ecosystem, package_name, manifest_path)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT DO NOTHING`,
+            [repoGithubId, manifest.ecosystem, manifest.package_name, manifest.manifest_path]
+          );
+        }
+        if (manifest.dependencies.length === 0) continue;
+
+        // One multi-row insert per manifest (a large package.json declares hundreds)
+        await client.query(
+          `INSERT INTO repository_dependencies
+           (repo_github_id, manifest_path, ecosystem, package_name, version_spec, dependency_type)
+           SELECT $1, $2, $3, d.package_name, d.version_spec, d.dependency_type
+           FROM UNNEST($4::text[], $5::text[], $6::text[]) AS d(package_name, version_spec, dependency_type)
+           ON CONFLICT DO NOTHING`,
+          [
+            repoGithubId, manifest.manifest_path, manifest.ecosystem,
+            manifest.dependencies.map(d => d.package_name),
+            manifest.dependencies.map(d => d.version_spec),
+            manifest.dependencies.map(d => d.dependency_type),
+          ]
+        );
+      }
+
+      if (manifests.length === 0) {
+        await fetchStateService.markNotFound('dependencies', repoGithubId, 'No known manifest', client);
+      } else {
+        await fetchStateService.markSuccess('dependencies', repoGithubId, client);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ===========================================================================
+  // 2. GRAPH (dependencies resolved against the indexed repositories)
+  // ===========================================================================
+
+  // Every declared dependency, with the indexed repo behind it when there is one (those first)
+  public async getDependsOn(repoGithubId: number | string): Promise<any[]> {
+    const { rows } = await pool.query(
+      `SELECT d.manifest_path, d.ecosystem, d.package_name, d.version_spec, d.dependency_type,
+              t.id AS repo_id, t.full_name, t.owner_avatar_url, t.stars_count, t.description
+       FROM repository_dependencies d
+       LEFT JOIN LATERAL (
+         SELECT r.id, r.full_name, r.owner_avatar_url, r.stars_count, r.description
+         FROM repositories r
+         WHERE r.github_id <> d.repo_github_id
+           AND (
+             r.github_id IN (
+               SELECT p.repo_github_id FROM repository_packages p
+               WHERE p.ecosystem = d.ecosystem AND p.package_name = d.package_name
+             )
+             OR (d.ecosystem = 'go' AND d.package_name LIKE 'github.com/%'
+                 AND LOWER(r.full_name) = split_part(d.package_name, '/', 2) || '/' || split_part(d.package_name, '/', 3))
+           )
+         ORDER BY r.is_fork, r.stars_count DESC
+         LIMIT 1
+       ) t ON TRUE
+       WHERE d.repo_github_id = $1
+       ORDER BY t.id IS NULL, t.stars_count DESC NULLS LAST, d.dependency_type, d.package_name`,
+      [repoGithubId]
+    );
+    return rows;
+  }
+
+  /**
+   * Indexed repos declaring a dependency on one of the packages this repo publishes (or on its
+   * GitHub path, for Go). A package name claimed by several repos belongs to the same one
+   * getDependsOn() would pick: non-forks first, then the most starred.
+   */
+  public async getUsedBy(repoGithubId: number | string, limit = 50): Promise<{ total: number; data: any[] }> {
+    const { rows } = await pool.query(
+      `WITH me AS (
+          SELECT github_id, LOWER(full_name) AS full_name, is_fork, stars_count
+          FROM repositories WHERE github_id = $1
+        ),
+        own AS (
+          SELECT p.ecosystem, p.package_name
+          FROM repository_packages p, me
+          WHERE p.repo_github_id = me.github_id
+            AND NOT EXISTS (
+              SELECT 1 FROM repository_packages q
+              JOIN repositories rq ON rq.github_id = q.repo_github_id
+              WHERE q.ecosystem = p.ecosystem AND q.package_name = p.package_name
+                AND q.repo_github_id <> me.github_id
+                AND (rq.is_fork, -rq.stars_count) < (me.is_fork, -me.stars_count)
+            )
+          UNION
+          SELECT 'go', 'github.com/' || me.full_name FROM me
+        )
+        SELECT r.id, r.full_name, r.owner_avatar_url, r.stars_count, r.description, r.language,
+               array_agg(DISTINCT d.package_name) AS packages,
+               array_agg(DISTINCT d.dependency_type) AS dependency_types,
+               COUNT(*) OVER ()::int AS total_count
+        FROM own o
+        JOIN repository_dependencies d ON d.ecosystem = o.ecosystem
+          AND (d.package_name = o.package_name
+               OR (o.ecosystem = 'go' AND left(d.package_name, length(o.package_name) + 1) = o.package_name || '/'))
+        JOIN repositories r ON r.github_id = d.repo_github_id
+        WHERE d.repo_github_id <> $1
+        GROUP BY r.id
+        ORDER BY r.stars_count DESC
+        LIMIT $2`,
+      [repoGithubId, limit]
+    );
+    return {
+      total: rows[0]?.total_count || 0,
+      data: rows.map(({ total_count, ...row }) => row),
+    };
+  }
+
+  // Manifests found for the repo and what each one publishes / declares
+  public async getManifests(repoGithubId: number | string): Promise<any[]> {
+    const { rows } = await pool.query(
+      `SELECT m.manifest_path, m.ecosystem, p.package_name, COUNT(d.package_name)::int AS dependency_count
+       FROM (
+         SELECT manifest_path, ecosystem FROM repository_dependencies WHERE repo_github_id = $1
+         UNION
+         SELECT manifest_path, ecosystem FROM repository_packages WHERE repo_github_id = $1
+       ) m
+       LEFT JOIN repository_packages p ON p.repo_github_id = $1 AND p.manifest_path = m.manifest_path
+       LEFT JOIN repository_dependencies d ON d.repo_github_id = $1 AND d.manifest_path = m.manifest_path
+       GROUP BY m.manifest_path, m.ecosystem, p.package_name
+       ORDER BY m.manifest_path`,
+      [repoGithubId]
+    );
+    return rows;
+  }
+}
+
+export default new DependenciesWorkerService();
@@ -0,0 +1,129 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../../db.js';
+import { FetchFacet, RepositoryFetchState } from '../../types/models.js';
+
+// Failure n waits BASE * 2^(n-1), capped at MAX
+const RETRY_BASE_MINUTES = 30;
+const RETRY_MAX_MINUTES = 7 * 24 * 60;
+// Nothing to fetch (no README, empty repo...): look again after this long
+const NOT_FOUND_RECHECK_MINUTES = 7 * 24 * 60;
+const LAST_ERROR_MAX_CHARS = 1000;
+
+export interface DueQueryOptions {
+  // Also re-fetch facets fetched successfully before the repo's last push
+  refreshOnPush?: boolean;
+  // Also re-fetch facets whose last success is older than this many hours
+  refreshAfterHours?: number;
+  // Extra SQL condition on `r` (repositories) and `fs` (its state for the facet) that also makes a repo due
+  orWhere?: string;
+}
+
+/**
+ * Per repo, per enrichment facet fetch bookkeeping ('repository_fetch_state').
+ * Workers pick their queue with dueQuery() and report every outcome, so a repo that has
+ * nothing to fetch or keeps failing backs off instead of coming back on every run.
+ */
+class FetchStateService {
+
+  // ===========================================================================
+  // 1. QUEUE
+  // ===========================================================================
+
+  /**
+   * Complete repos whose facet was never fetched, was reset to pending, or is due for a retry.
+   * Never-attempted repos first, then the most starred. Columns: id, github_id, full_name.
+   */
+  public dueQuery(facet: FetchFacet, limit: number, options: DueQueryOptions = {}): { text: string; values: any[] } {
+    const stale = options.refreshOnPush
+      ? `OR (fs.status = 'success' AND r.pushed_at > fs.last_success_at)`
+      : '';
+    const values: any[] = [facet, limit];
+    let expired = '';
+    if (options.refreshAfterHours !== undefined) {
+      values.push(options.refreshAfterHours);
+      expired = `OR (fs.status = 'success' AND fs.last_success_at < NOW() - make_interval(hours => $${values.length}))`;
+    }
+    const extra = options.orWhere ? `OR (${options.orWhere})` : '';
+    return {
+      text: `
+        SELECT r.id, r.github_id, r.full_name
+        FROM repositories r
+        LEFT JOIN repository_fetch_state fs ON fs.repo_github_id = r.github_id AND fs.facet = $1
+        WHERE r.sync_status = 'complete'
+          AND (
+            fs.repo_github_id IS NULL
+            OR fs.status = 'pending'
+            OR (fs.status IN ('failed', 'not_found') AND fs.next_retry_at <= NOW())
+            ${stale}
+            ${expired}
+            ${extra}
+          )
+        ORDER BY fs.last_attempt_at ASC NULLS FIRST, r.stars_count DESC
+        LIMIT $2`,
+      values,
+    };
+  }
+
+  public async getStates(repoGithubId: number | string): Promise<RepositoryFetchState[]> {
+    const { rows } = await pool.query(
+      `SELECT * FROM repository_fetch_state WHERE repo_github_id = $1 ORDER BY facet`,
+      [repoGithubId]
+    );
+    return rows;
+  }
+
+  // Counts per facet and status, plus how many failed rows are waiting for their retry
+  public async getSummary(): Promise<any[]> {
+    const { rows } = await pool.query(`
+      SELECT facet, status, COUNT(*)::int AS count,
+             COUNT(*) FILTER (WHERE next_retry_at > NOW())::int AS backing_off,
+             MAX(attempts)::int AS max_attempts
+      FROM repository_fetch_state
+      GROUP BY facet, status
+      ORDER BY facet, status
+    `);
+    return rows;
+  }
+
+  // ===========================================================================
+  // 2. OUTCOMES (pass the worker's transaction client to record them atomically with the data)
+  // ===========================================================================
+
+  public async markSuccess(facet: FetchFacet, repoGithubId: number | string, client: Pool | PoolClient = pool): Promise<void> {
+    await client.query(
+      `INSERT INTO repository_fetch_state (repo_github_id, facet, status, attempts, last_attempt_at, last_success_at)
+       VALUES ($1, $2, 'success', 0, NOW(), NOW())
+       ON CONFLICT (repo_github_id, facet) DO UPDATE SET
+         status = 'success', attempts = 0, last_error = NULL,
+         last_attempt_at = NOW(), last_success_at = NOW(), next_retry_at = NULL`,
+      [repoGithubId, facet]
+    );
+  }
+
+  public async markNotFound(facet: FetchFacet, repoGithubId: number | string, reason: string, client: Pool | PoolClient = pool): Promise<void> {
+    await client.query(
+      `INSERT INTO repository_fetch_state (repo_github_id, facet, status, attempts, last_error, last_attempt_at, next_retry_at)
+       VALUES ($1, $2, 'not_found', 0, $3, NOW(), NOW() + make_interval(mins => $4))
+       ON CONFLICT (repo_github_id, facet) DO UPDATE SET
+         status = 'not_found', attempts = 0, last_error = EXCLUDED.last_error,
+         last_attempt_at = NOW(), next_retry_at = EXCLUDED.next_retry_at`,
+      [repoGithubId, facet, reason, NOT_FOUND_RECHECK_MINUTES]
+    );
+  }
+
+  public async markFailed(facet: FetchFacet, repoGithubId: number | string, error: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO repository_fetch_state (repo_github_id, facet, status, attempts, last_error, last_attempt_at, next_retry_at)
+       VALUES ($1, $2, 'failed', 1, $3, NOW(), NOW() + make_interval(mins => $4))
+       ON CONFLICT (repo_github_id, facet) DO UPDATE SET
+         status = 'failed',
+         attempts = repository_fetch_state.attempts + 1,
+         last_error = EXCLUDED.last_error,
+         last_attempt_at = NOW(),
+         next_retry_at = NOW() + make_interval(mins => LEAST($5, $4 * POWER(2, repository_fetch_state.attempts))::int)`,
+      [repoGithubId, facet, error.slice(0, LAST_ERROR_MAX_CHARS), RETRY_BASE_MINUTES, RETRY_MAX_MINUTES]
+    );
+  }
+}
+
+export default new FetchStateService();
@@ -0,0 +1,299 @@
+import { PoolClient } from 'pg';
+import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { RepositoryIssueRow, RepositoryPullRequestRow } from '../../types/models.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
+import healthScoreService from '../metrics/healthScoreService.js';
+
+// Most recently updated issues / PRs fetched per refresh (upserted, so history accumulates)
+const RECENT_ITEMS_COUNT = 50;
+// Comments / reviews looked at to find the first response
+const RESPONSES_COUNT = 10;
+// Open PRs sampled for the backlog age (newest first: exact for repos with fewer open PRs)
+const OPEN_PRS_SAMPLE = 100;
+// Averages, first response time and merge ratio only look at items of this window
+const ANALYTICS_WINDOW_DAYS = 90;
+const LAST_MONTH_DAYS = 30;
+const REFRESH_AFTER_HOURS = 24;
+// Authors considered part of the project for the external merge ratio
+const INTERNAL_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+const ISSUES_QUERY = `
+  query FetchIssueAnalytics($owner: String!, $name: String!, $closedIssuesQuery: String!, $mergedPullRequestsQuery: String!) {
+    rateLimit { remaining resetAt cost }
+    repository(owner: $owner, name: $name) {
+      issues(first: ${RECENT_ITEMS_COUNT}, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        nodes {
+          number title state createdAt closedAt authorAssociation
+          author { login __typename }
+          comments(first: ${RESPONSES_COUNT}) { totalCount nodes { ...Response } }
+        }
+      }
+      pullRequests(first: ${RECENT_ITEMS_COUNT}, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        nodes {
+          number title state isDraft createdAt closedAt mergedAt additions deletions authorAssociation
+          author { login __typename }
+          comments(first: ${RESPONSES_COUNT}) { nodes { ...Response } }
+          reviews(first: ${RESPONSES_COUNT}) { nodes { submittedAt author { login __typename } } }
+        }
+      }
+      openPullRequests: pullRequests(states: OPEN, first: ${OPEN_PRS_SAMPLE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+        totalCount
+        nodes { createdAt isDraft }
+      }
+    }
+    closedIssues: search(query: $closedIssuesQuery, type: ISSUE, first: 1) { issueCount }
+    mergedPullRequests: search(query: $mergedPullRequestsQuery, type: ISSUE, first: 1) { issueCount }
+  }
+  fragment Response on IssueComment { createdAt author { login __typename } }
+`;
+
+// Computed from the fetch itself rather than the stored rows
+interface FetchedCounts {
+  issuesClosedLastMonth: number;
+  pullRequestsMergedLastMonth: number;
+  openPullRequests: number;
+  openBacklogAgeDays: number | null;
+}
+
+class IssuesWorkerService {
+
+  /**
+   * Refreshes recent issues / PRs of every complete repo (never fetched, due for a retry, or
+   * older than REFRESH_AFTER_HOURS) and recomputes the issue / PR columns of repository_stats.
+   */
+  public async updateIssueAnalytics(limit = 500, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔄 [Issues] Fetching issues & pull requests analytics (Limit: ${limit})...`);
+
+    const due = fetchStateService.dueQuery('issues', limit, { refreshAfterHours: REFRESH_AFTER_HOURS });
+    const { rows } = await pool.query(due.text, due.values);
+
+    if (rows.length === 0) {
+      console.log("   No repositories due for issue analytics.");
+      return;
+    }
+
+    reporter.addTotal(rows.length);
+    for (const repo of rows) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(repo.full_name);
+      try {
+        await this.fetchAndSaveIssues(repo.github_id, repo.full_name);
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        await fetchStateService.markFailed('issues', repo.github_id, error.message);
+        console.error(`  ❌ Error issues for ${repo.full_name}:`, error.message);
+      }
+    }
+  }
+
+  private async fetchAndSaveIssues(repoGithubId: string, fullName: string): Promise<void> {
+    const [owner, name] = fullName.split('/');
+    const since = new Date(Date.now() - LAST_MONTH_DAYS * 86400000).toISOString().slice(0, 10);
+
+    const { data, errors } = await githubClient.graphqlPartial<Record<string, any>>(ISSUES_QUERY, {
+      owner,
+      name,
+      closedIssuesQuery: `repo:${fullName} is:issue is:closed closed:>=${since}`,
+      mergedPullRequestsQuery: `repo:${fullName} is:pr is:merged merged:>=${since}`,
+    });
+
+    const repo = data?.repository;
+    if (!repo) {
+      if (errors.some(error => error.path?.[0] === 'repository' && error.type === 'NOT_FOUND')) {
+        await fetchStateService.markNotFound('issues', repoGithubId, 'Repository not found');
+        return;
+      }
+      throw new Error(errors[0]?.message || 'Issues query failed');
+    }
+    if (!data.closedIssues || !data.mergedPullRequests) {
+      throw new Error(errors[0]?.message || 'Issue search failed');
+    }
+
+    const issues: RepositoryIssueRow[] = (repo.issues?.nodes || []).filter(Boolean).map((node: any) => ({
+      number: node.number,
+      title: node.title,
+      state: node.state,
+      author_login: this.authorLogin(node.author),
+      author_association: node.authorAssociation,
+      comments_count: node.comments?.totalCount || 0,
+      created_at: node.createdAt,
+      closed_at: node.closedAt,
+      first_response_at: this.firstResponseAt(node.author, node.comments?.nodes || []),
+    }));
+
+    const pullRequests: RepositoryPullRequestRow[] = (repo.pullRequests?.nodes || []).filter(Boolean).map((node: any) => ({
+      number: node.number,
+      title: node.title,
+      state: node.state,
+      is_draft: node.isDraft,
+      author_login: this.authorLogin(node.author),
+      author_association: node.authorAssociation,
+      additions: node.additions || 0,
+      deletions: node.deletions || 0,
+      created_at: node.createdAt,
+      closed_at: node.closedAt,
+      merged_at: node.mergedAt,
+      first_response_at: this.firstResponseAt(node.author, [
+        ...(node.comments?.nodes || []),
+        ...(node.reviews?.nodes || []).map((review: any) => ({ createdAt: review.submittedAt, author: review.author })),
+      ]),
+    }));
+
+    const openNodes: any[] = repo.openPullRequests?.nodes || [];
+    const counts: FetchedCounts = {
+      issuesClosedLastMonth: data.closedIssues.issueCount,
+      pullRequestsMergedLastMonth: data.mergedPullRequests.issueCount,
+      openPullRequests: repo.openPullRequests?.totalCount || 0,
+      openBacklogAgeDays: this.medianAgeDays(openNodes.filter(node => !node.isDraft).map(node => node.createdAt)),
+    };
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.saveIssues(client, repoGithubId, issues);
+      await this.savePullRequests(client, repoGithubId, pullRequests);
+      await this.updateStats(client, repoGithubId, counts);
+      await healthScoreService.updateHealthScores(client, [repoGithubId]);
+      await fetchStateService.markSuccess('issues', repoGithubId, client);
+      await client.query('COMMIT');
+      console.log(`  ✓ ${issues.length} issues, ${pullRequests.length} PRs saved for ${fullName}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Bots get the REST-style '[bot]' suffix so SQL can leave them out
+  private authorLogin(author: any): string | null {
+    if (!author) return null; // Deleted account ("ghost")
+    return author.__typename === 'Bot' ? `${author.login}[bot]` : author.login;
+  }
+
+  // Earliest comment / review by a human other than the author
+  private firstResponseAt(author: any, responses: any[]): string | null {
+    let first: string | null = null;
+    for (const response of responses) {
+      if (!response?.createdAt || !response.author || response.author.__typename === 'Bot') continue;
+      if (author && response.author.login === author.login) continue;
+      if (!first || response.createdAt < first) first = response.createdAt;
+    }
+    return first;
+  }
+
+  private medianAgeDays(dates: string[]): number | null {
+    if (dates.length === 0) return null;
+    const ages = dates.map(date => (Date.now() - new Date(date).getTime()) / 86400000).sort((a, b) => a - b);
+    const middle = Math.floor(ages.length / 2);
+    const median = ages.length % 2 ? ages[middle] : (ages[middle - 1] + ages[middle]) / 2;
+    return Math.round(median * 100) / 100;
+  }
+
+  private async saveIssues(client: PoolClient, repoGithubId: string, issues: RepositoryIssueRow[]): Promise<void> {
+    for (const issue of issues) {
+      await client.query(
+        `INSERT INTO repository_issues
+         (repo_github_id, number, title, state, author_login, author_association,
+          comments_count, created_at, closed_at, first_response_at, fetched_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+         ON CONFLICT (repo_github_id, number) DO UPDATE SET
+           title = EXCLUDED.title, state = EXCLUDED.state,
+           author_login = EXCLUDED.author_login, author_association = EXCLUDED.author_association,
+           comments_count = EXCLUDED.comments_count, closed_at = EXCLUDED.closed_at,
+           first_response_at = EXCLUDED.first_response_at, fetched_at = NOW()`,
+        [
+          repoGithubId, issue.number, issue.title, issue.state, issue.author_login, issue.author_association,
+          issue.comments_count, issue.created_at, issue.closed_at, issue.first_response_at,
+        ]
+      );
+    }
+  }
+
+  private async savePullRequests(client: PoolClient, repoGithubId: string, pullRequests: RepositoryPullRequestRow[]): Promise<void> {
+    for (const pr of pullRequests) {
+      await client.query(
+        `INSERT INTO repository_pull_requests
+         (repo_github_id, number, title, state, is_draft, author_login, author_association,
+          additions, deletions, created_at, closed_at, merged_at, first_response_at, fetched_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW())
+         ON CONFLICT (repo_github_id, number) DO UPDATE SET
+           title = EXCLUDED.title, state = EXCLUDED.state, is_draft = EXCLUDED.is_draft,
+           author_login = EXCLUDED.author_login, author_association = EXCLUDED.author_association,
+           additions = EXCLUDED.additions, deletions = EXCLUDED.deletions,
+           closed_at = EXCLUDED.closed_at, merged_at = EXCLUDED.merged_at,
+           first_response_at = EXCLUDED.first_response_at, fetched_at = NOW()`,
+        [
+          repoGithubId, pr.number, pr.title, pr.state, pr.is_draft, pr.author_login, pr.author_association,
+          pr.additions, pr.deletions, pr.created_at, pr.closed_at, pr.merged_at, pr.first_response_at,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Monthly counts come from GitHub's search (exact), the rest from the stored rows of the last
+   * ANALYTICS_WINDOW_DAYS: mean close / merge time, median time to first response (items still
+   * waiting for one are left out) and the share of closed external PRs that got merged.
+   */
+  private async updateStats(client: PoolClient, repoGithubId: string, counts: FetchedCounts): Promise<void> {
+    await client.query(
+      `WITH issue_metrics AS (
+          SELECT AVG(EXTRACT(EPOCH FROM closed_at - created_at) / 86400) AS avg_close_days
+          FROM repository_issues
+          WHERE repo_github_id = $1 AND state = 'CLOSED' AND closed_at >= NOW() - make_interval(days => $2)
+        ),
+        pr_metrics AS (
+          SELECT
+            AVG(EXTRACT(EPOCH FROM merged_at - created_at) / 86400)
+              FILTER (WHERE merged_at >= NOW() - make_interval(days => $2)) AS avg_merge_days,
+            COUNT(*) FILTER (WHERE external AND closed_at >= NOW() - make_interval(days => $2)) AS external_closed,
+            COUNT(*) FILTER (WHERE external AND merged_at >= NOW() - make_interval(days => $2)) AS external_merged
+          FROM (
+            SELECT *, (author_association <> ALL($3::text[]) AND author_login NOT LIKE '%[bot]') AS external
+            FROM repository_pull_requests
+            WHERE repo_github_id = $1
+          ) prs
+        ),
+        responses AS (
+          SELECT PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM first_response_at - created_at) / 3600) AS hours
+          FROM (
+            SELECT created_at, first_response_at FROM repository_issues WHERE repo_github_id = $1
+            UNION ALL
+            SELECT created_at, first_response_at FROM repository_pull_requests WHERE repo_github_id = $1
+          ) items
+          WHERE first_response_at IS NOT NULL AND created_at >= NOW() - make_interval(days => $2)
+        )
+      INSERT INTO repository_stats (
+        repo_github_id, issues_closed_last_month, pull_requests_merged_last_month,
+        avg_issue_close_time_days, avg_pr_merge_time_days, first_response_time_hours,
+        open_pull_requests_count, open_pr_backlog_age_days, external_pr_merge_ratio, issues_calculated_at
+      )
+      SELECT $1, $4, $5, i.avg_close_days, p.avg_merge_days, r.hours, $6, $7,
+             CASE WHEN p.external_closed > 0 THEN p.external_merged::numeric / p.external_closed END,
+             NOW()
+      FROM issue_metrics i, pr_metrics p, responses r
+      ON CONFLICT (repo_github_id) DO UPDATE SET
+        issues_closed_last_month = EXCLUDED.issues_closed_last_month,
+        pull_requests_merged_last_month = EXCLUDED.pull_requests_merged_last_month,
+        avg_issue_close_time_days = EXCLUDED.avg_issue_close_time_days,
+        avg_pr_merge_time_days = EXCLUDED.avg_pr_merge_time_days,
+        first_response_time_hours = EXCLUDED.first_response_time_hours,
+        open_pull_requests_count = EXCLUDED.open_pull_requests_count,
+        open_pr_backlog_age_days = EXCLUDED.open_pr_backlog_age_days,
+        external_pr_merge_ratio = EXCLUDED.external_pr_merge_ratio,
+        issues_calculated_at = NOW()`,
+      [
+        repoGithubId, ANALYTICS_WINDOW_DAYS, INTERNAL_ASSOCIATIONS,
+        counts.issuesClosedLastMonth, counts.pullRequestsMergedLastMonth,
+        counts.openPullRequests, counts.openBacklogAgeDays,
+      ]
+    );
+  }
+}
+
+export default new IssuesWorkerService();
@@ -0,0 +1,422 @@
+import { DependencyEcosystem, DependencyType, ManifestDependency, ParsedManifest } from '../../types/models.js';
+
+// Root manifests fetched per repo, and the registry their package names belong to
+export const MANIFEST_FILES: Record<string, DependencyEcosystem> = {
+  'package.json': 'npm',
+  'Cargo.toml': 'cargo',
+  'go.mod': 'go',
+  'pyproject.toml': 'pypi',
+  'requirements.txt': 'pypi',
+  'pom.xml': 'maven',
+};
+
+const MAX_DEPENDENCIES_PER_MANIFEST = 1000;
+const VERSION_SPEC_MAX_CHARS = 100;
+const PACKAGE_NAME_MAX_CHARS = 500;
+
+type TomlValue = string | number | boolean | TomlValue[] | { [key: string]: TomlValue };
+
+interface TomlEntry {
+  table: string; // Header the key sits under, quotes and spaces removed: 'target.cfg(unix).dependencies'
+  key: string;
+  value: TomlValue;
+}
+
+/**
+ * Names as the registries compare them, so dependencies and published packages line up:
+ * PyPI per PEP 503, Cargo treats '-' and '_' alike, Go module paths are matched lowercase
+ * (GitHub paths are case-insensitive), Maven names are 'groupId:artifactId'.
+ */
+export function normalizePackageName(ecosystem: DependencyEcosystem, name: string): string {
+  const trimmed = name.trim().toLowerCase();
+  if (ecosystem === 'pypi') return trimmed.replace(/[-_.]+/g, '-');
+  if (ecosystem === 'cargo') return trimmed.replace(/_/g, '-');
+  return trimmed;
+}
+
+// null when the file is not one we know or can't be parsed at all
+export function parseManifest(path: string, text: string): ParsedManifest | null {
+  const ecosystem = MANIFEST_FILES[path];
+  if (!ecosystem) return null;
+
+  let parsed: { packageName: string | null; dependencies: ManifestDependency[] } | null;
+  switch (path) {
+    case 'package.json': parsed = parsePackageJson(text); break;
+    case 'Cargo.toml': parsed = parseCargoToml(text); break;
+    case 'go.mod': parsed = parseGoMod(text); break;
+    case 'pyproject.toml': parsed = parsePyprojectToml(text); break;
+    case 'requirements.txt': parsed = { packageName: null, dependencies: parseRequirementsTxt(text) }; break;
+    case 'pom.xml': parsed = parsePomXml(text); break;
+    default: parsed = null;
+  }
+  if (!parsed) return null;
+
+  // Drop names listed twice with the same type (target-specific Cargo tables, repeated requirements)
+  const seen = new Set<string>();
+  const dependencies: ManifestDependency[] = [];
+  for (const dependency of parsed.dependencies) {
+    const name = normalizePackageName(ecosystem, dependency.package_name);
+    if (!name || name.length > PACKAGE_NAME_MAX_CHARS || seen.has(`${dependency.dependency_type}:${name}`)) continue;
+    seen.add(`${dependency.dependency_type}:${name}`);
+    dependencies.push({
+      package_name: name,
+      version_spec: dependency.version_spec ? dependency.version_spec.slice(0, VERSION_SPEC_MAX_CHARS) : null,
+      dependency_type: dependency.dependency_type,
+    });
+  }
+
+  return {
+    manifest_path: path,
+    ecosystem,
+    package_name: parsed.packageName ? normalizePackageName(ecosystem, parsed.packageName).slice(0, PACKAGE_NAME_MAX_CHARS) : null,
+    dependencies: dependencies.slice(0, MAX_DEPENDENCIES_PER_MANIFEST),
+  };
+}
+
+// =============================================================================
+// 1. npm (package.json)
+// =============================================================================
+
+const NPM_SECTIONS: [string, DependencyType][] = [
+  ['dependencies', 'runtime'],
+  ['devDependencies', 'dev'],
+  ['peerDependencies', 'peer'],
+  ['optionalDependencies', 'optional'],
+];
+
+function parsePackageJson(text: string) {
+  let pkg: any;
+  try {
+    pkg = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!pkg || typeof pkg !== 'object') return null;
+
+  const dependencies: ManifestDependency[] = [];
+  for (const [section, type] of NPM_SECTIONS) {
+    const entries = pkg[section];
+    if (!entries || typeof entries !== 'object') continue;
+    for (const [name, version] of Object.entries(entries)) {
+      dependencies.push({ package_name: name, version_spec: typeof version === 'string' ? version : null, dependency_type: type });
+    }
+  }
+  // Private packages never reach the registry, nobody can depend on them by name
+  const packageName = typeof pkg.name === 'string' && pkg.private !== true ? pkg.name : null;
+  return { packageName, dependencies };
+}
+
+// =============================================================================
+// 2. Cargo (Cargo.toml)
+// =============================================================================
+
+function parseCargoToml(text: string) {
+  const entries = parseToml(text);
+  const packageName = stringValue(entries.find(e => e.table === 'package' && e.key === 'name')?.value);
+  const dependencies: ManifestDependency[] = [];
+
+  // Table form: [dependencies.serde] version = "1", features = [...]
+  const tableDependencies = new Map<string, { type: DependencyType; spec: Record<string, TomlValue> }>();
+
+  for (const entry of entries) {
+    const inline = entry.table.match(/(?:^|\.)(dev-|build-)?dependencies$/);
+    if (inline) {
+      const dependency = cargoDependency(entry.key, entry.value, cargoType(inline[1]));
+      if (dependency) dependencies.push(dependency);
+      continue;
+    }
+    const table = entry.table.match(/(?:^|\.)(dev-|build-)?dependencies\.([^.]+)$/);
+    if (table) {
+      const current = tableDependencies.get(entry.table) || { type: cargoType(table[1]), spec: {} };
+      current.spec[entry.key] = entry.value;
+      tableDependencies.set(entry.table, current);
+    }
+  }
+  for (const [table, { type, spec }] of tableDependencies) {
+    const dependency = cargoDependency(table.split('.').pop()!, spec, type);
+    if (dependency) dependencies.push(dependency);
+  }
+
+  return { packageName, dependencies };
+}
+
+function cargoType(prefix: string | undefined): DependencyType {
+  if (prefix === 'dev-') return 'dev';
+  if (prefix === 'build-') return 'build';
+  return 'runtime';
+}
+
+// name = "1.0" | name = { version = "1.0", package = "real-name", optional = true, path = "..." }
+function cargoDependency(key: string, value: TomlValue, type: DependencyType): ManifestDependency | null {
+  if (typeof value === 'string') return { package_name: key, version_spec: value, dependency_type: type };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const version = stringValue(value.version);
+  // Path-only dependencies are crates of the same workspace
+  if (value.path !== undefined && !version) return null;
+  return {
+    package_name: stringValue(value.package) || key,
+    version_spec: version || (value.git !== undefined ? `git:${stringValue(value.git)}` : null),
+    dependency_type: value.optional === true ? 'optional' : type,
+  };
+}
+
+// =============================================================================
+// 3. Go modules (go.mod)
+// =============================================================================
+
+function parseGoMod(text: string) {
+  const lines = text.split(/\r?\n/);
+  let packageName: string | null = null;
+  const dependencies: ManifestDependency[] = [];
+  let inRequireBlock = false;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    const indirect = /\/\/\s*indirect\b/.test(line);
+    const code = line.replace(/\/\/.*$/, '').trim();
+    if (!code) continue;
+
+    if (inRequireBlock) {
+      if (code === ')') { inRequireBlock = false; continue; }
+      const requirement = goRequirement(code, indirect);
+      if (requirement) dependencies.push(requirement);
+      continue;
+    }
+
+    const module = code.match(/^module\s+"?([^\s"]+)"?/);
+    if (module) { packageName = module[1]; continue; }
+    if (/^require\s*\($/.test(code)) { inRequireBlock = true; continue; }
+    const require = code.match(/^require\s+(.+)$/);
+    if (require) {
+      const requirement = goRequirement(require[1], indirect);
+      if (requirement) dependencies.push(requirement);
+    }
+  }
+  return { packageName, dependencies };
+}
+
+function goRequirement(code: string, indirect: boolean): ManifestDependency | null {
+  const [path, version] = code.replace(/"/g, '').split(/\s+/);
+  if (!path || !version) return null;
+  return { package_name: path, version_spec: version, dependency_type: indirect ? 'indirect' : 'runtime' };
+}
+
+// =============================================================================
+// 4. Python (pyproject.toml, requirements.txt)
+// =============================================================================
+
+function parsePyprojectToml(text: string) {
+  const entries = parseToml(text);
+  const packageName =
+    stringValue(entries.find(e => e.table === 'project' && e.key === 'name')?.value) ||
+    stringValue(entries.find(e => e.table === 'tool.poetry' && e.key === 'name')?.value);
+  const dependencies: ManifestDependency[] = [];
+
+  const addRequirements = (value: TomlValue, type: DependencyType) => {
+    if (!Array.isArray(value)) return;
+    for (const item of value) {
+      const requirement = typeof item === 'string' ? parseRequirement(item, type) : null;
+      if (requirement) dependencies.push(requirement);
+    }
+  };
+
+  for (const entry of entries) {
+    // PEP 621
+    if (entry.table === 'project' && entry.key === 'dependencies') addRequirements(entry.value, 'runtime');
+    else if (entry.table === 'project.optional-dependencies') addRequirements(entry.value, 'optional');
+    // PEP 735
+    else if (entry.table === 'dependency-groups') addRequirements(entry.value, 'dev');
+    else if (entry.table === 'build-system' && entry.key === 'requires') addRequirements(entry.value, 'build');
+    // Poetry
+    else if (entry.table === 'tool.poetry.dependencies' || /^tool\.poetry\.(dev-dependencies|group\.[^.]+\.dependencies)$/.test(entry.table)) {
+      if (entry.key.toLowerCase() === 'python') continue;
+      const runtime = entry.table === 'tool.poetry.dependencies';
+      const value = entry.value;
+      const spec = typeof value === 'string' ? value : (value && typeof value === 'object' && !Array.isArray(value) ? stringValue(value.version) : null);
+      const optional = runtime && value && typeof value === 'object' && !Array.isArray(value) && value.optional === true;
+      dependencies.push({
+        package_name: entry.key,
+        version_spec: spec,
+        dependency_type: optional ? 'optional' : runtime ? 'runtime' : 'dev',
+      });
+    }
+  }
+  return { packageName, dependencies };
+}
+
+function parseRequirementsTxt(text: string): ManifestDependency[] {
+  const dependencies: ManifestDependency[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    // Options (-r other.txt, -e ., --index-url ...) and local paths / bare URLs
+    if (!line || line.startsWith('-') || /^[./]/.test(line) || (/:\/\//.test(line) && !line.includes('@'))) continue;
+    const requirement = parseRequirement(line, 'runtime');
+    if (requirement) dependencies.push(requirement);
+  }
+  return dependencies;
+}
+
+// PEP 508: name[extras] (version spec) ; markers   |   name @ url
+function parseRequirement(spec: string, type: DependencyType): ManifestDependency | null {
+  const match = spec.split(';')[0].trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+  const rest = match[2].replace(/^\(|\)$/g, '').trim();
+  return { package_name: match[1], version_spec: rest || null, dependency_type: type };
+}
+
+// =============================================================================
+// 5. Maven (pom.xml)
+// =============================================================================
+
+function parsePomXml(text: string) {
+  let xml = text.replace(/<!--[\s\S]*?-->/g, '');
+  if (!/<project[\s>]/.test(xml)) return null;
+
+  // Managed versions, plugins and profiles aren't dependencies of the default build
+  xml = xml.replace(/<(dependencyManagement|build|profiles|reporting)>[\s\S]*?<\/\1>/g, '');
+
+  const dependencies: ManifestDependency[] = [];
+  for (const match of xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)) {
+    const groupId = xmlTag(match[1], 'groupId');
+    const artifactId = xmlTag(match[1], 'artifactId');
+    if (!groupId || !artifactId) continue;
+    const scope = xmlTag(match[1], 'scope');
+    dependencies.push({
+      package_name: `${groupId}:${artifactId}`,
+      version_spec: xmlTag(match[1], 'version'),
+      dependency_type: xmlTag(match[1], 'optional') === 'true' ? 'optional'
+        : scope === 'test' ? 'dev'
+        : scope === 'provided' || scope === 'system' ? 'build'
+        : 'runtime',
+    });
+  }
+
+  // The project's own coordinates: groupId may be inherited from <parent>
+  const parent = xml.match(/<parent>([\s\S]*?)<\/parent>/)?.[1] || '';
+  const own = xml.replace(/<(parent|dependencies|modules|properties)>[\s\S]*?<\/\1>/g, '');
+  const groupId = xmlTag(own, 'groupId') || xmlTag(parent, 'groupId');
+  const artifactId = xmlTag(own, 'artifactId');
+  const packageName = groupId && artifactId ? `${groupId}:${artifactId}` : null;
+
+  return { packageName, dependencies };
+}
+
+function xmlTag(xml: string, tag: string): string | null {
+  const value = xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+  return value || null;
+}
+
+// =============================================================================
+// 6. MINIMAL TOML (tables, key = value, strings, arrays, inline tables)
+// =============================================================================
+
+function parseToml(text: string): TomlEntry[] {
+  const lines = text.split(/\r?\n/);
+  const entries: TomlEntry[] = [];
+  let table = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = stripTomlComment(lines[i]).trim();
+    if (!line) continue;
+
+    const header = line.match(/^\[\[?([^\[\]]+)\]\]?$/);
+    if (header) {
+      table = header[1].replace(/["'\s]/g, '');
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (eq <= 0) continue;
+    const key = line.slice(0, eq).trim().replace(/["']/g, '');
+    let raw = line.slice(eq + 1).trim();
+    // Arrays and inline tables may span several lines
+    while (bracketDepth(raw) > 0 && i + 1 < lines.length) {
+      raw += ' ' + stripTomlComment(lines[++i]).trim();
+    }
+    entries.push({ table, key, value: parseTomlValue(raw) });
+  }
+  return entries;
+}
+
+function stripTomlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+function bracketDepth(raw: string): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') depth--;
+  }
+  return depth;
+}
+
+function parseTomlValue(raw: string): TomlValue {
+  const value = raw.trim();
+  if (value.startsWith('"') || value.startsWith("'")) {
+    const quote = value[0];
+    const end = value.indexOf(quote, 1);
+    const body = value.slice(1, end < 0 ? undefined : end);
+    return quote === '"' ? body.replace(/\\(.)/g, '$1') : body;
+  }
+  if (value.startsWith('[')) {
+    return splitTopLevel(value.slice(1, value.lastIndexOf(']'))).map(parseTomlValue);
+  }
+  if (value.startsWith('{')) {
+    const table: Record<string, TomlValue> = {};
+    for (const pair of splitTopLevel(value.slice(1, value.lastIndexOf('}')))) {
+      const eq = pair.indexOf('=');
+      if (eq > 0) table[pair.slice(0, eq).trim().replace(/["']/g, '')] = parseTomlValue(pair.slice(eq + 1));
+    }
+    return table;
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  const number = Number(value);
+  return Number.isFinite(number) && value !== '' ? number : value;
+}
+
+// Splits on commas that aren't inside strings, arrays or inline tables; drops empty items
+function splitTopLevel(inner: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '{') depth++;
+    else if (char === ']' || char === '}') depth--;
+    else if (char === ',' && depth === 0) {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+function stringValue(value: TomlValue | undefined): string | null {
+  return typeof value === 'string' ? value : null;
+}
@@ -0,0 +1,209 @@
+import { ReadmeBadge, ReadmeFormat, ReadmeSections } from '../../types/models.js';
+
+// Longest section body we keep; past that it's a manual, not a quick start
+const SECTION_MAX_CHARS = 5000;
+const MAX_BADGES = 30;
+
+// Heading text -> section it introduces. First matching heading wins.
+const SECTION_PATTERNS: Record<'install' | 'usage' | 'license', RegExp> = {
+  install: /\b(install(ation|ing)?|getting started|get started|quick ?start|setup|set up)\b/,
+  usage: /\b(usage|how to use|using|examples?)\b/,
+  license: /\b(licen[cs]e|licensing)\b/,
+};
+
+const BADGE_IMAGE_PATTERN = /shields\.io|badgen\.net|badge|travis-ci\.(org|com)|circleci\.com|codecov\.io|coveralls\.io|\/actions\/workflows\/|\/workflows\/.+\.svg/i;
+
+interface Heading {
+  text: string;
+  level: number;
+  start: number;     // Line index of the heading
+  bodyStart: number; // First line after it (underline included)
+}
+
+export function detectReadmeFormat(fileName: string): ReadmeFormat {
+  const ext = fileName.toLowerCase().split('.').slice(1).pop() || '';
+  if (['md', 'markdown', 'mdown', 'mkd', 'mkdn'].includes(ext)) return 'markdown';
+  if (ext === 'rst' || ext === 'rest') return 'rst';
+  if (['adoc', 'asciidoc', 'asc'].includes(ext)) return 'asciidoc';
+  return 'plain';
+}
+
+/**
+ * Splits a README on its headings and picks out the title, a table of contents and the
+ * install / usage / license sections (raw source of the section body, sub-sections included).
+ */
+export function extractReadmeSections(text: string, format: ReadmeFormat): ReadmeSections {
+  const lines = text.split(/\r?\n/);
+  const headings = findHeadings(lines, format);
+
+  const sections: ReadmeSections = {
+    title: headings.find(h => h.level === 1)?.text || null,
+    headings: headings.map(h => h.text),
+    install: null,
+    usage: null,
+    license: null,
+  };
+
+  headings.forEach((heading, i) => {
+    const normalized = heading.text.toLowerCase();
+    for (const [kind, pattern] of Object.entries(SECTION_PATTERNS) as [keyof typeof SECTION_PATTERNS, RegExp][]) {
+      if (sections[kind] !== null || !pattern.test(normalized)) continue;
+
+      // The section runs until the next heading of the same or a higher level
+      const next = headings.slice(i + 1).find(h => h.level <= heading.level);
+      const body = lines.slice(heading.bodyStart, next ? next.start : lines.length).join('\n').trim();
+      if (body) sections[kind] = body.slice(0, SECTION_MAX_CHARS);
+      break;
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Status badges (CI, coverage, package version...): images whose URL looks like a badge service,
+ * with the link wrapping them when there is one.
+ */
+export function extractReadmeBadges(text: string, format: ReadmeFormat): ReadmeBadge[] {
+  const found: ReadmeBadge[] = [];
+  const add = (alt: string, image: string, link: string | null) => {
+    if (BADGE_IMAGE_PATTERN.test(image)) found.push({ alt: alt.trim(), image_url: image.trim(), link_url: link?.trim() || null });
+  };
+
+  if (format === 'markdown' || format === 'plain') {
+    // [![alt](image)](link), then bare ![alt](image)
+    const linked = /\[!\[([^\]]*)\]\(([^)\s]+)[^)]*\)\]\(([^)\s]+)[^)]*\)/g;
+    for (const m of text.matchAll(linked)) add(m[1], m[2], m[3]);
+    const bare = /(?<!\[)!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g;
+    for (const m of text.matchAll(bare)) add(m[1], m[2], null);
+  }
+
+  if (format === 'rst') {
+    // .. image:: URL / .. |name| image:: URL, with optional :target: and :alt: options below
+    const directive = /^\.\.\s+(?:\|([^|]+)\|\s+)?image::\s*(\S+)((?:\n[ \t]+:[a-z]+:.*)*)/gm;
+    for (const m of text.matchAll(directive)) {
+      const target = m[3].match(/:target:\s*(\S+)/)?.[1] || null;
+      const alt = m[3].match(/:alt:\s*(.+)/)?.[1] || m[1] || '';
+      add(alt, m[2], target);
+    }
+  }
+
+  if (format === 'asciidoc') {
+    // image:URL[alt, link=URL] (inline) or image::URL[...] (block)
+    const macro = /image::?(\S+?)\[([^\]]*)\]/g;
+    for (const m of text.matchAll(macro)) {
+      const attrs = m[2].split(',').map(a => a.trim());
+      const link = attrs.find(a => a.startsWith('link='))?.slice(5).replace(/^"|"$/g, '') || null;
+      add(attrs[0] && !attrs[0].includes('=') ? attrs[0] : '', m[1], link);
+    }
+  }
+
+  // Raw HTML works in every format GitHub renders: <a href="link"><img src="image" alt="alt"></a>
+  const html = /(?:<a\s[^>]*href=["']([^"']+)["'][^>]*>\s*)?<img\s[^>]*src=["']([^"']+)["'][^>]*>/gi;
+  for (const m of text.matchAll(html)) {
+    const alt = m[0].match(/alt=["']([^"']*)["']/i)?.[1] || '';
+    add(alt, m[2], m[1] || null);
+  }
+
+  const seen = new Set<string>();
+  return found.filter(b => !seen.has(b.image_url) && seen.add(b.image_url)).slice(0, MAX_BADGES);
+}
+
+// ===========================================================================
+// HEADINGS
+// ===========================================================================
+
+function findHeadings(lines: string[], format: ReadmeFormat): Heading[] {
+  if (format === 'markdown') return markdownHeadings(lines);
+  if (format === 'rst') return rstHeadings(lines);
+  if (format === 'asciidoc') return asciidocHeadings(lines);
+  return [];
+}
+
+function markdownHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = null;
+      continue;
+    }
+    if (fence) continue;
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      push(headings, atx[2], atx[1].length, i, i + 1);
+      continue;
+    }
+
+    // Setext: "Title" underlined with === (h1) or --- (h2)
+    const underline = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (underline && line.trim() && !/^\s{0,3}([-*_>|]|\d+\.)/.test(line)) {
+      push(headings, line, underline[1][0] === '=' ? 1 : 2, i, i + 2);
+      i++;
+      continue;
+    }
+
+    // Plenty of READMEs use HTML headings (centered titles)
+    const htmlHeading = line.match(/^\s*<h([1-6])[^>]*>(.*?)<\/h\1>/i);
+    if (htmlHeading) push(headings, htmlHeading[2], Number(htmlHeading[1]), i, i + 1);
+  }
+
+  return headings;
+}
+
+// RST has no fixed levels: each adornment style gets the next level the first time it's seen
+function rstHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  const styles: string[] = [];
+  const adornment = /^([=\-`:'"~^_*+#<>])\1{2,}\s*$/;
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    const overlined = adornment.test(lines[i]) && lines[i + 1]?.trim() && adornment.test(lines[i + 2] || '');
+    const titleIndex = overlined ? i + 1 : i;
+    const title = lines[titleIndex];
+    const under = lines[titleIndex + 1] || '';
+
+    if (!title?.trim() || adornment.test(title) || !adornment.test(under)) continue;
+    if (under.trim().length < title.trim().length) continue;
+
+    const style = (overlined ? 'o' : 'u') + under.trim()[0];
+    if (!styles.includes(style)) styles.push(style);
+    push(headings, title, styles.indexOf(style) + 1, i, titleIndex + 2);
+    i = titleIndex + 1;
+  }
+
+  return headings;
+}
+
+function asciidocHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let delimited = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    // Skip listing / literal blocks (---- and ....)
+    if (/^(-{4,}|\.{4,})\s*$/.test(lines[i])) {
+      delimited = !delimited;
+      continue;
+    }
+    if (delimited) continue;
+
+    const m = lines[i].match(/^(={1,6})\s+(.+?)\s*=*\s*$/);
+    if (m) push(headings, m[2], m[1].length, i, i + 1);
+  }
+
+  return headings;
+}
+
+function push(headings: Heading[], raw: string, level: number, start: number, bodyStart: number): void {
+  const text = raw
+    .replace(/<[^>]+>/g, '')                 // HTML tags
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Markdown links / images
+    .replace(/[*_`]/g, '')
+    .trim();
+  if (text) headings.push({ text, level, start, bodyStart });
+}
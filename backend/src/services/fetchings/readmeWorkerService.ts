@@ -1,123 +1,125 @@
 import pool from '../../db.js';
-import { GraphQLClient, gql } from 'graphql-request';
-
-const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import githubClient from '../github/githubClient.js';
+import fetchStateService from './fetchStateService.js';
+import { ReadmeFormat } from '../../types/models.js';
+import { detectReadmeFormat, extractReadmeBadges, extractReadmeSections } from './readmeParser.js';
+
+// repositories.readme_snippet feeds full-text search and embeddings; the full text lives in repository_readmes
+const README_SNIPPET_MAX_CHARS = 10000;
+// Formats GitHub renders to HTML for us
+const RENDERED_FORMATS: ReadmeFormat[] = ['markdown', 'rst', 'asciidoc'];
 
 class ReadmeWorkerService {
-  private graphqlClient: GraphQLClient;
+  /**
+   * Fetches the README of every repo that has none stored yet, was pushed to since it was fetched,
+   * or is due for a retry / recheck (see fetchStateService).
+   */
+  public async updateMissingReadmes(limit = 100000, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔄 [README] Fetching missing or outdated READMEs (Limit: ${limit})...`);
 
-  constructor() {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) throw new Error('GITHUB_TOKEN is not set.');
-    this.graphqlClient = new GraphQLClient(GITHUB_GRAPHQL_URL, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-  }
-
-  public async updateMissingReadmes(limit = 100000): Promise<void> {
-    console.log(`🔄 [README] Retrying ALL missing or failed READMEs (Limit: ${limit})...`);
-    
-    // UPDATED QUERY: 
-    // 1. Includes 'NO_README_FOUND' in the check.
-    // 2. Orders by 'last_fetched ASC' to create a rotating queue (FIFO).
-    const { rows } = await pool.query(`
-      SELECT id, github_id, full_name 
-      FROM repositories 
-      WHERE (
-        readme_snippet IS NULL 
-        OR readme_snippet = '' 
-        OR readme_snippet = 'NO_README_FOUND'
-      )
-      AND sync_status = 'complete'
-      ORDER BY last_fetched ASC NULLS FIRST
-      LIMIT $1
-    `, [limit]);
+    const due = fetchStateService.dueQuery('readme', limit, { refreshOnPush: true });
+    const { rows } = await pool.query(due.text, due.values);
 
     if (rows.length === 0) {
       console.log("   No repositories pending README check.");
       return;
     }
 
+    reporter.addTotal(rows.length);
     for (const repo of rows) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(repo.full_name);
       try {
         await this.fetchAndSaveReadme(repo.github_id, repo.full_name);
-        await this.sleep(1000); 
+        reporter.completeItem();
       } catch (error: any) {
+        reporter.failItem(error.message);
+        await fetchStateService.markFailed('readme', repo.github_id, error.message);
         console.error(`  ❌ Error processing ${repo.full_name}:`, error.message);
       }
     }
   }
 
+  /**
+   * GET /repos/{owner}/{repo}/readme is GitHub's own README lookup: any case or extension,
+   * in the root, docs/ or .github/. The same endpoint renders it to HTML on request.
+   */
   private async fetchAndSaveReadme(githubId: string, fullName: string): Promise<void> {
-    const [owner, name] = fullName.split('/');
-    
-    // Checks 9 variations
-    const query = gql`
-      query GetReadmeVariations($owner: String!, $name: String!) {
-        repository(owner: $owner, name: $name) {
-          mdUpper: object(expression: "HEAD:README.md") { ...BlobFragment }
-          mdLower: object(expression: "HEAD:readme.md") { ...BlobFragment }
-          mdTitle: object(expression: "HEAD:Readme.md") { ...BlobFragment }
-          mdCamel: object(expression: "HEAD:ReadMe.md") { ...BlobFragment }
-          mdAllCaps: object(expression: "HEAD:README.MD") { ...BlobFragment }
-          plainUpper: object(expression: "HEAD:README") { ...BlobFragment }
-          rstUpper: object(expression: "HEAD:README.rst") { ...BlobFragment }
-          txtUpper: object(expression: "HEAD:README.txt") { ...BlobFragment }
-          plainLower: object(expression: "HEAD:readme") { ...BlobFragment }
-        }
-      }
-
-      fragment BlobFragment on GitObject {
-        ... on Blob { text }
-      }
-    `;
-
-    try {
-      const data: any = await this.graphqlClient.request(query, { owner, name });
-      const repo = data.repository;
-
-      if (!repo) return;
-
-      const readmeObject = 
-        repo.mdUpper || repo.mdLower || repo.mdTitle || repo.mdCamel || 
-        repo.mdAllCaps || repo.plainUpper || repo.rstUpper ||   
-        repo.txtUpper || repo.plainLower;
+    const response = await githubClient.rest(`/repos/${fullName}/readme`);
 
+    if (response.status === 404) {
       const client = await pool.connect();
       try {
-        if (readmeObject && readmeObject.text) {
-            let readmeText = readmeObject.text;
-            readmeText = readmeText.replace(/\u0000/g, ''); // Sanitize
-            const readmeSnippet = readmeText.slice(0, 10000); 
-
-            await client.query(
-                `UPDATE repositories SET readme_snippet = $1, last_fetched = NOW() WHERE github_id = $2`,
-                [readmeSnippet, githubId]
-            );
-            console.log(`  ✓ README saved for ${fullName}`);
-        } else {
-            // LOGIC REMOVED: We no longer set 'NO_README_FOUND'.
-            // HOWEVER: We MUST update 'last_fetched', or the worker will pick this same repo 
-            // again immediately in the next loop.
-            console.log(`  ⚠️ No README found for ${fullName} (Updating timestamp only)`);
-            
-            await client.query(
-                `UPDATE repositories SET last_fetched = NOW() WHERE github_id = $1`,
-                [githubId]
-            );
-        }
+        await client.query('BEGIN');
+        // The README may have been removed since the last fetch
+        await client.query('DELETE FROM repository_readmes WHERE repo_github_id = $1', [githubId]);
+        await fetchStateService.markNotFound('readme', githubId, 'No README', client);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
       } finally {
         client.release();
       }
+      console.log(`  ⚠️ No README found for ${fullName}`);
+      return;
+    }
+    if (!response.ok) throw new Error(`GitHub API error: ${response.status}`);
 
-    } catch (error: any) {
-      console.error(`  ❌ GraphQL Error for ${fullName}: ${error.message}`);
+    const file = await response.json();
+    const content = Buffer.from(file.content || '', file.encoding === 'base64' ? 'base64' : 'utf8')
+      .toString('utf8')
+      .replace(/\u0000/g, ''); // Sanitize
+    const format = detectReadmeFormat(file.name);
+    const html = RENDERED_FORMATS.includes(format) ? await this.fetchRenderedReadme(fullName) : null;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO repository_readmes (
+            repo_github_id, path, file_name, format, sha, size_bytes, content, html, sections, badges, fetched_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+          ON CONFLICT (repo_github_id) DO UPDATE SET
+            path = EXCLUDED.path, file_name = EXCLUDED.file_name, format = EXCLUDED.format,
+            sha = EXCLUDED.sha, size_bytes = EXCLUDED.size_bytes, content = EXCLUDED.content,
+            -- Keep the previous rendering if only the render call failed
+            html = COALESCE(EXCLUDED.html, CASE WHEN repository_readmes.sha = EXCLUDED.sha THEN repository_readmes.html END),
+            sections = EXCLUDED.sections, badges = EXCLUDED.badges, fetched_at = NOW()`,
+        [
+          githubId, file.path, file.name, format, file.sha, file.size ?? null, content, html,
+          JSON.stringify(extractReadmeSections(content, format)),
+          JSON.stringify(extractReadmeBadges(content, format)),
+        ]
+      );
+      await client.query(
+        `UPDATE repositories SET readme_snippet = $1 WHERE github_id = $2`,
+        [content.slice(0, README_SNIPPET_MAX_CHARS), githubId]
+      );
+      await fetchStateService.markSuccess('readme', githubId, client);
+      await client.query('COMMIT');
+      console.log(`  ✓ README saved for ${fullName} (${file.path})`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Rendered HTML (already sanitized by GitHub, relative links resolved); null if rendering failed
+  private async fetchRenderedReadme(fullName: string): Promise<string | null> {
+    const response = await githubClient.rest(`/repos/${fullName}/readme`, {
+      headers: { Accept: 'application/vnd.github.html+json' },
+    });
+    if (!response.ok) {
+      console.warn(`  ⚠️ Could not render README of ${fullName} (HTTP ${response.status})`);
+      return null;
+    }
+    return (await response.text()).replace(/\u0000/g, '');
   }
 }
 
-export default new ReadmeWorkerService();
\ No newline at end of file
+export default new ReadmeWorkerService();
@@ -0,0 +1,157 @@
+import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { RepositoryReleaseRow } from '../../types/models.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
+
+const RELEASES_PER_PAGE = 100;
+// History beyond this many releases is dropped (a handful of repos publish nightly releases)
+const MAX_RELEASE_PAGES = 10;
+
+const RELEASES_QUERY = `
+  query FetchReleases($owner: String!, $name: String!, $cursor: String) {
+    rateLimit { remaining resetAt cost }
+    repository(owner: $owner, name: $name) {
+      releases(first: ${RELEASES_PER_PAGE}, after: $cursor, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          tagName name publishedAt createdAt isPrerelease isDraft isLatest description url
+          author { login }
+        }
+      }
+    }
+  }
+`;
+
+class ReleasesWorkerService {
+
+  /**
+   * Fetches the full release history of repos never fetched, due for a retry, or whose
+   * metadata sync saw a release newer than the last fetch; then recomputes the release cadence.
+   */
+  public async updateMissingReleases(limit = 500, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔄 [Releases] Fetching missing or outdated release histories (Limit: ${limit})...`);
+
+    const due = fetchStateService.dueQuery('releases', limit, {
+      orWhere: `fs.status IN ('success', 'not_found') AND EXISTS (
+        SELECT 1 FROM repository_stats rs
+        WHERE rs.repo_github_id = r.github_id AND rs.latest_release_date > fs.last_attempt_at
+      )`,
+    });
+    const { rows } = await pool.query(due.text, due.values);
+
+    if (rows.length === 0) {
+      console.log("   No release histories to update.");
+      return;
+    }
+
+    reporter.addTotal(rows.length);
+    for (const repo of rows) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(repo.full_name);
+      try {
+        await this.fetchAndSaveReleases(repo.github_id, repo.full_name);
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        await fetchStateService.markFailed('releases', repo.github_id, error.message);
+        console.error(`  ❌ Error releases for ${repo.full_name}:`, error.message);
+      }
+    }
+  }
+
+  private async fetchAndSaveReleases(repoGithubId: string, fullName: string): Promise<void> {
+    const [owner, name] = fullName.split('/');
+    const releases: RepositoryReleaseRow[] = [];
+    let cursor: string | null = null;
+
+    for (let page = 0; page < MAX_RELEASE_PAGES; page++) {
+      const { data, errors } = await githubClient.graphqlPartial<Record<string, any>>(RELEASES_QUERY, { owner, name, cursor });
+      const connection: any = data?.repository?.releases;
+      if (!connection) {
+        if (errors.some(error => error.type === 'NOT_FOUND')) {
+          await fetchStateService.markNotFound('releases', repoGithubId, 'Repository not found');
+          return;
+        }
+        throw new Error(errors[0]?.message || 'Releases query failed');
+      }
+
+      for (const node of connection.nodes || []) {
+        if (!node || node.isDraft) continue;
+        releases.push({
+          tag_name: node.tagName,
+          name: node.name || null,
+          published_at: node.publishedAt,
+          created_at: node.createdAt,
+          is_prerelease: node.isPrerelease,
+          is_latest: node.isLatest,
+          author_login: node.author?.login || null,
+          body: node.description ? node.description.replace(/\u0000/g, '') : null,
+          html_url: node.url,
+        });
+      }
+
+      if (!connection.pageInfo.hasNextPage) break;
+      cursor = connection.pageInfo.endCursor;
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM repository_releases WHERE repo_github_id = $1', [repoGithubId]);
+
+      for (const release of releases) {
+        await client.query(
+          `INSERT INTO repository_releases
+           (repo_github_id, tag_name, name, published_at, created_at, is_prerelease, is_latest,
+            author_login, body, html_url, fetched_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+           ON CONFLICT (repo_github_id, tag_name) DO NOTHING`,
+          [
+            repoGithubId, release.tag_name, release.name, release.published_at, release.created_at,
+            release.is_prerelease, release.is_latest, release.author_login, release.body, release.html_url,
+          ]
+        );
+      }
+
+      await client.query(
+        `INSERT INTO repository_stats (repo_github_id, release_cadence_days)
+         VALUES ($1, $2)
+         ON CONFLICT (repo_github_id) DO UPDATE SET release_cadence_days = EXCLUDED.release_cadence_days`,
+        [repoGithubId, this.releaseCadenceDays(releases)]
+      );
+
+      if (releases.length === 0) {
+        await fetchStateService.markNotFound('releases', repoGithubId, 'No releases', client);
+      } else {
+        await fetchStateService.markSuccess('releases', repoGithubId, client);
+      }
+      await client.query('COMMIT');
+      console.log(`  ✓ ${releases.length} releases saved for ${fullName}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Median days between consecutive stable releases; prereleases only count when there
+  // aren't two stable ones (projects that only ship betas / nightlies)
+  private releaseCadenceDays(releases: RepositoryReleaseRow[]): number | null {
+    const published = releases.filter(release => release.published_at);
+    const stable = published.filter(release => !release.is_prerelease);
+    const timeline = (stable.length >= 2 ? stable : published)
+      .map(release => new Date(release.published_at!).getTime())
+      .sort((a, b) => a - b);
+    if (timeline.length < 2) return null;
+
+    const gaps = timeline.slice(1).map((time, i) => (time - timeline[i]) / 86400000).sort((a, b) => a - b);
+    const middle = Math.floor(gaps.length / 2);
+    const median = gaps.length % 2 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2;
+    return Math.round(median * 100) / 100;
+  }
+}
+
+export default new ReleasesWorkerService();
@@ -0,0 +1,167 @@
+import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { DependencyEcosystem, TechStackEntry } from '../../types/models.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from './fetchStateService.js';
+import { TECH_RULES } from '../../constants/techStack.js';
+
+// Repositories per aliased query (two tree listings each)
+const BATCH_SIZE = 20;
+
+const TREE_FRAGMENT = `
+  fragment TreeFingerprint on Repository {
+    root: object(expression: "HEAD:") { ... on Tree { entries { name type } } }
+    workflows: object(expression: "HEAD:.github/workflows") { ... on Tree { entries { name } } }
+  }
+`;
+
+interface RepositoryTree {
+  files: string[];
+  dirs: string[];
+  workflows: string[];
+}
+
+class TechStackWorkerService {
+
+  /**
+   * Fingerprints repos never checked, due for a retry, or pushed to since the last check from
+   * their top-level tree, their workflows and the dependencies stored by the dependencies worker
+   * (run that one first for the package-based rules to apply).
+   */
+  public async updateMissingTechStacks(limit = 1000, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔄 [Tech Stack] Fingerprinting repository trees (Limit: ${limit})...`);
+
+    const due = fetchStateService.dueQuery('tech_stack', limit, { refreshOnPush: true });
+    const { rows } = await pool.query(due.text, due.values);
+
+    if (rows.length === 0) {
+      console.log("   No repositories pending a tech-stack check.");
+      return;
+    }
+
+    reporter.addTotal(rows.length);
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      if (reporter.isCancelled()) break;
+      const batch = rows.slice(i, i + BATCH_SIZE);
+      reporter.startItem(`${batch[0].full_name} (+${batch.length - 1} more)`);
+
+      try {
+        const trees = await this.fetchTreesBatch(batch.map(r => r.full_name));
+        const packages = await this.loadDependencies(batch.map(r => r.github_id));
+
+        for (const repo of batch) {
+          const tree = trees.get(repo.full_name);
+          try {
+            if (tree === undefined) throw new Error('Tree query failed');
+            if (tree === null) {
+              await fetchStateService.markNotFound('tech_stack', repo.github_id, 'Repository not found');
+            } else if (tree.files.length === 0 && tree.dirs.length === 0) {
+              await fetchStateService.markNotFound('tech_stack', repo.github_id, 'Empty repository');
+            } else {
+              const stack = this.detect(tree, packages.get(String(repo.github_id)) || []);
+              await this.saveTechStack(repo.github_id, stack);
+            }
+            reporter.completeItem();
+          } catch (error: any) {
+            reporter.failItem(error.message);
+            await fetchStateService.markFailed('tech_stack', repo.github_id, error.message);
+          }
+        }
+      } catch (error: any) {
+        // The whole request failed: every repo of the batch backs off
+        console.error(`  ❌ Tree batch failed:`, error.message);
+        for (const repo of batch) {
+          reporter.failItem(error.message);
+          await fetchStateService.markFailed('tech_stack', repo.github_id, error.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns, per 'owner/name', its top-level tree (empty for an empty repo), null when GitHub
+   * reports the repo as missing, or no entry when its alias errored for another reason.
+   */
+  private async fetchTreesBatch(fullNames: string[]): Promise<Map<string, RepositoryTree | null>> {
+    const repos = await githubClient.batchRepositoryQuery(fullNames, '...TreeFingerprint', {
+      operationName: 'FetchTreesBatch',
+      fragment: TREE_FRAGMENT,
+    });
+
+    const trees = new Map<string, RepositoryTree | null>();
+    repos.forEach((repo, fullName) => {
+      if (repo) {
+        const entries: any[] = repo.root?.entries || [];
+        trees.set(fullName, {
+          files: entries.filter(e => e.type === 'blob').map(e => e.name),
+          dirs: entries.filter(e => e.type === 'tree').map(e => e.name),
+          workflows: (repo.workflows?.entries || []).map((e: any) => e.name).filter((name: string) => /\.ya?ml$/.test(name)),
+        });
+      } else {
+        trees.set(fullName, null);
+      }
+    });
+    return trees;
+  }
+
+  // Declared dependencies of each repo of the batch, keyed by github_id
+  private async loadDependencies(repoGithubIds: string[]): Promise<Map<string, { ecosystem: DependencyEcosystem; name: string }[]>> {
+    const { rows } = await pool.query(
+      `SELECT DISTINCT repo_github_id, ecosystem, package_name
+       FROM repository_dependencies
+       WHERE repo_github_id = ANY($1::bigint[])`,
+      [repoGithubIds]
+    );
+    const byRepo = new Map<string, { ecosystem: DependencyEcosystem; name: string }[]>();
+    for (const row of rows) {
+      const key = String(row.repo_github_id);
+      if (!byRepo.has(key)) byRepo.set(key, []);
+      byRepo.get(key)!.push({ ecosystem: row.ecosystem, name: row.package_name });
+    }
+    return byRepo;
+  }
+
+  // First piece of evidence per rule, in rule order (files, then directories, workflows, packages)
+  private detect(tree: RepositoryTree, dependencies: { ecosystem: DependencyEcosystem; name: string }[]): TechStackEntry[] {
+    const stack: TechStackEntry[] = [];
+    for (const rule of TECH_RULES) {
+      const evidence =
+        (rule.files && tree.files.find(file => rule.files!.test(file))) ||
+        (rule.dirs && tree.dirs.find(dir => rule.dirs!.test(dir))) ||
+        (rule.workflows && tree.workflows.length > 0 ? '.github/workflows' : undefined) ||
+        this.matchPackage(rule.packages, dependencies);
+      if (evidence) stack.push({ id: rule.id, label: rule.label, category: rule.category, evidence });
+    }
+    return stack;
+  }
+
+  private matchPackage(
+    packages: Partial<Record<DependencyEcosystem, RegExp>> | undefined,
+    dependencies: { ecosystem: DependencyEcosystem; name: string }[]
+  ): string | undefined {
+    if (!packages) return undefined;
+    const match = dependencies.find(d => packages[d.ecosystem]?.test(d.name));
+    return match ? `${match.ecosystem}:${match.name}` : undefined;
+  }
+
+  private async saveTechStack(repoGithubId: string, stack: TechStackEntry[]): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE repositories SET tech_stack = $1 WHERE github_id = $2`,
+        [JSON.stringify(stack), repoGithubId]
+      );
+      await fetchStateService.markSuccess('tech_stack', repoGithubId, client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export default new TechStackWorkerService();
@@ -0,0 +1,272 @@
+import pool from '../db.js';
+import { gql } from 'graphql-request';
+import githubClient from './github/githubClient.js';
+import { DeveloperNetwork, NetworkDeveloper } from '../types/developerModels.js';
+import { GraphQLPartialResult } from '../types/githubApiModels.js';
+import { JobReporter } from '../types/jobModels.js';
+import { noopReporter } from './jobs/jobProgress.js';
+import { FollowEdge, detectClusters, pageRank } from './metrics/followGraph.js';
+
+// Accounts a developer follows that are sampled per crawl (pages of 100)
+const FOLLOWING_PAGE_SIZE = 100;
+const MAX_FOLLOWING_SAMPLED = 500;
+// First page of their followers, so edges from indexed developers not crawled yet show up early
+const FOLLOWERS_SAMPLED = 100;
+// A developer's edges are crawled again once older than this
+const RECRAWL_DAYS = 30;
+// Developers updated per round trip when saving the ranks
+const SAVE_BATCH_SIZE = 1000;
+const LIST_SIZE = 6;
+
+const FOLLOWS_QUERY = gql`
+  query Follows($login: String!, $cursor: String) {
+    user(login: $login) {
+      following(first: ${FOLLOWING_PAGE_SIZE}, after: $cursor) {
+        pageInfo { hasNextPage, endCursor }
+        nodes { databaseId }
+      }
+      followers(first: ${FOLLOWERS_SAMPLED}) {
+        nodes { databaseId }
+      }
+    }
+  }
+`;
+
+const NETWORK_DEVELOPER_COLUMNS = `d.login, d.name, d.avatar_url, d.dominant_language, d.influence_score, d.influence_rank`;
+
+/**
+ * Opt-in follower-graph crawl (POST /api/workers/follow-graph, not scheduled: it costs a request
+ * per developer). Samples who each indexed developer follows, keeps the edges whose both ends are
+ * indexed developers, then ranks the graph (PageRank) and splits it into communities.
+ */
+class FollowGraphWorkerService {
+
+  // ===========================================================================
+  // 1. WORKER
+  // ===========================================================================
+
+  public async syncFollowGraph(limit = 500, reporter: JobReporter = noopReporter): Promise<void> {
+    await this.crawlFollows(limit, reporter);
+    if (reporter.isCancelled()) return;
+    await this.computeNetwork();
+  }
+
+  // Developers never crawled first (most followed first), then the ones crawled RECRAWL_DAYS ago
+  private async crawlFollows(limit: number, reporter: JobReporter): Promise<void> {
+    console.log(`🕸️ [Follow Graph] Crawling follow edges (Limit: ${limit})...`);
+
+    const { rows } = await pool.query(
+      `SELECT github_id, login FROM developers
+       WHERE is_organization = FALSE
+         AND (follows_crawled_at IS NULL OR follows_crawled_at < NOW() - make_interval(days => $2))
+       ORDER BY follows_crawled_at ASC NULLS FIRST, followers_count DESC
+       LIMIT $1`,
+      [limit, RECRAWL_DAYS]
+    );
+
+    let edges = 0;
+    reporter.addTotal(rows.length);
+    for (const dev of rows) {
+      if (reporter.isCancelled()) return;
+      reporter.startItem(dev.login);
+      try {
+        edges += await this.crawlDeveloper(dev.github_id, dev.login);
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        console.error(`  ❌ Error crawling follows of ${dev.login}:`, error.message);
+      }
+    }
+    console.log(`   ✅ ${rows.length} developers crawled, ${edges} edges between indexed developers`);
+  }
+
+  // Replaces the developer's outgoing edges; returns how many were kept
+  private async crawlDeveloper(githubId: string, login: string): Promise<number> {
+    const following: number[] = [];
+    let followers: number[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const { data, errors }: GraphQLPartialResult<{ user: any }> = await githubClient.graphqlPartial(FOLLOWS_QUERY, { login, cursor });
+      if (!data?.user) {
+        if (errors.some(error => error.type === 'NOT_FOUND')) break;
+        throw new Error(errors[0]?.message || `No data for ${login}`);
+      }
+      following.push(...data.user.following.nodes.map((node: any) => node.databaseId));
+      if (!cursor) followers = data.user.followers.nodes.map((node: any) => node.databaseId);
+      const page: { hasNextPage: boolean; endCursor: string } = data.user.following.pageInfo;
+      cursor = page.hasNextPage ? page.endCursor : null;
+    } while (cursor && following.length < MAX_FOLLOWING_SAMPLED);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`DELETE FROM developer_follows WHERE follower_github_id = $1`, [githubId]);
+      const outgoing = await client.query(
+        `INSERT INTO developer_follows (follower_github_id, followed_github_id)
+         SELECT $1::bigint, d.github_id FROM developers d
+         WHERE d.github_id = ANY($2::bigint[]) AND d.github_id <> $1::bigint
+         ON CONFLICT DO NOTHING`,
+        [githubId, following.filter(Boolean)]
+      );
+      await client.query(
+        `INSERT INTO developer_follows (follower_github_id, followed_github_id)
+         SELECT d.github_id, $1::bigint FROM developers d
+         WHERE d.github_id = ANY($2::bigint[]) AND d.github_id <> $1::bigint
+         ON CONFLICT DO NOTHING`,
+        [githubId, followers.filter(Boolean)]
+      );
+      await client.query(`UPDATE developers SET follows_crawled_at = NOW() WHERE github_id = $1`, [githubId]);
+      await client.query('COMMIT');
+      return outgoing.rowCount || 0;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ===========================================================================
+  // 2. INFLUENCE & COMMUNITIES
+  // ===========================================================================
+
+  public async computeNetwork(): Promise<void> {
+    console.log(`🕸️ [Follow Graph] Ranking the network...`);
+
+    const { rows } = await pool.query(
+      `SELECT follower_github_id AS follower, followed_github_id AS followed FROM developer_follows`
+    );
+    const edges: FollowEdge[] = rows;
+    const nodes = [...new Set(edges.flatMap(edge => [edge.follower, edge.followed]))];
+
+    const ranks = pageRank(nodes, edges);
+    const labels = detectClusters(nodes, edges);
+    const clusterSizes = new Map<string, number>();
+    for (const label of labels.values()) clusterSizes.set(label, (clusterSizes.get(label) || 0) + 1);
+
+    // 1 = the average developer of the graph, whatever its size
+    const ordered = nodes
+      .map(id => ({ id, score: (ranks.get(id) || 0) * nodes.length }))
+      .sort((a, b) => b.score - a.score);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE developers SET influence_score = NULL, influence_rank = NULL, network_cluster = NULL
+         WHERE influence_rank IS NOT NULL OR network_cluster IS NOT NULL`
+      );
+      for (let i = 0; i < ordered.length; i += SAVE_BATCH_SIZE) {
+        const batch = ordered.slice(i, i + SAVE_BATCH_SIZE);
+        await client.query(
+          `UPDATE developers d SET
+             influence_score = s.score, influence_rank = s.rank, network_cluster = s.cluster,
+             network_calculated_at = NOW()
+           FROM UNNEST($1::bigint[], $2::numeric[], $3::int[], $4::bigint[]) AS s(github_id, score, rank, cluster)
+           WHERE d.github_id = s.github_id`,
+          [
+            batch.map(node => node.id),
+            batch.map(node => Math.round(node.score * 10000) / 10000),
+            batch.map((_, j) => i + j + 1),
+            batch.map(node => {
+              const label = labels.get(node.id)!;
+              return (clusterSizes.get(label) || 0) > 1 ? label : null;
+            }),
+          ]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const clusters = [...clusterSizes.values()].filter(size => size > 1).length;
+    console.log(`   ✅ ${nodes.length} developers ranked over ${edges.length} edges, ${clusters} communities`);
+  }
+
+  // ===========================================================================
+  // 3. READS (DeveloperDetail)
+  // ===========================================================================
+
+  public async getNetwork(githubId: number | string): Promise<DeveloperNetwork> {
+    const { rows: [self] } = await pool.query(
+      `SELECT influence_score, influence_rank, network_cluster,
+              (SELECT COUNT(*)::int FROM developers WHERE influence_rank IS NOT NULL) AS ranked_total,
+              (SELECT COUNT(*)::int FROM developers c WHERE c.network_cluster = d.network_cluster) AS cluster_size
+       FROM developers d WHERE github_id = $1`,
+      [githubId]
+    );
+
+    // Most influential members of their community
+    const influential = self?.network_cluster
+      ? (await pool.query(
+          `SELECT ${NETWORK_DEVELOPER_COLUMNS} FROM developers d
+           WHERE d.network_cluster = $1 AND d.github_id <> $2
+           ORDER BY d.influence_rank ASC LIMIT $3`,
+          [self.network_cluster, githubId, LIST_SIZE]
+        )).rows
+      : [];
+
+    // Followed by the same people; shared followers damped by popularity so celebrities don't always win
+    const followedTogether = await pool.query(
+      `WITH co AS (
+         SELECT f2.followed_github_id AS github_id, COUNT(*)::int AS connections
+         FROM developer_follows f1
+         JOIN developer_follows f2 ON f2.follower_github_id = f1.follower_github_id
+         WHERE f1.followed_github_id = $1 AND f2.followed_github_id <> $1
+         GROUP BY f2.followed_github_id
+         HAVING COUNT(*) >= 2
+       )
+       SELECT ${NETWORK_DEVELOPER_COLUMNS}, co.connections
+       FROM co
+       JOIN developers d ON d.github_id = co.github_id
+       ORDER BY co.connections / SQRT(GREATEST(1, (SELECT COUNT(*) FROM developer_follows x WHERE x.followed_github_id = co.github_id))) DESC,
+                d.influence_rank ASC NULLS LAST
+       LIMIT $2`,
+      [githubId, LIST_SIZE]
+    );
+
+    // Followed by the developers they follow, and not followed by them yet
+    const youMayAlsoLike = await pool.query(
+      `SELECT ${NETWORK_DEVELOPER_COLUMNS}, COUNT(*)::int AS connections
+       FROM developer_follows f1
+       JOIN developer_follows f2 ON f2.follower_github_id = f1.followed_github_id
+       JOIN developers d ON d.github_id = f2.followed_github_id
+       WHERE f1.follower_github_id = $1
+         AND f2.followed_github_id <> $1
+         AND NOT EXISTS (
+           SELECT 1 FROM developer_follows x
+           WHERE x.follower_github_id = $1 AND x.followed_github_id = f2.followed_github_id
+         )
+       GROUP BY d.id
+       ORDER BY COUNT(*) DESC, d.influence_rank ASC NULLS LAST
+       LIMIT $2`,
+      [githubId, LIST_SIZE]
+    );
+
+    return {
+      influence: self?.influence_rank
+        ? {
+            score: Number(self.influence_score),
+            rank: self.influence_rank,
+            ranked_total: self.ranked_total,
+            cluster_size: self.network_cluster ? self.cluster_size : 1,
+          }
+        : null,
+      influential: influential.map(toNetworkDeveloper),
+      followed_together: followedTogether.rows.map(toNetworkDeveloper),
+      you_may_also_like: youMayAlsoLike.rows.map(toNetworkDeveloper),
+    };
+  }
+}
+
+// pg returns DECIMAL as a string
+function toNetworkDeveloper(row: any): NetworkDeveloper {
+  return { ...row, influence_score: row.influence_score === null ? null : Number(row.influence_score) };
+}
+
+export default new FollowGraphWorkerService();
@@ -0,0 +1,278 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import readline from 'readline';
+import pool from '../../db.js';
+import { DailyRepoEvents, GHArchiveEvent, RepoTrendActivity } from '../../types/ghArchiveModels.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+
+// GH Archive names hourly dumps 'YYYY-MM-DD-H.json.gz' (hour without leading zero)
+const HOURLY_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}-\d{1,2}\.json\.gz$/;
+const INSERT_CHUNK_SIZE = 1000;
+// Longest trend window (trending_quarterly): older actor rows are never read again
+const ACTOR_RETENTION_DAYS = 90;
+
+type EventCounter = keyof Pick<DailyRepoEvents, 'watch_count' | 'fork_count' | 'push_count' | 'pull_request_count' | 'issues_count'>;
+
+// Event type -> counter it increments
+const TRACKED_EVENTS: Record<string, EventCounter> = {
+  WatchEvent: 'watch_count',
+  ForkEvent: 'fork_count',
+  PushEvent: 'push_count',
+  PullRequestEvent: 'pull_request_count',
+  IssuesEvent: 'issues_count',
+};
+
+// Signals whose actors are kept (distinct people per day + the window's `actors` total).
+// Pushes are only counted: their actors would be most of the table and no signal reads them.
+const ACTOR_EVENTS = new Set(['WatchEvent', 'ForkEvent', 'PullRequestEvent', 'IssuesEvent']);
+
+// One (repo, day, event type, actor) tuple for 'gharchive_daily_actors'
+interface DailyActor {
+  repo_github_id: number;
+  event_date: string;
+  event_type: string;
+  actor_id: number;
+}
+
+class GHArchiveFileService {
+
+  // Directory holding the downloaded hourly dumps (e.g. `wget https://data.gharchive.org/2024-01-15-{0..23}.json.gz`)
+  public getArchiveDir(): string | null {
+    return process.env.GHARCHIVE_DIR || null;
+  }
+
+  // ===========================================================================
+  // 1. IMPORT: HOURLY FILES -> gharchive_daily_events
+  // ===========================================================================
+
+  /**
+   * Imports every hourly dump in `dir` that isn't in the ledger yet.
+   * Each file is aggregated in memory and committed together with its ledger row,
+   * so an interrupted or repeated import never counts an hour twice.
+   */
+  public async importDirectory(dir = this.getArchiveDir(), reporter: JobReporter = noopReporter): Promise<number> {
+    if (!dir) throw new Error('GHARCHIVE_DIR is not set');
+    if (!fs.existsSync(dir)) throw new Error(`GH Archive directory not found: ${dir}`);
+
+    const files = fs.readdirSync(dir).filter(f => HOURLY_FILE_PATTERN.test(f)).sort();
+    const { rows } = await pool.query(
+      'SELECT file_name FROM gharchive_imported_files WHERE file_name = ANY($1)',
+      [files]
+    );
+    const alreadyImported = new Set(rows.map(r => r.file_name));
+    const pending = files.filter(f => !alreadyImported.has(f));
+
+    console.log(`📦 [GH Archive] ${files.length} hourly files in ${dir}, ${pending.length} new.`);
+    reporter.addTotal(pending.length);
+
+    let imported = 0;
+    for (const file of pending) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(file);
+      try {
+        const { daily, actors, eventsCount } = await this.aggregateFile(path.join(dir, file));
+        await this.saveFile(file, daily, actors, eventsCount);
+        imported++;
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        console.error(`   ❌ [GH Archive] Failed to import ${file}:`, error.message);
+      }
+    }
+
+    if (imported > 0) await this.pruneActors();
+
+    console.log(`   ✅ [GH Archive] Imported ${imported} files.`);
+    return imported;
+  }
+
+  // Drops actor rows outside the longest window, counted back from the newest imported day
+  private async pruneActors(): Promise<void> {
+    const { rowCount } = await pool.query(
+      `DELETE FROM gharchive_daily_actors
+       WHERE event_date <= (SELECT MAX(event_date) FROM gharchive_daily_events) - $1::int`,
+      [ACTOR_RETENTION_DAYS]
+    );
+    if (rowCount) console.log(`   🧹 [GH Archive] Pruned ${rowCount} actor rows older than ${ACTOR_RETENTION_DAYS} days.`);
+  }
+
+  private async aggregateFile(filePath: string): Promise<{ daily: DailyRepoEvents[]; actors: DailyActor[]; eventsCount: number }> {
+    const input = fs.createReadStream(filePath).pipe(zlib.createGunzip());
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    // 'repoId|YYYY-MM-DD' -> counters
+    const byRepoDay = new Map<string, DailyRepoEvents>();
+    // 'repoId|YYYY-MM-DD|type|actorId' -> tuple (deduped within the hour; the PK dedups across hours)
+    const actors = new Map<string, DailyActor>();
+    let eventsCount = 0;
+
+    for await (const line of lines) {
+      if (!line) continue;
+
+      let event: GHArchiveEvent;
+      try { event = JSON.parse(line); }
+      catch { continue; } // Truncated / malformed line: skip it, keep the rest of the hour
+
+      const counter = TRACKED_EVENTS[event.type];
+      if (!counter || !event.repo?.id || !event.repo.name || !event.created_at) continue;
+
+      const eventDate = event.created_at.slice(0, 10);
+      const key = `${event.repo.id}|${eventDate}`;
+      let entry = byRepoDay.get(key);
+      if (!entry) {
+        entry = {
+          repo_github_id: event.repo.id,
+          repo_name: event.repo.name,
+          event_date: eventDate,
+          watch_count: 0,
+          fork_count: 0,
+          push_count: 0,
+          pull_request_count: 0,
+          issues_count: 0,
+        };
+        byRepoDay.set(key, entry);
+      }
+      entry.repo_name = event.repo.name;
+      entry[counter]++;
+      eventsCount++;
+
+      if (event.actor?.id && ACTOR_EVENTS.has(event.type)) {
+        const actorKey = `${key}|${event.type}|${event.actor.id}`;
+        if (!actors.has(actorKey)) {
+          actors.set(actorKey, {
+            repo_github_id: event.repo.id,
+            event_date: eventDate,
+            event_type: event.type,
+            actor_id: event.actor.id,
+          });
+        }
+      }
+    }
+
+    return { daily: [...byRepoDay.values()], actors: [...actors.values()], eventsCount };
+  }
+
+  private async saveFile(fileName: string, daily: DailyRepoEvents[], actors: DailyActor[], eventsCount: number): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (let i = 0; i < daily.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = daily.slice(i, i + INSERT_CHUNK_SIZE);
+        await client.query(
+          `INSERT INTO gharchive_daily_events (
+              repo_github_id, repo_name, event_date, watch_count, fork_count, push_count, pull_request_count, issues_count
+            )
+            SELECT * FROM unnest($1::bigint[], $2::text[], $3::date[], $4::int[], $5::int[], $6::int[], $7::int[], $8::int[])
+            ON CONFLICT (repo_github_id, event_date) DO UPDATE SET
+              repo_name = EXCLUDED.repo_name,
+              watch_count = gharchive_daily_events.watch_count + EXCLUDED.watch_count,
+              fork_count = gharchive_daily_events.fork_count + EXCLUDED.fork_count,
+              push_count = gharchive_daily_events.push_count + EXCLUDED.push_count,
+              pull_request_count = gharchive_daily_events.pull_request_count + EXCLUDED.pull_request_count,
+              issues_count = gharchive_daily_events.issues_count + EXCLUDED.issues_count`,
+          [
+            chunk.map(d => d.repo_github_id),
+            chunk.map(d => d.repo_name),
+            chunk.map(d => d.event_date),
+            chunk.map(d => d.watch_count),
+            chunk.map(d => d.fork_count),
+            chunk.map(d => d.push_count),
+            chunk.map(d => d.pull_request_count),
+            chunk.map(d => d.issues_count),
+          ]
+        );
+      }
+
+      for (let i = 0; i < actors.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = actors.slice(i, i + INSERT_CHUNK_SIZE);
+        await client.query(
+          `INSERT INTO gharchive_daily_actors (repo_github_id, event_date, event_type, actor_id)
+            SELECT * FROM unnest($1::bigint[], $2::date[], $3::text[], $4::bigint[])
+            ON CONFLICT DO NOTHING`,
+          [
+            chunk.map(a => a.repo_github_id),
+            chunk.map(a => a.event_date),
+            chunk.map(a => a.event_type),
+            chunk.map(a => a.actor_id),
+          ]
+        );
+      }
+
+      await client.query(
+        'INSERT INTO gharchive_imported_files (file_name, events_count) VALUES ($1, $2)',
+        [fileName, eventsCount]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ===========================================================================
+  // 2. TRENDS: gharchive_daily_events -> ranked candidates
+  // ===========================================================================
+
+  /**
+   * Daily distinct-actor signals over the last `days` days of imported data, for the
+   * `poolSize` repos with the most stargazers (scored by trendScore afterwards).
+   * The window ends at the newest imported day (not today) so old dumps still produce a ranking.
+   */
+  public async getTrendActivity(days: number, poolSize: number): Promise<RepoTrendActivity[]> {
+    const { rows } = await pool.query(
+      `WITH bounds AS (
+          SELECT MAX(event_date) AS end_date FROM gharchive_daily_events
+        ),
+        candidates AS (
+          SELECT a.repo_github_id
+          FROM gharchive_daily_actors a, bounds
+          WHERE a.event_type = 'WatchEvent' AND a.event_date > bounds.end_date - $1::int
+          GROUP BY a.repo_github_id
+          ORDER BY COUNT(*) DESC
+          LIMIT $2
+        ),
+        window_actors AS (
+          SELECT a.*
+          FROM gharchive_daily_actors a
+          JOIN candidates c ON c.repo_github_id = a.repo_github_id, bounds
+          WHERE a.event_date > bounds.end_date - $1::int
+        ),
+        daily AS (
+          SELECT
+            repo_github_id, event_date,
+            COUNT(*) FILTER (WHERE event_type = 'WatchEvent') AS stars,
+            COUNT(*) FILTER (WHERE event_type = 'ForkEvent') AS forks,
+            COUNT(*) FILTER (WHERE event_type = 'IssuesEvent') AS issues,
+            COUNT(*) FILTER (WHERE event_type = 'PullRequestEvent') AS pull_requests
+          FROM window_actors
+          GROUP BY repo_github_id, event_date
+        ),
+        names AS (
+          SELECT DISTINCT ON (repo_github_id) repo_github_id, repo_name
+          FROM gharchive_daily_events
+          WHERE repo_github_id IN (SELECT repo_github_id FROM candidates)
+          ORDER BY repo_github_id, event_date DESC
+        )
+        SELECT
+          n.repo_name AS full_name,
+          (SELECT COUNT(DISTINCT w.actor_id) FROM window_actors w WHERE w.repo_github_id = n.repo_github_id)::int AS actors,
+          json_agg(json_build_object(
+            'date', d.event_date::text, 'stars', d.stars, 'forks', d.forks,
+            'issues', d.issues, 'pull_requests', d.pull_requests
+          ) ORDER BY d.event_date) AS daily
+        FROM daily d
+        JOIN names n ON n.repo_github_id = d.repo_github_id
+        GROUP BY n.repo_github_id, n.repo_name`,
+      [days, poolSize]
+    );
+
+    return rows.map(row => ({ full_name: row.full_name, actors: row.actors, daily: row.daily }));
+  }
+}
+
+export default new GHArchiveFileService();
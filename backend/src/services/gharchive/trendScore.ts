@@ -0,0 +1,90 @@
+import { DailyTrendSignals, RepoTrendActivity, TrendCandidate, TrendSignals } from '../../types/ghArchiveModels.js';
+
+// A day may count at most BURST_FACTOR x the window's median day (and never less than BURST_MIN_CAP);
+// stars above the cap only count by their square root, so one viral day can't carry a whole window.
+const BURST_FACTOR = 3;
+const BURST_MIN_CAP = 25;
+
+// Weights of each signal's log10 in the composite score. Engagement signals (forks, issues, PRs,
+// distinct people) are what separates real adoption from star-farming.
+const SIGNAL_WEIGHTS = {
+  stars: 1.0,
+  forks: 0.6,
+  issues: 0.4,
+  pull_requests: 0.5,
+  actors: 0.8,
+};
+
+// ===========================================================================
+// 1. SCORING
+// ===========================================================================
+
+export function scoreTrend(activity: RepoTrendActivity, windowDays: number): TrendSignals {
+  const starsByDay = zeroFilledStars(activity.daily, windowDays);
+  const cap = Math.max(BURST_MIN_CAP, BURST_FACTOR * median(starsByDay));
+
+  const stars = sum(starsByDay);
+  const starsDamped = sum(starsByDay.map(d => d <= cap ? d : cap + Math.sqrt(d - cap)));
+  const forks = sum(activity.daily.map(d => d.forks));
+  const issues = sum(activity.daily.map(d => d.issues));
+  const pullRequests = sum(activity.daily.map(d => d.pull_requests));
+
+  const score =
+    SIGNAL_WEIGHTS.stars * Math.log10(1 + starsDamped) +
+    SIGNAL_WEIGHTS.forks * Math.log10(1 + forks) +
+    SIGNAL_WEIGHTS.issues * Math.log10(1 + issues) +
+    SIGNAL_WEIGHTS.pull_requests * Math.log10(1 + pullRequests) +
+    SIGNAL_WEIGHTS.actors * Math.log10(1 + activity.actors);
+
+  return {
+    window_days: windowDays,
+    stars,
+    stars_damped: Math.round(starsDamped),
+    forks,
+    issues,
+    pull_requests: pullRequests,
+    actors: activity.actors,
+    active_days: starsByDay.filter(d => d > 0).length,
+    peak_day_share: stars > 0 ? round2(Math.max(...starsByDay) / stars) : 0,
+    burst_damped: starsDamped < stars,
+    score: round2(score * 100),
+  };
+}
+
+// Scores every repo and keeps the `limit` best (the growth column keeps the undamped star count)
+export function rankTrendCandidates(activities: RepoTrendActivity[], windowDays: number, limit: number): TrendCandidate[] {
+  return activities
+    .filter(a => a.full_name?.includes('/'))
+    .map(a => {
+      const signals = scoreTrend(a, windowDays);
+      return { full_name: a.full_name, growthCount: signals.stars, signals };
+    })
+    .sort((a, b) => b.signals.score - a.signals.score)
+    .slice(0, limit);
+}
+
+// ===========================================================================
+// 2. HELPERS
+// ===========================================================================
+
+// Days without events are zeros, otherwise the median of a spiky repo would be its spike
+function zeroFilledStars(daily: DailyTrendSignals[], windowDays: number): number[] {
+  const stars = daily.map(d => d.stars);
+  while (stars.length < windowDays) stars.push(0);
+  return stars;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((acc, v) => acc + v, 0);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
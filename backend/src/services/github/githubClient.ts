@@ -0,0 +1,467 @@
+import { ClientError, GraphQLClient, Variables } from 'graphql-request';
+import {
+  GitHubTokenStatus, GraphQLFieldError, GraphQLPartialResult, GraphQLRateLimit, RateLimitBucket, RateLimitBudget,
+  RepositoryBatchOptions,
+} from '../../types/githubApiModels.js';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+const BUCKETS: RateLimitBucket[] = ['core', 'search', 'graphql'];
+
+// Minimum gap between two requests of the same token + bucket (protects against secondary rate limits)
+const MIN_INTERVAL_MS: Record<RateLimitBucket, number> = {
+  core: 250,
+  search: 2000, // 30 requests / minute
+  graphql: 300,
+};
+// Requests we keep in hand per window instead of running the budget to zero
+const BUDGET_RESERVE: Record<RateLimitBucket, number> = {
+  core: 10,
+  search: 1,
+  graphql: 50,
+};
+// GitHub's reset timestamps have a 1s resolution; wait slightly past them
+const RESET_MARGIN_MS = 1500;
+// GitHub asks to wait at least a minute on secondary limits without a retry-after header
+const SECONDARY_LIMIT_WAIT_MS = 60000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+interface BudgetState {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number;        // epoch ms, 0 when unknown
+  blockedUntil: number;   // epoch ms
+  lastRequestAt: number;
+  lastCost: number;
+  pending: number;        // Callers that picked this budget and are waiting for admission
+  queue: Promise<void>;   // Serializes admission so spacing and budget checks see each other
+}
+
+interface PooledToken {
+  label: string;
+  token: string;
+  graphqlClient: GraphQLClient;
+  budgets: Record<RateLimitBucket, BudgetState>;
+  requests: number;
+  rateLimitHits: number;
+  errors: number;
+  lastError: string | null;
+  lastUsedAt: number;
+  revokedAt: number | null;
+}
+
+/**
+ * Single entry point for every GitHub API call (REST and GraphQL).
+ * Holds a pool of tokens (GITHUB_TOKENS, comma-separated, or the single GITHUB_TOKEN) and tracks
+ * the core / search / graphql budgets of each one from response headers and GraphQL `rateLimit`.
+ * Every request goes to the token with the most budget left for its bucket; when all of them are
+ * exhausted it waits exactly until the earliest reset. Tokens GitHub rejects (401) are quarantined.
+ */
+class GitHubClient {
+  private tokens: PooledToken[];
+
+  constructor() {
+    const raw = process.env.GITHUB_TOKENS || process.env.GITHUB_TOKEN || '';
+    const tokens = [...new Set(raw.split(',').map(t => t.trim()).filter(Boolean))];
+    if (tokens.length === 0) {
+      throw new Error('GITHUB_TOKENS / GITHUB_TOKEN is not set.');
+    }
+    this.tokens = tokens.map((token, i) => this.createPooledToken(token, i));
+    console.log(`🔑 [GitHub] Token pool ready (${this.tokens.length} token${this.tokens.length > 1 ? 's' : ''})`);
+  }
+
+  // ===========================================================================
+  // 1. PUBLIC API
+  // ===========================================================================
+
+  /**
+   * Runs a GraphQL query against the pooled budget and returns `data`.
+   * Rate-limited responses are retried (on another token, or after the reset); other errors are thrown as-is.
+   */
+  public async graphql<T = any>(query: string, variables?: Variables): Promise<T> {
+    const { data } = await this.executeGraphQL<T>(query, variables, false);
+    return data as T;
+  }
+
+  /**
+   * Same as graphql(), but a response that carries both `data` and `errors` (e.g. one alias of a
+   * batched query not found) is returned instead of thrown, so callers can handle errors per field.
+   */
+  public async graphqlPartial<T = any>(query: string, variables?: Variables): Promise<GraphQLPartialResult<T>> {
+    return this.executeGraphQL<T>(query, variables, true);
+  }
+
+  /**
+   * One aliased query selecting `selection` on each 'owner/name'. Returns, per name, the selected
+   * repository, null when GitHub reports it missing, or no entry when its alias errored for another
+   * reason (errors without a path, e.g. query complexity, leave every name without an entry).
+   */
+  public async batchRepositoryQuery<T = any>(
+    fullNames: string[],
+    selection: string,
+    options: RepositoryBatchOptions = {}
+  ): Promise<Map<string, T | null>> {
+    const results = new Map<string, T | null>();
+    if (fullNames.length === 0) return results;
+
+    const variables: Record<string, unknown> = { ...options.variables };
+    const declarations: string[] = [...(options.declarations || [])];
+    const fields: string[] = [];
+
+    fullNames.forEach((fullName, i) => {
+      const [owner, name] = fullName.split('/');
+      variables[`o${i}`] = owner;
+      variables[`n${i}`] = name || '';
+      declarations.push(`$o${i}: String!, $n${i}: String!`);
+      fields.push(`r${i}: repository(owner: $o${i}, name: $n${i}) { ${selection} }`);
+    });
+
+    const query = `
+      query ${options.operationName || 'RepositoryBatch'}(${declarations.join(', ')}) {
+        rateLimit { remaining resetAt cost }
+        ${fields.join('\n        ')}
+      }
+      ${options.fragment || ''}
+    `;
+
+    const { data, errors } = await this.graphqlPartial<Record<string, any>>(query, variables);
+    const errorsByAlias = new Map<string, string | undefined>();
+    for (const error of errors) {
+      const alias = error.path?.[0];
+      if (typeof alias === 'string') errorsByAlias.set(alias, error.type);
+    }
+
+    fullNames.forEach((fullName, i) => {
+      const alias = `r${i}`;
+      const repo = data?.[alias];
+      if (repo) results.set(fullName, repo);
+      else if (errorsByAlias.get(alias) === 'NOT_FOUND') results.set(fullName, null);
+    });
+    return results;
+  }
+
+  private async executeGraphQL<T>(query: string, variables: Variables | undefined, allowPartial: boolean): Promise<GraphQLPartialResult<T>> {
+    for (let attempt = 0; ; attempt++) {
+      const pooled = await this.acquire('graphql');
+      try {
+        const response = await pooled.graphqlClient.rawRequest<T>(query, variables);
+        this.recordHeaders(pooled, 'graphql', response.headers);
+        this.recordGraphQLRateLimit(pooled, (response.data as any)?.rateLimit);
+        return { data: response.data, errors: [] };
+      } catch (error: any) {
+        if (!(error instanceof ClientError)) {
+          this.recordError(pooled, error.message);
+          throw error;
+        }
+
+        const headers = error.response.headers as Headers | undefined;
+        if (headers) this.recordHeaders(pooled, 'graphql', headers);
+
+        if (error.response.status === 401) {
+          this.revoke(pooled, error.message);
+          continue;
+        }
+
+        const waitMs = this.graphqlRateLimitDelay(pooled, error);
+        if (waitMs === null && allowPartial && error.response.data) {
+          this.recordGraphQLRateLimit(pooled, (error.response.data as any).rateLimit);
+          return { data: error.response.data as T, errors: (error.response.errors || []) as GraphQLFieldError[] };
+        }
+        if (waitMs === null || attempt >= this.maxAttempts()) {
+          this.recordError(pooled, error.message);
+          throw error;
+        }
+        this.block(pooled, 'graphql', waitMs);
+      }
+    }
+  }
+
+  /**
+   * REST GET (or any method) against api.github.com. `path` may be relative ('/repos/x/y')
+   * or a full URL. Returns the raw Response so callers keep handling 202/204/404 themselves;
+   * only rate-limit and bad-credential responses are absorbed (retried on another token or after the reset).
+   */
+  public async rest(path: string, init: { method?: string; headers?: Record<string, string> } = {}): Promise<Response> {
+    const url = path.startsWith('http') ? path : `${GITHUB_API_URL}${path}`;
+    const bucket: RateLimitBucket = new URL(url).pathname.startsWith('/search/') ? 'search' : 'core';
+
+    for (let attempt = 0; ; attempt++) {
+      const pooled = await this.acquire(bucket);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: init.method || 'GET',
+          headers: {
+            Accept: 'application/vnd.github+json',
+            Authorization: `Bearer ${pooled.token}`,
+            ...init.headers,
+          },
+        });
+      } catch (error: any) {
+        this.recordError(pooled, error.message);
+        throw error;
+      }
+      this.recordHeaders(pooled, bucket, response.headers);
+
+      if (response.status === 401) {
+        this.revoke(pooled, `HTTP 401 on ${new URL(url).pathname}`);
+        continue;
+      }
+
+      const waitMs = await this.restRateLimitDelay(response);
+      if (waitMs === null || attempt >= this.maxAttempts()) return response;
+      this.block(pooled, bucket, waitMs);
+    }
+  }
+
+  /**
+   * Per-token health and budgets for the admin status endpoint.
+   */
+  public getStatus(): GitHubTokenStatus[] {
+    const now = Date.now();
+    return this.tokens.map(t => {
+      const limited = BUCKETS.some(b => !this.isAvailable(t.budgets[b], b, now));
+      return {
+        label: t.label,
+        health: t.revokedAt ? 'revoked' : limited ? 'limited' : 'healthy',
+        requests: t.requests,
+        rate_limit_hits: t.rateLimitHits,
+        errors: t.errors,
+        last_error: t.lastError,
+        last_used_at: t.lastUsedAt ? new Date(t.lastUsedAt).toISOString() : null,
+        revoked_at: t.revokedAt ? new Date(t.revokedAt).toISOString() : null,
+        budgets: {
+          core: this.budgetView(t.budgets.core, now),
+          search: this.budgetView(t.budgets.search, now),
+          graphql: this.budgetView(t.budgets.graphql, now),
+        },
+      };
+    });
+  }
+
+  // ===========================================================================
+  // 2. SCHEDULING
+  // ===========================================================================
+
+  /**
+   * Picks the token with the most budget left for this bucket and waits for its turn.
+   * Admission per token + bucket is serialized, so concurrent jobs share the budget
+   * instead of each assuming they own it.
+   */
+  private async acquire(bucket: RateLimitBucket): Promise<PooledToken> {
+    for (;;) {
+      const live = this.tokens.filter(t => !t.revokedAt);
+      if (live.length === 0) {
+        throw new Error('No usable GitHub token: every pooled token was rejected (401).');
+      }
+
+      const now = Date.now();
+      const candidates = live
+        .filter(t => this.isAvailable(t.budgets[bucket], bucket, now))
+        .sort((a, b) => this.headroom(b.budgets[bucket]) - this.headroom(a.budgets[bucket]));
+
+      if (candidates.length === 0) {
+        // Every token is exhausted for this bucket: sleep until the first one comes back
+        const waitUntil = Math.min(...live.map(t => this.availableAt(t.budgets[bucket], bucket)));
+        const waitSeconds = Math.ceil(Math.max(0, waitUntil - now) / 1000);
+        console.warn(`⏳ [GitHub] ${bucket} budget exhausted on all tokens. Waiting ${waitSeconds}s for reset...`);
+        await this.sleep(Math.max(0, waitUntil - now));
+        continue;
+      }
+
+      const pooled = candidates[0];
+      if (await this.admit(pooled, bucket)) return pooled;
+    }
+  }
+
+  /**
+   * Waits for the token's spacing slot. Returns false when the budget ran out while queued,
+   * in which case the caller picks again.
+   */
+  private admit(pooled: PooledToken, bucket: RateLimitBucket): Promise<boolean> {
+    const budget = pooled.budgets[bucket];
+    budget.pending++;
+
+    const turn = budget.queue.then(async () => {
+      budget.pending--;
+      if (pooled.revokedAt || !this.isAvailable(budget, bucket, Date.now())) return false;
+
+      const gap = budget.lastRequestAt + MIN_INTERVAL_MS[bucket] - Date.now();
+      if (gap > 0) await this.sleep(gap);
+
+      const now = Date.now();
+      // New window: assume a full budget until the next response headers tell us the real numbers
+      if (budget.resetAt && budget.resetAt <= now) {
+        budget.remaining = budget.limit;
+        budget.resetAt = 0;
+      }
+
+      budget.lastRequestAt = now;
+      if (budget.remaining !== null) budget.remaining -= budget.lastCost;
+      pooled.requests++;
+      pooled.lastUsedAt = now;
+      return true;
+    });
+
+    budget.queue = turn.then(() => undefined);
+    return turn;
+  }
+
+  private isAvailable(budget: BudgetState, bucket: RateLimitBucket, now: number): boolean {
+    return this.availableAt(budget, bucket) <= now;
+  }
+
+  private availableAt(budget: BudgetState, bucket: RateLimitBucket): number {
+    let at = budget.blockedUntil;
+    if (budget.remaining !== null && budget.remaining <= BUDGET_RESERVE[bucket] && budget.resetAt) {
+      at = Math.max(at, budget.resetAt + RESET_MARGIN_MS);
+    }
+    return at;
+  }
+
+  // Unknown budgets (token not used yet) rank first so every token gets probed
+  private headroom(budget: BudgetState): number {
+    return (budget.remaining ?? Number.MAX_SAFE_INTEGER) - budget.pending * budget.lastCost;
+  }
+
+  private block(pooled: PooledToken, bucket: RateLimitBucket, waitMs: number): void {
+    const budget = pooled.budgets[bucket];
+    budget.blockedUntil = Math.max(budget.blockedUntil, Date.now() + waitMs);
+    pooled.rateLimitHits++;
+    console.warn(`⏳ [GitHub] ${pooled.label} hit the ${bucket} rate limit (back in ${Math.ceil(waitMs / 1000)}s)`);
+  }
+
+  // Attempts allowed per request: a rate-limited token is swapped for the next one before we start waiting
+  private maxAttempts(): number {
+    return MAX_RATE_LIMIT_RETRIES + this.tokens.length - 1;
+  }
+
+  // ===========================================================================
+  // 3. TOKEN HEALTH & BUDGET BOOKKEEPING
+  // ===========================================================================
+
+  private revoke(pooled: PooledToken, reason: string): void {
+    if (pooled.revokedAt) return;
+    pooled.revokedAt = Date.now();
+    this.recordError(pooled, `Bad credentials: ${reason}`);
+    console.error(`🚫 [GitHub] ${pooled.label} rejected by GitHub (401). Quarantined for the rest of this process.`);
+  }
+
+  private recordError(pooled: PooledToken, message: string): void {
+    pooled.errors++;
+    pooled.lastError = message.slice(0, 500);
+  }
+
+  private recordHeaders(pooled: PooledToken, fallback: RateLimitBucket, headers: Headers): void {
+    const remaining = headers.get('x-ratelimit-remaining');
+    const reset = headers.get('x-ratelimit-reset');
+    if (remaining === null || reset === null) return;
+
+    const resource = headers.get('x-ratelimit-resource');
+    const bucket: RateLimitBucket = resource === 'core' || resource === 'search' || resource === 'graphql'
+      ? resource
+      : fallback;
+
+    const limit = headers.get('x-ratelimit-limit');
+    this.updateBudget(pooled.budgets[bucket], Number(remaining), Number(reset) * 1000, limit !== null ? Number(limit) : null);
+  }
+
+  private recordGraphQLRateLimit(pooled: PooledToken, rateLimit?: GraphQLRateLimit): void {
+    if (!rateLimit) return;
+    const budget = pooled.budgets.graphql;
+    budget.lastCost = Math.max(1, rateLimit.cost || 1);
+    this.updateBudget(budget, rateLimit.remaining, new Date(rateLimit.resetAt).getTime(), rateLimit.limit ?? null);
+  }
+
+  /**
+   * Responses can come back out of order; within the same window only ever lower `remaining`.
+   */
+  private updateBudget(budget: BudgetState, remaining: number, resetAt: number, limit: number | null): void {
+    if (limit !== null) budget.limit = limit;
+
+    if (resetAt > budget.resetAt) {
+      budget.resetAt = resetAt;
+      budget.remaining = remaining;
+    } else if (resetAt === budget.resetAt) {
+      budget.remaining = budget.remaining === null ? remaining : Math.min(budget.remaining, remaining);
+    }
+  }
+
+  /**
+   * Returns how long to wait before retrying, or null when the response is not a rate-limit error
+   * (e.g. a plain 403 on a private repository).
+   */
+  private async restRateLimitDelay(response: Response): Promise<number | null> {
+    if (response.status !== 403 && response.status !== 429) return null;
+
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) return Number(retryAfter) * 1000;
+
+    if (response.headers.get('x-ratelimit-remaining') === '0') {
+      const reset = Number(response.headers.get('x-ratelimit-reset')) * 1000;
+      return Math.max(0, reset - Date.now()) + RESET_MARGIN_MS;
+    }
+
+    if (response.status === 429) return SECONDARY_LIMIT_WAIT_MS;
+
+    const body = await response.clone().text().catch(() => '');
+    return /rate limit/i.test(body) ? SECONDARY_LIMIT_WAIT_MS : null;
+  }
+
+  private graphqlRateLimitDelay(pooled: PooledToken, error: ClientError): number | null {
+    const { status, errors } = error.response;
+    const rateLimited = errors?.some((e: any) => e.type === 'RATE_LIMITED')
+      || ((status === 403 || status === 429) && /rate limit/i.test(error.message));
+    if (!rateLimited) return null;
+
+    const headers = error.response.headers as Headers | undefined;
+    const retryAfter = headers?.get('retry-after');
+    if (retryAfter) return Number(retryAfter) * 1000;
+
+    const budget = pooled.budgets.graphql;
+    if (budget.remaining === 0 && budget.resetAt > Date.now()) {
+      return budget.resetAt - Date.now() + RESET_MARGIN_MS;
+    }
+    return SECONDARY_LIMIT_WAIT_MS;
+  }
+
+  // ===========================================================================
+  // 4. HELPERS
+  // ===========================================================================
+
+  private createPooledToken(token: string, index: number): PooledToken {
+    const emptyBudget = (): BudgetState => ({
+      limit: null, remaining: null, resetAt: 0, blockedUntil: 0, lastRequestAt: 0, lastCost: 1, pending: 0, queue: Promise.resolve(),
+    });
+    return {
+      label: `token#${index + 1} (…${token.slice(-4)})`,
+      token,
+      graphqlClient: new GraphQLClient(GITHUB_GRAPHQL_URL, {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+      budgets: { core: emptyBudget(), search: emptyBudget(), graphql: emptyBudget() },
+      requests: 0,
+      rateLimitHits: 0,
+      errors: 0,
+      lastError: null,
+      lastUsedAt: 0,
+      revokedAt: null,
+    };
+  }
+
+  private budgetView(budget: BudgetState, now: number): RateLimitBudget {
+    return {
+      limit: budget.limit,
+      remaining: budget.remaining,
+      reset_at: budget.resetAt ? new Date(budget.resetAt).toISOString() : null,
+      blocked_until: budget.blockedUntil > now ? new Date(budget.blockedUntil).toISOString() : null,
+      last_cost: budget.lastCost,
+    };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default new GitHubClient();
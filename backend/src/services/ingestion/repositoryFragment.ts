@@ -0,0 +1,86 @@
+import { gql } from 'graphql-request';
+
+// Root-level CI configurations looked up by the probe, by GraphQL alias (see GitHubRepo).
+// Existence is all that's asked for, so each lookup only returns the object id.
+export const CI_CONFIG_FILES: Record<string, string> = {
+  ciGithubActions: '.github/workflows',
+  ciGitlab: '.gitlab-ci.yml',
+  ciCircle: '.circleci',
+  ciTravis: '.travis.yml',
+  ciJenkins: 'Jenkinsfile',
+  ciAzure: 'azure-pipelines.yml',
+};
+
+// Everything about a repository except the expensive parts (README blob, language sizes, commit count).
+// Used by the delta sync to decide, per repo, whether the full RepositoryFields fetch is needed.
+export const REPOSITORY_PROBE_FRAGMENT = gql`
+  fragment RepositoryProbeFields on Repository {
+    databaseId
+    name
+    nameWithOwner
+    owner { login, avatarUrl, __typename }
+    description
+    url
+    homepageUrl
+    stargazerCount
+    forkCount
+    watchers { totalCount }
+    issues(states: OPEN) { totalCount }
+    diskUsage
+    primaryLanguage { name }
+    repositoryTopics(first: 10) { nodes { topic { name } } }
+    licenseInfo { name, key }
+    createdAt
+    updatedAt
+    pushedAt
+    isFork
+    isArchived
+    isDisabled
+    forkingAllowed
+    isTemplate
+    visibility
+    hasIssuesEnabled
+    hasProjectsEnabled
+    hasWikiEnabled
+    hasDiscussionsEnabled
+    defaultBranchRef { name }
+    releases(first: 1, orderBy: {field: CREATED_AT, direction: DESC}) {
+      totalCount
+      nodes { tagName, publishedAt }
+    }
+    contributingGuidelines { url }
+    codeOfConduct { key, name }
+    isSecurityPolicyEnabled
+    issueTemplates { name }
+    pullRequestTemplates { filename }
+    fundingLinks { platform, url }
+    ${Object.entries(CI_CONFIG_FILES).map(([alias, path]) => `${alias}: object(expression: "HEAD:${path}") { oid }`).join('\n    ')}
+  }
+`;
+
+// The one set of repository fields every sync source asks GitHub for.
+// Append it to a query and spread it with `...RepositoryFields`; the result maps to GitHubRepo.
+// (It includes RepositoryProbeFields, so don't append both to the same query.)
+export const REPOSITORY_FRAGMENT = gql`
+  fragment RepositoryFields on Repository {
+    ...RepositoryProbeFields
+    languages(first: 10, orderBy: {field: SIZE, direction: DESC}) { edges { size, node { name } }, totalSize }
+    defaultBranchRef {
+      target { ... on Commit { history(first: 1) { totalCount } } }
+    }
+    readme: object(expression: "HEAD:README.md") {
+      ... on Blob { text }
+    }
+  }
+  ${REPOSITORY_PROBE_FRAGMENT}
+`;
+
+export const REPOSITORY_BY_NAME_QUERY = gql`
+  query FetchRepository($owner: String!, $name: String!) {
+    rateLimit { remaining resetAt cost }
+    repository(owner: $owner, name: $name) {
+      ...RepositoryFields
+    }
+  }
+  ${REPOSITORY_FRAGMENT}
+`;
@@ -0,0 +1,485 @@
+import { PoolClient } from 'pg';
+import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { REPOSITORY_BY_NAME_QUERY, REPOSITORY_FRAGMENT, REPOSITORY_PROBE_FRAGMENT } from './repositoryFragment.js';
+import { toRepositoryRow, toRepositoryStatsRow } from './repositoryMapper.js';
+import { GitHubRepo, RepositoryRow, RepositorySearchPage, StarsGrowthColumn } from '../../types/models.js';
+import { TrendSignals, TrendWindow } from '../../types/ghArchiveModels.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import fetchStateService from '../fetchings/fetchStateService.js';
+import healthScoreService from '../metrics/healthScoreService.js';
+import repositoryReconciliationService from './repositoryReconciliationService.js';
+
+export interface UpsertOptions {
+  // Category tag to add (e.g. 'top', 'trending_weekly'). Omit to leave tags untouched (hydration).
+  category?: string;
+  // Star growth measured by the caller (GH Archive), keyed by lower-cased 'owner/name'
+  starsGrowth?: { column: StarsGrowthColumn; byFullName: Map<string, number> };
+  // Composite trend score + breakdown for one window, keyed by lower-cased 'owner/name'
+  trend?: { window: TrendWindow; byFullName: Map<string, TrendSignals> };
+}
+
+// What the delta sync did with each probed repository
+export interface DeltaSyncResult {
+  full: number;       // New or pushed since the last sync: README, languages and commit count re-fetched
+  metadata: number;   // Only metadata / releases changed: saved straight from the probe
+  unchanged: number;  // Nothing changed: counts and category refreshed in place
+}
+
+type DeltaAction = keyof DeltaSyncResult;
+
+// Repositories per aliased GraphQL request. Each one carries its README, so keep the payload moderate.
+const ENRICH_BATCH_SIZE = 25;
+
+// Written by every save; every other column is refreshed explicitly below
+const ROW_COLUMNS: (keyof RepositoryRow)[] = [
+  'github_id', 'name', 'full_name', 'owner_login', 'owner_avatar_url', 'owner_type', 'description', 'html_url', 'homepage_url',
+  'stars_count', 'forks_count', 'watchers_count', 'open_issues_count', 'size_kb', 'language', 'topics', 'license_name',
+  'readme_snippet', 'created_at', 'updated_at', 'pushed_at',
+  'is_fork', 'is_archived', 'is_disabled', 'allow_forking', 'is_template', 'visibility',
+  'has_issues', 'has_projects', 'has_downloads', 'has_wiki', 'has_pages', 'has_discussions',
+  'default_branch', 'subscribers_count', 'network_count',
+  'license_key', 'has_contributing', 'code_of_conduct_key', 'has_security_policy', 'issue_templates_count',
+  'has_pr_template', 'has_ci', 'funding_links',
+];
+
+/**
+ * The single path from GitHub's GraphQL `Repository` to our tables.
+ * Every sync source (top search, growing/trending search, GH Archive, stub hydration)
+ * fetches with REPOSITORY_FRAGMENT and saves through here, so scores are always computed the same way.
+ */
+class RepositoryIngestionService {
+
+  // ===========================================================================
+  // 1. FETCHING
+  // ===========================================================================
+
+  public async fetchRepository(fullName: string): Promise<GitHubRepo | null> {
+    const [owner, name] = fullName.split('/');
+    if (!owner || !name) return null;
+
+    const data: any = await githubClient.graphql(REPOSITORY_BY_NAME_QUERY, { owner, name });
+    return data.repository?.databaseId ? data.repository : null;
+  }
+
+  /**
+   * One page of a repository search (e.g. 'stars:>1 sort:stars-desc').
+   * `probe` asks for RepositoryProbeFields instead of the full RepositoryFields (see syncDelta).
+   * GitHub stops paging any search after 1000 results.
+   */
+  public async searchRepositories(searchQuery: string, limit: number, cursor: string | null, probe = false): Promise<RepositorySearchPage> {
+    const query = `
+      query SearchRepositories($searchQuery: String!, $limit: Int!, $cursor: String) {
+        rateLimit { remaining resetAt cost }
+        search(query: $searchQuery, type: REPOSITORY, first: $limit, after: $cursor) {
+          repositoryCount
+          pageInfo { endCursor, hasNextPage }
+          nodes {
+            ...${probe ? 'RepositoryProbeFields' : 'RepositoryFields'}
+          }
+        }
+      }
+      ${probe ? REPOSITORY_PROBE_FRAGMENT : REPOSITORY_FRAGMENT}
+    `;
+
+    const data: any = await githubClient.graphql(query, { searchQuery, limit, cursor });
+    return {
+      repos: data.search.nodes.filter((repo: any) => repo?.databaseId),
+      totalCount: data.search.repositoryCount,
+      nextCursor: data.search.pageInfo.endCursor,
+      hasNext: data.search.pageInfo.hasNextPage,
+    };
+  }
+
+  // Number of repositories matching a search, without fetching any of them
+  public async countRepositories(searchQuery: string): Promise<number> {
+    const query = `
+      query CountRepositories($searchQuery: String!) {
+        rateLimit { remaining resetAt cost }
+        search(query: $searchQuery, type: REPOSITORY, first: 1) { repositoryCount }
+      }
+    `;
+    const data: any = await githubClient.graphql(query, { searchQuery });
+    return data.search.repositoryCount;
+  }
+
+  /**
+   * Resolves 'owner/name' strings to full repositories, ENRICH_BATCH_SIZE per GraphQL request
+   * (one aliased `repository` field each). Aliases that error out are retried one by one;
+   * repositories GitHub reports as missing are skipped.
+   */
+  public async fetchRepositories(fullNames: string[], reporter: JobReporter = noopReporter): Promise<GitHubRepo[]> {
+    const repos: GitHubRepo[] = [];
+    reporter.addTotal(fullNames.length);
+
+    for (let i = 0; i < fullNames.length; i += ENRICH_BATCH_SIZE) {
+      if (reporter.isCancelled()) break;
+      const batch = fullNames.slice(i, i + ENRICH_BATCH_SIZE);
+      reporter.startItem(`${batch[0]} (+${batch.length - 1} more)`);
+
+      let found = new Map<string, GitHubRepo>();
+      let failed: string[];
+      try {
+        ({ found, failed } = await this.fetchRepositoryBatch(batch));
+      } catch (error: any) {
+        // The whole request failed (timeout, 5xx): every alias goes to the single-request fallback
+        console.warn(`   ⚠️ Batch of ${batch.length} failed (${error.message}). Falling back to single requests.`);
+        failed = batch;
+      }
+
+      let erroredCount = 0;
+      for (const fullName of failed) {
+        if (reporter.isCancelled()) break;
+        try {
+          const repo = await this.fetchRepository(fullName);
+          if (repo) found.set(fullName, repo);
+        } catch (error: any) {
+          erroredCount++;
+          reporter.failItem(error.message);
+          console.warn(`   ⚠️ Enrichment skipped for ${fullName}: ${error.message}`);
+        }
+      }
+
+      // Keep the caller's order (it is the ranking for search / GH Archive lists)
+      for (const fullName of batch) {
+        const repo = found.get(fullName);
+        if (repo) repos.push(repo);
+      }
+      reporter.completeItem(batch.length - erroredCount);
+    }
+    return repos;
+  }
+
+  /**
+   * One aliased query for the whole batch. Returns the repositories that came back and the
+   * names whose alias failed for a reason other than NOT_FOUND (worth a single retry).
+   */
+  private async fetchRepositoryBatch(fullNames: string[]): Promise<{ found: Map<string, GitHubRepo>; failed: string[] }> {
+    const results = await githubClient.batchRepositoryQuery<GitHubRepo>(fullNames, '...RepositoryFields', {
+      operationName: 'FetchRepositoryBatch',
+      fragment: REPOSITORY_FRAGMENT,
+    });
+
+    const found = new Map<string, GitHubRepo>();
+    const failed: string[] = [];
+    for (const fullName of fullNames) {
+      const repo = results.get(fullName);
+      if (repo) found.set(fullName, repo);
+      else if (repo === undefined) failed.push(fullName);
+    }
+    return { found, failed };
+  }
+
+  // ===========================================================================
+  // 2. SAVING
+  // ===========================================================================
+
+  /**
+   * Upserts repositories (+ languages + stats) in one transaction.
+   */
+  public async saveRepositories(repos: GitHubRepo[], options: UpsertOptions = {}): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.upsertRepositories(client, repos, options);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Makes `repos` the exact content of a category list: the tag is removed from every
+   * other repository and the new set is upserted, atomically.
+   */
+  public async replaceCategory(repos: GitHubRepo[], category: string, options: Omit<UpsertOptions, 'category'> = {}): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      console.log(`   🧹 Clearing '${category}' tag from old records...`);
+      await client.query(
+        `UPDATE repositories SET categories = array_remove(categories, $1) WHERE $1 = ANY(categories)`,
+        [category]
+      );
+
+      console.log(`   💾 Upserting ${repos.length} '${category}' records...`);
+      await this.upsertRepositories(client, repos, { ...options, category });
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Removes a category tag from every repository not in `keepGithubIds`.
+   * Lists built page by page (syncDelta) call this once the full list is known. Returns how many lost the tag.
+   */
+  public async pruneCategory(category: string, keepGithubIds: number[]): Promise<number> {
+    const result = await pool.query(
+      `UPDATE repositories SET categories = array_remove(categories, $1)
+       WHERE $1 = ANY(categories) AND NOT (github_id = ANY($2::bigint[]))`,
+      [category, keepGithubIds]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // ===========================================================================
+  // 3. DELTA SYNC (probe first, full fetch only when needed)
+  // ===========================================================================
+
+  /**
+   * Saves a page of probe results (RepositoryProbeFields). Repos pushed to since `last_synced_at`
+   * (or never synced) get the full fetch; the others are saved from the probe, which keeps the
+   * stored README, languages and commit count.
+   */
+  public async syncDelta(probes: GitHubRepo[], options: UpsertOptions = {}): Promise<DeltaSyncResult> {
+    const actions = await this.planDelta(probes);
+    const byAction = (action: DeltaAction) => probes.filter(p => actions.get(p.databaseId) === action);
+
+    const toRefetch = byAction('full');
+    const refetched = await this.fetchRepositories(toRefetch.map(p => p.nameWithOwner));
+    // A repo the full fetch missed is still saved from its probe rather than dropped from the list
+    const refetchedIds = new Set(refetched.map(r => r.databaseId));
+    const toSave = [...refetched, ...toRefetch.filter(p => !refetchedIds.has(p.databaseId)), ...byAction('metadata')];
+    const unchanged = byAction('unchanged');
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await this.upsertRepositories(client, toSave, options);
+      for (const probe of unchanged) {
+        await this.touchRepository(client, probe, options.category ?? null);
+      }
+      // Nothing changed, but push / release recency still decays
+      await healthScoreService.updateHealthScores(client, unchanged.map(probe => probe.databaseId));
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return { full: refetched.length, metadata: toSave.length - refetched.length, unchanged: unchanged.length };
+  }
+
+  private async planDelta(probes: GitHubRepo[]): Promise<Map<number, DeltaAction>> {
+    const { rows } = await pool.query(
+      `SELECT r.github_id, r.sync_status, r.last_synced_at, rs.total_releases
+       FROM repositories r
+       LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
+       WHERE r.github_id = ANY($1::bigint[])`,
+      [probes.map(p => p.databaseId)]
+    );
+    const stored = new Map(rows.map(row => [Number(row.github_id), row]));
+
+    const actions = new Map<number, DeltaAction>();
+    for (const probe of probes) {
+      const row = stored.get(probe.databaseId);
+      const lastSynced = row?.last_synced_at ? new Date(row.last_synced_at) : null;
+
+      if (!row || row.sync_status !== 'complete' || !lastSynced) {
+        actions.set(probe.databaseId, 'full');
+      } else if (probe.pushedAt && new Date(probe.pushedAt) > lastSynced) {
+        actions.set(probe.databaseId, 'full');
+      } else if (new Date(probe.updatedAt) > lastSynced || (probe.releases?.totalCount || 0) !== (row.total_releases || 0)) {
+        actions.set(probe.databaseId, 'metadata');
+      } else {
+        actions.set(probe.databaseId, 'unchanged');
+      }
+    }
+    return actions;
+  }
+
+  private async touchRepository(client: PoolClient, probe: GitHubRepo, category: string | null): Promise<void> {
+    await client.query(
+      `UPDATE repositories SET
+          stars_count = $2,
+          forks_count = $3,
+          watchers_count = $4,
+          open_issues_count = $5,
+          categories = CASE
+            WHEN $6::text IS NULL THEN categories
+            ELSE array_append(array_remove(categories, $6::text), $6::text)
+          END,
+          last_fetched = NOW()
+        WHERE github_id = $1`,
+      [
+        probe.databaseId,
+        probe.stargazerCount || 0,
+        probe.forkCount || 0,
+        probe.watchers?.totalCount || 0,
+        probe.issues?.totalCount || 0,
+        category,
+      ]
+    );
+    await this.upsertSnapshot(client, probe);
+  }
+
+  // ===========================================================================
+  // 4. UPSERT HELPERS (shared by every save path, always inside a transaction)
+  // ===========================================================================
+
+  private async upsertRepositories(client: PoolClient, repos: GitHubRepo[], options: UpsertOptions): Promise<void> {
+    for (const repo of repos) {
+      if (!repo?.databaseId) continue;
+      await this.upsertRepositoryRow(client, toRepositoryRow(repo), options.category ?? null);
+      await this.replaceLanguages(client, repo);
+      await this.upsertStats(client, repo, options);
+      await this.upsertSnapshot(client, repo);
+    }
+    await healthScoreService.updateHealthScores(client, repos.filter(repo => repo?.databaseId).map(repo => repo.databaseId));
+  }
+
+  private async upsertRepositoryRow(client: PoolClient, row: RepositoryRow, category: string | null): Promise<void> {
+    // pg would send an array of objects as a Postgres array, not as JSON
+    const values = ROW_COLUMNS.map(col => col === 'funding_links' ? JSON.stringify(row[col]) : row[col]);
+    const placeholders = ROW_COLUMNS.map((_, i) => `$${i + 1}`).join(', ');
+    const categoryParam = `$${ROW_COLUMNS.length + 1}`;
+    const updates = ROW_COLUMNS
+      .filter(col => col !== 'github_id' && col !== 'readme_snippet')
+      .map(col => `${col} = EXCLUDED.${col}`)
+      .join(',\n          ');
+
+    // Renamed / transferred since the last save, or the name was taken over from a stale row
+    await repositoryReconciliationService.claimName(client, row.github_id, row.full_name);
+    await client.query(
+      `INSERT INTO repositories (
+          ${ROW_COLUMNS.join(', ')},
+          categories, sync_status, last_fetched, last_synced_at
+        ) VALUES (
+          ${placeholders},
+          CASE WHEN ${categoryParam}::text IS NULL THEN '{}'::text[] ELSE ARRAY[${categoryParam}::text] END,
+          'complete', NOW(), NOW()
+        )
+        ON CONFLICT (github_id) DO UPDATE SET
+          ${updates},
+          -- HEAD:README.md misses other file names; keep what the README worker found
+          readme_snippet = COALESCE(NULLIF(EXCLUDED.readme_snippet, ''), repositories.readme_snippet),
+          categories = CASE
+            WHEN ${categoryParam}::text IS NULL THEN repositories.categories
+            ELSE array_append(array_remove(repositories.categories, ${categoryParam}::text), ${categoryParam}::text)
+          END,
+          sync_status = 'complete',
+          upstream_status = 'active',
+          unavailable_since = NULL,
+          last_fetched = NOW(),
+          last_synced_at = NOW()`,
+      [...values, category]
+    );
+  }
+
+  private async replaceLanguages(client: PoolClient, repo: GitHubRepo): Promise<void> {
+    const languages = repo.languages;
+    const edges = languages?.edges || [];
+    // Probes don't carry languages: nothing was fetched
+    if (!languages) return;
+    if (edges.length === 0) {
+      await fetchStateService.markNotFound('languages', repo.databaseId, 'No languages detected', client);
+      return;
+    }
+
+    await client.query('DELETE FROM repository_languages WHERE repo_github_id = $1', [repo.databaseId]);
+    for (const lang of edges) {
+      const percentage = languages.totalSize > 0
+        ? (lang.size / languages.totalSize) * 100
+        : 0;
+      await client.query(
+        `INSERT INTO repository_languages (repo_github_id, language_name, bytes_count, percentage)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (repo_github_id, language_name) DO UPDATE SET
+           bytes_count = EXCLUDED.bytes_count,
+           percentage = EXCLUDED.percentage`,
+        [repo.databaseId, lang.node.name, lang.size, percentage]
+      );
+    }
+    await fetchStateService.markSuccess('languages', repo.databaseId, client);
+  }
+
+  private async upsertStats(client: PoolClient, repo: GitHubRepo, options: UpsertOptions): Promise<void> {
+    const stats = toRepositoryStatsRow(repo);
+    const params: any[] = [
+      stats.repo_github_id, stats.commits_last_year, stats.days_since_last_commit, stats.days_since_last_release,
+      stats.latest_release_tag, stats.latest_release_date, stats.total_releases, stats.activity_score,
+    ];
+
+    // Column names come from the StarsGrowthColumn / TrendWindow unions, never from user input
+    const extraCols: string[] = [];
+    const extraVals: string[] = [];
+    const extraUpdates: string[] = [];
+    const key = repo.nameWithOwner.toLowerCase();
+
+    if (options.starsGrowth) {
+      const { column } = options.starsGrowth;
+      params.push(options.starsGrowth.byFullName.get(key) || 0);
+      extraCols.push(column);
+      extraVals.push(`$${params.length}`);
+      extraUpdates.push(`${column} = EXCLUDED.${column}`);
+    }
+
+    const signals = options.trend?.byFullName.get(key);
+    if (options.trend && signals) {
+      const column = `trend_score_${options.trend.window}`;
+      params.push(signals.score, JSON.stringify({ [options.trend.window]: signals }));
+      extraCols.push(column, 'trend_signals', 'trend_calculated_at');
+      extraVals.push(`$${params.length - 1}`, `$${params.length}::jsonb`, 'NOW()');
+      extraUpdates.push(
+        `${column} = EXCLUDED.${column}`,
+        `trend_signals = COALESCE(repository_stats.trend_signals, '{}'::jsonb) || EXCLUDED.trend_signals`,
+        'trend_calculated_at = NOW()'
+      );
+    }
+
+    await client.query(
+      `INSERT INTO repository_stats (
+          repo_github_id, commits_last_year, days_since_last_commit, days_since_last_release,
+          latest_release_tag, latest_release_date, total_releases, activity_score, calculated_at
+          ${extraCols.map(c => `, ${c}`).join('')}
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW() ${extraVals.map(v => `, ${v}`).join('')})
+        ON CONFLICT (repo_github_id) DO UPDATE SET
+          commits_last_year = COALESCE(EXCLUDED.commits_last_year, repository_stats.commits_last_year),
+          days_since_last_commit = EXCLUDED.days_since_last_commit,
+          days_since_last_release = EXCLUDED.days_since_last_release,
+          latest_release_tag = EXCLUDED.latest_release_tag,
+          latest_release_date = EXCLUDED.latest_release_date,
+          total_releases = EXCLUDED.total_releases,
+          activity_score = EXCLUDED.activity_score,
+          calculated_at = NOW()
+          ${extraUpdates.map(u => `, ${u}`).join('')}`,
+      params
+    );
+  }
+
+  // Star history: one row per repo per day; a later sync on the same day overwrites it
+  private async upsertSnapshot(client: PoolClient, repo: GitHubRepo): Promise<void> {
+    await client.query(
+      `INSERT INTO repository_snapshots (
+          repo_github_id, snapshot_date, stars_count, forks_count, open_issues_count, watchers_count, captured_at
+        ) VALUES ($1, CURRENT_DATE, $2, $3, $4, $5, NOW())
+        ON CONFLICT (repo_github_id, snapshot_date) DO UPDATE SET
+          stars_count = EXCLUDED.stars_count,
+          forks_count = EXCLUDED.forks_count,
+          open_issues_count = EXCLUDED.open_issues_count,
+          watchers_count = EXCLUDED.watchers_count,
+          captured_at = NOW()`,
+      [
+        repo.databaseId,
+        repo.stargazerCount || 0,
+        repo.forkCount || 0,
+        repo.issues?.totalCount || 0,
+        repo.watchers?.totalCount || 0,
+      ]
+    );
+  }
+}
+
+export default new RepositoryIngestionService();
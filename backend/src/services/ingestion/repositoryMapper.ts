@@ -0,0 +1,104 @@
+import { GitHubRepo, RepositoryRow, RepositoryStatsRow } from '../../types/models.js';
+import { CI_CONFIG_FILES } from './repositoryFragment.js';
+
+const README_SNIPPET_MAX_CHARS = 10000;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ===========================================================================
+// 1. ROW MAPPERS
+// ===========================================================================
+
+export function toRepositoryRow(repo: GitHubRepo): RepositoryRow {
+  const readme = (repo.readme?.text || '').replace(/\u0000/g, '');
+
+  return {
+    github_id: repo.databaseId,
+    name: repo.name,
+    full_name: repo.nameWithOwner,
+    owner_login: repo.owner.login,
+    owner_avatar_url: repo.owner.avatarUrl || null,
+    owner_type: repo.owner.__typename || null,
+    description: repo.description || null,
+    html_url: repo.url,
+    homepage_url: repo.homepageUrl || null,
+    stars_count: repo.stargazerCount || 0,
+    forks_count: repo.forkCount || 0,
+    watchers_count: repo.watchers?.totalCount || 0,
+    open_issues_count: repo.issues?.totalCount || 0,
+    size_kb: repo.diskUsage || 0,
+    language: repo.primaryLanguage?.name || null,
+    topics: repo.repositoryTopics?.nodes?.map(t => t.topic.name) || [],
+    license_name: repo.licenseInfo?.name || null,
+    license_key: repo.licenseInfo?.key || null,
+    readme_snippet: readme.slice(0, README_SNIPPET_MAX_CHARS),
+    created_at: repo.createdAt,
+    updated_at: repo.updatedAt,
+    pushed_at: repo.pushedAt || null,
+    is_fork: !!repo.isFork,
+    is_archived: !!repo.isArchived,
+    is_disabled: !!repo.isDisabled,
+    allow_forking: !!repo.forkingAllowed,
+    is_template: !!repo.isTemplate,
+    visibility: repo.visibility || 'PUBLIC',
+    has_issues: !!repo.hasIssuesEnabled,
+    has_projects: !!repo.hasProjectsEnabled,
+    has_downloads: true,  // Not exposed by GraphQL
+    has_wiki: !!repo.hasWikiEnabled,
+    has_pages: false,     // Not exposed by GraphQL
+    has_discussions: !!repo.hasDiscussionsEnabled,
+    default_branch: repo.defaultBranchRef?.name || 'main',
+    subscribers_count: repo.watchers?.totalCount || 0,
+    network_count: repo.forkCount || 0,
+    has_contributing: !!repo.contributingGuidelines,
+    code_of_conduct_key: repo.codeOfConduct?.key || null,
+    has_security_policy: !!repo.isSecurityPolicyEnabled,
+    issue_templates_count: repo.issueTemplates?.length || 0,
+    has_pr_template: (repo.pullRequestTemplates?.length || 0) > 0,
+    has_ci: Object.keys(CI_CONFIG_FILES).some(alias => !!(repo as Record<string, any>)[alias]),
+    funding_links: (repo.fundingLinks || []).map(link => ({ platform: link.platform, url: link.url })),
+  };
+}
+
+export function toRepositoryStatsRow(repo: GitHubRepo): RepositoryStatsRow {
+  const daysSinceCommit = daysSince(repo.pushedAt);
+  const latestRelease = repo.releases?.nodes?.[0];
+
+  return {
+    repo_github_id: repo.databaseId,
+    commits_last_year: repo.defaultBranchRef?.target ? repo.defaultBranchRef.target.history?.totalCount || 0 : null,
+    days_since_last_commit: daysSinceCommit,
+    days_since_last_release: daysSince(latestRelease?.publishedAt),
+    latest_release_tag: latestRelease?.tagName || null,
+    latest_release_date: latestRelease?.publishedAt || null,
+    total_releases: repo.releases?.totalCount || 0,
+    activity_score: calculateActivityScore(repo, daysSinceCommit),
+  };
+}
+
+// ===========================================================================
+// 2. SCORING (single definition for every sync source)
+// ===========================================================================
+
+// The health score needs the issue / PR metrics too: the ingestion service recomputes it
+// from the saved rows with services/metrics/healthScore.ts
+
+export function calculateActivityScore(repo: GitHubRepo, daysSinceCommit: number | null): number {
+  let score = 0;
+  score += Math.log10((repo.stargazerCount || 0) + 1) * 100;
+  score += Math.log10((repo.forkCount || 0) + 1) * 50;
+
+  if (daysSinceCommit !== null) {
+    if (daysSinceCommit <= 7) score += 200;
+    else if (daysSinceCommit <= 30) score += 100;
+    else if (daysSinceCommit <= 90) score += 50;
+    else if (daysSinceCommit > 365) score *= 0.5;
+  }
+
+  score += Math.min(repo.issues?.totalCount || 0, 100) * 0.5;
+  return Math.round(score * 100) / 100;
+}
+
+function daysSince(date?: string | null): number | null {
+  if (!date) return null;
+  return Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS);
+}
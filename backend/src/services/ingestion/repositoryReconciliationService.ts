@@ -0,0 +1,282 @@
+import { PoolClient } from 'pg';
+import pool from '../../db.js';
+import githubClient from '../github/githubClient.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { UpstreamStatus } from '../../types/models.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+
+// Repositories per aliased lookup by stored name
+const BATCH_SIZE = 50;
+// A repository is checked again once its last check is older than this
+const RECHECK_DAYS = 7;
+
+const IDENTITY_FRAGMENT = `
+  fragment Identity on Repository {
+    databaseId
+    nameWithOwner
+    isArchived
+    isDisabled
+  }
+`;
+
+interface UpstreamIdentity {
+  github_id: number;
+  full_name: string;
+  is_archived: boolean;
+  is_disabled: boolean;
+}
+
+// What GitHub says about one of our github_ids: its current identity, or why it has none
+type Resolution =
+  | { status: 'active'; identity: UpstreamIdentity }
+  | { status: Exclude<UpstreamStatus, 'active'> };
+
+type ReconcileOutcome = 'unchanged' | 'renamed' | 'unavailable';
+
+interface StoredRepository {
+  github_id: string;
+  full_name: string;
+}
+
+/**
+ * Keeps `repositories` in step with GitHub's identity of each github_id. GitHub resolves an
+ * old name to the renamed / transferred repo, but that name can also be taken by another repo
+ * (or the repo can be gone), so anything that doesn't come back with our github_id is looked
+ * up by id. Former names are kept in repository_aliases so old URLs keep resolving.
+ */
+class RepositoryReconciliationService {
+
+  // ===========================================================================
+  // 1. RECONCILIATION WORKER
+  // ===========================================================================
+
+  // Checks the repos (stubs included) never checked or not checked for RECHECK_DAYS
+  public async reconcileRepositories(limit = 2000, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔄 [Reconcile] Checking repositories upstream by github_id (Limit: ${limit})...`);
+
+    const { rows } = await pool.query(
+      `SELECT github_id, full_name FROM repositories
+       WHERE upstream_checked_at IS NULL OR upstream_checked_at < NOW() - make_interval(days => $2)
+       ORDER BY upstream_checked_at ASC NULLS FIRST, stars_count DESC
+       LIMIT $1`,
+      [limit, RECHECK_DAYS]
+    );
+
+    if (rows.length === 0) {
+      console.log("   No repositories due for a check.");
+      return;
+    }
+
+    const counts: Record<ReconcileOutcome, number> = { unchanged: 0, renamed: 0, unavailable: 0 };
+    reporter.addTotal(rows.length);
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      if (reporter.isCancelled()) break;
+      const batch: StoredRepository[] = rows.slice(i, i + BATCH_SIZE);
+      reporter.startItem(`${batch[0].full_name} (+${batch.length - 1} more)`);
+
+      let byName: Map<string, UpstreamIdentity | null>;
+      try {
+        byName = await this.lookupByNameBatch(batch.map(r => r.full_name));
+      } catch (error: any) {
+        // The whole request failed: the batch stays due and is picked up by the next run
+        console.error(`  ❌ Identity batch failed:`, error.message);
+        for (const repo of batch) reporter.failItem(error.message);
+        continue;
+      }
+
+      for (const repo of batch) {
+        try {
+          const outcome = await this.apply(repo, await this.resolve(repo, byName.get(repo.full_name)));
+          counts[outcome]++;
+          reporter.completeItem();
+        } catch (error: any) {
+          reporter.failItem(error.message);
+          console.error(`  ❌ Error reconciling ${repo.full_name}:`, error.message);
+        }
+      }
+    }
+    console.log(`   ✅ ${counts.unchanged} unchanged, ${counts.renamed} renamed, ${counts.unavailable} unavailable`);
+  }
+
+  /**
+   * Reconciles a single repo right away (e.g. a stub whose stored name no longer resolves to it).
+   * Returns its current 'owner/name', or null when it is no longer available.
+   */
+  public async reconcileRepository(repo: StoredRepository): Promise<string | null> {
+    const resolution = await this.resolve(repo, undefined);
+    await this.apply(repo, resolution);
+    return resolution.status === 'active' ? resolution.identity.full_name : null;
+  }
+
+  // ===========================================================================
+  // 2. NAMES (shared with the ingestion path)
+  // ===========================================================================
+
+  /**
+   * Makes `fullName` the name of `githubId` before a write. The previous name becomes an alias;
+   * a stale row still holding `fullName` (itself renamed or gone upstream) gives it up under a
+   * placeholder and is rechecked first by the next reconciliation. Call inside the writer's transaction.
+   */
+  public async claimName(client: PoolClient, githubId: number | string, fullName: string): Promise<void> {
+    const { rows } = await client.query(
+      `SELECT github_id, full_name FROM repositories WHERE github_id = $1 OR full_name = $2`,
+      [githubId, fullName]
+    );
+    const own = rows.find(row => String(row.github_id) === String(githubId));
+    const holder = rows.find(row => String(row.github_id) !== String(githubId));
+
+    if (holder) {
+      // '#' can't appear in a GitHub name, so the placeholder never collides with a real one
+      await client.query(
+        `UPDATE repositories SET full_name = full_name || '#' || github_id, upstream_checked_at = NULL
+         WHERE github_id = $1`,
+        [holder.github_id]
+      );
+      console.log(`  ⚠️ ${fullName} now belongs to another repository, previous holder queued for reconciliation`);
+    }
+
+    if (own && own.full_name !== fullName) {
+      if (!own.full_name.includes('#')) {
+        await client.query(
+          `INSERT INTO repository_aliases (full_name, repo_github_id, renamed_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (full_name) DO UPDATE SET repo_github_id = EXCLUDED.repo_github_id, renamed_at = NOW()`,
+          [own.full_name, githubId]
+        );
+      }
+      // Renamed back to a former name: it is canonical again
+      await client.query(`DELETE FROM repository_aliases WHERE full_name = $1`, [fullName]);
+
+      const [owner, name] = fullName.split('/');
+      await client.query(
+        `UPDATE repositories SET full_name = $2, name = $3, owner_login = $4, html_url = $5 WHERE github_id = $1`,
+        [githubId, fullName, name, owner, `https://github.com/${fullName}`]
+      );
+      console.log(`  ↪️ ${own.full_name} is now ${fullName}`);
+    }
+  }
+
+  // Repo behind an 'owner/name' we have stored or used to have (case-insensitive, like GitHub)
+  public async resolveFullName(fullName: string): Promise<string | null> {
+    const { rows } = await pool.query(
+      `SELECT github_id FROM (
+         SELECT github_id, CASE WHEN full_name = $1 THEN 0 ELSE 1 END AS rank
+         FROM repositories WHERE LOWER(full_name) = LOWER($1)
+         UNION ALL
+         SELECT repo_github_id, 2 FROM repository_aliases WHERE LOWER(full_name) = LOWER($1)
+       ) matches
+       ORDER BY rank
+       LIMIT 1`,
+      [fullName]
+    );
+    return rows[0]?.github_id ?? null;
+  }
+
+  public async getAliases(repoGithubId: number | string): Promise<{ full_name: string; renamed_at: string }[]> {
+    const { rows } = await pool.query(
+      `SELECT full_name, renamed_at FROM repository_aliases WHERE repo_github_id = $1 ORDER BY renamed_at DESC`,
+      [repoGithubId]
+    );
+    return rows;
+  }
+
+  // ===========================================================================
+  // 3. LOOKUPS
+  // ===========================================================================
+
+  /**
+   * Returns, per stored 'owner/name', the repo GitHub resolves it to (following renames), null
+   * when GitHub reports it missing, or no entry when its alias errored for another reason.
+   */
+  private async lookupByNameBatch(fullNames: string[]): Promise<Map<string, UpstreamIdentity | null>> {
+    // Placeholders ('owner/name#id') are looked up under the name they gave up
+    const lookupName = (fullName: string) => fullName.split('#')[0];
+    const repos = await githubClient.batchRepositoryQuery(
+      [...new Set(fullNames.map(lookupName))],
+      '...Identity',
+      { operationName: 'LookupRepositories', fragment: IDENTITY_FRAGMENT }
+    );
+
+    const results = new Map<string, UpstreamIdentity | null>();
+    for (const fullName of fullNames) {
+      const repo = repos.get(lookupName(fullName));
+      if (repo === undefined) continue;
+      results.set(fullName, repo ? {
+        github_id: repo.databaseId,
+        full_name: repo.nameWithOwner,
+        is_archived: !!repo.isArchived,
+        is_disabled: !!repo.isDisabled,
+      } : null);
+    }
+    return results;
+  }
+
+  // The name lookup is only trusted when it lands on our github_id; anything else asks by id
+  private async resolve(repo: StoredRepository, byName: UpstreamIdentity | null | undefined): Promise<Resolution> {
+    if (byName && String(byName.github_id) === String(repo.github_id)) {
+      return { status: 'active', identity: byName };
+    }
+
+    const response = await githubClient.rest(`/repositories/${repo.github_id}`);
+    if (response.status === 404) return { status: 'unavailable' };
+    if (response.status === 451) return { status: 'blocked' };
+    if (!response.ok) throw new Error(`GitHub API ${response.status} for repository ${repo.github_id}`);
+
+    const data: any = await response.json();
+    return {
+      status: 'active',
+      identity: {
+        github_id: data.id,
+        full_name: data.full_name,
+        is_archived: !!data.archived,
+        is_disabled: !!data.disabled,
+      },
+    };
+  }
+
+  // ===========================================================================
+  // 4. WRITES
+  // ===========================================================================
+
+  private async apply(repo: StoredRepository, resolution: Resolution): Promise<ReconcileOutcome> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      let outcome: ReconcileOutcome;
+
+      if (resolution.status === 'active') {
+        const { identity } = resolution;
+        outcome = identity.full_name === repo.full_name ? 'unchanged' : 'renamed';
+        await this.claimName(client, repo.github_id, identity.full_name);
+        await client.query(
+          `UPDATE repositories SET
+             is_archived = $2, is_disabled = $3,
+             upstream_status = 'active', unavailable_since = NULL, upstream_checked_at = NOW()
+           WHERE github_id = $1`,
+          [repo.github_id, identity.is_archived, identity.is_disabled]
+        );
+      } else {
+        // Stale data stays readable on its page, but the repo leaves every list
+        outcome = 'unavailable';
+        await client.query(
+          `UPDATE repositories SET
+             upstream_status = $2, unavailable_since = COALESCE(unavailable_since, NOW()),
+             upstream_checked_at = NOW(), categories = '{}'
+           WHERE github_id = $1`,
+          [repo.github_id, resolution.status]
+        );
+        console.log(`  🗑️ ${repo.full_name} is ${resolution.status} upstream`);
+      }
+
+      await client.query('COMMIT');
+      return outcome;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+export default new RepositoryReconciliationService();
@@ -0,0 +1,78 @@
+import repositoryIngestionService from './repositoryIngestionService.js';
+import { TOP_LIST_DEFINITIONS, TopListDefinition, topListCategory, topListSearchQuery } from '../../constants/topLists.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Maintains the language/topic top lists declared in constants/topLists.ts.
+ * Each list is searched with probe fields and saved through syncDelta (full fetch only for
+ * repos that changed), then repos that fell out of the list lose its tag.
+ */
+class TopListSyncService {
+
+  public getLists(): TopListDefinition[] {
+    return TOP_LIST_DEFINITIONS;
+  }
+
+  public findByCategory(category: string): TopListDefinition | undefined {
+    return TOP_LIST_DEFINITIONS.find(list => topListCategory(list) === category);
+  }
+
+  // `category` narrows the run to one list (e.g. 'top_lang_rust'). A failed list doesn't stop the
+  // others, but the run throws at the end so the job is recorded as failed and retried.
+  public async syncLists(category?: string, reporter: JobReporter = noopReporter): Promise<void> {
+    const lists = category ? TOP_LIST_DEFINITIONS.filter(list => topListCategory(list) === category) : TOP_LIST_DEFINITIONS;
+    if (lists.length === 0) throw new Error(`Unknown top list: ${category}`);
+
+    console.log(`🏷️ [Top Lists] Syncing ${lists.length} lists...`);
+    reporter.addTotal(lists.reduce((sum, list) => sum + Math.min(list.limit, 1000), 0));
+
+    const failed: string[] = [];
+    for (const list of lists) {
+      if (reporter.isCancelled()) break;
+      try {
+        await this.syncList(list, reporter);
+      } catch (error: any) {
+        failed.push(list.label);
+        reporter.failItem(error.message);
+        console.error(`   ❌ [Top Lists] ${list.label} failed:`, error.message);
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length}/${lists.length} top lists failed: ${failed.join(', ')}`);
+    }
+  }
+
+  private async syncList(list: TopListDefinition, reporter: JobReporter): Promise<void> {
+    const category = topListCategory(list);
+    const searchQuery = topListSearchQuery(list);
+    const limit = Math.min(list.limit, 1000);
+    const kept: number[] = [];
+    let cursor: string | null = null;
+
+    while (kept.length < limit) {
+      if (reporter.isCancelled()) return; // Keep the previous list rather than pruning a partial one
+      reporter.startItem(`${list.label} ${kept.length + 1}-${Math.min(kept.length + PAGE_SIZE, limit)}`);
+
+      const page = await repositoryIngestionService.searchRepositories(
+        searchQuery, Math.min(PAGE_SIZE, limit - kept.length), cursor, true
+      );
+      if (page.repos.length > 0) {
+        await repositoryIngestionService.syncDelta(page.repos, { category });
+        kept.push(...page.repos.map(repo => repo.databaseId));
+      }
+      reporter.completeItem(page.repos.length);
+
+      if (!page.hasNext || page.repos.length === 0) break;
+      cursor = page.nextCursor;
+    }
+
+    const pruned = await repositoryIngestionService.pruneCategory(category, kept);
+    console.log(`   ✅ [Top Lists] ${list.label}: ${kept.length} repos tagged '${category}' (${pruned} dropped)`);
+  }
+}
+
+export default new TopListSyncService();
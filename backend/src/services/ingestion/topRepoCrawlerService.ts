@@ -0,0 +1,266 @@
+import pool from '../../db.js';
+import repositoryIngestionService from './repositoryIngestionService.js';
+import { SearchCrawlSlice } from '../../types/models.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+
+// GitHub pages through at most this many results of any single search
+const SEARCH_RESULT_CAP = 1000;
+// No repository was created before GitHub launched; lower bound of created: windows
+const GITHUB_EPOCH = '2007-10-01';
+const DEFAULT_MIN_STARS = 1000;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface CrawlOptions {
+  target: number;        // Stop once this many repos have been indexed by the crawl
+  minStars?: number;     // Lowest star band to explore
+  reset?: boolean;       // Drop the saved frontier and start from the top
+  fullRefresh?: boolean; // Save full repositories instead of probe + delta sync
+}
+
+/**
+ * Indexes the top repositories past the 1000-result search cap.
+ * The star range is cut into slices (star bands, then created: windows when a single star
+ * count still has > 1000 repos) that are each small enough to page completely, highest stars first.
+ * The frontier lives in 'search_crawl_slices', so an interrupted crawl resumes where it stopped.
+ */
+class TopRepoCrawlerService {
+
+  // ===========================================================================
+  // 1. CRAWL LOOP
+  // ===========================================================================
+
+  public async crawl(name: string, options: CrawlOptions, reporter: JobReporter = noopReporter): Promise<void> {
+    let indexed = await this.startOrResume(name, options);
+    reporter.addTotal(Math.max(0, options.target - indexed));
+
+    // Stars move while we crawl, so a repo can show up in two adjacent bands: keep the first one
+    const seen = new Set<number>();
+    const pageSize = options.fullRefresh ? 20 : 100;
+
+    while (indexed < options.target) {
+      if (reporter.isCancelled()) {
+        console.log(`  🛑 [Crawler] Cancelled at ${indexed}/${options.target} (frontier saved)`);
+        return;
+      }
+
+      const slice = await this.nextSlice(name);
+      if (!slice) break;
+      const searchQuery = this.sliceQuery(slice);
+
+      try {
+        // 1. Size the slice; split it while it is over the cap
+        if (slice.result_count === null) {
+          const count = await repositoryIngestionService.countRepositories(searchQuery);
+          await pool.query(`UPDATE search_crawl_slices SET result_count = $2, updated_at = NOW() WHERE id = $1`, [slice.id, count]);
+
+          if (count > SEARCH_RESULT_CAP) {
+            const children = this.splitSlice(slice);
+            if (children) {
+              await this.replaceWithChildren(slice, children);
+              console.log(`  ✂️ [Crawler] '${searchQuery}' has ${count} results, split in ${children.length}`);
+              continue;
+            }
+            console.warn(`  ⚠️ [Crawler] '${searchQuery}' has ${count} results and can't be split further; only ${SEARCH_RESULT_CAP} are reachable`);
+          }
+        }
+
+        // 2. Fetch one page of the slice and checkpoint right after saving it
+        reporter.startItem(searchQuery);
+        const page = await repositoryIngestionService.searchRepositories(searchQuery, pageSize, slice.cursor, !options.fullRefresh);
+        const fresh = page.repos.filter(repo => !seen.has(repo.databaseId));
+        fresh.forEach(repo => seen.add(repo.databaseId));
+
+        if (fresh.length > 0) {
+          if (options.fullRefresh) {
+            await repositoryIngestionService.saveRepositories(fresh, { category: 'top' });
+          } else {
+            await repositoryIngestionService.syncDelta(fresh, { category: 'top' });
+          }
+        }
+
+        const done = !page.hasNext || page.repos.length === 0;
+        await pool.query(
+          `UPDATE search_crawl_slices SET
+              cursor = $2, fetched_count = fetched_count + $3, status = $4, updated_at = NOW()
+            WHERE id = $1`,
+          [slice.id, page.nextCursor, page.repos.length, done ? 'done' : 'pending']
+        );
+        await pool.query(
+          `UPDATE search_crawls SET repos_indexed = repos_indexed + $2, updated_at = NOW() WHERE name = $1`,
+          [name, fresh.length]
+        );
+
+        indexed += fresh.length;
+        reporter.completeItem(fresh.length);
+        if (done) console.log(`  ✓ [Crawler] '${searchQuery}' done (${indexed}/${options.target} indexed)`);
+
+      } catch (error: any) {
+        // Rate limits are waited out inside githubClient; fail the job so the queue's retry resumes from the checkpoint
+        console.error(`  ❌ [Crawler] '${searchQuery}' failed:`, error.message);
+        reporter.failItem(error.message);
+        throw error;
+      }
+    }
+
+    await pool.query(
+      `UPDATE search_crawls SET status = 'completed', finished_at = NOW(), updated_at = NOW() WHERE name = $1`,
+      [name]
+    );
+    console.log(`✅ [Crawler] '${name}' completed with ${indexed} repos indexed.`);
+  }
+
+  // Frontier + progress of a crawl (null if it never ran)
+  public async getStatus(name: string): Promise<any | null> {
+    const { rows } = await pool.query(`SELECT * FROM search_crawls WHERE name = $1`, [name]);
+    if (rows.length === 0) return null;
+
+    const slices = await pool.query(
+      `SELECT status, COUNT(*)::int AS count, COALESCE(SUM(fetched_count), 0)::int AS fetched
+       FROM search_crawl_slices WHERE crawl_name = $1 GROUP BY status`,
+      [name]
+    );
+    const next = await this.nextSlice(name);
+
+    return {
+      ...rows[0],
+      slices: slices.rows,
+      next_slice: next ? this.sliceQuery(next) : null,
+    };
+  }
+
+  // ===========================================================================
+  // 2. FRONTIER (search_crawl_slices)
+  // ===========================================================================
+
+  // Returns how many repos the crawl has already indexed (0 for a fresh start)
+  private async startOrResume(name: string, options: CrawlOptions): Promise<number> {
+    const minStars = Math.max(1, options.minStars ?? DEFAULT_MIN_STARS);
+    const { rows } = await pool.query(`SELECT * FROM search_crawls WHERE name = $1`, [name]);
+    const existing = rows[0];
+
+    if (existing && existing.status === 'running' && !options.reset) {
+      await pool.query(`UPDATE search_crawls SET target_count = $2, updated_at = NOW() WHERE name = $1`, [name, options.target]);
+      console.log(`🔁 [Crawler] Resuming '${name}' (${existing.repos_indexed} repos indexed so far)`);
+      return existing.repos_indexed;
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`DELETE FROM search_crawl_slices WHERE crawl_name = $1`, [name]);
+      await client.query(
+        `INSERT INTO search_crawls (name, status, target_count, min_stars, repos_indexed, started_at, finished_at, updated_at)
+         VALUES ($1, 'running', $2, $3, 0, NOW(), NULL, NOW())
+         ON CONFLICT (name) DO UPDATE SET
+           status = 'running', target_count = EXCLUDED.target_count, min_stars = EXCLUDED.min_stars,
+           repos_indexed = 0, started_at = NOW(), finished_at = NULL, updated_at = NOW()`,
+        [name, options.target, minStars]
+      );
+      // Seed: one open-ended band, split on demand
+      await client.query(
+        `INSERT INTO search_crawl_slices (crawl_name, stars_min, stars_max) VALUES ($1, $2, NULL)`,
+        [name, minStars]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`🕸️ [Crawler] Starting '${name}' (target ${options.target}, stars >= ${minStars})`);
+    return 0;
+  }
+
+  // Highest stars first, so the best repos are indexed even if the crawl stops early
+  private async nextSlice(name: string): Promise<SearchCrawlSlice | null> {
+    const { rows } = await pool.query(
+      `SELECT id, crawl_name, stars_min, stars_max, created_from::text, created_to::text,
+              status, result_count, fetched_count, cursor
+       FROM search_crawl_slices
+       WHERE crawl_name = $1 AND status = 'pending'
+       ORDER BY stars_min DESC, created_to DESC NULLS FIRST, id
+       LIMIT 1`,
+      [name]
+    );
+    return rows[0] || null;
+  }
+
+  private async replaceWithChildren(parent: SearchCrawlSlice, children: Partial<SearchCrawlSlice>[]): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`UPDATE search_crawl_slices SET status = 'split', updated_at = NOW() WHERE id = $1`, [parent.id]);
+      for (const child of children) {
+        await client.query(
+          `INSERT INTO search_crawl_slices (crawl_name, stars_min, stars_max, created_from, created_to)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [parent.crawl_name, child.stars_min, child.stars_max ?? null, child.created_from ?? null, child.created_to ?? null]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ===========================================================================
+  // 3. SLICING
+  // ===========================================================================
+
+  private sliceQuery(slice: SearchCrawlSlice): string {
+    let stars: string;
+    if (slice.stars_max === null) stars = `stars:>=${slice.stars_min}`;
+    else if (slice.stars_min === slice.stars_max) stars = `stars:${slice.stars_min}`;
+    else stars = `stars:${slice.stars_min}..${slice.stars_max}`;
+
+    const created = slice.created_from && slice.created_to ? ` created:${slice.created_from}..${slice.created_to}` : '';
+    return `${stars}${created} sort:stars-desc`;
+  }
+
+  /**
+   * Star bands are halved (the open top band doubles its floor instead); a single star count
+   * is cut into created: windows. Returns null once a slice is one star count on one day.
+   */
+  private splitSlice(slice: SearchCrawlSlice): Partial<SearchCrawlSlice>[] | null {
+    const { stars_min: min, stars_max: max } = slice;
+
+    if (max === null) {
+      const floor = Math.max(min * 2, min + 1);
+      return [
+        { stars_min: floor, stars_max: null },
+        { stars_min: min, stars_max: floor - 1 },
+      ];
+    }
+
+    if (min < max) {
+      const mid = Math.floor((min + max) / 2);
+      return [
+        { stars_min: mid + 1, stars_max: max },
+        { stars_min: min, stars_max: mid },
+      ];
+    }
+
+    const from = slice.created_from ?? GITHUB_EPOCH;
+    const to = slice.created_to ?? new Date().toISOString().slice(0, 10);
+    const days = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+    if (days < 1) return null;
+
+    const mid = addDays(from, Math.floor(days / 2));
+    return [
+      { stars_min: min, stars_max: max, created_from: addDays(mid, 1), created_to: to },
+      { stars_min: min, stars_max: max, created_from: from, created_to: mid },
+    ];
+  }
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export default new TopRepoCrawlerService();
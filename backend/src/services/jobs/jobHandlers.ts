@@ -0,0 +1,86 @@
+import githubService from '../githubService.js';
+import workerService from '../workerService.js';
+import developerWorkerService from '../developerWorkerService.js';
+import organizationWorkerService from '../organizationWorkerService.js';
+import followGraphWorkerService from '../followGraphWorkerService.js';
+import newService from '../newService.js';
+import topListSyncService from '../ingestion/topListSyncService.js';
+import readmeWorkerService from '../fetchings/readmeWorkerService.js';
+import commitActivityWorkerService from '../fetchings/commitActivityWorkerService.js';
+import contributorsWorkerService from '../fetchings/contributorsWorkerService.js';
+import commitsWorkerService from '../fetchings/commitsWorkerService.js';
+import issuesWorkerService from '../fetchings/issuesWorkerService.js';
+import releasesWorkerService from '../fetchings/releasesWorkerService.js';
+import dependenciesWorkerService from '../fetchings/dependenciesWorkerService.js';
+import techStackWorkerService from '../fetchings/techStackWorkerService.js';
+import repositoryReconciliationService from '../ingestion/repositoryReconciliationService.js';
+import ghArchiveFileService from '../gharchive/ghArchiveFileService.js';
+import growthMetricsService from '../metrics/growthMetricsService.js';
+import healthScoreService from '../metrics/healthScoreService.js';
+import { embedRepositories } from '../aiServices/embeddingService.js';
+import { JobHandler, JobType } from '../../types/jobModels.js';
+
+// Maps every JobType to the service call that does the actual work.
+// Handlers must throw on failure so the runner can record the error and retry,
+// and pass the reporter down so the job exposes progress and can be cancelled.
+export const jobHandlers: Record<JobType, JobHandler> = {
+  // --- Repository discovery ---
+  // payload.mode: 'full' (default) | 'incremental'; comprehensive also takes payload.target / payload.reset
+  sync_quick: ({ payload, reporter }) => githubService.syncQuick(reporter, payload.mode === 'incremental'),
+  sync_comprehensive: ({ payload, reporter }) => githubService.syncComprehensive(reporter, {
+    incremental: payload.mode === 'incremental',
+    target: payload.target,
+    reset: payload.reset,
+  }),
+  sync_growing: ({ reporter }) => githubService.SaveGrowingRepositories(reporter),
+  sync_trending: ({ reporter }) => githubService.SaveTrendingRepositories(reporter),
+  sync_top_lists: ({ payload, reporter }) => topListSyncService.syncLists(payload.list, reporter),
+  // Renames, transfers and deletions, resolved by github_id
+  repos_reconcile: ({ reporter }) => repositoryReconciliationService.reconcileRepositories(undefined, reporter),
+
+  // --- GH Archive (payload.source: 'bigquery' | 'local', auto-detected when absent) ---
+  gharchive_weekly: ({ payload, reporter }) => newService.syncWeekly(reporter, payload.source),
+  gharchive_monthly: ({ payload, reporter }) => newService.syncMonthly(reporter, payload.source),
+  gharchive_quarterly: ({ payload, reporter }) => newService.syncQuarterly(reporter, payload.source),
+  gharchive_import: async ({ reporter }) => { await ghArchiveFileService.importDirectory(undefined, reporter); },
+
+  // --- "Missing data" fetchers ---
+  readme_missing: ({ reporter }) => readmeWorkerService.updateMissingReadmes(undefined, reporter),
+  activity_missing: ({ reporter }) => commitActivityWorkerService.updateMissingCommitActivity(undefined, reporter),
+  contributors_missing: ({ reporter }) => contributorsWorkerService.updateMissingContributors(undefined, reporter),
+  // payload.mode: 'deep' fetches additions / deletions / files changed through GraphQL
+  commits_missing: ({ payload, reporter }) => payload.mode === 'deep'
+    ? commitsWorkerService.deepFetchRecentCommits(undefined, reporter)
+    : commitsWorkerService.updateMissingRecentCommits(undefined, reporter),
+  issues_analytics: ({ reporter }) => issuesWorkerService.updateIssueAnalytics(undefined, reporter),
+  releases_missing: ({ reporter }) => releasesWorkerService.updateMissingReleases(undefined, reporter),
+  dependencies_missing: ({ reporter }) => dependenciesWorkerService.updateMissingDependencies(undefined, reporter),
+  tech_stack_missing: ({ reporter }) => techStackWorkerService.updateMissingTechStacks(undefined, reporter),
+
+  // --- Legacy worker service (payload.mode: 'all' | 'missing') ---
+  worker_contributors: ({ payload, reporter }) => payload.mode === 'all'
+    ? workerService.updateAllContributors(undefined, reporter)
+    : workerService.updateMissingContributors(reporter),
+  worker_commit_activity: ({ payload, reporter }) => payload.mode === 'all'
+    ? workerService.updateAllCommitActivity(undefined, reporter)
+    : workerService.updateMissingCommitActivity(reporter),
+  worker_recent_commits: ({ payload, reporter }) => payload.mode === 'all'
+    ? workerService.updateAllRecentCommits(undefined, reporter)
+    : workerService.updateMissingRecentCommits(reporter),
+  worker_run_all: ({ payload, reporter }) => workerService.runAllJobs(payload.mode === 'all', reporter),
+  worker_run_by_order: ({ reporter }) => workerService.runReposOneByOne(reporter),
+
+  // --- Developers ---
+  developers_scout: ({ reporter }) => developerWorkerService.runAllMissions(reporter),
+  developer_fetch: ({ payload, reporter }) => developerWorkerService.fetchSpecificDeveloper(payload.username, reporter),
+  developers_follow_graph: ({ payload, reporter }) => followGraphWorkerService.syncFollowGraph(payload.limit, reporter),
+  orgs_sync: ({ reporter }) => organizationWorkerService.syncOrganizations(undefined, reporter),
+  org_fetch: ({ payload, reporter }) => organizationWorkerService.fetchSpecificOrganization(payload.login, reporter),
+
+  // --- Derived metrics ---
+  metrics_growth: ({ reporter }) => growthMetricsService.computeGrowthMetrics(reporter),
+  metrics_health: ({ reporter }) => healthScoreService.recomputeAll(reporter),
+
+  // --- AI ---
+  embed_repos: ({ reporter }) => embedRepositories(reporter),
+};
@@ -0,0 +1,88 @@
+import { JobProgress, JobReporter } from '../../types/jobModels.js';
+
+const PROGRESS_FLUSH_INTERVAL_MS = 1000;
+
+/**
+ * Used when a service method is called outside the job runner (scripts, direct calls).
+ */
+export const noopReporter: JobReporter = {
+  addTotal: () => {},
+  startItem: () => {},
+  completeItem: () => {},
+  failItem: () => {},
+  isCancelled: () => false,
+};
+
+/**
+ * Counts items for one running job and pushes a throttled snapshot to `onChange`
+ * (the runner persists it and forwards it to SSE subscribers).
+ */
+export class JobProgressTracker implements JobReporter {
+  private processed = 0;
+  private failed = 0;
+  private total: number | null = null;
+  private currentItem: string | null = null;
+  private cancelled = false;
+  private startedAt = Date.now();
+  private lastEmitAt = 0;
+
+  constructor(private onChange: (progress: JobProgress) => void) {}
+
+  public addTotal(count: number): void {
+    this.total = (this.total || 0) + count;
+    this.emit(true);
+  }
+
+  public startItem(label: string): void {
+    this.currentItem = label;
+    this.emit();
+  }
+
+  public completeItem(count = 1): void {
+    this.processed += count;
+    this.emit();
+  }
+
+  public failItem(error?: string): void {
+    this.processed++;
+    this.failed++;
+    if (error) console.warn(`   ⚠️ [Jobs] Item failed (${this.currentItem}): ${error}`);
+    this.emit();
+  }
+
+  public cancel(): void {
+    this.cancelled = true;
+  }
+
+  public isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  public snapshot(): JobProgress {
+    const remaining = this.total !== null ? Math.max(0, this.total - this.processed) : null;
+
+    // ETA is a straight extrapolation of the average time per item so far
+    let etaSeconds: number | null = null;
+    if (remaining !== null && this.processed > 0) {
+      const secondsPerItem = (Date.now() - this.startedAt) / 1000 / this.processed;
+      etaSeconds = Math.round(secondsPerItem * remaining);
+    }
+
+    return {
+      processed: this.processed,
+      failed: this.failed,
+      total: this.total,
+      remaining,
+      current_item: this.currentItem,
+      eta_seconds: etaSeconds,
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  private emit(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastEmitAt < PROGRESS_FLUSH_INTERVAL_MS) return;
+    this.lastEmitAt = now;
+    this.onChange(this.snapshot());
+  }
+}
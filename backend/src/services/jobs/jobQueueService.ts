@@ -0,0 +1,268 @@
+import os from 'os';
+import { EventEmitter } from 'events';
+import pool from '../../db.js';
+import { JobProgressTracker } from './jobProgress.js';
+import { EnqueueOptions, Job, JobHandler, JobProgress, JobStatus, JobType } from '../../types/jobModels.js';
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// A 'running' job whose heartbeat is older than this is considered orphaned (crash / restart)
+const STALE_JOB_SECONDS = 120;
+const RETRY_BACKOFF_SECONDS = 30;
+
+class JobQueueService {
+  private handlers = new Map<JobType, JobHandler>();
+  private workerId = `${os.hostname()}:${process.pid}`;
+  private concurrency = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 2);
+  private activeCount = 0;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  // Trackers of the jobs this process is currently executing (for local cancellation)
+  private runningTrackers = new Map<number, JobProgressTracker>();
+  // Emits 'job:<id>' with the latest Job row whenever progress or status changes
+  public readonly events = new EventEmitter().setMaxListeners(0);
+
+  // ===========================================================================
+  // 1. PRODUCER API (Used by the HTTP triggers)
+  // ===========================================================================
+
+  /**
+   * Persists a job and returns it. The runner picks it up on its next poll.
+   * By default, an identical job that is still queued/running is returned instead
+   * of creating a duplicate (e.g. someone hitting /api/sync/quick twice).
+   */
+  public async enqueue(type: JobType, payload: Record<string, any> = {}, options: EnqueueOptions = {}): Promise<Job> {
+    const { maxAttempts = 3, dedupe = true } = options;
+
+    if (dedupe) {
+      const existing = await pool.query(
+        `SELECT * FROM jobs
+         WHERE type = $1 AND payload = $2::jsonb AND status IN ('queued', 'running')
+           AND cancel_requested = FALSE
+         ORDER BY created_at ASC
+         LIMIT 1`,
+        [type, JSON.stringify(payload)]
+      );
+      if (existing.rows.length > 0) return existing.rows[0];
+    }
+
+    const { rows } = await pool.query(
+      `INSERT INTO jobs (type, payload, max_attempts)
+       VALUES ($1, $2::jsonb, $3)
+       RETURNING *`,
+      [type, JSON.stringify(payload), maxAttempts]
+    );
+    console.log(`📥 [Jobs] Enqueued #${rows[0].id} (${type})`);
+    return rows[0];
+  }
+
+  public async getJob(id: number): Promise<Job | null> {
+    const { rows } = await pool.query(`SELECT * FROM jobs WHERE id = $1`, [id]);
+    return rows[0] || null;
+  }
+
+  /**
+   * Queued jobs are cancelled immediately. Running jobs get a cancel flag that the
+   * worker loop checks between items; the runner marks them 'cancelled' once it stops.
+   * Returns null when the job does not exist.
+   */
+  public async cancelJob(id: number): Promise<Job | null> {
+    const queued = await pool.query(
+      `UPDATE jobs SET status = 'cancelled', cancel_requested = TRUE, finished_at = NOW()
+       WHERE id = $1 AND status = 'queued'
+       RETURNING *`,
+      [id]
+    );
+    if (queued.rows.length > 0) {
+      this.publish(queued.rows[0]);
+      return queued.rows[0];
+    }
+
+    const running = await pool.query(
+      `UPDATE jobs SET cancel_requested = TRUE
+       WHERE id = $1 AND status = 'running'
+       RETURNING *`,
+      [id]
+    );
+    if (running.rows.length > 0) {
+      // Fast path when this process owns the job; other instances see the flag on their next heartbeat
+      this.runningTrackers.get(id)?.cancel();
+      console.log(`🛑 [Jobs] Cancellation requested for #${id}`);
+      this.publish(running.rows[0]);
+      return running.rows[0];
+    }
+
+    return this.getJob(id);
+  }
+
+  public async listJobs(limit = 50, status?: JobStatus): Promise<Job[]> {
+    const { rows } = await pool.query(
+      `SELECT * FROM jobs
+       WHERE ($1::text IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [status || null, limit]
+    );
+    return rows;
+  }
+
+  // ===========================================================================
+  // 2. RUNNER (Polls the table and executes handlers)
+  // ===========================================================================
+
+  public async start(handlers: Partial<Record<JobType, JobHandler>>): Promise<void> {
+    for (const [type, handler] of Object.entries(handlers)) {
+      if (handler) this.handlers.set(type as JobType, handler);
+    }
+
+    // Resume: anything left 'running' by a previous process goes back to the queue
+    await this.recoverStaleJobs();
+
+    this.pollTimer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    console.log(`🧵 [Jobs] Runner started (${this.workerId}, concurrency ${this.concurrency})`);
+  }
+
+  public stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+    try {
+      await this.recoverStaleJobs();
+      while (this.activeCount < this.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        this.activeCount++;
+        this.execute(job).finally(() => { this.activeCount--; });
+      }
+    } catch (error: any) {
+      console.error("❌ [Jobs] Poll failed:", error.message);
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async claimNext(): Promise<Job | null> {
+    const { rows } = await pool.query(
+      `UPDATE jobs SET
+         status = 'running',
+         attempts = attempts + 1,
+         locked_by = $1,
+         heartbeat_at = NOW(),
+         started_at = NOW(),
+         error = NULL
+       WHERE id = (
+         SELECT id FROM jobs
+         WHERE status = 'queued' AND run_after <= NOW()
+         ORDER BY created_at ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [this.workerId]
+    );
+    return rows[0] || null;
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await this.markFailed(job, `No handler registered for job type '${job.type}'`, false);
+      return;
+    }
+
+    console.log(`▶️ [Jobs] Running #${job.id} (${job.type}, attempt ${job.attempts}/${job.max_attempts})`);
+    const tracker = new JobProgressTracker(progress => this.saveProgress(job.id, progress));
+    this.runningTrackers.set(job.id, tracker);
+    this.publish(job);
+
+    // The heartbeat also picks up cancel requests made through another instance
+    const heartbeat = setInterval(() => {
+      pool.query(
+        `UPDATE jobs SET heartbeat_at = NOW() WHERE id = $1 AND locked_by = $2 RETURNING cancel_requested`,
+        [job.id, this.workerId]
+      )
+        .then(({ rows }) => { if (rows[0]?.cancel_requested) tracker.cancel(); })
+        .catch(err => console.error(`⚠️ [Jobs] Heartbeat failed for #${job.id}:`, err.message));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const result = await handler({ job, payload: job.payload || {}, reporter: tracker });
+      const finalStatus: JobStatus = tracker.isCancelled() ? 'cancelled' : 'completed';
+      const { rows } = await pool.query(
+        `UPDATE jobs SET status = $2, result = $3::jsonb, progress = $4::jsonb, finished_at = NOW(), locked_by = NULL
+         WHERE id = $1
+         RETURNING *`,
+        [job.id, finalStatus, JSON.stringify(result ?? null), JSON.stringify(tracker.snapshot())]
+      );
+      this.publish(rows[0]);
+      console.log(`${finalStatus === 'cancelled' ? '🛑' : '✅'} [Jobs] ${finalStatus} #${job.id} (${job.type})`);
+    } catch (error: any) {
+      console.error(`❌ [Jobs] #${job.id} (${job.type}) failed:`, error.message);
+      await this.markFailed(job, error.message || String(error), !tracker.isCancelled());
+    } finally {
+      clearInterval(heartbeat);
+      this.runningTrackers.delete(job.id);
+    }
+  }
+
+  private saveProgress(jobId: number, progress: JobProgress): void {
+    pool.query(`UPDATE jobs SET progress = $2::jsonb WHERE id = $1 RETURNING *`, [jobId, JSON.stringify(progress)])
+      .then(({ rows }) => { if (rows[0]) this.publish(rows[0]); })
+      .catch(err => console.error(`⚠️ [Jobs] Progress update failed for #${jobId}:`, err.message));
+  }
+
+  private publish(job: Job): void {
+    if (job) this.events.emit(`job:${job.id}`, job);
+  }
+
+  /**
+   * Failed jobs go back to the queue with a linear backoff until max_attempts is reached.
+   */
+  private async markFailed(job: Job, message: string, retryable: boolean): Promise<void> {
+    const canRetry = retryable && job.attempts < job.max_attempts;
+    const { rows } = await pool.query(
+      `UPDATE jobs SET
+         status = $2,
+         error = $3,
+         locked_by = NULL,
+         run_after = CASE WHEN $2 = 'queued' THEN NOW() + make_interval(secs => $4) ELSE run_after END,
+         finished_at = CASE WHEN $2 = 'failed' THEN NOW() ELSE NULL END
+       WHERE id = $1
+       RETURNING *`,
+      [job.id, canRetry ? 'queued' : 'failed', message, RETRY_BACKOFF_SECONDS * job.attempts]
+    );
+    this.publish(rows[0]);
+  }
+
+  /**
+   * Re-queues jobs whose runner stopped heart-beating (process crashed, container restarted).
+   * Jobs that already used all their attempts (or were being cancelled) are closed instead.
+   */
+  public async recoverStaleJobs(): Promise<void> {
+    const { rows } = await pool.query(
+      `UPDATE jobs SET
+         status = CASE
+           WHEN cancel_requested THEN 'cancelled'
+           WHEN attempts < max_attempts THEN 'queued'
+           ELSE 'failed'
+         END,
+         error = 'Runner lost while job was running (crash or restart)',
+         locked_by = NULL,
+         finished_at = CASE WHEN attempts < max_attempts AND NOT cancel_requested THEN NULL ELSE NOW() END
+       WHERE status = 'running'
+         AND (heartbeat_at IS NULL OR heartbeat_at < NOW() - make_interval(secs => $1))
+       RETURNING *`,
+      [STALE_JOB_SECONDS]
+    );
+    for (const row of rows) {
+      console.warn(`♻️ [Jobs] Recovered orphaned job #${row.id} -> ${row.status}`);
+      this.publish(row);
+    }
+  }
+}
+
+export default new JobQueueService();
@@ -0,0 +1,143 @@
+import { ActivitySchedule, ContributionDay, ContributionMetrics, WorkSchedule } from '../../types/developerModels.js';
+
+/**
+ * Behavioral stats derived from a developer's contribution calendar (last year, one entry per day)
+ * and a sample of their commit timestamps. No I/O.
+ *
+ * - Streaks: runs of consecutive days with a contribution. The current one still counts when
+ *   today has none yet (the day isn't over).
+ * - Velocity: contributions per week over the last 12 weeks.
+ * - Momentum: that pace over the pace of the 40 weeks before, smoothed by +1 on both sides so a
+ *   quiet year doesn't divide by zero (1 = steady, 2 = twice as busy lately).
+ * - Work schedule: weekend share of the calendar first, then the dominant block of the day among
+ *   the sampled commits (the commit's own UTC offset when GitHub reports one, UTC otherwise).
+ */
+
+const RECENT_WEEKS = 12;
+const BASELINE_WEEKS = 40;
+// Commits needed before the hour of the day says anything
+const MIN_HOURS_SAMPLE = 20;
+// Share above which a weekend / time block defines the schedule
+const DOMINANT_SHARE = 0.4;
+
+const HOUR_BLOCKS: { schedule: WorkSchedule; hours: number[] }[] = [
+  { schedule: 'night_owl', hours: [22, 23, 0, 1, 2, 3, 4] },
+  { schedule: 'early_bird', hours: [5, 6, 7, 8] },
+  { schedule: 'nine_to_five', hours: [9, 10, 11, 12, 13, 14, 15, 16, 17] },
+  { schedule: 'evening_coder', hours: [18, 19, 20, 21] },
+];
+
+// ===========================================================================
+// 1. ENTRY POINT
+// ===========================================================================
+
+export function computeContributionMetrics(
+  days: ContributionDay[],
+  commitTimestamps: string[]
+): { metrics: ContributionMetrics; schedule: ActivitySchedule } {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const schedule: ActivitySchedule = {
+    weekdays: weekdayHistogram(sorted),
+    hours: hourHistogram(commitTimestamps),
+    hours_sample: commitTimestamps.length,
+  };
+  const { current, longest } = streaks(sorted);
+  const { velocity, momentum } = pace(sorted);
+
+  return {
+    metrics: {
+      current_streak: current,
+      longest_streak: longest,
+      work_schedule: classifySchedule(schedule),
+      velocity_score: velocity,
+      momentum_score: momentum,
+    },
+    schedule,
+  };
+}
+
+// ===========================================================================
+// 2. CALCULATIONS
+// ===========================================================================
+
+function streaks(days: ContributionDay[]): { current: number; longest: number } {
+  let longest = 0;
+  let run = 0;
+  for (const day of days) {
+    run = day.count > 0 ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  let current = 0;
+  // Today without a contribution yet doesn't break the streak
+  let i = days.length - 1;
+  if (i >= 0 && days[i].count === 0) i--;
+  for (; i >= 0 && days[i].count > 0; i--) current++;
+
+  return { current, longest };
+}
+
+function pace(days: ContributionDay[]): { velocity: number; momentum: number } {
+  const recentDays = days.slice(-RECENT_WEEKS * 7);
+  const baselineDays = days.slice(-(RECENT_WEEKS + BASELINE_WEEKS) * 7, -RECENT_WEEKS * 7);
+
+  const recent = sum(recentDays) / RECENT_WEEKS;
+  const baseline = baselineDays.length > 0 ? sum(baselineDays) / (baselineDays.length / 7) : 0;
+
+  return {
+    velocity: round2(recent),
+    momentum: round2((recent + 1) / (baseline + 1)),
+  };
+}
+
+function weekdayHistogram(days: ContributionDay[]): number[] {
+  const weekdays = new Array(7).fill(0);
+  for (const day of days) weekdays[new Date(`${day.date}T00:00:00Z`).getUTCDay()] += day.count;
+  return weekdays;
+}
+
+function hourHistogram(timestamps: string[]): number[] {
+  const hours = new Array(24).fill(0);
+  for (const timestamp of timestamps) {
+    const hour = localHour(timestamp);
+    if (hour !== null) hours[hour]++;
+  }
+  return hours;
+}
+
+function classifySchedule(schedule: ActivitySchedule): WorkSchedule | null {
+  const total = schedule.weekdays.reduce((a, b) => a + b, 0);
+  if (total === 0) return null;
+
+  const weekend = schedule.weekdays[0] + schedule.weekdays[6];
+  if (weekend / total > DOMINANT_SHARE) return 'weekend_warrior';
+
+  if (schedule.hours_sample < MIN_HOURS_SAMPLE) return null;
+  const sampled = schedule.hours.reduce((a, b) => a + b, 0);
+  const blocks = HOUR_BLOCKS
+    .map(block => ({ schedule: block.schedule, share: block.hours.reduce((acc, h) => acc + schedule.hours[h], 0) / sampled }))
+    .sort((a, b) => b.share - a.share);
+
+  return blocks[0].share > DOMINANT_SHARE ? blocks[0].schedule : 'around_the_clock';
+}
+
+// ===========================================================================
+// 3. HELPERS
+// ===========================================================================
+
+// Hour as written in the timestamp when it carries an offset ('...T23:10:00+02:00'), UTC hour for 'Z'
+function localHour(timestamp: string): number | null {
+  const match = /T(\d{2}):\d{2}(?::\d{2}(?:\.\d+)?)?([+-]\d{2}:?\d{2}|Z)?$/.exec(timestamp);
+  if (!match) return null;
+  if (match[2] && match[2] !== 'Z') return Number(match[1]);
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? null : date.getUTCHours();
+}
+
+function sum(days: ContributionDay[]): number {
+  return days.reduce((acc, day) => acc + day.count, 0);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,119 @@
+/**
+ * Graph math over the sampled follow edges (no I/O). Node ids are developer github_ids as
+ * strings, the way pg returns BIGINT.
+ *
+ * - pageRank: classic PageRank, damping 0.85; the rank of developers who follow nobody we know
+ *   of (dangling nodes) is spread evenly so the ranks keep summing to 1.
+ * - detectClusters: label propagation on the undirected graph (a mutual follow weighs twice),
+ *   visiting nodes in a fixed order so two runs over the same edges give the same communities.
+ */
+
+export interface FollowEdge {
+  follower: string;
+  followed: string;
+}
+
+const DAMPING = 0.85;
+const MAX_RANK_ITERATIONS = 100;
+const RANK_TOLERANCE = 1e-10;
+const MAX_LABEL_ITERATIONS = 30;
+
+// ===========================================================================
+// 1. PAGERANK
+// ===========================================================================
+
+export function pageRank(nodes: string[], edges: FollowEdge[]): Map<string, number> {
+  const n = nodes.length;
+  const ranks = new Map<string, number>();
+  if (n === 0) return ranks;
+
+  const index = new Map(nodes.map((id, i) => [id, i]));
+  const outDegree = new Float64Array(n);
+  const sources: number[] = [];
+  const targets: number[] = [];
+  for (const edge of edges) {
+    const from = index.get(edge.follower);
+    const to = index.get(edge.followed);
+    if (from === undefined || to === undefined || from === to) continue;
+    sources.push(from);
+    targets.push(to);
+    outDegree[from]++;
+  }
+
+  let rank = new Float64Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < MAX_RANK_ITERATIONS; iteration++) {
+    let dangling = 0;
+    for (let i = 0; i < n; i++) {
+      if (outDegree[i] === 0) dangling += rank[i];
+    }
+
+    const next = new Float64Array(n).fill((1 - DAMPING) / n + (DAMPING * dangling) / n);
+    for (let e = 0; e < sources.length; e++) {
+      next[targets[e]] += (DAMPING * rank[sources[e]]) / outDegree[sources[e]];
+    }
+
+    let delta = 0;
+    for (let i = 0; i < n; i++) delta += Math.abs(next[i] - rank[i]);
+    rank = next;
+    if (delta < RANK_TOLERANCE) break;
+  }
+
+  nodes.forEach((id, i) => ranks.set(id, rank[i]));
+  return ranks;
+}
+
+// ===========================================================================
+// 2. COMMUNITIES
+// ===========================================================================
+
+// Community label per node (the id of one of its members); isolated nodes keep their own id
+export function detectClusters(nodes: string[], edges: FollowEdge[]): Map<string, string> {
+  const neighbours = new Map<string, Map<string, number>>(nodes.map(id => [id, new Map()]));
+  for (const { follower, followed } of edges) {
+    if (follower === followed) continue;
+    const a = neighbours.get(follower);
+    const b = neighbours.get(followed);
+    if (!a || !b) continue;
+    a.set(followed, (a.get(followed) || 0) + 1);
+    b.set(follower, (b.get(follower) || 0) + 1);
+  }
+
+  const order = [...nodes].sort(compareIds);
+  const labels = new Map(nodes.map(id => [id, id]));
+
+  for (let iteration = 0; iteration < MAX_LABEL_ITERATIONS; iteration++) {
+    let changed = false;
+    for (const id of order) {
+      const weights = new Map<string, number>();
+      for (const [neighbour, weight] of neighbours.get(id)!) {
+        const label = labels.get(neighbour)!;
+        weights.set(label, (weights.get(label) || 0) + weight);
+      }
+      if (weights.size === 0) continue;
+
+      // Heaviest label; ties go to the smallest id, and a node keeps its label when it's tied
+      const current = labels.get(id)!;
+      let best = current;
+      let bestWeight = weights.get(current) || 0;
+      for (const [label, weight] of weights) {
+        if (weight > bestWeight) {
+          best = label;
+          bestWeight = weight;
+        } else if (weight === bestWeight && best !== current && compareIds(label, best) < 0) {
+          best = label;
+        }
+      }
+
+      if (best !== current) {
+        labels.set(id, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return labels;
+}
+
+function compareIds(a: string, b: string): number {
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
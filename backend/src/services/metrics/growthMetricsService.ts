@@ -0,0 +1,99 @@
+import pool from '../../db.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+
+interface GrowthWindow {
+  days: number;
+  growthColumn: string;
+  accelerationColumn: string;
+  forksColumn?: string;
+}
+
+// Column names are fixed here and never come from user input
+const GROWTH_WINDOWS: GrowthWindow[] = [
+  { days: 7, growthColumn: 'stars_growth_7d', accelerationColumn: 'stars_acceleration_7d' },
+  { days: 30, growthColumn: 'stars_growth_30d', accelerationColumn: 'stars_acceleration_30d', forksColumn: 'forks_growth_30d' },
+  { days: 90, growthColumn: 'stars_growth_90d', accelerationColumn: 'stars_acceleration_90d' },
+];
+
+class GrowthMetricsService {
+
+  // Derives stars/forks growth and acceleration from repository_snapshots.
+  // A repo is only updated for a window once it has a snapshot old enough to compare against,
+  // so values coming from other sources (GH Archive) stay in place until the history catches up.
+  public async computeGrowthMetrics(reporter: JobReporter = noopReporter): Promise<void> {
+    console.log('📈 [Growth] Computing growth metrics from snapshots...');
+    reporter.addTotal(GROWTH_WINDOWS.length);
+
+    for (const window of GROWTH_WINDOWS) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(`${window.days}d`);
+      try {
+        const updated = await this.computeWindow(window);
+        console.log(`   ✅ ${window.days}d window: ${updated} repos updated`);
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        console.error(`   ❌ ${window.days}d window failed:`, error.message);
+      }
+    }
+  }
+
+  // Growth = stars gained between the latest snapshot and the closest snapshot at least N days older,
+  // scaled to exactly N days (syncs don't happen daily). Acceleration = that growth minus the growth
+  // of the N days before it. Baselines older than 2N days are ignored rather than extrapolated.
+  private async computeWindow(window: GrowthWindow): Promise<number> {
+    const forksUpdate = window.forksColumn
+      ? `${window.forksColumn} = ROUND((w.forks_count - w.base_forks) * $1::numeric / (w.snapshot_date - w.base_date)),`
+      : '';
+
+    const result = await pool.query(
+      `WITH latest AS (
+          SELECT DISTINCT ON (repo_github_id) repo_github_id, snapshot_date, stars_count, forks_count
+          FROM repository_snapshots
+          ORDER BY repo_github_id, snapshot_date DESC
+        ),
+        windowed AS (
+          SELECT l.*, b.snapshot_date AS base_date, b.stars_count AS base_stars, b.forks_count AS base_forks,
+                 p.snapshot_date AS prev_date, p.stars_count AS prev_stars
+          FROM latest l
+          JOIN LATERAL (
+            SELECT snapshot_date, stars_count, forks_count
+            FROM repository_snapshots s
+            WHERE s.repo_github_id = l.repo_github_id
+              AND s.snapshot_date <= l.snapshot_date - $1::int
+              AND s.snapshot_date >= l.snapshot_date - 2 * $1::int
+            ORDER BY s.snapshot_date DESC
+            LIMIT 1
+          ) b ON TRUE
+          LEFT JOIN LATERAL (
+            SELECT snapshot_date, stars_count
+            FROM repository_snapshots s
+            WHERE s.repo_github_id = l.repo_github_id
+              AND s.snapshot_date <= b.snapshot_date - $1::int
+              AND s.snapshot_date >= b.snapshot_date - 2 * $1::int
+            ORDER BY s.snapshot_date DESC
+            LIMIT 1
+          ) p ON TRUE
+        )
+        UPDATE repository_stats rs SET
+          ${window.growthColumn} = ROUND((w.stars_count - w.base_stars) * $1::numeric / (w.snapshot_date - w.base_date)),
+          ${forksUpdate}
+          ${window.accelerationColumn} = CASE
+            WHEN w.prev_date IS NULL THEN NULL
+            ELSE ROUND(
+              (w.stars_count - w.base_stars) * $1::numeric / (w.snapshot_date - w.base_date)
+              - (w.base_stars - w.prev_stars) * $1::numeric / (w.base_date - w.prev_date)
+            )
+          END,
+          growth_calculated_at = NOW()
+        FROM windowed w
+        WHERE rs.repo_github_id = w.repo_github_id`,
+      [window.days]
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
+
+export default new GrowthMetricsService();
@@ -0,0 +1,178 @@
+import { HealthBreakdown, HealthFactor, HealthFactorGroup, HealthInputs } from '../../types/models.js';
+
+/**
+ * Repository health model. Bump HEALTH_SCORE_VERSION whenever a weight or a threshold changes:
+ * it is stored next to every score, and the metrics_health job recomputes the ones scored by an
+ * older version (plus the ones not rescored for a day, so recency factors decay).
+ *
+ * v1 (ingestion only): 50 + push recency + release in the last 90 days + issues / discussions enabled.
+ * v2: 100 points over three groups:
+ *   - activity (30)        push recency, release recency
+ *   - community (42)       license, CONTRIBUTING, code of conduct, security policy, issue / PR templates,
+ *                          CI, funding links
+ *   - responsiveness (28)  first response, issue close time, open PR backlog, external PR merge ratio
+ *                          (issues worker, 90-day window)
+ * A factor that can't be measured (responsiveness before the issues worker ran, or no issue / PR in
+ * the window) is left out, and the score is the share of the measured weight that was earned.
+ * Archived and disabled repos score 0.
+ */
+export const HEALTH_SCORE_VERSION = 2;
+
+interface FactorDefinition {
+  id: string;
+  label: string;
+  group: HealthFactorGroup;
+  weight: number;
+  // Share of the weight earned (0-1) and the value it was derived from; null share = not measured
+  evaluate: (input: HealthInputs) => { share: number | null; value: HealthFactor['value'] };
+}
+
+const FACTORS: FactorDefinition[] = [
+  // --- Activity ---
+  {
+    id: 'push_recency', label: 'Recent pushes', group: 'activity', weight: 20,
+    evaluate: input => {
+      const days = daysSince(input.pushed_at);
+      return { share: days === null ? 0 : step(days, [[7, 1], [30, 0.8], [90, 0.5], [180, 0.3], [365, 0.15]]), value: days };
+    },
+  },
+  {
+    id: 'release_recency', label: 'Recent release', group: 'activity', weight: 10,
+    evaluate: input => {
+      const days = daysSince(input.latest_release_date);
+      return { share: days === null ? 0 : step(days, [[90, 1], [180, 0.7], [365, 0.4]]), value: days };
+    },
+  },
+
+  // --- Community files ---
+  {
+    id: 'license', label: 'License', group: 'community', weight: 10,
+    // 'other': a license file GitHub couldn't identify, so its terms are unclear
+    evaluate: input => ({ share: !input.license_key ? 0 : input.license_key === 'other' ? 0.5 : 1, value: input.license_key }),
+  },
+  {
+    id: 'contributing', label: 'Contributing guide', group: 'community', weight: 6,
+    evaluate: input => flag(input.has_contributing),
+  },
+  {
+    id: 'code_of_conduct', label: 'Code of conduct', group: 'community', weight: 4,
+    evaluate: input => ({ share: input.code_of_conduct_key ? 1 : 0, value: input.code_of_conduct_key }),
+  },
+  {
+    id: 'security_policy', label: 'Security policy', group: 'community', weight: 5,
+    evaluate: input => flag(input.has_security_policy),
+  },
+  {
+    id: 'issue_templates', label: 'Issue templates', group: 'community', weight: 3,
+    evaluate: input => ({ share: (input.issue_templates_count || 0) > 0 ? 1 : 0, value: input.issue_templates_count || 0 }),
+  },
+  {
+    id: 'pr_template', label: 'Pull request template', group: 'community', weight: 2,
+    evaluate: input => flag(input.has_pr_template),
+  },
+  {
+    id: 'ci', label: 'Continuous integration', group: 'community', weight: 10,
+    evaluate: input => flag(input.has_ci),
+  },
+  {
+    id: 'funding', label: 'Funding links', group: 'community', weight: 2,
+    evaluate: input => {
+      const count = input.funding_links?.length || 0;
+      return { share: count > 0 ? 1 : 0, value: count };
+    },
+  },
+
+  // --- Responsiveness ---
+  {
+    id: 'first_response', label: 'Time to first response', group: 'responsiveness', weight: 10,
+    evaluate: input => {
+      const hours = toNumber(input.first_response_time_hours);
+      return { share: hours === null ? null : step(hours, [[24, 1], [72, 0.75], [168, 0.5], [720, 0.25]]), value: hours };
+    },
+  },
+  {
+    id: 'issue_close_time', label: 'Issue close time', group: 'responsiveness', weight: 6,
+    evaluate: input => {
+      const days = toNumber(input.avg_issue_close_time_days);
+      return { share: days === null ? null : step(days, [[7, 1], [30, 0.66], [90, 0.33]]), value: days };
+    },
+  },
+  {
+    id: 'pr_backlog', label: 'Open PR backlog age', group: 'responsiveness', weight: 6,
+    evaluate: input => {
+      // No open PR is an empty backlog, not a missing measurement
+      if (input.open_pull_requests_count === 0) return { share: 1, value: 0 };
+      const days = toNumber(input.open_pr_backlog_age_days);
+      return { share: days === null ? null : step(days, [[14, 1], [60, 0.5], [180, 0.25]]), value: days };
+    },
+  },
+  {
+    id: 'external_pr_merge_ratio', label: 'External PRs merged', group: 'responsiveness', weight: 6,
+    evaluate: input => {
+      const ratio = toNumber(input.external_pr_merge_ratio);
+      return { share: ratio === null ? null : Math.max(0, Math.min(1, ratio)), value: ratio };
+    },
+  },
+];
+
+// ===========================================================================
+// 1. SCORING
+// ===========================================================================
+
+export function scoreHealth(input: HealthInputs): HealthBreakdown {
+  const factors: HealthFactor[] = FACTORS.map(factor => {
+    const { share, value } = factor.evaluate(input);
+    return {
+      id: factor.id,
+      label: factor.label,
+      group: factor.group,
+      weight: factor.weight,
+      points: share === null ? null : round2(share * factor.weight),
+      value,
+    };
+  });
+
+  const measured = factors.filter(f => f.points !== null);
+  const measuredWeight = measured.reduce((sum, f) => sum + f.weight, 0);
+  const earned = measured.reduce((sum, f) => sum + (f.points || 0), 0);
+  const inactive = input.is_archived || input.is_disabled;
+
+  return {
+    version: HEALTH_SCORE_VERSION,
+    score: inactive || measuredWeight === 0 ? 0 : Math.round((earned / measuredWeight) * 100),
+    measured_weight: measuredWeight,
+    factors,
+    note: input.is_disabled ? 'Repository disabled' : input.is_archived ? 'Repository archived' : null,
+  };
+}
+
+// ===========================================================================
+// 2. HELPERS
+// ===========================================================================
+
+// Share of the first [threshold, share] pair the value fits under, 0 past the last one
+function step(value: number, thresholds: [number, number][]): number {
+  for (const [threshold, share] of thresholds) {
+    if (value <= threshold) return share;
+  }
+  return 0;
+}
+
+function flag(value: boolean | null): { share: number; value: boolean } {
+  return { share: value ? 1 : 0, value: !!value };
+}
+
+function daysSince(date: string | Date | null): number | null {
+  if (!date) return null;
+  return Math.floor((Date.now() - new Date(date).getTime()) / 86400000);
+}
+
+function toNumber(value: number | string | null): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
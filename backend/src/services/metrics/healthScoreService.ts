@@ -0,0 +1,111 @@
+import { PoolClient } from 'pg';
+import pool from '../../db.js';
+import { JobReporter } from '../../types/jobModels.js';
+import { noopReporter } from '../jobs/jobProgress.js';
+import { HEALTH_SCORE_VERSION, scoreHealth } from './healthScore.js';
+
+// Repositories scored per read / write round trip by the recompute
+const RECOMPUTE_BATCH_SIZE = 500;
+// Scores older than this are refreshed so the recency factors decay (just under the daily schedule)
+const REFRESH_AFTER_HOURS = 20;
+
+// Complete repos scored by an older model, never scored, or not rescored for REFRESH_AFTER_HOURS
+const OUTDATED_WHERE = `
+  r.sync_status = 'complete'
+  AND (
+    rs.health_score_version IS NULL
+    OR rs.health_score_version < $1
+    OR rs.health_calculated_at IS NULL
+    OR rs.health_calculated_at < NOW() - make_interval(hours => $2)
+  )
+`;
+
+// Everything scoreHealth() reads. The tech-stack worker sees CI configs the probe doesn't look for.
+const INPUTS_QUERY = `
+  SELECT r.github_id, r.pushed_at, r.is_archived, r.is_disabled, r.license_key,
+         r.has_contributing, r.code_of_conduct_key, r.has_security_policy, r.issue_templates_count,
+         r.has_pr_template, r.funding_links,
+         (r.has_ci OR COALESCE(r.tech_stack @> '[{"category": "ci"}]', FALSE)) AS has_ci,
+         rs.latest_release_date, rs.first_response_time_hours, rs.avg_issue_close_time_days,
+         rs.open_pull_requests_count, rs.open_pr_backlog_age_days, rs.external_pr_merge_ratio
+  FROM repositories r
+  LEFT JOIN repository_stats rs ON rs.repo_github_id = r.github_id
+`;
+
+class HealthScoreService {
+
+  /**
+   * Recomputes the health score of the given repos. Called by every writer of an input
+   * (ingestion, issues worker) inside its own transaction, so a score never lags its data.
+   */
+  public async updateHealthScores(client: PoolClient, repoGithubIds: (number | string)[]): Promise<void> {
+    if (repoGithubIds.length === 0) return;
+    const { rows } = await client.query(`${INPUTS_QUERY} WHERE r.github_id = ANY($1::bigint[])`, [repoGithubIds]);
+    await this.saveScores(client, rows);
+  }
+
+  // Rescores the outdated repositories: older model version, or a score old enough for recency factors to decay
+  public async recomputeAll(reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🩺 [Health] Recomputing outdated health scores (model v${HEALTH_SCORE_VERSION})...`);
+
+    const { rows: [{ count }] } = await pool.query(
+      `SELECT COUNT(*)::int AS count FROM repositories r
+       LEFT JOIN repository_stats rs ON rs.repo_github_id = r.github_id
+       WHERE ${OUTDATED_WHERE}`,
+      [HEALTH_SCORE_VERSION, REFRESH_AFTER_HOURS]
+    );
+    reporter.addTotal(Math.ceil(count / RECOMPUTE_BATCH_SIZE));
+
+    let lastId = 0;
+    let updated = 0;
+    while (!reporter.isCancelled()) {
+      const { rows } = await pool.query(
+        `SELECT r.id, r.github_id FROM repositories r
+         LEFT JOIN repository_stats rs ON rs.repo_github_id = r.github_id
+         WHERE ${OUTDATED_WHERE} AND r.id > $3
+         ORDER BY r.id LIMIT $4`,
+        [HEALTH_SCORE_VERSION, REFRESH_AFTER_HOURS, lastId, RECOMPUTE_BATCH_SIZE]
+      );
+      if (rows.length === 0) break;
+      lastId = rows[rows.length - 1].id;
+      reporter.startItem(`repos up to #${lastId}`);
+
+      const client = await pool.connect();
+      try {
+        await this.updateHealthScores(client, rows.map(r => r.github_id));
+        updated += rows.length;
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        console.error(`   ❌ Health batch failed:`, error.message);
+      } finally {
+        client.release();
+      }
+    }
+    console.log(`   ✅ ${updated} health scores updated`);
+  }
+
+  private async saveScores(client: PoolClient, rows: any[]): Promise<void> {
+    if (rows.length === 0) return;
+    const breakdowns = rows.map(row => scoreHealth(row));
+
+    await client.query(
+      `INSERT INTO repository_stats (repo_github_id, health_score, health_score_version, health_breakdown, health_calculated_at)
+       SELECT s.repo_github_id, s.score, $4::smallint, s.breakdown, NOW()
+       FROM UNNEST($1::bigint[], $2::numeric[], $3::jsonb[]) AS s(repo_github_id, score, breakdown)
+       ON CONFLICT (repo_github_id) DO UPDATE SET
+         health_score = EXCLUDED.health_score,
+         health_score_version = EXCLUDED.health_score_version,
+         health_breakdown = EXCLUDED.health_breakdown,
+         health_calculated_at = NOW()`,
+      [
+        rows.map(row => row.github_id),
+        breakdowns.map(b => b.score),
+        breakdowns.map(b => JSON.stringify(b)),
+        HEALTH_SCORE_VERSION,
+      ]
+    );
+  }
+}
+
+export default new HealthScoreService();
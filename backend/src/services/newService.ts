@@ -1,21 +1,20 @@
 import { BigQuery } from '@google-cloud/bigquery';
-import { GraphQLClient, gql } from 'graphql-request';
-import pool from '../db.js';
-import { GitHubRepo } from '../types/models.js';
-
-const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+import repositoryIngestionService from './ingestion/repositoryIngestionService.js';
+import ghArchiveFileService from './gharchive/ghArchiveFileService.js';
+import { rankTrendCandidates } from './gharchive/trendScore.js';
+import { StarsGrowthColumn } from '../types/models.js';
+import { GHArchiveSource, RepoTrendActivity, TrendCandidate, TrendSignals, TrendWindow } from '../types/ghArchiveModels.js';
+import { JobReporter } from '../types/jobModels.js';
+import { noopReporter } from './jobs/jobProgress.js';
+
+// Repos scored per window (by distinct stargazers) and how many of them make the list
+const TREND_CANDIDATE_POOL = 500;
+const TRENDING_LIMIT = 100;
 
 class NewService {
   private bigquery: BigQuery | null = null;
-  private graphqlClient: GraphQLClient;
 
   constructor() {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) throw new Error('GITHUB_TOKEN is not set.');
-    this.graphqlClient = new GraphQLClient(GITHUB_GRAPHQL_URL, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-
     if (process.env.GOOGLE_APPLICATION_CREDENTIALS || process.env.GCP_PROJECT_ID) {
       try { this.bigquery = new BigQuery(); } 
       catch (e) { console.error("⚠️ Failed to initialize BigQuery.", e); }
@@ -26,30 +25,49 @@ class NewService {
   // PUBLIC SYNC METHODS
   // ===========================================================================
 
-  public async syncWeekly(): Promise<void> {
-    await this.syncTrendsFromGHArchive(7, 'trending_weekly');
+  public async syncWeekly(reporter: JobReporter = noopReporter, source?: GHArchiveSource): Promise<void> {
+    await this.syncTrends(7, 'trending_weekly', reporter, source);
   }
 
-  public async syncMonthly(): Promise<void> {
-    await this.syncTrendsFromGHArchive(30, 'trending_monthly');
+  public async syncMonthly(reporter: JobReporter = noopReporter, source?: GHArchiveSource): Promise<void> {
+    await this.syncTrends(30, 'trending_monthly', reporter, source);
   }
 
-  public async syncQuarterly(): Promise<void> {
-    await this.syncTrendsFromGHArchive(90, 'trending_quarterly');
+  public async syncQuarterly(reporter: JobReporter = noopReporter, source?: GHArchiveSource): Promise<void> {
+    await this.syncTrends(90, 'trending_quarterly', reporter, source);
+  }
+
+  /**
+   * Picks the GH Archive source: the explicit one, else BigQuery when credentials exist,
+   * else the local dump directory (GHARCHIVE_DIR).
+   */
+  private async syncTrends(days: number, categoryTag: string, reporter: JobReporter, source?: GHArchiveSource): Promise<void> {
+    const resolved = source
+      ?? (this.bigquery ? 'bigquery' : ghArchiveFileService.getArchiveDir() ? 'local' : null);
+
+    if (!resolved) {
+      throw new Error('No GH Archive source configured: set BigQuery credentials or GHARCHIVE_DIR');
+    }
+
+    if (resolved === 'local') {
+      await this.syncTrendsFromLocalArchive(days, categoryTag, reporter);
+    } else {
+      await this.syncTrendsFromGHArchive(days, categoryTag, reporter);
+    }
   }
 
   // ===========================================================================
-  // CORE LOGIC: BIGQUERY -> GRAPHQL -> DB
+  // CORE LOGIC: BIGQUERY / LOCAL DUMPS -> GRAPHQL -> DB
   // ===========================================================================
 
   /**
-   * 1. Query BigQuery for "new and hot" repos (High stars, recent growth)
-   * 2. Calls fetchDetailsAndSave to enrich and store them.
+   * 1. Query BigQuery for the daily distinct-actor signals of the most starred repos in the window
+   * 2. Rank them by composite trend score (trendScore.ts)
+   * 3. Calls fetchDetailsAndSave to enrich and store them.
    */
-  public async syncTrendsFromGHArchive(days: number, categoryTag: string): Promise<void> {
+  public async syncTrendsFromGHArchive(days: number, categoryTag: string, reporter: JobReporter = noopReporter): Promise<void> {
     if (!this.bigquery) {
-      console.error("❌ BigQuery client not initialized. Check credentials.");
-      return;
+      throw new Error("BigQuery client not initialized. Check credentials.");
     }
 
     console.log(`🔥 [GH Archive] Querying BigQuery for ${days}-day trends...`);
@@ -62,269 +80,147 @@ class NewService {
     const startSuffix = startDate.toISOString().split('T')[0].replace(/-/g, '').slice(2);
     const endSuffix = endDate.toISOString().split('T')[0].replace(/-/g, '').slice(2);
 
-    // SQL: Find repos with most WatchEvents (Stars) in range
+    // SQL: Per repo and day, count distinct people per signal (a user starring twice counts once),
+    // restricted to the repos with the most stargazers in range
     const query = `
+      WITH events AS (
+        SELECT repo.name AS full_name, type, actor.id AS actor_id, DATE(created_at) AS day
+        FROM \`githubarchive.day.20*\`
+        WHERE
+          _TABLE_SUFFIX BETWEEN @startSuffix AND @endSuffix
+          AND type IN ('WatchEvent', 'ForkEvent', 'IssuesEvent', 'PullRequestEvent')
+      ),
+      candidates AS (
+        SELECT full_name
+        FROM events
+        WHERE type = 'WatchEvent'
+        GROUP BY 1
+        ORDER BY COUNT(DISTINCT actor_id) DESC
+        LIMIT @poolSize
+      ),
+      scoped AS (
+        SELECT e.* FROM events e JOIN candidates c USING (full_name)
+      ),
+      daily AS (
+        SELECT
+          full_name,
+          FORMAT_DATE('%Y-%m-%d', day) AS date,
+          COUNT(DISTINCT IF(type = 'WatchEvent', actor_id, NULL)) AS stars,
+          COUNT(DISTINCT IF(type = 'ForkEvent', actor_id, NULL)) AS forks,
+          COUNT(DISTINCT IF(type = 'IssuesEvent', actor_id, NULL)) AS issues,
+          COUNT(DISTINCT IF(type = 'PullRequestEvent', actor_id, NULL)) AS pull_requests
+        FROM scoped
+        GROUP BY 1, 2
+      ),
+      actors AS (
+        SELECT full_name, COUNT(DISTINCT actor_id) AS actors FROM scoped GROUP BY 1
+      )
       SELECT
-        repo.name as full_name,
-        COUNT(*) as star_count
-      FROM \`githubarchive.day.20*\`
-      WHERE
-        _TABLE_SUFFIX BETWEEN @startSuffix AND @endSuffix
-        AND type = 'WatchEvent'
-      GROUP BY 1
-      ORDER BY 2 DESC
-      LIMIT 100
+        d.full_name,
+        a.actors,
+        ARRAY_AGG(STRUCT(d.date, d.stars, d.forks, d.issues, d.pull_requests) ORDER BY d.date) AS daily
+      FROM daily d
+      JOIN actors a USING (full_name)
+      GROUP BY 1, 2
     `;
 
     try {
-      const [job] = await this.bigquery.createQueryJob({ query, params: { startSuffix, endSuffix } });
+      const [job] = await this.bigquery.createQueryJob({
+        query,
+        params: { startSuffix, endSuffix, poolSize: TREND_CANDIDATE_POOL },
+      });
       const [rows] = await job.getQueryResults();
 
-      console.log(`   ✅ [GH Archive] Found ${rows.length} trending repos.`);
-      if (rows.length === 0) return;
-
-      // Map BigQuery results to a temporary array
-      // We store 'star_count' as 'growthCount' to distinguish it from total stars
-      const rawRepos = rows.map((row: any) => ({
+      const activities: RepoTrendActivity[] = rows.map((row: any) => ({
         full_name: row.full_name,
-        growthCount: row.star_count 
+        actors: Number(row.actors),
+        daily: (row.daily || []).map((d: any) => ({
+          date: d.date,
+          stars: Number(d.stars),
+          forks: Number(d.forks),
+          issues: Number(d.issues),
+          pull_requests: Number(d.pull_requests),
+        })),
       }));
 
-      await this.fetchDetailsAndSave(rawRepos, categoryTag);
+      const rawRepos = rankTrendCandidates(activities, days, TRENDING_LIMIT);
+      console.log(`   ✅ [GH Archive] Ranked ${rawRepos.length} trending repos (${activities.length} scored).`);
+      if (rawRepos.length === 0) return;
+
+      await this.fetchDetailsAndSave(rawRepos, categoryTag, reporter);
 
     } catch (error: any) {
       console.error("❌ [GH Archive] Failed:", error.message);
+      throw error;
     }
   }
 
   /**
-   * 1. Enriches the raw list with full metadata from GitHub GraphQL API.
-   * 2. Saves the data to 'repositories' table.
-   * 3. Saves the specific growth metrics to 'repository_stats' table.
+   * Same ranking as the BigQuery path, computed from hourly dumps on disk:
+   * 1. Imports any new files from GHARCHIVE_DIR into 'gharchive_daily_events'
+   * 2. Ranks repos by composite trend score over the window and calls fetchDetailsAndSave.
    */
-  private async fetchDetailsAndSave(rawRepos: any[], category: string): Promise<void> {
-    console.log(`   ✨ Enriching ${rawRepos.length} repos...`);
-    
-    // Create a Map for O(1) lookup of growth stats: 'owner/name' -> growthCount
-    const growthMap = new Map<string, number>();
-    rawRepos.forEach(r => growthMap.set(r.full_name, r.growthCount));
-
-    // 1. Get full details from GitHub
-    const detailedRepos = await this.enrichWithGraphQL(rawRepos);
-    const validRepos = detailedRepos.filter((repo: any) => repo && repo.databaseId);
+  public async syncTrendsFromLocalArchive(days: number, categoryTag: string, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🔥 [GH Archive] Computing ${days}-day trends from local dumps...`);
 
-    const client = await pool.connect();
-    try {
-      await client.query('BEGIN');
+    await ghArchiveFileService.importDirectory(undefined, reporter);
+    if (reporter.isCancelled()) return;
 
-      console.log(`   🧹 Clearing '${category}' tag...`);
-      await client.query(`UPDATE repositories SET categories = array_remove(categories, $1) WHERE $1 = ANY(categories)`, [category]);
+    const activities = await ghArchiveFileService.getTrendActivity(days, TREND_CANDIDATE_POOL);
+    const rawRepos = rankTrendCandidates(activities, days, TRENDING_LIMIT);
+    console.log(`   ✅ [GH Archive] Ranked ${rawRepos.length} trending repos (${activities.length} scored).`);
+    if (rawRepos.length === 0) return;
 
-      console.log(`   💾 Upserting ${validRepos.length} records...`);
-      
-      // 2. Save Repo Data (Main Table + Languages)
-      await this.batchInsertToTable(client, validRepos, category);
-      
-      // 3. Save Growth Stats (The Critical Fix for Sorting)
-      await this.calculateAndSaveStats(client, validRepos, category, growthMap);
-      
-      await client.query('COMMIT');
-      console.log(`   ✅ Synced ${category} successfully.`);
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
+    await this.fetchDetailsAndSave(rawRepos, categoryTag, reporter);
   }
 
   /**
-   * Updates 'repository_stats' with the specific growth metric (e.g., stars_growth_7d)
-   * derived from BigQuery data.
+   * 1. Enriches the raw list with full metadata from GitHub GraphQL API.
+   * 2. Replaces the category list in 'repositories' (+ languages and stats).
+   * 3. Records the GH Archive star count in the matching 'repository_stats' growth column,
+   *    and the trend score + per-signal breakdown for the window.
    */
-  private async calculateAndSaveStats(
-    client: any, 
-    repos: GitHubRepo[], 
-    category: string,
-    growthMap: Map<string, number>
-  ): Promise<void> {
-    
-    // Determine which column to update based on the category
-    let growthColumn = '';
-    if (category === 'trending_weekly') growthColumn = 'stars_growth_7d';
-    else if (category === 'trending_monthly') growthColumn = 'stars_growth_30d';
-    else if (category === 'trending_quarterly') growthColumn = 'stars_growth_90d';
-
-    for (const repo of repos) {
-      const pushedAt = repo.pushedAt || (repo as any).pushed_at;
-      const daysSinceCommit = pushedAt ? Math.floor((Date.now() - new Date(pushedAt).getTime()) / (1000 * 60 * 60 * 24)) : null;
-      
-      const latestRelease = repo.releases?.nodes?.[0];
-      const daysSinceRelease = latestRelease?.publishedAt ? Math.floor((Date.now() - new Date(latestRelease.publishedAt).getTime()) / (1000 * 60 * 60 * 24)) : null;
-      const totalReleases = repo.releases?.totalCount || 0;
-      
-      const activityScore = this.calculateSimpleActivityScore(repo, daysSinceCommit);
-      const healthScore = this.calculateSimpleHealthScore(repo, daysSinceCommit);
-
-      // Retrieve the specific growth count for this repo
-      const growthCount = growthMap.get(repo.nameWithOwner) || 0;
-
-      // Dynamic Query Construction to update the correct growth column
-      let updateSnippet = '';
-      let insertColSnippet = '';
-      let insertValSnippet = '';
-      
-      if (growthColumn) {
-        insertColSnippet = `, ${growthColumn}`;
-        insertValSnippet = `, $10`; // $10 corresponds to growthCount
-        updateSnippet = `, ${growthColumn} = $10`; 
-      }
-
-      const query = `
-        INSERT INTO repository_stats (
-          repo_github_id, commits_last_year, days_since_last_commit, days_since_last_release,
-          latest_release_tag, latest_release_date, total_releases, activity_score, health_score, calculated_at
-          ${insertColSnippet}
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW() ${insertValSnippet})
-        ON CONFLICT (repo_github_id) DO UPDATE SET
-          commits_last_year = EXCLUDED.commits_last_year,
-          days_since_last_commit = EXCLUDED.days_since_last_commit,
-          days_since_last_release = EXCLUDED.days_since_last_release,
-          latest_release_tag = EXCLUDED.latest_release_tag,
-          latest_release_date = EXCLUDED.latest_release_date,
-          total_releases = EXCLUDED.total_releases,
-          activity_score = EXCLUDED.activity_score,
-          health_score = EXCLUDED.health_score,
-          calculated_at = NOW()
-          ${updateSnippet}
-      `;
-
-      const params = [
-        repo.databaseId,
-        repo.defaultBranchRef?.target?.history?.totalCount || 0,
-        daysSinceCommit,
-        daysSinceRelease,
-        latestRelease?.tagName,
-        latestRelease?.publishedAt,
-        totalReleases,
-        activityScore,
-        healthScore
-      ];
-
-      if (growthColumn) params.push(growthCount); // Add the 10th parameter
-
-      await client.query(query, params);
-    }
-  }
-
-  // ===========================================================================
-  // PRIVATE HELPER METHODS
-  // ===========================================================================
-  
-  private async enrichWithGraphQL(simpleRepos: any[]): Promise<any[]> {
-    const query = gql`
-      query FetchRepos($owner: String!, $name: String!) {
-        repository(owner: $owner, name: $name) {
-          databaseId, name, nameWithOwner, owner { login, avatarUrl, __typename }, description, url, homepageUrl,
-          stargazerCount, forkCount, watchers { totalCount }, issues(states: OPEN) { totalCount },
-          diskUsage, primaryLanguage { name },
-          repositoryTopics(first: 10) { nodes { topic { name } } },
-          languages(first: 10, orderBy: {field: SIZE, direction: DESC}) { edges { size, node { name } }, totalSize },
-          licenseInfo { name, key }, createdAt, updatedAt, pushedAt,
-          isFork, isArchived, isDisabled, forkingAllowed, isTemplate, visibility,
-          hasIssuesEnabled, hasProjectsEnabled, hasWikiEnabled, hasDiscussionsEnabled,
-          defaultBranchRef { name, target { ... on Commit { history(first: 1) { totalCount } } } },
-          releases(first: 1, orderBy: {field: CREATED_AT, direction: DESC}) { totalCount, nodes { tagName, publishedAt } },
-          readme: object(expression: "HEAD:README.md") { ... on Blob { text } }
-        }
-      }
-    `;
+  private async fetchDetailsAndSave(rawRepos: TrendCandidate[], category: string, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`   ✨ Enriching ${rawRepos.length} repos...`);
     
-    let allRepos: any[] = [];
-    for (const repo of simpleRepos) {
-      try {
-        const fullName = repo.full_name || repo.nameWithOwner;
-        if (!fullName || !fullName.includes('/')) continue;
-        const [owner, name] = fullName.split('/');
-        const res: any = await this.graphqlClient.request(query, { owner, name });
-        if (res.repository && res.repository.databaseId) {
-          allRepos.push(res.repository);
-        }
-        await this.sleep(200); 
-      } catch (error: any) { console.warn(`   ⚠️ Enrichment skipped for ${repo.full_name}`); }
-    }
-    return allRepos;
-  }
-
-  private async batchInsertToTable(client: any, repos: GitHubRepo[], category: string): Promise<void> {
-    for (const repo of repos) {
-      const topics = repo.repositoryTopics?.nodes?.map(t => t.topic.name) || [];
-      const rawReadme = (repo as any).readme?.text || "";
-      const readmeSnippet = rawReadme.slice(0, 10000); 
-
-      // 1. Insert Repository
-      await client.query(
-        `INSERT INTO repositories (
-          github_id, name, full_name, owner_login, owner_avatar_url, description, html_url, homepage_url,
-          stars_count, forks_count, watchers_count, open_issues_count, size_kb, language, topics, license_name,
-          created_at, updated_at, pushed_at, is_fork, is_archived, is_disabled, allow_forking, is_template,
-          visibility, has_issues, has_projects, has_downloads, has_wiki, has_pages, has_discussions,
-          default_branch, subscribers_count, network_count, last_fetched, categories, sync_status, readme_snippet
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, NOW(), ARRAY[$35], 'complete', $36)
-        ON CONFLICT (github_id) DO UPDATE SET
-          name = EXCLUDED.name, full_name = EXCLUDED.full_name, owner_login = EXCLUDED.owner_login,
-          owner_avatar_url = EXCLUDED.owner_avatar_url, description = EXCLUDED.description,
-          stars_count = EXCLUDED.stars_count, forks_count = EXCLUDED.forks_count,
-          watchers_count = EXCLUDED.watchers_count, open_issues_count = EXCLUDED.open_issues_count,
-          created_at = EXCLUDED.created_at, updated_at = EXCLUDED.updated_at, pushed_at = EXCLUDED.pushed_at,
-          topics = EXCLUDED.topics, readme_snippet = EXCLUDED.readme_snippet,
-          categories = array_append(array_remove(repositories.categories, $35), $35),
-          sync_status = 'complete', last_fetched = NOW()`,
-        [
-          repo.databaseId, repo.name, repo.nameWithOwner || (repo as any).full_name, repo.owner.login, repo.owner.avatarUrl || (repo.owner as any).avatar_url, repo.description, repo.url || (repo as any).html_url, repo.homepageUrl || (repo as any).homepage,
-          repo.stargazerCount || (repo as any).stargazers_count, repo.forkCount || (repo as any).forks_count, repo.watchers?.totalCount || (repo as any).watchers_count || 0, repo.issues?.totalCount || (repo as any).open_issues_count || 0, repo.diskUsage || (repo as any).size || 0, repo.primaryLanguage?.name || (repo as any).language, topics, repo.licenseInfo?.name || (repo as any).license?.name,
-          repo.createdAt || (repo as any).created_at, repo.updatedAt || (repo as any).updated_at, repo.pushedAt || (repo as any).pushed_at,
-          repo.isFork || (repo as any).fork, repo.isArchived || (repo as any).archived, repo.isDisabled || (repo as any).disabled, repo.forkingAllowed || (repo as any).allow_forking, repo.isTemplate || (repo as any).is_template, repo.visibility,
-          repo.hasIssuesEnabled || (repo as any).has_issues, repo.hasProjectsEnabled || (repo as any).has_projects, true, repo.hasWikiEnabled || (repo as any).has_wiki, false, repo.hasDiscussionsEnabled || (repo as any).has_discussions,
-          repo.defaultBranchRef?.name || (repo as any).default_branch || 'main', repo.watchers?.totalCount || 0, repo.forkCount, category, readmeSnippet
-        ]
-      );
-
-      // 2. Insert Languages
-      if (repo.languages?.edges && repo.languages.edges.length > 0) {
-        await client.query('DELETE FROM repository_languages WHERE repo_github_id = $1', [repo.databaseId]);
-        for (const lang of repo.languages.edges) {
-          const percentage = repo.languages.totalSize > 0 
-            ? (lang.size / repo.languages.totalSize) * 100 
-            : 0;
-          await client.query(
-            `INSERT INTO repository_languages (repo_github_id, language_name, bytes_count, percentage)
-             VALUES ($1, $2, $3, $4)
-             ON CONFLICT (repo_github_id, language_name) DO UPDATE SET
-               bytes_count = EXCLUDED.bytes_count,
-               percentage = EXCLUDED.percentage`,
-            [repo.databaseId, lang.node.name, lang.size, percentage]
-          );
-        }
-      }
-    }
-  }
+    // 'owner/name' -> growthCount. GH Archive names are not case-normalized, GraphQL ones are.
+    const growthMap = new Map<string, number>();
+    const signalsMap = new Map<string, TrendSignals>();
+    rawRepos.forEach(r => {
+      growthMap.set(r.full_name.toLowerCase(), r.growthCount);
+      if (r.signals) signalsMap.set(r.full_name.toLowerCase(), r.signals);
+    });
 
-  private calculateSimpleActivityScore(repo: GitHubRepo, daysSinceCommit: number | null): number {
-    let score = 0;
-    const stars = repo.stargazerCount || (repo as any).stargazers_count || 0;
-    score += Math.log10(stars + 1) * 10;
-    if (daysSinceCommit !== null && daysSinceCommit <= 30) score += 50;
-    return Math.round(score);
+    // 1. Get full details from GitHub
+    const detailedRepos = await repositoryIngestionService.fetchRepositories(
+      rawRepos.map(r => r.full_name).filter((name: string) => name?.includes('/')),
+      reporter
+    );
+    if (reporter.isCancelled()) return; // Keep the previous list rather than saving a partial one
+
+    // 2 + 3. Save the list with its growth metric (the critical value for sorting)
+    const growthColumn = this.growthColumnFor(category);
+    const trendWindow = this.trendWindowFor(category);
+    await repositoryIngestionService.replaceCategory(detailedRepos, category, {
+      starsGrowth: growthColumn ? { column: growthColumn, byFullName: growthMap } : undefined,
+      trend: trendWindow ? { window: trendWindow, byFullName: signalsMap } : undefined,
+    });
+    console.log(`   ✅ Synced ${category} successfully.`);
   }
 
-  private calculateSimpleHealthScore(repo: GitHubRepo, daysSinceCommit: number | null): number {
-    return daysSinceCommit !== null && daysSinceCommit < 30 ? 100 : 50;
+  private growthColumnFor(category: string): StarsGrowthColumn | null {
+    if (category === 'trending_weekly') return 'stars_growth_7d';
+    if (category === 'trending_monthly') return 'stars_growth_30d';
+    if (category === 'trending_quarterly') return 'stars_growth_90d';
+    return null;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private trendWindowFor(category: string): TrendWindow | null {
+    if (category === 'trending_weekly') return '7d';
+    if (category === 'trending_monthly') return '30d';
+    if (category === 'trending_quarterly') return '90d';
+    return null;
   }
 }
 
-export default new NewService();
\ No newline at end of file
+export default new NewService();
@@ -0,0 +1,278 @@
+import pool from '../db.js';
+import { gql } from 'graphql-request';
+import githubClient from './github/githubClient.js';
+import { OrganizationActivity, OrganizationLanguageShare, OrganizationRepo } from '../types/developerModels.js';
+import { JobReporter } from '../types/jobModels.js';
+import { noopReporter } from './jobs/jobProgress.js';
+
+// Repositories per page, and the most starred ones the aggregates are computed over
+const REPOS_PAGE_SIZE = 100;
+const MAX_REPOS_ANALYZED = 1000;
+// An organization is refreshed (and snapshotted) once its last fetch is older than this;
+// a login that wasn't an organization is looked up again after the same delay
+const REFRESH_DAYS = 7;
+const TOP_REPOS_COUNT = 10;
+const LANGUAGE_MIX_COUNT = 10;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const ORGANIZATION_QUERY = gql`
+  query Organization($login: String!, $cursor: String) {
+    organization(login: $login) {
+      databaseId, login, name, description, avatarUrl, websiteUrl, location, email, twitterUsername
+      isVerified, createdAt
+      membersWithRole { totalCount }
+      allRepositories: repositories(privacy: PUBLIC) { totalCount }
+      repositories(first: ${REPOS_PAGE_SIZE}, after: $cursor, privacy: PUBLIC, isFork: false, orderBy: {field: STARGAZERS, direction: DESC}) {
+        pageInfo { hasNextPage, endCursor }
+        nodes {
+          nameWithOwner, name, description, stargazerCount, forkCount, pushedAt, createdAt
+          primaryLanguage { name }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Organizations as their own entities. `developers.is_organization` rows and the owners of
+ * indexed repositories are the discovery sources; each org is fetched with its public non-fork
+ * repositories, aggregated (stars, languages, top repos, push activity) and snapshotted on
+ * every refresh (weekly, REFRESH_DAYS) so its trends can be read from organization_snapshots.
+ */
+class OrganizationWorkerService {
+
+  // ===========================================================================
+  // 1. WORKERS
+  // ===========================================================================
+
+  // Organizations never fetched first (the most starred in our index first), then the stale ones.
+  // Logins recently found not to be an organization are skipped.
+  public async syncOrganizations(limit = 200, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🏢 [Orgs] Syncing organizations (Limit: ${limit})...`);
+
+    const { rows } = await pool.query(
+      `SELECT c.login
+       FROM (
+         SELECT owner_login AS login, SUM(stars_count) AS stars FROM repositories
+         WHERE owner_type = 'Organization' AND upstream_status = 'active'
+         GROUP BY owner_login
+         UNION ALL
+         SELECT login, total_stars_earned FROM developers WHERE is_organization = TRUE
+       ) c
+       LEFT JOIN organizations o ON LOWER(o.login) = LOWER(c.login)
+       LEFT JOIN organization_lookup_misses m ON m.login = LOWER(c.login)
+       WHERE (o.id IS NULL AND (m.login IS NULL OR m.checked_at < NOW() - make_interval(days => $2)))
+          OR o.last_fetched < NOW() - make_interval(days => $2)
+       ORDER BY o.last_fetched ASC NULLS FIRST, c.stars DESC
+       LIMIT $1`,
+      [limit, REFRESH_DAYS]
+    );
+
+    // Both sources can name the same org
+    const logins = [...new Map(rows.map(row => [row.login.toLowerCase(), row.login as string])).values()];
+    if (logins.length === 0) {
+      console.log("   No organizations due for a refresh.");
+      return;
+    }
+
+    let saved = 0;
+    reporter.addTotal(logins.length);
+    for (const login of logins) {
+      if (reporter.isCancelled()) break;
+      reporter.startItem(login);
+      try {
+        if (await this.ingestOrganization(login)) saved++;
+        reporter.completeItem();
+      } catch (error: any) {
+        reporter.failItem(error.message);
+        console.error(`  ❌ Error syncing organization ${login}:`, error.message);
+      }
+    }
+    console.log(`   ✅ ${saved}/${logins.length} organizations saved`);
+  }
+
+  public async fetchSpecificOrganization(login: string, reporter: JobReporter = noopReporter): Promise<void> {
+    console.log(`🎯 Manual Fetch: organization ${login}...`);
+    reporter.addTotal(1);
+    reporter.startItem(login);
+    const saved = await this.ingestOrganization(login);
+    if (!saved) throw new Error(`Organization ${login} not found`);
+    reporter.completeItem();
+  }
+
+  /**
+   * Fetches and saves one organization. Returns false when the login isn't an organization
+   * (a user, or gone), and records the miss so the sync skips it for REFRESH_DAYS.
+   * Also the path developer scouting hands organizations to.
+   */
+  public async ingestOrganization(login: string): Promise<boolean> {
+    const repos: any[] = [];
+    let org: any = null;
+    let cursor: string | null = null;
+
+    do {
+      const { data, errors } = await githubClient.graphqlPartial<{ organization: any }>(ORGANIZATION_QUERY, { login, cursor });
+      if (!data?.organization) {
+        if (errors.some(error => error.type === 'NOT_FOUND')) {
+          await this.recordMiss(login);
+          return false;
+        }
+        throw new Error(errors[0]?.message || `No data for organization ${login}`);
+      }
+      org = data.organization;
+      repos.push(...org.repositories.nodes);
+      cursor = org.repositories.pageInfo.hasNextPage ? org.repositories.pageInfo.endCursor : null;
+    } while (cursor && repos.length < MAX_REPOS_ANALYZED);
+
+    await this.saveOrganization(org, repos.slice(0, MAX_REPOS_ANALYZED));
+    return true;
+  }
+
+  // ===========================================================================
+  // 2. AGGREGATES
+  // ===========================================================================
+
+  private toTopRepos(repos: any[]): OrganizationRepo[] {
+    // Already ordered by stars
+    return repos.slice(0, TOP_REPOS_COUNT).map(repo => ({
+      full_name: repo.nameWithOwner,
+      name: repo.name,
+      description: repo.description || null,
+      stars: repo.stargazerCount || 0,
+      forks: repo.forkCount || 0,
+      language: repo.primaryLanguage?.name || null,
+      pushed_at: repo.pushedAt || null,
+    }));
+  }
+
+  private toLanguageMix(repos: any[]): OrganizationLanguageShare[] {
+    const byLanguage = new Map<string, { repos: number; stars: number }>();
+    let withLanguage = 0;
+    for (const repo of repos) {
+      const language = repo.primaryLanguage?.name;
+      if (!language) continue;
+      withLanguage++;
+      const entry = byLanguage.get(language) || { repos: 0, stars: 0 };
+      entry.repos++;
+      entry.stars += repo.stargazerCount || 0;
+      byLanguage.set(language, entry);
+    }
+
+    return [...byLanguage.entries()]
+      .map(([language, entry]) => ({
+        language,
+        repos: entry.repos,
+        stars: entry.stars,
+        share: Math.round((entry.repos / withLanguage) * 1000) / 1000,
+      }))
+      .sort((a, b) => b.repos - a.repos || b.stars - a.stars)
+      .slice(0, LANGUAGE_MIX_COUNT);
+  }
+
+  private toActivity(repos: any[]): OrganizationActivity {
+    const now = Date.now();
+    const ageInDays = (date: string | null) => date ? (now - new Date(date).getTime()) / DAY_MS : Infinity;
+    const lastPushed = repos
+      .map(repo => repo.pushedAt as string | null)
+      .filter((date): date is string => !!date)
+      .sort()
+      .pop();
+
+    return {
+      repos_pushed_30d: repos.filter(repo => ageInDays(repo.pushedAt) <= 30).length,
+      repos_pushed_90d: repos.filter(repo => ageInDays(repo.pushedAt) <= 90).length,
+      repos_created_365d: repos.filter(repo => ageInDays(repo.createdAt) <= 365).length,
+      last_pushed_at: lastPushed || null,
+    };
+  }
+
+  // ===========================================================================
+  // 3. WRITES
+  // ===========================================================================
+
+  private async saveOrganization(org: any, repos: any[]): Promise<void> {
+    const totalStars = repos.reduce((sum, repo) => sum + (repo.stargazerCount || 0), 0);
+    const totalForks = repos.reduce((sum, repo) => sum + (repo.forkCount || 0), 0);
+    const membersCount = org.membersWithRole?.totalCount || 0;
+    const publicReposCount = org.allRepositories?.totalCount || 0;
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Renamed org whose old login was taken over: the stale row gives it up until its own refresh
+      await client.query(
+        `UPDATE organizations SET login = login || '#' || github_id, last_fetched = 'epoch'
+         WHERE LOWER(login) = LOWER($1) AND github_id <> $2`,
+        [org.login, org.databaseId]
+      );
+
+      await client.query(
+        `INSERT INTO organizations (
+           github_id, login, name, description, avatar_url, blog_url, location, email, twitter_username,
+           is_verified, created_at, members_count, public_repos_count, repos_analyzed,
+           total_stars, total_forks, language_mix, top_repos, activity, last_fetched
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, NOW())
+         ON CONFLICT (github_id) DO UPDATE SET
+           login = EXCLUDED.login,
+           name = EXCLUDED.name,
+           description = EXCLUDED.description,
+           avatar_url = EXCLUDED.avatar_url,
+           blog_url = EXCLUDED.blog_url,
+           location = EXCLUDED.location,
+           email = EXCLUDED.email,
+           twitter_username = EXCLUDED.twitter_username,
+           is_verified = EXCLUDED.is_verified,
+           members_count = EXCLUDED.members_count,
+           public_repos_count = EXCLUDED.public_repos_count,
+           repos_analyzed = EXCLUDED.repos_analyzed,
+           total_stars = EXCLUDED.total_stars,
+           total_forks = EXCLUDED.total_forks,
+           language_mix = EXCLUDED.language_mix,
+           top_repos = EXCLUDED.top_repos,
+           activity = EXCLUDED.activity,
+           last_fetched = NOW()`,
+        [
+          org.databaseId, org.login, org.name || org.login, org.description || null, org.avatarUrl,
+          org.websiteUrl || null, org.location || null, org.email || null, org.twitterUsername || null,
+          !!org.isVerified, org.createdAt, membersCount, publicReposCount, repos.length,
+          totalStars, totalForks,
+          JSON.stringify(this.toLanguageMix(repos)),
+          JSON.stringify(this.toTopRepos(repos)),
+          JSON.stringify(this.toActivity(repos)),
+        ]
+      );
+
+      await client.query(
+        `INSERT INTO organization_snapshots (org_github_id, snapshot_date, total_stars, total_forks, public_repos_count, members_count)
+         VALUES ($1, CURRENT_DATE, $2, $3, $4, $5)
+         ON CONFLICT (org_github_id, snapshot_date) DO UPDATE SET
+           total_stars = EXCLUDED.total_stars,
+           total_forks = EXCLUDED.total_forks,
+           public_repos_count = EXCLUDED.public_repos_count,
+           members_count = EXCLUDED.members_count`,
+        [org.databaseId, totalStars, totalForks, publicReposCount, membersCount]
+      );
+
+      await client.query(`DELETE FROM organization_lookup_misses WHERE login = LOWER($1)`, [org.login]);
+
+      await client.query('COMMIT');
+      console.log(`  ✓ Saved organization: ${org.login} (${repos.length} repos, ${totalStars} stars)`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async recordMiss(login: string): Promise<void> {
+    await pool.query(
+      `INSERT INTO organization_lookup_misses (login, checked_at) VALUES (LOWER($1), NOW())
+       ON CONFLICT (login) DO UPDATE SET checked_at = NOW()`,
+      [login]
+    );
+  }
+}
+
+export default new OrganizationWorkerService();
@@ -1,22 +1,166 @@
-import cron from 'node-cron';
-import workerService from './workerService.js';
+import cron, { ScheduledTask, TaskContext } from 'node-cron';
+import pool from '../db.js';
+import jobQueueService from './jobs/jobQueueService.js';
+import { SCHEDULE_DEFINITIONS } from '../constants/schedules.js';
+import { ScheduleDefinition, ScheduleStatus } from '../types/jobModels.js';
 
+/**
+ * Enqueues the jobs of constants/schedules.ts on their cron cadence. It never runs work itself:
+ * the job runner does, so scheduled runs get the same retries, progress and cancellation as
+ * manual triggers. Safe to start on several instances: a cron slot is only taken once, and a
+ * tick is skipped while the same job is still queued or running.
+ */
 class Scheduler {
-  public start(): void {
-    // Update contributors weekly (Sunday at 2 AM)
-    cron.schedule('0 2 * * 0', async () => {
-      console.log('⏰ Running weekly contributors update...');
-      await workerService.updateContributors();
-    });
+  private tasks = new Map<string, ScheduledTask>();
+  private timezone = process.env.SCHEDULER_TIMEZONE || 'UTC';
+
+  public async start(): Promise<void> {
+    if (this.tasks.size > 0) return;
+
+    const invalid = SCHEDULE_DEFINITIONS.filter(def => !cron.validate(def.cron));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid cron expression for: ${invalid.map(def => def.name).join(', ')}`);
+    }
+
+    await this.syncDefinitions();
+    for (const def of SCHEDULE_DEFINITIONS) {
+      const task = cron.schedule(def.cron, context => this.fire(def, context), {
+        name: def.name,
+        timezone: this.timezone,
+        maxRandomDelay: def.jitterSeconds * 1000,
+      });
+      this.tasks.set(def.name, task);
+    }
+    console.log(`📅 [Scheduler] ${this.tasks.size} schedules registered (${this.timezone})`);
+  }
 
-    // Update commit activity daily (Every day at 3 AM)
-    cron.schedule('0 3 * * *', async () => {
-      console.log('⏰ Running daily commit activity update...');
-      await workerService.updateCommitActivity();
+  public async stop(): Promise<void> {
+    for (const task of this.tasks.values()) await task.destroy();
+    this.tasks.clear();
+  }
+
+  // ===========================================================================
+  // 1. ADMIN API
+  // ===========================================================================
+
+  public async getStatus(): Promise<ScheduleStatus[]> {
+    const { rows } = await pool.query(
+      `SELECT s.*, j.status AS last_job_status, j.finished_at AS last_job_finished_at
+       FROM job_schedules s
+       LEFT JOIN jobs j ON j.id = s.last_job_id`
+    );
+    const stored = new Map(rows.map(row => [row.name, row]));
+
+    return SCHEDULE_DEFINITIONS.map(def => {
+      const row = stored.get(def.name);
+      const nextRun = this.tasks.get(def.name)?.getNextRun();
+      return {
+        name: def.name,
+        description: def.description,
+        job_type: def.jobType,
+        payload: def.payload || {},
+        cron: def.cron,
+        jitter_seconds: def.jitterSeconds,
+        timezone: this.timezone,
+        paused: !!row?.paused,
+        next_run_at: nextRun ? nextRun.toISOString() : null,
+        last_run_at: row?.last_run_at || null,
+        last_outcome: row?.last_outcome || null,
+        last_error: row?.last_error || null,
+        last_job: row?.last_job_id
+          ? { id: Number(row.last_job_id), status: row.last_job_status, finished_at: row.last_job_finished_at }
+          : null,
+      };
     });
+  }
+
+  // Returns false when no schedule has that name
+  public async setPaused(name: string, paused: boolean): Promise<boolean> {
+    if (!SCHEDULE_DEFINITIONS.some(def => def.name === name)) return false;
+    await this.syncDefinitions();
+    await pool.query(
+      `UPDATE job_schedules SET paused = $2, updated_at = NOW() WHERE name = $1`,
+      [name, paused]
+    );
+    console.log(`📅 [Scheduler] ${name} ${paused ? 'paused' : 'resumed'}`);
+    return true;
+  }
+
+  // ===========================================================================
+  // 2. TICKS
+  // ===========================================================================
+
+  // Definitions are code; only the pause flag and the run history belong to the table
+  private async syncDefinitions(): Promise<void> {
+    for (const def of SCHEDULE_DEFINITIONS) {
+      await pool.query(
+        `INSERT INTO job_schedules (name, job_type, payload, cron, jitter_seconds)
+         VALUES ($1, $2, $3::jsonb, $4, $5)
+         ON CONFLICT (name) DO UPDATE SET
+           job_type = EXCLUDED.job_type,
+           payload = EXCLUDED.payload,
+           cron = EXCLUDED.cron,
+           jitter_seconds = EXCLUDED.jitter_seconds`,
+        [def.name, def.jobType, JSON.stringify(def.payload || {}), def.cron, def.jitterSeconds]
+      );
+    }
+  }
+
+  private async fire(def: ScheduleDefinition, context: TaskContext): Promise<void> {
+    // The slot, not the jittered execution time: identical on every instance
+    const tick = new Date(Math.floor(context.date.getTime() / 1000) * 1000);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(
+        `SELECT s.paused, s.last_tick_at,
+                EXISTS (
+                  SELECT 1 FROM jobs j
+                  WHERE j.type = s.job_type AND j.payload = s.payload AND j.status IN ('queued', 'running')
+                ) AS overlapping
+         FROM job_schedules s
+         WHERE s.name = $1
+         FOR UPDATE OF s`,
+        [def.name]
+      );
+      const schedule = rows[0];
+
+      if (!schedule || schedule.paused || (schedule.last_tick_at && new Date(schedule.last_tick_at) >= tick)) {
+        await client.query('COMMIT');
+        return;
+      }
+
+      if (schedule.overlapping) {
+        await client.query(
+          `UPDATE job_schedules SET last_tick_at = $2, last_outcome = 'skipped_overlap', last_error = NULL WHERE name = $1`,
+          [def.name, tick]
+        );
+        await client.query('COMMIT');
+        console.log(`⏭️  [Scheduler] ${def.name}: previous ${def.jobType} job still pending, tick skipped`);
+        return;
+      }
 
-    console.log('📅 Cron jobs scheduled successfully!');
+      const job = await jobQueueService.enqueue(def.jobType, def.payload || {});
+      await client.query(
+        `UPDATE job_schedules SET
+           last_tick_at = $2, last_run_at = NOW(), last_job_id = $3, last_outcome = 'enqueued', last_error = NULL
+         WHERE name = $1`,
+        [def.name, tick, job.id]
+      );
+      await client.query('COMMIT');
+      console.log(`⏰ [Scheduler] ${def.name}: enqueued job #${job.id} (${def.jobType})`);
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error(`❌ [Scheduler] ${def.name} failed:`, error.message);
+      await pool.query(
+        `UPDATE job_schedules SET last_outcome = 'failed', last_error = $2 WHERE name = $1`,
+        [def.name, error.message]
+      ).catch(() => {});
+    } finally {
+      client.release();
+    }
   }
 }
 
-export default new Scheduler();
\ No newline at end of file
+export default new Scheduler();
@@ -1,25 +1,20 @@
 import pool from '../db.js';
-import { GraphQLClient, gql } from 'graphql-request';
-
-const GITHUB_GRAPHQL_URL = 'https://api.github.com/graphql';
+import { gql } from 'graphql-request';
+import githubClient from './github/githubClient.js';
+import repositoryIngestionService from './ingestion/repositoryIngestionService.js';
+import repositoryReconciliationService from './ingestion/repositoryReconciliationService.js';
+import { GitHubRepo } from '../types/models.js';
+import { JobReporter } from '../types/jobModels.js';
+import { noopReporter } from './jobs/jobProgress.js';
+import fetchStateService from './fetchings/fetchStateService.js';
 
 class WorkerService {
-  private graphqlClient: GraphQLClient;
-
-  constructor() {
-    const token = process.env.GITHUB_TOKEN;
-    if (!token) throw new Error('GITHUB_TOKEN is not set.');
-    this.graphqlClient = new GraphQLClient(GITHUB_GRAPHQL_URL, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-  }
-
   // ===========================================================================
   // 1. STUB HYDRATION (The Full Fetch)
   //    Upgrades a 'stub' repo (basic info) to 'complete' (full metadata)
   // ===========================================================================
 
-  public async hydrateStubs(): Promise<void> {
+  public async hydrateStubs(reporter: JobReporter = noopReporter): Promise<void> {
     console.log('🔄 Hydrating Stub Repositories...');
     
     // Fetch stubs from the single master table
@@ -36,140 +31,47 @@ class WorkerService {
 
     console.log(`   Found ${rows.length} stubs to hydrate.`);
 
+    reporter.addTotal(rows.length);
     for (const row of rows) {
+        if (reporter.isCancelled()) break;
+        reporter.startItem(`hydrate ${row.full_name}`);
         try {
             console.log(`   💧 Hydrating ${row.full_name}...`);
-            await this.fetchAndEnrichRepo(row.github_id, row.full_name);
-            // Rate limit protection: Pause between heavy GraphQL writes
-            await this.sleep(1000); 
+            await this.fetchAndEnrichRepo(row);
+            reporter.completeItem();
         } catch (e: any) {
+            reporter.failItem(e.message);
             console.error(`   ❌ Failed to hydrate ${row.full_name}:`, e.message);
         }
     }
   }
 
   /**
-   * Fetches FULL details via GraphQL and updates the main table + auxiliary tables
-   */
-/**
-   * Fetches FULL details via GraphQL and updates the main table + auxiliary tables
+   * Fetches FULL details via GraphQL and saves them through the shared ingestion path
+   * (main table + languages + stats). Categories are left untouched.
    */
-  private async fetchAndEnrichRepo(githubId: string, fullName: string): Promise<void> {
-      const [owner, name] = fullName.split('/');
-      
-      const query = gql`
-        query RepoHydrate($owner: String!, $name: String!) {
-          repository(owner: $owner, name: $name) {
-            databaseId, name, nameWithOwner, owner { login, avatarUrl }, description, url, homepageUrl,
-            stargazerCount, forkCount, watchers { totalCount }, issues(states: OPEN) { totalCount },
-            diskUsage, primaryLanguage { name },
-            repositoryTopics(first: 10) { nodes { topic { name } } },
-            languages(first: 10, orderBy: {field: SIZE, direction: DESC}) { edges { size, node { name } }, totalSize },
-            licenseInfo { name },
-            createdAt, updatedAt, pushedAt,
-            isFork, isArchived, isDisabled, forkingAllowed, isTemplate, visibility,
-            hasIssuesEnabled, hasProjectsEnabled, hasWikiEnabled, hasDiscussionsEnabled,
-            defaultBranchRef { name, target { ... on Commit { history(first: 1) { totalCount } } } },
-            releases(first: 1, orderBy: {field: CREATED_AT, direction: DESC}) { totalCount, nodes { tagName, publishedAt } },
-            
-            # --- NEW: Fetch README Content ---
-            readme: object(expression: "HEAD:README.md") {
-              ... on Blob {
-                text
-              }
-            }
+  private async fetchAndEnrichRepo(stub: { github_id: string; full_name: string }): Promise<void> {
+      const fullName = stub.full_name;
+      let repo: GitHubRepo | null;
+      try {
+        repo = await repositoryIngestionService.fetchRepository(fullName);
+        // Gone, or the name now belongs to another repo: find the stub by github_id instead
+        if (!repo || String(repo.databaseId) !== String(stub.github_id)) {
+          const currentName = await repositoryReconciliationService.reconcileRepository(stub);
+          if (!currentName) {
+            console.log(`   🗑️ ${fullName} is no longer available upstream`);
+            return;
           }
+          repo = await repositoryIngestionService.fetchRepository(currentName);
         }
-      `;
-
-      let data: any;
-      try {
-        data = await this.graphqlClient.request(query, { owner, name });
       } catch (e) { 
         console.error(`Error fetching GraphQL for ${fullName}`);
         return; 
       }
-
-      const repo = data.repository;
       if (!repo) return;
 
-      const client = await pool.connect();
-      try {
-        await client.query('BEGIN');
-
-        // 1. Prepare Data
-        const topics = repo.repositoryTopics?.nodes?.map((t:any) => t.topic.name) || [];
-        
-        // --- NEW: Process README ---
-        // We take the text, or empty string if null. 
-        // We truncate to 10,000 chars to save DB space but keep enough for search/display.
-        const rawReadme = repo.readme?.text || "";
-        const readmeSnippet = rawReadme.slice(0, 10000); 
-
-        // 2. Update the Master Table with FULL details (Added readme_snippet)
-        await client.query(
-          `UPDATE repositories SET
-             name = $2, full_name = $3, owner_login = $4, owner_avatar_url = $5, description = $6,
-             html_url = $7, homepage_url = $8, stars_count = $9, forks_count = $10, watchers_count = $11,
-             open_issues_count = $12, size_kb = $13, language = $14, topics = $15, license_name = $16,
-             created_at = $17, updated_at = $18, pushed_at = $19,
-             is_fork = $20, is_archived = $21, is_disabled = $22, allow_forking = $23, is_template = $24,
-             visibility = $25, has_issues = $26, has_projects = $27, has_downloads = $28, has_wiki = $29,
-             has_pages = $30, has_discussions = $31, default_branch = $32, 
-             readme_snippet = $33,  -- <--- NEW COLUMN
-             last_fetched = NOW(), sync_status = 'complete'
-           WHERE github_id = $1`,
-          [
-            githubId, repo.name, repo.nameWithOwner, repo.owner.login, repo.owner.avatarUrl, repo.description,
-            repo.url, repo.homepageUrl, repo.stargazerCount, repo.forkCount, repo.watchers.totalCount,
-            repo.issues.totalCount, repo.diskUsage, repo.primaryLanguage?.name, topics, repo.licenseInfo?.name,
-            repo.createdAt, repo.updatedAt, repo.pushedAt,
-            repo.isFork, repo.isArchived, repo.isDisabled, repo.forkingAllowed, repo.isTemplate,
-            repo.visibility, repo.hasIssuesEnabled, repo.hasProjectsEnabled, true, repo.hasWikiEnabled,
-            false, repo.hasDiscussionsEnabled, repo.defaultBranchRef?.name,
-            readmeSnippet // <--- NEW PARAMETER ($33)
-          ]
-        );
-
-        // 3. Save Languages (Linked Table)
-        if (repo.languages?.edges) {
-            await client.query('DELETE FROM repository_languages WHERE repo_github_id = $1', [githubId]);
-            for (const lang of repo.languages.edges) {
-                const percentage = repo.languages.totalSize > 0 ? (lang.size / repo.languages.totalSize) * 100 : 0;
-                await client.query(
-                    `INSERT INTO repository_languages (repo_github_id, language_name, bytes_count, percentage)
-                     VALUES ($1, $2, $3, $4)`,
-                    [githubId, lang.node.name, lang.size, percentage]
-                );
-            }
-        }
-
-        // 4. Save Stats (Linked Table)
-        const commits = repo.defaultBranchRef?.target?.history?.totalCount || 0;
-        const releases = repo.releases?.totalCount || 0;
-        const latestRelease = repo.releases?.nodes?.[0];
-        const activityScore = Math.log10(commits + 1) * 20 + (releases * 5);
-
-        await client.query(
-            `INSERT INTO repository_stats (
-                repo_github_id, commits_last_year, total_releases, 
-                latest_release_tag, latest_release_date, activity_score, calculated_at
-             ) VALUES ($1, $2, $3, $4, $5, $6, NOW())
-             ON CONFLICT (repo_github_id) DO UPDATE SET
-                commits_last_year = EXCLUDED.commits_last_year,
-                activity_score = EXCLUDED.activity_score,
-                calculated_at = NOW()`,
-            [githubId, commits, releases, latestRelease?.tagName, latestRelease?.publishedAt, activityScore]
-        );
-        
-        await client.query('COMMIT');
-        console.log(`   ✓ Hydrated: ${fullName}`); // Optional log
-      } catch (e) {
-        await client.query('ROLLBACK');
-        throw e;
-      } finally {
-        client.release();
-      }
+      await repositoryIngestionService.saveRepositories([repo]);
+      console.log(`   ✓ Hydrated: ${fullName}`); // Optional log
   }
 
   // ===========================================================================
@@ -178,30 +80,22 @@ class WorkerService {
   // ===========================================================================
 
   // MODE A: UPDATE ALL (Refresh everything, or specific ID)
-  public async updateAllContributors(repositoryId?: number): Promise<void> {
+  public async updateAllContributors(repositoryId?: number, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Contributors] Updating ALL (Refresh Mode)...`);
     const query = repositoryId 
       ? `SELECT id, github_id, full_name FROM repositories WHERE id = $1`
       : `SELECT id, github_id, full_name FROM repositories WHERE sync_status = 'complete' ORDER BY stars_count DESC LIMIT 50`; 
-    await this.processContributorsBatch(query, repositoryId ? [repositoryId] : []);
+    await this.processContributorsBatch(query, repositoryId ? [repositoryId] : [], reporter);
   }
 
-  // MODE B: UPDATE MISSING (Only fetch if not yet fetched)
-  public async updateMissingContributors(): Promise<void> {
+  // MODE B: UPDATE MISSING (Never fetched, or due for a retry)
+  public async updateMissingContributors(reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Contributors] Updating MISSING only...`);
-    const query = `
-      SELECT r.id, r.github_id, r.full_name 
-      FROM repositories r
-      LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.sync_status = 'complete' 
-      AND (rs.contributors_fetched IS FALSE OR rs.contributors_fetched IS NULL)
-      ORDER BY r.stars_count DESC 
-      LIMIT 50
-    `;
-    await this.processContributorsBatch(query, []);
+    const due = fetchStateService.dueQuery('contributors', 50);
+    await this.processContributorsBatch(due.text, due.values, reporter);
   }
 
-  private async processContributorsBatch(query: string, params: any[]): Promise<void> {
+  private async processContributorsBatch(query: string, params: any[], reporter: JobReporter): Promise<void> {
     const client = await pool.connect();
     try {
       const { rows } = await pool.query(query, params);
@@ -209,12 +103,17 @@ class WorkerService {
           console.log("   No contributors to update.");
           return;
       }
+      reporter.addTotal(rows.length);
       for (const repo of rows) {
+          if (reporter.isCancelled()) break;
+          reporter.startItem(`contributors ${repo.full_name}`);
           try {
             await this.fetchAndSaveContributors(repo.github_id, repo.full_name);
+            reporter.completeItem();
             console.log(`  ✓ Contributors updated for ${repo.full_name}`);
-            await this.sleep(1500); // Respect rate limits (REST + potential GraphQL)
           } catch (error: any) {
+            reporter.failItem(error.message);
+            await fetchStateService.markFailed('contributors', repo.github_id, error.message);
             console.error(`  ❌ Error contributors for ${repo.full_name}:`, error.message);
           }
       }
@@ -233,20 +132,18 @@ class WorkerService {
     // --- METHOD 1: Try REST API (All-time top 30) ---
     let response: Response;
     try {
-      response = await fetch(
-        `https://api.github.com/repos/${fullName}/contributors?per_page=30`,
-        {
-          headers: {
-            'Authorization': `Bearer ${process.env.GITHUB_TOKEN}`,
-            'Accept': 'application/vnd.github.v3+json'
-          }
-        }
-      );
+      response = await githubClient.rest(`/repos/${fullName}/contributors?per_page=30`);
     } catch (fetchError: any) {
       throw new Error(`Network error fetching contributors: ${fetchError.message}`);
     }
 
-    if (response.ok) {
+    // 404: repo gone, 204 handled below (empty repo or list too large)
+    if (response.status === 404) {
+      await fetchStateService.markNotFound('contributors', repoGithubId, 'HTTP 404');
+      return;
+    }
+
+    if (response.ok && response.status !== 204) {
       // Success! We got the easy list.
       const contributors = await response.json();
       await this.saveContributorsToDB(repoGithubId, contributors, null, 'all_time');
@@ -314,7 +211,7 @@ class WorkerService {
 
     for (let i = 0; i < maxPages && hasNextPage; i++) {
       try {
-        const data: any = await this.graphqlClient.request(query, { owner, name, cursor });
+        const data: any = await githubClient.graphql(query, { owner, name, cursor });
         const history = data.repository?.defaultBranchRef?.target?.history;
         if (!history) break;
 
@@ -339,12 +236,18 @@ class WorkerService {
         cursor = history.pageInfo.endCursor;
         hasNextPage = history.pageInfo.hasNextPage;
       } catch (error: any) {
-         if (error.message?.includes('404') || error.message?.includes('MISSING')) return;
+         if (error.message?.includes('404') || error.message?.includes('MISSING')) {
+           await fetchStateService.markNotFound('contributors', repoGithubId, 'Repository not found');
+           return;
+         }
          console.error(`  [GraphQL Error] Page ${i}: ${error.message}`);
       }
     }
 
-    if (contributorsMap.size === 0) return;
+    if (contributorsMap.size === 0) {
+      await fetchStateService.markNotFound('contributors', repoGithubId, 'No GitHub user in recent history');
+      return;
+    }
 
     // 1. Get the list of most active recent contributors (up to 30)
     let sortedContributors = Array.from(contributorsMap.values())
@@ -352,11 +255,10 @@ class WorkerService {
       .slice(0, 30); 
 
     // 2. Enrich ALL of them with true all-time counts using Search API
-    // We process sequentially to respect the 30 req/min search limit strictly
+    // (githubClient paces these against the 30 req/min search budget)
     const enrichedContributors = [];
     for (const contributor of sortedContributors) {
       try {
-        await this.sleep(2000); // Hard wait for Search API rate limits (essential!)
         const totalCount = await this.fetchUserTotalCommits(fullName, contributor.login);
         if (totalCount > contributor.contributions) {
             contributor.contributions = totalCount;
@@ -376,10 +278,7 @@ class WorkerService {
    */
   private async fetchUserTotalCommits(fullName: string, login: string): Promise<number> {
     try {
-      const res = await fetch(
-        `https://api.github.com/search/commits?q=repo:${fullName}+author:${login}&per_page=1`,
-        { headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } }
-      );
+      const res = await githubClient.rest(`/search/commits?q=repo:${fullName}+author:${login}&per_page=1`);
       if (res.ok) {
         const data = await res.json();
         return data.total_count || 0;
@@ -388,18 +287,18 @@ class WorkerService {
     } catch (error) { return 0; }
   }
 
-  // Updated Save Method: Sets the 'contributors_fetched' flag to TRUE
+  // Saves the list and records the 'contributors' fetch as successful
   private async saveContributorsToDB(repoGithubId: string, contributors: any[], fallbackType: string | null, dataType: 'all_time' | 'recent'): Promise<void> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
       
-      // UPDATE FLAG: Mark as fetched
       await client.query(`
         UPDATE repository_stats 
-        SET contributors_data_type = $1, contributors_fetched = TRUE 
+        SET contributors_data_type = $1
         WHERE repo_github_id = $2
       `, [dataType, repoGithubId]);
+      await fetchStateService.markSuccess('contributors', repoGithubId, client);
       
       await client.query('DELETE FROM repository_contributors WHERE repo_github_id = $1', [repoGithubId]);
 
@@ -441,29 +340,22 @@ class WorkerService {
   // ===========================================================================
 
   // MODE A: UPDATE ALL
-  public async updateAllCommitActivity(repositoryId?: number): Promise<void> {
+  public async updateAllCommitActivity(repositoryId?: number, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Activity] Updating ALL (Refresh Mode)...`);
     const query = repositoryId 
       ? `SELECT id, github_id, full_name FROM repositories WHERE id = $1`
       : `SELECT id, github_id, full_name FROM repositories WHERE sync_status = 'complete' LIMIT 100`;
-    await this.processActivityBatch(query, repositoryId ? [repositoryId] : []);
+    await this.processActivityBatch(query, repositoryId ? [repositoryId] : [], reporter);
   }
 
   // MODE B: UPDATE MISSING
-  public async updateMissingCommitActivity(): Promise<void> {
+  public async updateMissingCommitActivity(reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Activity] Updating MISSING only...`);
-    const query = `
-      SELECT r.id, r.github_id, r.full_name 
-      FROM repositories r
-      LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.sync_status = 'complete' 
-      AND (rs.commit_activity_fetched IS FALSE OR rs.commit_activity_fetched IS NULL)
-      LIMIT 100
-    `;
-    await this.processActivityBatch(query, []);
+    const due = fetchStateService.dueQuery('commit_activity', 100);
+    await this.processActivityBatch(due.text, due.values, reporter);
   }
 
-  private async processActivityBatch(query: string, params: any[]): Promise<void> {
+  private async processActivityBatch(query: string, params: any[], reporter: JobReporter): Promise<void> {
     const client = await pool.connect();
     try {
       const { rows } = await pool.query(query, params);
@@ -471,11 +363,16 @@ class WorkerService {
           console.log("   No activity to update.");
           return;
       }
+      reporter.addTotal(rows.length);
       for (const repo of rows) {
+        if (reporter.isCancelled()) break;
+        reporter.startItem(`activity ${repo.full_name}`);
         try {
           await this.fetchAndSaveCommitActivity(repo.github_id, repo.full_name);
-          await this.sleep(2000); // 2s gap
-        } catch (error) {
+          reporter.completeItem();
+        } catch (error: any) {
+          reporter.failItem(error.message);
+          await fetchStateService.markFailed('commit_activity', repo.github_id, error.message);
           console.error(`  ❌ Error updating commit activity for ${repo.full_name}:`, error);
         }
       }
@@ -492,13 +389,14 @@ class WorkerService {
     // Retry Loop for 202 Status
     while (attempt < maxRetries) {
       try {
-        response = await fetch(
-          `https://api.github.com/repos/${fullName}/stats/commit_activity`,
-          { headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } }
-        );
+        response = await githubClient.rest(`/repos/${fullName}/stats/commit_activity`);
+
+        // 204: empty repository
+        if (response.status === 204 || response.status === 404) {
+          await fetchStateService.markNotFound('commit_activity', repoGithubId, `HTTP ${response.status}`);
+          return;
+        }
 
-        if (response.ok) break;
-        
         // If GitHub says "Computing...", wait and retry
         if (response.status === 202) {
           console.log(`  ⏳ GitHub computing stats for ${fullName}. Retrying in 2s...`);
@@ -506,20 +404,26 @@ class WorkerService {
           attempt++;
           continue;
         }
+
+        if (response.ok) break;
         throw new Error(`Failed to fetch activity: ${response.status}`);
       } catch (error) { throw error; }
     }
 
-    if (!response || !response.ok) return;
+    // Still computing after every retry: the backoff brings it back later
+    if (!response || response.status !== 200) throw new Error('GitHub is still computing commit activity');
 
     const activityData = await response.json();
-    if (!Array.isArray(activityData) || activityData.length === 0) return;
+    if (!Array.isArray(activityData)) throw new Error('Unexpected commit activity payload');
+    if (activityData.length === 0) {
+      await fetchStateService.markNotFound('commit_activity', repoGithubId, 'No activity');
+      return;
+    }
 
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
-      // UPDATE FLAG: Mark as fetched
-      await client.query(`UPDATE repository_stats SET commit_activity_fetched = TRUE WHERE repo_github_id = $1`, [repoGithubId]);
+      await fetchStateService.markSuccess('commit_activity', repoGithubId, client);
       
       await client.query('DELETE FROM repository_commit_activity WHERE repo_github_id = $1', [repoGithubId]);
 
@@ -546,29 +450,22 @@ class WorkerService {
   // ===========================================================================
 
   // MODE A: UPDATE ALL
-  public async updateAllRecentCommits(repositoryId?: number): Promise<void> {
+  public async updateAllRecentCommits(repositoryId?: number, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Commits] Updating ALL (Refresh Mode)...`);
     const query = repositoryId 
       ? `SELECT id, github_id, full_name FROM repositories WHERE id = $1`
       : `SELECT id, github_id, full_name FROM repositories WHERE sync_status = 'complete' LIMIT 100`;
-    await this.processCommitsBatch(query, repositoryId ? [repositoryId] : []);
+    await this.processCommitsBatch(query, repositoryId ? [repositoryId] : [], reporter);
   }
 
   // MODE B: UPDATE MISSING
-  public async updateMissingRecentCommits(): Promise<void> {
+  public async updateMissingRecentCommits(reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🔄 [Commits] Updating MISSING only...`);
-    const query = `
-      SELECT r.id, r.github_id, r.full_name 
-      FROM repositories r
-      LEFT JOIN repository_stats rs ON r.github_id = rs.repo_github_id
-      WHERE r.sync_status = 'complete' 
-      AND (rs.recent_commits_fetched IS FALSE OR rs.recent_commits_fetched IS NULL)
-      LIMIT 100
-    `;
-    await this.processCommitsBatch(query, []);
+    const due = fetchStateService.dueQuery('commits', 100);
+    await this.processCommitsBatch(due.text, due.values, reporter);
   }
 
-  private async processCommitsBatch(query: string, params: any[]): Promise<void> {
+  private async processCommitsBatch(query: string, params: any[], reporter: JobReporter): Promise<void> {
     const client = await pool.connect();
     try {
         const { rows } = await pool.query(query, params);
@@ -576,11 +473,16 @@ class WorkerService {
             console.log("   No commits to update.");
             return;
         }
+        reporter.addTotal(rows.length);
         for (const repo of rows) {
+            if (reporter.isCancelled()) break;
+            reporter.startItem(`commits ${repo.full_name}`);
             try {
                 await this.fetchAndSaveRecentCommits(repo.github_id, repo.full_name);
-                await this.sleep(1000); 
+                reporter.completeItem();
             } catch (error: any) {
+                reporter.failItem(error.message);
+                await fetchStateService.markFailed('commits', repo.github_id, error.message);
                 console.error(`  ❌ Error commits for ${repo.full_name}:`, error.message);
             }
         }
@@ -591,21 +493,26 @@ class WorkerService {
 
   private async fetchAndSaveRecentCommits(repoGithubId: string, fullName: string): Promise<void> {
     try {
-      const response = await fetch(
-        `https://api.github.com/repos/${fullName}/commits?per_page=50`,
-        { headers: { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } }
-      );
+      const response = await githubClient.rest(`/repos/${fullName}/commits?per_page=50`);
 
-      if (!response.ok) return;
+      // 409: empty repository
+      if (response.status === 404 || response.status === 409) {
+        await fetchStateService.markNotFound('commits', repoGithubId, `HTTP ${response.status}`);
+        return;
+      }
+      if (!response.ok) throw new Error(`GitHub API error: ${response.status}`);
 
       const commits = await response.json();
-      if (!Array.isArray(commits) || commits.length === 0) return;
+      if (!Array.isArray(commits)) throw new Error('Unexpected commits payload');
+      if (commits.length === 0) {
+        await fetchStateService.markNotFound('commits', repoGithubId, 'No commits');
+        return;
+      }
 
       const client = await pool.connect();
       try {
         await client.query('BEGIN');
-        // UPDATE FLAG: Mark as fetched
-        await client.query(`UPDATE repository_stats SET recent_commits_fetched = TRUE WHERE repo_github_id = $1`, [repoGithubId]);
+        await fetchStateService.markSuccess('commits', repoGithubId, client);
         
         await client.query('DELETE FROM repository_commits WHERE repo_github_id = $1', [repoGithubId]);
 
@@ -616,7 +523,7 @@ class WorkerService {
           const commitData = commit.commit;
           // Note: 'stats' (additions/deletions) are typically not in the list view response of GitHub API.
           // Getting them requires fetching EACH commit individually, which is too expensive.
-          // We default to 0 here unless we implement a deep-fetch strategy (which is usually overkill).
+          // We default to 0 here; the 'commits_missing' job in deep mode fills them through GraphQL.
           const stats = commit.stats || { additions: 0, deletions: 0, total: 0 };
           const filesChanged = commit.files ? commit.files.length : 0;
 
@@ -663,28 +570,28 @@ class WorkerService {
   // ===========================================================================
 
   // Main runner: Updates MISSING data by default to be efficient
-  public async runAllJobs(forceUpdateAll = false): Promise<void> {
+  public async runAllJobs(forceUpdateAll = false, reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🚀 Starting ALL background jobs (Force Update: ${forceUpdateAll})...`);
     // 1. Hydrate Stubs first so subsequent jobs have data to work on
-    await this.hydrateStubs();
+    await this.hydrateStubs(reporter);
     
-    // 2. Refresh metrics based on mode
+    // 2. Refresh metrics based on mode (each step returns early once cancelled)
     if (forceUpdateAll) {
-        await this.updateAllRecentCommits();
-        await this.updateAllCommitActivity();
-        await this.updateAllContributors();
+        await this.updateAllRecentCommits(undefined, reporter);
+        await this.updateAllCommitActivity(undefined, reporter);
+        await this.updateAllContributors(undefined, reporter);
     } else {
         // Efficient Mode: Only fetch what we don't have
-        await this.updateMissingRecentCommits();
-        await this.updateMissingCommitActivity();
-        await this.updateMissingContributors();
+        await this.updateMissingRecentCommits(reporter);
+        await this.updateMissingCommitActivity(reporter);
+        await this.updateMissingContributors(reporter);
     }
     
     console.log('\n✅ All background jobs completed successfully!');
 
   }
 
-  public async runReposOneByOne(): Promise<void> {
+  public async runReposOneByOne(reporter: JobReporter = noopReporter): Promise<void> {
     console.log(`🚀 Starting runReposOneByOne ...`);
     
     const query = `SELECT id, github_id, full_name FROM repositories ORDER BY stars_count DESC`;
@@ -695,7 +602,10 @@ class WorkerService {
             console.log(" No Repos in the database.");
             return;
         }
+        reporter.addTotal(rows.length);
         for (const repo of rows) {
+            if (reporter.isCancelled()) break;
+            reporter.startItem(repo.full_name);
             // try {
             //     await this.fetchAndSaveRecentCommits(repo.github_id, repo.full_name);
             //     console.log(` Success Commits fetch for ${repo.full_name}`);
@@ -712,9 +622,11 @@ class WorkerService {
             // }
             try {
               await this.fetchAndSaveContributors(repo.github_id, repo.full_name);
+              reporter.completeItem();
               console.log(`  ✓ Contributors updated for ${repo.full_name}`);
-              await this.sleep(1500); // Respect rate limits (REST + potential GraphQL)
             } catch (error: any) {
+              reporter.failItem(error.message);
+              await fetchStateService.markFailed('contributors', repo.github_id, error.message);
               console.error(`  ❌ Error contributors for ${repo.full_name}:`, error.message);
             }
         }
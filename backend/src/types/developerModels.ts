@@ -92,6 +92,11 @@ export interface Developer {
   location?: string;
   blog_url?: string;
   twitter_username?: string;
+
+  // Follower graph (NULL until the opt-in crawl reached them)
+  influence_score?: number | null;
+  influence_rank?: number | null;
+  network_cluster?: number | null;
   
   created_at: string;
   last_fetched: string;
@@ -119,3 +124,140 @@ export interface LanguageStats {
   polyglot_score: number; // 0-100 based on language diversity
 }
 
+
+// --- ORGANIZATIONS ---
+
+export interface OrganizationLanguageShare {
+  language: string;
+  repos: number;
+  stars: number;
+  share: number; // Share of the analyzed repos (0-1)
+}
+
+export interface OrganizationRepo {
+  full_name: string;
+  name: string;
+  description: string | null;
+  stars: number;
+  forks: number;
+  language: string | null;
+  pushed_at: string | null;
+}
+
+export interface OrganizationActivity {
+  repos_pushed_30d: number;
+  repos_pushed_90d: number;
+  repos_created_365d: number;
+  last_pushed_at: string | null;
+}
+
+export interface Organization {
+  id: number;
+  github_id: number;
+  login: string;
+  name?: string;
+  description?: string;
+  avatar_url?: string;
+  blog_url?: string;
+  location?: string;
+  email?: string;
+  twitter_username?: string;
+  is_verified: boolean;
+  created_at: string;
+
+  members_count: number;
+  public_repos_count: number;
+  repos_analyzed: number;
+
+  total_stars: number;
+  total_forks: number;
+  language_mix: OrganizationLanguageShare[];
+  top_repos: OrganizationRepo[];
+  activity: OrganizationActivity | Record<string, never>;
+
+  last_fetched: string;
+}
+
+// --- FOLLOW GRAPH ---
+
+export interface NetworkDeveloper {
+  login: string;
+  name: string | null;
+  avatar_url: string | null;
+  dominant_language: string | null;
+  influence_score: number | null;
+  influence_rank: number | null;
+  // Shared followers ("followed together") or followed-by-your-follows count ("you may also like")
+  connections?: number;
+}
+
+export interface DeveloperNetwork {
+  influence: {
+    score: number;
+    rank: number;
+    ranked_total: number;
+    cluster_size: number;
+  } | null;
+  influential: NetworkDeveloper[];
+  followed_together: NetworkDeveloper[];
+  you_may_also_like: NetworkDeveloper[];
+}
+
+// --- CONTRIBUTIONS ---
+
+export interface ContributionDay {
+  date: string; // YYYY-MM-DD
+  count: number;
+}
+
+export interface RepoContributionCount {
+  repo: string; // owner/name
+  count: number;
+}
+
+export interface ContributionYear {
+  year: number;
+  total: number;
+  commits: number;
+  pull_requests: number;
+  issues: number;
+  reviews: number;
+}
+
+export interface ContributionSummary {
+  total_last_year: number;
+  commits: number;
+  pull_requests: number;
+  issues: number;
+  reviews: number;
+  restricted: number; // Private contributions GitHub only counts
+  by_repo: {
+    commits: RepoContributionCount[];
+    pull_requests: RepoContributionCount[];
+    issues: RepoContributionCount[];
+    reviews: RepoContributionCount[];
+  };
+  by_year: ContributionYear[];
+}
+
+export interface ActivitySchedule {
+  weekdays: number[];   // 7 contribution counts, Sunday first (calendar)
+  hours: number[];      // 24 commit counts by hour (sampled commits)
+  hours_sample: number; // Commits the hours were read from
+}
+
+export type WorkSchedule =
+  | 'night_owl'
+  | 'early_bird'
+  | 'nine_to_five'
+  | 'evening_coder'
+  | 'weekend_warrior'
+  | 'around_the_clock';
+
+export interface ContributionMetrics {
+  current_streak: number;
+  longest_streak: number;
+  work_schedule: WorkSchedule | null;
+  velocity_score: number;
+  momentum_score: number;
+}
@@ -0,0 +1,63 @@
+// Subset of a GH Archive event line we rely on (https://www.gharchive.org/)
+export interface GHArchiveEvent {
+  type: string;
+  created_at: string;
+  repo: { id: number; name: string };
+  actor?: { id: number; login: string };
+  payload?: Record<string, any>;
+}
+
+// Where trend candidates come from: the public BigQuery dataset or hourly dumps on disk
+export type GHArchiveSource = 'bigquery' | 'local';
+
+// One row of 'gharchive_daily_events' while it is being aggregated in memory
+export interface DailyRepoEvents {
+  repo_github_id: number;
+  repo_name: string;
+  event_date: string; // YYYY-MM-DD (UTC)
+  watch_count: number;
+  fork_count: number;
+  push_count: number;
+  pull_request_count: number;
+  issues_count: number;
+}
+
+// Distinct actors per repo, UTC day and signal (one person starring twice in a day counts once)
+export interface DailyTrendSignals {
+  date: string; // YYYY-MM-DD
+  stars: number;
+  forks: number;
+  issues: number;
+  pull_requests: number;
+}
+
+// Raw activity of one repo over a trend window, as returned by either source
+export interface RepoTrendActivity {
+  full_name: string;
+  actors: number; // Distinct actors across the four signals (pushes excluded) over the whole window
+  daily: DailyTrendSignals[];
+}
+
+// Per-signal breakdown stored in repository_stats.trend_signals[window] so the UI can explain a rank
+export interface TrendSignals {
+  window_days: number;
+  stars: number;            // Sum of daily distinct stargazers
+  stars_damped: number;     // Same, after burst damping
+  forks: number;
+  issues: number;
+  pull_requests: number;
+  actors: number;
+  active_days: number;      // Days with at least one star
+  peak_day_share: number;   // Share of the window's stars gained on the best day (0-1)
+  burst_damped: boolean;    // True when a spike was capped
+  score: number;
+}
+
+export type TrendWindow = '7d' | '30d' | '90d';
+
+// A repo ranked for a trending list, before GraphQL enrichment
+export interface TrendCandidate {
+  full_name: string;
+  growthCount: number;      // Stars gained in the window
+  signals?: TrendSignals;
+}
@@ -0,0 +1,55 @@
+// GitHub keeps an independent rate-limit window for each of these resources
+export type RateLimitBucket = 'core' | 'search' | 'graphql';
+
+// Last known state of one rate-limit window, as reported by GitHub
+export interface RateLimitBudget {
+  limit: number | null;
+  remaining: number | null;     // null until the first response tells us
+  reset_at: string | null;      // ISO timestamp of the window reset
+  blocked_until: string | null; // Set while the client is backing off (rate-limited or secondary limit)
+  last_cost: number;            // GraphQL: points charged by the last query
+}
+
+// 'limited': at least one bucket is exhausted / backing off; 'revoked': GitHub rejected the credentials
+export type GitHubTokenHealth = 'healthy' | 'limited' | 'revoked';
+
+// Admin view of one pooled token. The token itself is never exposed, only a masked label.
+export interface GitHubTokenStatus {
+  label: string;
+  health: GitHubTokenHealth;
+  requests: number;
+  rate_limit_hits: number;
+  errors: number;
+  last_error: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  budgets: Record<RateLimitBucket, RateLimitBudget>;
+}
+
+// Shape of the `rateLimit { ... }` field GraphQL queries can ask for
+export interface GraphQLRateLimit {
+  limit?: number;
+  remaining: number;
+  resetAt: string;
+  cost: number;
+}
+
+// One entry of a GraphQL `errors` array; `path[0]` is the alias the error belongs to
+export interface GraphQLFieldError {
+  message: string;
+  type?: string;                  // e.g. 'NOT_FOUND', 'RATE_LIMITED'
+  path?: (string | number)[];
+}
+
+export interface GraphQLPartialResult<T> {
+  data: T;
+  errors: GraphQLFieldError[];
+}
+
+// githubClient.batchRepositoryQuery(): what the aliased query carries besides the repositories
+export interface RepositoryBatchOptions {
+  operationName?: string;
+  fragment?: string;                    // Fragment definitions the selection spreads
+  variables?: Record<string, unknown>;  // Shared variables the selection uses...
+  declarations?: string[];              // ...and their declarations, e.g. '$since: GitTimestamp!'
+}
@@ -0,0 +1,121 @@
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Every background task the API can trigger. Handlers live in services/jobs/jobHandlers.ts
+export type JobType =
+  | 'sync_quick'
+  | 'sync_comprehensive'
+  | 'sync_growing'
+  | 'sync_trending'
+  | 'sync_top_lists'
+  | 'gharchive_weekly'
+  | 'gharchive_monthly'
+  | 'gharchive_quarterly'
+  | 'gharchive_import'
+  | 'readme_missing'
+  | 'activity_missing'
+  | 'contributors_missing'
+  | 'commits_missing'
+  | 'issues_analytics'
+  | 'releases_missing'
+  | 'dependencies_missing'
+  | 'tech_stack_missing'
+  | 'repos_reconcile'
+  | 'worker_contributors'
+  | 'worker_commit_activity'
+  | 'worker_recent_commits'
+  | 'worker_run_all'
+  | 'worker_run_by_order'
+  | 'developers_scout'
+  | 'developer_fetch'
+  | 'developers_follow_graph'
+  | 'orgs_sync'
+  | 'org_fetch'
+  | 'metrics_growth'
+  | 'metrics_health'
+  | 'embed_repos';
+
+// Structured progress, persisted in jobs.progress and streamed over SSE
+export interface JobProgress {
+  processed: number;            // Items finished (successfully or not)
+  failed: number;               // Subset of 'processed' that errored
+  total: number | null;         // null while the worker doesn't know the size yet
+  remaining: number | null;
+  current_item: string | null;
+  eta_seconds: number | null;
+  updated_at: string;
+}
+
+export interface Job {
+  id: number;
+  type: JobType;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  result?: any;
+  error?: string | null;
+  progress: JobProgress | Record<string, never>;
+  cancel_requested: boolean;
+  run_after: string;
+  locked_by?: string | null;
+  heartbeat_at?: string | null;
+  created_at: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+}
+
+/**
+ * Handed to long-running service loops so they can report where they are
+ * and stop cooperatively between items when the job is cancelled.
+ */
+export interface JobReporter {
+  addTotal(count: number): void;
+  startItem(label: string): void;
+  completeItem(count?: number): void;
+  failItem(error?: string): void;
+  isCancelled(): boolean;
+}
+
+// What a handler receives when the runner executes its job
+export interface JobContext {
+  job: Job;
+  payload: Record<string, any>;
+  reporter: JobReporter;
+}
+
+export type JobHandler = (ctx: JobContext) => Promise<unknown>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  // Reuse an already queued/running job with the same type + payload (default: true)
+  dedupe?: boolean;
+}
+
+// One cron schedule of constants/schedules.ts
+export interface ScheduleDefinition {
+  name: string;
+  description: string;
+  jobType: JobType;
+  payload?: Record<string, any>;
+  cron: string;              // node-cron expression, evaluated in SCHEDULER_TIMEZONE
+  jitterSeconds: number;     // Random delay after each tick, so schedules and instances don't fire together
+}
+
+export type ScheduleOutcome = 'enqueued' | 'skipped_overlap' | 'failed';
+
+// GET /api/admin/schedules: definition + state from 'job_schedules' + the job it last enqueued
+export interface ScheduleStatus {
+  name: string;
+  description: string;
+  job_type: JobType;
+  payload: Record<string, any>;
+  cron: string;
+  jitter_seconds: number;
+  timezone: string;
+  paused: boolean;
+  next_run_at: string | null;      // null when the scheduler isn't running in this process
+  last_run_at: string | null;
+  last_outcome: ScheduleOutcome | null;
+  last_error: string | null;
+  last_job: { id: number; status: JobStatus; finished_at: string | null } | null;
+}
@@ -1,3 +1,6 @@
+import { TrendSignals, TrendWindow } from './ghArchiveModels.js';
+import { TechCategory } from '../constants/techStack.js';
+
 export interface Repository {
   id: number;
   github_id: number; // This is now the universal link
@@ -18,6 +21,13 @@ export interface Repository {
   topics?: string[];
   license_name?: string;
   license_key?: string;
+  has_contributing?: boolean;
+  code_of_conduct_key?: string | null;
+  has_security_policy?: boolean;
+  issue_templates_count?: number;
+  has_pr_template?: boolean;
+  has_ci?: boolean;
+  funding_links?: FundingLink[];
   created_at: string;
   updated_at: string;
   pushed_at?: string;
@@ -40,9 +50,15 @@ export interface Repository {
   categories: string[]; // <--- NEW
   sync_status: 'stub' | 'complete'; // <--- NEW
   readme_snippet?: string; // <--- NEW FIELD
-
+  tech_stack?: TechStackEntry[];
+  upstream_status?: UpstreamStatus;
+  upstream_checked_at?: string | null;
+  unavailable_since?: string | null;
 }
 
+// What GitHub answers for the repo's github_id (see repositoryReconciliationService)
+export type UpstreamStatus = 'active' | 'unavailable' | 'blocked';
+
 export interface RepositoryStats {
   id: number;
   repo_github_id: number; // FIXED: Was repository_id
@@ -52,16 +68,34 @@ export interface RepositoryStats {
   pull_requests_merged_last_month: number;
   stars_growth_30d: number;
   forks_growth_30d: number;
+  stars_acceleration_7d?: number | null;
+  stars_acceleration_30d?: number | null;
+  stars_acceleration_90d?: number | null;
+  growth_calculated_at?: string | null;
+  trend_score_7d?: number | null;
+  trend_score_30d?: number | null;
+  trend_score_90d?: number | null;
+  trend_signals?: Partial<Record<TrendWindow, TrendSignals>>;
+  trend_calculated_at?: string | null;
   contributors_count: number;
   activity_score: number;
   health_score: number;
+  health_score_version?: number | null;
+  health_breakdown?: HealthBreakdown | null;
+  health_calculated_at?: string | null;
   avg_issue_close_time_days?: number;
   avg_pr_merge_time_days?: number;
+  first_response_time_hours?: number | null;
+  open_pull_requests_count?: number | null;
+  open_pr_backlog_age_days?: number | null;
+  external_pr_merge_ratio?: number | null;
+  issues_calculated_at?: string | null;
   days_since_last_commit?: number;
   days_since_last_release?: number;
   latest_release_tag?: string;
   latest_release_date?: string;
   total_releases: number;
+  release_cadence_days?: number | null;
   contributors_data_type: 'all_time' | 'recent'; // ADDED: To match DB
   calculated_at: string;
 }
@@ -88,6 +122,68 @@ export interface RepositoryContributor {
   fetched_at: string;
 }
 
+// One day of star history (written on every sync)
+export interface RepositorySnapshot {
+  id: number;
+  repo_github_id: number;
+  snapshot_date: string;
+  stars_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  watchers_count: number;
+  captured_at: string;
+}
+
+export type ReadmeFormat = 'markdown' | 'rst' | 'asciidoc' | 'plain';
+
+// Status badge found at the top of a README (CI, coverage, version...)
+export interface ReadmeBadge {
+  alt: string;
+  image_url: string;
+  link_url: string | null;
+}
+
+// Well-known README sections, as raw source text of the section body (null when absent)
+export interface ReadmeSections {
+  title: string | null;
+  headings: string[];
+  install: string | null;
+  usage: string | null;
+  license: string | null;
+}
+
+// Full README as found by GitHub's canonical lookup (repos without one only have a fetch state)
+export interface RepositoryReadme {
+  repo_github_id: number;
+  path: string;
+  file_name: string;
+  format: ReadmeFormat;
+  sha: string | null;
+  size_bytes: number | null;
+  content: string | null;
+  html: string | null;
+  sections: ReadmeSections | null;
+  badges: ReadmeBadge[];
+  fetched_at: string;
+}
+
+// Enrichment facets fetched per repo by the workers, each tracked in repository_fetch_state
+// ('commit_stats': the deep-mode commits fetch, with additions/deletions)
+export type FetchFacet = 'readme' | 'contributors' | 'commit_activity' | 'commits' | 'commit_stats' | 'languages' | 'issues' | 'releases' | 'dependencies' | 'tech_stack';
+// not_found: GitHub has nothing to give (no README, empty repo); rechecked after a fixed delay
+export type FetchStatus = 'pending' | 'success' | 'not_found' | 'failed';
+
+export interface RepositoryFetchState {
+  repo_github_id: number;
+  facet: FetchFacet;
+  status: FetchStatus;
+  attempts: number;              // Consecutive failures, reset on success
+  last_error: string | null;
+  last_attempt_at: string | null;
+  last_success_at: string | null;
+  next_retry_at: string | null;
+}
+
 // ADDED: Missing model for Commit Activity
 export interface RepositoryCommitActivity {
   id: number;
@@ -148,7 +244,7 @@ export interface GitHubRepo {
   repositoryTopics: {
     nodes: Array<{ topic: { name: string } }>;
   };
-  languages: {
+  languages?: {              // Absent on probe results (RepositoryProbeFields)
     edges: Array<{
       size: number;
       node: { name: string };
@@ -176,7 +272,7 @@ export interface GitHubRepo {
   hasDiscussionsEnabled: boolean;
   defaultBranchRef?: {
     name: string;
-    target: {
+    target?: {                // Absent on probe results
       history: {
         totalCount: number;
       };
@@ -189,4 +285,230 @@ export interface GitHubRepo {
       publishedAt: string;
     }>;
   };
-}
\ No newline at end of file
+  readme?: { text?: string } | null;
+  contributingGuidelines?: { url: string } | null;
+  codeOfConduct?: { key: string; name: string } | null;
+  isSecurityPolicyEnabled?: boolean | null;
+  issueTemplates?: Array<{ name: string }> | null;
+  pullRequestTemplates?: Array<{ filename: string | null }> | null;
+  fundingLinks?: FundingLink[];
+  // Plus one alias per CI_CONFIG_FILES entry (ciGithubActions, ciGitlab...): { oid } or null
+}
+
+// FUNDING.yml entry as GitHub returns it
+export interface FundingLink {
+  platform: string;   // GITHUB, PATREON, OPEN_COLLECTIVE, KO_FI, CUSTOM...
+  url: string;
+}
+
+export interface RepositorySearchPage {
+  repos: GitHubRepo[];
+  totalCount: number;       // Matches for the whole query (GitHub only pages through the first 1000)
+  nextCursor: string | null;
+  hasNext: boolean;
+}
+
+// One slice of the top-repos crawl frontier ('search_crawl_slices')
+export interface SearchCrawlSlice {
+  id: number;
+  crawl_name: string;
+  stars_min: number;
+  stars_max: number | null;
+  created_from: string | null; // YYYY-MM-DD
+  created_to: string | null;
+  status: 'pending' | 'done' | 'split';
+  result_count: number | null;
+  fetched_count: number;
+  cursor: string | null;
+}
+
+// Column values written to 'repositories' by the ingestion module (one row per GitHubRepo)
+export interface RepositoryRow {
+  github_id: number;
+  name: string;
+  full_name: string;
+  owner_login: string;
+  owner_avatar_url: string | null;
+  owner_type: string | null;
+  description: string | null;
+  html_url: string;
+  homepage_url: string | null;
+  stars_count: number;
+  forks_count: number;
+  watchers_count: number;
+  open_issues_count: number;
+  size_kb: number;
+  language: string | null;
+  topics: string[];
+  license_name: string | null;
+  license_key: string | null;
+  readme_snippet: string;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string | null;
+  is_fork: boolean;
+  is_archived: boolean;
+  is_disabled: boolean;
+  allow_forking: boolean;
+  is_template: boolean;
+  visibility: string;
+  has_issues: boolean;
+  has_projects: boolean;
+  has_downloads: boolean;
+  has_wiki: boolean;
+  has_pages: boolean;
+  has_discussions: boolean;
+  default_branch: string;
+  subscribers_count: number;
+  network_count: number;
+  has_contributing: boolean;
+  code_of_conduct_key: string | null;
+  has_security_policy: boolean;
+  issue_templates_count: number;
+  has_pr_template: boolean;
+  has_ci: boolean;
+  funding_links: FundingLink[];
+}
+
+// One row of 'repository_commits' as written by the commits workers (stats are 0 when the
+// source doesn't carry them: the REST list endpoint)
+export interface RepositoryCommitRow {
+  sha: string;
+  commit_message: string;
+  author_name: string;
+  author_email: string;
+  author_login: string | null;
+  author_avatar_url: string | null;
+  committer_name: string;
+  committer_date: string;
+  additions: number;
+  deletions: number;
+  total_changes: number;
+  files_changed: number;
+  html_url: string;
+}
+
+// One row of 'repository_issues' (first_response_at: first non-author, non-bot comment)
+export interface RepositoryIssueRow {
+  number: number;
+  title: string;
+  state: 'OPEN' | 'CLOSED';
+  author_login: string | null;
+  author_association: string;
+  comments_count: number;
+  created_at: string;
+  closed_at: string | null;
+  first_response_at: string | null;
+}
+
+// One row of 'repository_pull_requests' (reviews count as a response too)
+export interface RepositoryPullRequestRow {
+  number: number;
+  title: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  is_draft: boolean;
+  author_login: string | null;
+  author_association: string;
+  additions: number;
+  deletions: number;
+  created_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  first_response_at: string | null;
+}
+
+// One row of 'repository_releases' (published releases only)
+export interface RepositoryReleaseRow {
+  tag_name: string;
+  name: string | null;
+  published_at: string | null;
+  created_at: string;
+  is_prerelease: boolean;
+  is_latest: boolean;
+  author_login: string | null;
+  body: string | null;
+  html_url: string;
+}
+
+// Package registries the manifest parser understands
+export type DependencyEcosystem = 'npm' | 'cargo' | 'go' | 'pypi' | 'maven';
+// indirect: go.mod '// indirect' requirements
+export type DependencyType = 'runtime' | 'dev' | 'build' | 'peer' | 'optional' | 'indirect';
+
+// One declared dependency of a manifest. package_name is normalized (see normalizePackageName)
+export interface ManifestDependency {
+  package_name: string;
+  version_spec: string | null;
+  dependency_type: DependencyType;
+}
+
+// What a manifest file says: the package the repo publishes (if any) and what it depends on
+export interface ParsedManifest {
+  manifest_path: string;
+  ecosystem: DependencyEcosystem;
+  package_name: string | null;
+  dependencies: ManifestDependency[];
+}
+
+// One detected framework / tool of repositories.tech_stack (rules in constants/techStack.ts)
+export interface TechStackEntry {
+  id: string;
+  label: string;
+  category: TechCategory;
+  evidence: string; // What matched: a file or directory name, '.github/workflows', or 'npm:next'
+}
+
+// Metadata-derived columns of 'repository_stats' (the workers own the rest)
+export interface RepositoryStatsRow {
+  repo_github_id: number;
+  commits_last_year: number | null; // null when the commit history wasn't fetched (probe): keep the stored value
+  days_since_last_commit: number | null;
+  days_since_last_release: number | null;
+  latest_release_tag: string | null;
+  latest_release_date: string | null;
+  total_releases: number;
+  activity_score: number;
+}
+
+export type StarsGrowthColumn = 'stars_growth_7d' | 'stars_growth_30d' | 'stars_growth_90d';
+export type HealthFactorGroup = 'activity' | 'community' | 'responsiveness';
+
+// What the health model reads: repositories columns + the responsiveness metrics of repository_stats
+// (DECIMAL columns arrive from pg as strings)
+export interface HealthInputs {
+  pushed_at: string | Date | null;
+  latest_release_date: string | Date | null;
+  is_archived: boolean;
+  is_disabled: boolean;
+  license_key: string | null;
+  has_contributing: boolean | null;
+  code_of_conduct_key: string | null;
+  has_security_policy: boolean | null;
+  issue_templates_count: number | null;
+  has_pr_template: boolean | null;
+  has_ci: boolean | null;
+  funding_links: FundingLink[] | null;
+  first_response_time_hours: number | string | null;
+  avg_issue_close_time_days: number | string | null;
+  open_pull_requests_count: number | null;
+  open_pr_backlog_age_days: number | string | null;
+  external_pr_merge_ratio: number | string | null;
+}
+
+// One line of repository_stats.health_breakdown
+export interface HealthFactor {
+  id: string;
+  label: string;
+  group: HealthFactorGroup;
+  weight: number;            // Points the factor is worth
+  points: number | null;     // null when it couldn't be measured (left out of the score)
+  value: string | number | boolean | null; // The input behind the points
+}
+
+export interface HealthBreakdown {
+  version: number;
+  score: number;             // 0-100: points earned / weight of the measured factors
+  measured_weight: number;
+  factors: HealthFactor[];
+  note: string | null;       // e.g. why an archived repo scores 0
+}
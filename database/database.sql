@@ -3,13 +3,34 @@
 -- =============================================================================
 
 -- 1. CLEANUP (Drop tables in correct dependency order)
+DROP TABLE IF EXISTS job_schedules CASCADE;
+DROP TABLE IF EXISTS jobs CASCADE;
+DROP TABLE IF EXISTS gharchive_daily_events CASCADE;
+DROP TABLE IF EXISTS gharchive_daily_actors CASCADE;
+DROP TABLE IF EXISTS gharchive_imported_files CASCADE;
+DROP TABLE IF EXISTS search_crawl_slices CASCADE;
+DROP TABLE IF EXISTS search_crawls CASCADE;
+DROP TABLE IF EXISTS organization_snapshots CASCADE;
+DROP TABLE IF EXISTS organization_lookup_misses CASCADE;
+DROP TABLE IF EXISTS organizations CASCADE;
 DROP TABLE IF EXISTS developer_top_repos CASCADE;
+DROP TABLE IF EXISTS developer_follows CASCADE;
+DROP TABLE IF EXISTS developer_contribution_days CASCADE;
 DROP TABLE IF EXISTS developers CASCADE;
 DROP TABLE IF EXISTS repository_languages CASCADE;
 DROP TABLE IF EXISTS repository_stats CASCADE;
 DROP TABLE IF EXISTS repository_contributors CASCADE;
 DROP TABLE IF EXISTS repository_commit_activity CASCADE;
 DROP TABLE IF EXISTS repository_commits CASCADE;
+DROP TABLE IF EXISTS repository_snapshots CASCADE;
+DROP TABLE IF EXISTS repository_readmes CASCADE;
+DROP TABLE IF EXISTS repository_fetch_state CASCADE;
+DROP TABLE IF EXISTS repository_issues CASCADE;
+DROP TABLE IF EXISTS repository_pull_requests CASCADE;
+DROP TABLE IF EXISTS repository_releases CASCADE;
+DROP TABLE IF EXISTS repository_packages CASCADE;
+DROP TABLE IF EXISTS repository_dependencies CASCADE;
+DROP TABLE IF EXISTS repository_aliases CASCADE;
 DROP TABLE IF EXISTS repositories CASCADE;
 DROP TABLE IF EXISTS tops CASCADE;         -- Cleanup old legacy table
 DROP TABLE IF EXISTS growings CASCADE;     -- Cleanup old legacy table
@@ -29,6 +50,7 @@ CREATE TABLE repositories (
   name VARCHAR(255) NOT NULL,
   owner_login VARCHAR(255),
   owner_avatar_url TEXT,
+  owner_type VARCHAR(20),           -- 'User' | 'Organization'
   description TEXT,
   html_url TEXT,
   homepage_url TEXT,
@@ -44,8 +66,22 @@ CREATE TABLE repositories (
   language VARCHAR(100),
   topics TEXT[],
   license_name VARCHAR(255),
+  license_key VARCHAR(100),         -- SPDX-like key ('mit', 'apache-2.0'); 'other' when GitHub can't tell
   readme_snippet TEXT,
 
+  -- Community health files (an org-wide default from the owner's .github repo counts)
+  has_contributing BOOLEAN DEFAULT FALSE,
+  code_of_conduct_key VARCHAR(100),
+  has_security_policy BOOLEAN DEFAULT FALSE,
+  issue_templates_count INTEGER DEFAULT 0,
+  has_pr_template BOOLEAN DEFAULT FALSE,
+  has_ci BOOLEAN DEFAULT FALSE,     -- A CI config at the root of the default branch
+  funding_links JSONB DEFAULT '[]', -- [{ "platform": "GITHUB", "url": "https://github.com/sponsors/..." }]
+
+  -- Frameworks / tooling found in the file tree and root manifests (tech-stack worker)
+  -- [{ "id": "nextjs", "label": "Next.js", "category": "framework", "evidence": "next.config.js" }, ...]
+  tech_stack JSONB DEFAULT '[]',
+
   
   -- Timestamps
   created_at TIMESTAMPTZ,
@@ -75,6 +111,12 @@ CREATE TABLE repositories (
   last_fetched TIMESTAMPTZ DEFAULT NOW(),
   last_synced_at TIMESTAMPTZ DEFAULT NOW(),
   sync_status VARCHAR(50) DEFAULT 'complete', -- 'stub' or 'complete'
+
+  -- Reconciliation by github_id (renames / transfers / deletions upstream)
+  -- 'active' | 'unavailable' (deleted or made private: GitHub answers 404 to both) | 'blocked' (HTTP 451)
+  upstream_status VARCHAR(20) DEFAULT 'active',
+  upstream_checked_at TIMESTAMPTZ,
+  unavailable_since TIMESTAMPTZ,
   
   -- Category Tags (The unified replacement for multiple tables)
   -- Examples: {'top'}, {'growing', 'trending'}, {'stub'}
@@ -83,9 +125,13 @@ CREATE TABLE repositories (
 
 -- Indexes for fast filtering
 CREATE INDEX idx_repos_fullname ON repositories(full_name);
+CREATE INDEX idx_repos_fullname_lower ON repositories(LOWER(full_name)); -- Go module paths -> repos
 CREATE INDEX idx_repos_stars ON repositories(stars_count DESC);
+CREATE INDEX idx_repos_owner_lower ON repositories(LOWER(owner_login));
 CREATE INDEX idx_repos_categories ON repositories USING GIN (categories);
+CREATE INDEX idx_repos_tech_stack ON repositories USING GIN (tech_stack jsonb_path_ops);
 CREATE INDEX idx_repos_sync_status ON repositories(sync_status);
+CREATE INDEX idx_repos_upstream_checked ON repositories(upstream_checked_at NULLS FIRST);
 CREATE INDEX IF NOT EXISTS idx_repos_readme_search ON repositories USING GIN (to_tsvector('english', readme_snippet));
 
 -- =============================================================================
@@ -106,13 +152,36 @@ CREATE TABLE repository_stats (
   stars_growth_7d INTEGER DEFAULT 0,
   stars_growth_90d INTEGER DEFAULT 0,
   forks_growth_30d INTEGER DEFAULT 0,
+
+  -- Change in growth vs. the previous window of the same length (from repository_snapshots)
+  stars_acceleration_7d INTEGER,
+  stars_acceleration_30d INTEGER,
+  stars_acceleration_90d INTEGER,
+  growth_calculated_at TIMESTAMPTZ,
+
+  -- Composite GH Archive trend score per window + the per-signal breakdown behind it
+  -- trend_signals: {"7d": {stars, stars_damped, forks, issues, pull_requests, actors, ...}, "30d": {...}}
+  trend_score_7d NUMERIC(10, 2),
+  trend_score_30d NUMERIC(10, 2),
+  trend_score_90d NUMERIC(10, 2),
+  trend_signals JSONB DEFAULT '{}',
+  trend_calculated_at TIMESTAMPTZ,
   contributors_count INTEGER DEFAULT 0,
   
   activity_score DECIMAL(10, 2) DEFAULT 0,
   health_score DECIMAL(5, 2) DEFAULT 0,
+  health_score_version SMALLINT,    -- HEALTH_SCORE_VERSION of the model that computed health_score
+  health_breakdown JSONB,           -- Per-factor points, see services/metrics/healthScore.ts
+  health_calculated_at TIMESTAMPTZ,
   
+  -- Issue / PR analytics (from repository_issues and repository_pull_requests, see 7e)
   avg_issue_close_time_days DECIMAL(10, 2),
   avg_pr_merge_time_days DECIMAL(10, 2),
+  first_response_time_hours DECIMAL(10, 2), -- Median, issues and PRs opened in the window
+  open_pull_requests_count INTEGER,
+  open_pr_backlog_age_days DECIMAL(10, 2),  -- Median age of the open, non-draft PRs
+  external_pr_merge_ratio DECIMAL(5, 4),    -- Merged / closed PRs authored outside the project
+  issues_calculated_at TIMESTAMPTZ,
   
   days_since_last_commit INTEGER,
   days_since_last_release INTEGER,
@@ -120,14 +189,10 @@ CREATE TABLE repository_stats (
   latest_release_tag VARCHAR(255),
   latest_release_date TIMESTAMPTZ,
   total_releases INTEGER DEFAULT 0,
+  release_cadence_days DECIMAL(10, 2),      -- Median days between stable releases (see 7f)
   
   contributors_data_type VARCHAR(50) DEFAULT 'all_time',
   
-  -- NEW: Tracking Flags for Granular Updates
-  commit_activity_fetched BOOLEAN DEFAULT FALSE,
-  recent_commits_fetched BOOLEAN DEFAULT FALSE,
-  contributors_fetched BOOLEAN DEFAULT FALSE,
-  
   calculated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
@@ -195,7 +260,151 @@ CREATE TABLE repository_commits (
   UNIQUE(repo_github_id, sha)
 );
 
+-- 7b. DAILY SNAPSHOTS (Star history)
+-- One row per repo per day, written on every sync (last write of the day wins).
+-- Growth / acceleration in repository_stats are derived from this table.
+CREATE TABLE repository_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  repo_github_id BIGINT NOT NULL,
+  snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  stars_count INTEGER DEFAULT 0,
+  forks_count INTEGER DEFAULT 0,
+  open_issues_count INTEGER DEFAULT 0,
+  watchers_count INTEGER DEFAULT 0,
+  captured_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(repo_github_id, snapshot_date)
+);
+
+-- 7c. FULL README
+-- Whatever GitHub's canonical README lookup returns (any case/extension, docs/, .github/).
+-- Repos without one only have a 'readme' row in repository_fetch_state. repositories.readme_snippet
+-- stays the first 10,000 characters, for search and embeddings.
+CREATE TABLE repository_readmes (
+  repo_github_id BIGINT PRIMARY KEY,
+  path VARCHAR(500) NOT NULL,       -- e.g. 'README.md', 'docs/README.rst'
+  file_name VARCHAR(255),
+  format VARCHAR(20),               -- markdown | rst | asciidoc | plain
+  sha VARCHAR(40),
+  size_bytes INTEGER,
+  content TEXT,
+  html TEXT,                        -- Rendered by GitHub (markdown, rst, asciidoc only)
+  sections JSONB,                   -- { title, headings, install, usage, license }
+  badges JSONB DEFAULT '[]',        -- [{ alt, image_url, link_url }]
+  fetched_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 7d. FETCH STATE (One row per repo per enrichment facet)
+-- facet: readme | contributors | commit_activity | commits | commit_stats | languages | issues | releases | dependencies | tech_stack
+-- status: pending | success | not_found | failed. Failures back off exponentially (next_retry_at),
+-- not_found (no README, empty repo...) is rechecked after a fixed delay.
+CREATE TABLE repository_fetch_state (
+  repo_github_id BIGINT NOT NULL,
+  facet VARCHAR(30) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER DEFAULT 0,       -- Consecutive failures
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  next_retry_at TIMESTAMPTZ,
+  PRIMARY KEY (repo_github_id, facet)
+);
+
+-- 7e. RECENT ISSUES & PULL REQUESTS
+-- The most recently updated ones, upserted by the issues worker on every refresh.
+-- first_response_at: first comment (or review, for PRs) by someone else than the author, bots excluded.
+-- author_association: OWNER | MEMBER | COLLABORATOR | CONTRIBUTOR | FIRST_TIME_CONTRIBUTOR | NONE ...
+CREATE TABLE repository_issues (
+  repo_github_id BIGINT NOT NULL,
+  number INTEGER NOT NULL,
+  title TEXT,
+  state VARCHAR(20) NOT NULL,       -- OPEN | CLOSED
+  author_login VARCHAR(255),
+  author_association VARCHAR(50),
+  comments_count INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  closed_at TIMESTAMPTZ,
+  first_response_at TIMESTAMPTZ,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (repo_github_id, number)
+);
+
+CREATE TABLE repository_pull_requests (
+  repo_github_id BIGINT NOT NULL,
+  number INTEGER NOT NULL,
+  title TEXT,
+  state VARCHAR(20) NOT NULL,       -- OPEN | CLOSED | MERGED
+  is_draft BOOLEAN DEFAULT FALSE,
+  author_login VARCHAR(255),
+  author_association VARCHAR(50),
+  additions INTEGER DEFAULT 0,
+  deletions INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  closed_at TIMESTAMPTZ,
+  merged_at TIMESTAMPTZ,
+  first_response_at TIMESTAMPTZ,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (repo_github_id, number)
+);
+
+-- 7f. RELEASE HISTORY
+-- Every published release (drafts aren't visible), replaced on each fetch. repository_stats keeps
+-- the latest tag / date from the metadata sync; a newer latest_release_date makes the repo due again.
+CREATE TABLE repository_releases (
+  repo_github_id BIGINT NOT NULL,
+  tag_name VARCHAR(255) NOT NULL,
+  name TEXT,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  is_prerelease BOOLEAN DEFAULT FALSE,
+  is_latest BOOLEAN DEFAULT FALSE,
+  author_login VARCHAR(255),
+  body TEXT,                        -- Release notes (markdown)
+  html_url TEXT,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (repo_github_id, tag_name)
+);
+
+-- 7g. DEPENDENCY GRAPH (From the root manifests: package.json, Cargo.toml, go.mod, pyproject.toml,
+-- requirements.txt, pom.xml). Names are normalized per registry (PyPI per PEP 503, Maven 'group:artifact').
+-- A dependency links to the indexed repo publishing that package (non-forks first, then most starred);
+-- Go modules hosted on GitHub also link straight through their path. Replaced on every fetch.
+CREATE TABLE repository_packages (
+  repo_github_id BIGINT NOT NULL,
+  ecosystem VARCHAR(20) NOT NULL,   -- npm | cargo | go | pypi | maven
+  package_name VARCHAR(500) NOT NULL,
+  manifest_path VARCHAR(100) NOT NULL,
+  PRIMARY KEY (repo_github_id, ecosystem, package_name)
+);
+
+CREATE TABLE repository_dependencies (
+  repo_github_id BIGINT NOT NULL,
+  manifest_path VARCHAR(100) NOT NULL,
+  ecosystem VARCHAR(20) NOT NULL,
+  package_name VARCHAR(500) NOT NULL,
+  version_spec VARCHAR(100),
+  dependency_type VARCHAR(20) NOT NULL, -- runtime | dev | build | peer | optional | indirect
+  PRIMARY KEY (repo_github_id, manifest_path, package_name, dependency_type)
+);
+
+-- 7h. NAME HISTORY (Former 'owner/name' of renamed / transferred repos, so old URLs still resolve)
+-- Written whenever a repo shows up under a new name for the same github_id. A repo renamed back
+-- drops the alias; an indexed repo now holding the name wins over the alias on lookups.
+CREATE TABLE repository_aliases (
+  full_name VARCHAR(500) PRIMARY KEY,
+  repo_github_id BIGINT NOT NULL,
+  renamed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Indexes for sub-tables
+CREATE INDEX idx_aliases_repo ON repository_aliases(repo_github_id);
+CREATE INDEX idx_aliases_fullname_lower ON repository_aliases(LOWER(full_name));
+CREATE INDEX idx_packages_name ON repository_packages(ecosystem, package_name);
+CREATE INDEX idx_dependencies_name ON repository_dependencies(ecosystem, package_name);
+CREATE INDEX idx_releases_repo_published ON repository_releases(repo_github_id, published_at DESC);
+CREATE INDEX idx_issues_repo_created ON repository_issues(repo_github_id, created_at DESC);
+CREATE INDEX idx_prs_repo_created ON repository_pull_requests(repo_github_id, created_at DESC);
+CREATE INDEX idx_fetch_state_queue ON repository_fetch_state(facet, status, next_retry_at);
+CREATE INDEX idx_snapshots_repo_date ON repository_snapshots(repo_github_id, snapshot_date DESC);
 CREATE INDEX idx_stats_repo_gid ON repository_stats(repo_github_id);
 CREATE INDEX idx_contrib_repo_gid ON repository_contributors(repo_github_id);
 CREATE INDEX idx_activity_repo_gid ON repository_commit_activity(repo_github_id);
@@ -253,12 +462,27 @@ CREATE TABLE developers (
   is_badge_holder BOOLEAN DEFAULT FALSE,
   is_rising_star BOOLEAN DEFAULT FALSE,
   
-  -- Behavioral Stats
-  consistency_streak INTEGER DEFAULT 0,
-  work_schedule VARCHAR(50),
+  -- Behavioral Stats (from the contribution calendar, see services/metrics/contributionMetrics.ts)
+  consistency_streak INTEGER DEFAULT 0,  -- Current run of days with a contribution
+  longest_streak INTEGER DEFAULT 0,      -- Longest run over the last year
+  work_schedule VARCHAR(50),             -- 'night_owl' | 'early_bird' | 'nine_to_five' | 'evening_coder' | 'weekend_warrior' | 'around_the_clock'
   good_citizen_score INTEGER DEFAULT 0,
-  velocity_score DECIMAL(10, 2) DEFAULT 0,
-  momentum_score DECIMAL(10, 2) DEFAULT 0,
+  velocity_score DECIMAL(10, 2) DEFAULT 0,  -- Contributions per week, last 12 weeks
+  star_velocity DECIMAL(10, 2) DEFAULT 0,   -- Stars earned per month on GitHub (Rising Star rule)
+  momentum_score DECIMAL(10, 2) DEFAULT 0,  -- Last 12 weeks' pace over the 40 weeks before (1 = steady)
+
+  -- Contribution totals by type, by repository and by year
+  contribution_summary JSONB DEFAULT '{}',
+  -- { "weekdays": [7 counts, Sunday first], "hours": [24 counts], "hours_sample": 180 }
+  activity_schedule JSONB DEFAULT '{}',
+  contributions_fetched_at TIMESTAMPTZ,
+
+  -- Follower graph among indexed developers (opt-in crawler, see developer_follows)
+  influence_score DECIMAL(12, 4),       -- PageRank relative to the average developer (1 = average)
+  influence_rank INTEGER,               -- 1 = most influential
+  network_cluster BIGINT,               -- Community label (a member's github_id); NULL when isolated
+  follows_crawled_at TIMESTAMPTZ,
+  network_calculated_at TIMESTAMPTZ,
   
   -- Context
   company VARCHAR(255),
@@ -285,16 +509,94 @@ CREATE TABLE developer_top_repos (
   UNIQUE(developer_id, name)
 );
 
+-- 9a. DEVELOPER FOLLOW GRAPH
+-- Sampled "follower follows followed" edges where both ends are indexed developers.
+-- Rebuilt per follower by services/followGraphWorkerService.ts.
+CREATE TABLE developer_follows (
+  follower_github_id BIGINT NOT NULL,
+  followed_github_id BIGINT NOT NULL,
+  discovered_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (follower_github_id, followed_github_id)
+);
+
+CREATE INDEX idx_follows_followed ON developer_follows(followed_github_id);
+
+-- 9a-2. DEVELOPER CONTRIBUTION CALENDAR (last year, one row per day, replaced on every fetch)
+CREATE TABLE developer_contribution_days (
+  developer_github_id BIGINT NOT NULL,
+  contribution_date DATE NOT NULL,
+  contribution_count INTEGER DEFAULT 0,
+  PRIMARY KEY (developer_github_id, contribution_date)
+);
+
 -- Indexes for Developers
 CREATE INDEX idx_devs_impact ON developers(total_stars_earned DESC);
 CREATE INDEX idx_devs_followers ON developers(followers_count DESC);
 CREATE INDEX idx_devs_personas ON developers USING gin (personas);
 CREATE INDEX idx_devs_is_org ON developers(is_organization);
+CREATE INDEX idx_devs_influence ON developers(influence_rank) WHERE influence_rank IS NOT NULL;
+CREATE INDEX idx_devs_cluster ON developers(network_cluster) WHERE network_cluster IS NOT NULL;
 
 -- JSONB Indexes for High-Performance Querying on JSON columns
 CREATE INDEX idx_devs_current_work ON developers USING gin (current_work);
 CREATE INDEX idx_devs_primary_work ON developers USING gin (primary_work);
 
+-- 9b. ORGANIZATIONS
+-- Aggregates are computed over the org's public, non-fork repositories (the most starred
+-- ones, up to the cap in services/organizationWorkerService.ts), indexed by us or not.
+CREATE TABLE organizations (
+  id SERIAL PRIMARY KEY,
+  github_id BIGINT UNIQUE NOT NULL,
+  login VARCHAR(255) UNIQUE NOT NULL,
+  name VARCHAR(255),
+  description TEXT,
+  avatar_url TEXT,
+  blog_url TEXT,
+  location VARCHAR(255),
+  email VARCHAR(255),
+  twitter_username VARCHAR(255),
+  is_verified BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ,
+
+  -- Counts
+  members_count INTEGER DEFAULT 0,       -- Members visible to our token (public members)
+  public_repos_count INTEGER DEFAULT 0,  -- Forks included
+  repos_analyzed INTEGER DEFAULT 0,      -- Repos the aggregates below were computed over
+
+  -- Aggregates
+  total_stars INTEGER DEFAULT 0,
+  total_forks INTEGER DEFAULT 0,
+  -- [{ "language": "Go", "repos": 12, "stars": 48000, "share": 0.41 }, ...] (share of repos)
+  language_mix JSONB DEFAULT '[]',
+  -- [{ "full_name": "org/repo", "name": "repo", "description": "...", "stars": 1, "forks": 1, "language": "Go", "pushed_at": "..." }]
+  top_repos JSONB DEFAULT '[]',
+  -- { "repos_pushed_30d": 4, "repos_pushed_90d": 9, "repos_created_365d": 2, "last_pushed_at": "..." }
+  activity JSONB DEFAULT '{}',
+
+  last_fetched TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 9c. ORGANIZATION SNAPSHOTS (one row per org per refresh, at most one a day, for trends)
+CREATE TABLE organization_snapshots (
+  org_github_id BIGINT NOT NULL,
+  snapshot_date DATE NOT NULL,
+  total_stars INTEGER DEFAULT 0,
+  total_forks INTEGER DEFAULT 0,
+  public_repos_count INTEGER DEFAULT 0,
+  members_count INTEGER DEFAULT 0,
+  PRIMARY KEY (org_github_id, snapshot_date)
+);
+
+-- 9d. ORGANIZATION LOOKUP MISSES (candidate logins GitHub had no organization for: renamed, gone
+-- or a user; skipped by the sync until checked_at is older than its refresh period)
+CREATE TABLE organization_lookup_misses (
+  login VARCHAR(255) PRIMARY KEY,   -- Lowercased
+  checked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_orgs_stars ON organizations(total_stars DESC);
+CREATE INDEX idx_orgs_last_fetched ON organizations(last_fetched);
+
 -- =============================================================================
 -- MIGRATION: 4 Boolean Attributes
 -- =============================================================================
@@ -323,4 +625,136 @@ ALTER TABLE repositories ADD COLUMN IF NOT EXISTS embedding vector(1536);
 
 -- 3. Create the HNSW Index
 -- This makes searching 60k rows lightning fast.
-CREATE INDEX ON repositories USING hnsw (embedding vector_cosine_ops);
\ No newline at end of file
+CREATE INDEX ON repositories USING hnsw (embedding vector_cosine_ops);
+
+
+-- =============================================================================
+-- MODULE 4: BACKGROUND JOBS (Persistent Queue)
+-- =============================================================================
+
+-- 10. JOBS
+-- Every sync/worker trigger enqueues a row here; the runner in
+-- services/jobs/jobQueueService.ts claims rows with SKIP LOCKED.
+CREATE TABLE jobs (
+  id BIGSERIAL PRIMARY KEY,
+  type VARCHAR(100) NOT NULL,
+  payload JSONB DEFAULT '{}',
+
+  -- 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+
+  result JSONB,
+  error TEXT,
+
+  -- Live progress {processed, failed, total, remaining, current_item, eta_seconds}
+  progress JSONB DEFAULT '{}',
+  -- Set by POST /api/jobs/:id/cancel, checked by workers between items
+  cancel_requested BOOLEAN DEFAULT FALSE,
+
+  -- Runner bookkeeping (used to detect jobs orphaned by a crash)
+  run_after TIMESTAMPTZ DEFAULT NOW(),
+  locked_by VARCHAR(255),
+  heartbeat_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_jobs_queue ON jobs(status, run_after, created_at);
+CREATE INDEX idx_jobs_type ON jobs(type, status);
+
+-- 10b. JOB SCHEDULES (State of the cron schedules of constants/schedules.ts)
+-- Definitions live in code and are synced here on startup; pausing is stored here so it
+-- survives restarts and applies to every backend instance.
+CREATE TABLE job_schedules (
+  name VARCHAR(100) PRIMARY KEY,
+  job_type VARCHAR(100) NOT NULL,
+  payload JSONB DEFAULT '{}',
+  cron VARCHAR(100) NOT NULL,
+  jitter_seconds INTEGER DEFAULT 0,
+  paused BOOLEAN DEFAULT FALSE,
+
+  last_tick_at TIMESTAMPTZ,              -- Cron slot last handled (instances skip a slot already taken)
+  last_run_at TIMESTAMPTZ,               -- Last time a job was enqueued
+  last_job_id BIGINT,
+  last_outcome VARCHAR(20),              -- 'enqueued' | 'skipped_overlap' | 'failed'
+  last_error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================================================
+-- MODULE 5: GH ARCHIVE (Local hourly dumps, alternative to BigQuery)
+-- =============================================================================
+
+-- 11. DAILY EVENT COUNTS (per repo per UTC day)
+-- Keyed by GH Archive's repo.id (= repositories.github_id) so renames don't split the history.
+CREATE TABLE gharchive_daily_events (
+  repo_github_id BIGINT NOT NULL,
+  repo_name VARCHAR(500) NOT NULL,       -- Last name seen in the archive
+  event_date DATE NOT NULL,
+  watch_count INTEGER DEFAULT 0,         -- WatchEvent (= new stars)
+  fork_count INTEGER DEFAULT 0,
+  push_count INTEGER DEFAULT 0,
+  pull_request_count INTEGER DEFAULT 0,
+  issues_count INTEGER DEFAULT 0,
+  PRIMARY KEY (repo_github_id, event_date)
+);
+
+CREATE INDEX idx_gharchive_events_date ON gharchive_daily_events(event_date);
+
+-- 11b. DAILY ACTORS (who did what, once per repo/day/event type)
+-- Lets trend signals count distinct people instead of raw events (per-day dedup). Pushes aren't
+-- kept (push_count only), and rows older than the longest trend window (90 days) are pruned on import.
+CREATE TABLE gharchive_daily_actors (
+  repo_github_id BIGINT NOT NULL,
+  event_date DATE NOT NULL,
+  event_type VARCHAR(40) NOT NULL,       -- 'WatchEvent' | 'ForkEvent' | 'IssuesEvent' | 'PullRequestEvent'
+  actor_id BIGINT NOT NULL,
+  PRIMARY KEY (repo_github_id, event_date, event_type, actor_id)
+);
+
+CREATE INDEX idx_gharchive_actors_date ON gharchive_daily_actors(event_date, event_type);
+
+-- 12. IMPORTED FILES (Ledger so re-running an import never double counts)
+CREATE TABLE gharchive_imported_files (
+  file_name VARCHAR(100) PRIMARY KEY,    -- e.g. '2024-01-15-13.json.gz'
+  events_count INTEGER DEFAULT 0,        -- Events of the tracked types in the file
+  imported_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================================================
+-- MODULE 6: SEARCH CRAWLER (Top repos beyond GitHub's 1000-result search cap)
+-- =============================================================================
+
+-- 13. CRAWLS (One row per named crawl, e.g. 'top')
+CREATE TABLE search_crawls (
+  name VARCHAR(50) PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- 'running' | 'completed'
+  target_count INTEGER NOT NULL,
+  min_stars INTEGER NOT NULL,
+  repos_indexed INTEGER DEFAULT 0,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 14. SLICES (The frontier: each slice is a star band, optionally narrowed to a created: window,
+-- small enough (<= 1000 results) to be paged completely. Oversized slices are 'split' into children.)
+CREATE TABLE search_crawl_slices (
+  id BIGSERIAL PRIMARY KEY,
+  crawl_name VARCHAR(50) NOT NULL REFERENCES search_crawls(name) ON DELETE CASCADE,
+  stars_min INTEGER NOT NULL,
+  stars_max INTEGER,                    -- NULL = open-ended (top band)
+  created_from DATE,                    -- NULL = no created: qualifier
+  created_to DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',  -- 'pending' | 'done' | 'split'
+  result_count INTEGER,                 -- repositoryCount reported by GitHub
+  fetched_count INTEGER DEFAULT 0,
+  cursor TEXT,                          -- Resume point inside the slice
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_crawl_slices_frontier ON search_crawl_slices(crawl_name, status, stars_min DESC);
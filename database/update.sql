@@ -4,4 +4,410 @@ ADD COLUMN IF NOT EXISTS readme_snippet TEXT;
 
 -- Optional: Add a text search index for high-performance searching later
 -- This allows you to do fast full-text search on the readme content
-CREATE INDEX IF NOT EXISTS idx_repos_readme_search ON repositories USING GIN (to_tsvector('english', readme_snippet));
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_repos_readme_search ON repositories USING GIN (to_tsvector('english', readme_snippet));
+
+-- Persistent job queue (see MODULE 4 in database.sql)
+CREATE TABLE IF NOT EXISTS jobs (
+  id BIGSERIAL PRIMARY KEY,
+  type VARCHAR(100) NOT NULL,
+  payload JSONB DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  result JSONB,
+  error TEXT,
+  run_after TIMESTAMPTZ DEFAULT NOW(),
+  locked_by VARCHAR(255),
+  heartbeat_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_queue ON jobs(status, run_after, created_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_type ON jobs(type, status);
+
+-- Job progress reporting & cancellation
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS progress JSONB DEFAULT '{}';
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS cancel_requested BOOLEAN DEFAULT FALSE;
+
+-- Daily repository snapshots + derived growth metrics
+CREATE TABLE IF NOT EXISTS repository_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  repo_github_id BIGINT NOT NULL,
+  snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  stars_count INTEGER DEFAULT 0,
+  forks_count INTEGER DEFAULT 0,
+  open_issues_count INTEGER DEFAULT 0,
+  watchers_count INTEGER DEFAULT 0,
+  captured_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(repo_github_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshots_repo_date ON repository_snapshots(repo_github_id, snapshot_date DESC);
+
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS stars_acceleration_7d INTEGER;
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS stars_acceleration_30d INTEGER;
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS stars_acceleration_90d INTEGER;
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS growth_calculated_at TIMESTAMPTZ;
+
+-- GH Archive ingestion from local hourly dump files
+CREATE TABLE IF NOT EXISTS gharchive_daily_events (
+  repo_github_id BIGINT NOT NULL,
+  repo_name VARCHAR(500) NOT NULL,
+  event_date DATE NOT NULL,
+  watch_count INTEGER DEFAULT 0,
+  fork_count INTEGER DEFAULT 0,
+  push_count INTEGER DEFAULT 0,
+  pull_request_count INTEGER DEFAULT 0,
+  PRIMARY KEY (repo_github_id, event_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gharchive_events_date ON gharchive_daily_events(event_date);
+
+CREATE TABLE IF NOT EXISTS gharchive_imported_files (
+  file_name VARCHAR(100) PRIMARY KEY,
+  events_count INTEGER DEFAULT 0,
+  imported_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Richer GH Archive trend signals
+ALTER TABLE gharchive_daily_events ADD COLUMN IF NOT EXISTS issues_count INTEGER DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS gharchive_daily_actors (
+  repo_github_id BIGINT NOT NULL,
+  event_date DATE NOT NULL,
+  event_type VARCHAR(40) NOT NULL,
+  actor_id BIGINT NOT NULL,
+  PRIMARY KEY (repo_github_id, event_date, event_type, actor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_gharchive_actors_date ON gharchive_daily_actors(event_date, event_type);
+
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS trend_score_7d NUMERIC(10, 2);
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS trend_score_30d NUMERIC(10, 2);
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS trend_score_90d NUMERIC(10, 2);
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS trend_signals JSONB DEFAULT '{}';
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS trend_calculated_at TIMESTAMPTZ;
+
+-- Range-partitioned search crawler
+CREATE TABLE IF NOT EXISTS search_crawls (
+  name VARCHAR(50) PRIMARY KEY,
+  status VARCHAR(20) NOT NULL DEFAULT 'running',
+  target_count INTEGER NOT NULL,
+  min_stars INTEGER NOT NULL,
+  repos_indexed INTEGER DEFAULT 0,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS search_crawl_slices (
+  id BIGSERIAL PRIMARY KEY,
+  crawl_name VARCHAR(50) NOT NULL REFERENCES search_crawls(name) ON DELETE CASCADE,
+  stars_min INTEGER NOT NULL,
+  stars_max INTEGER,
+  created_from DATE,
+  created_to DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  result_count INTEGER,
+  fetched_count INTEGER DEFAULT 0,
+  cursor TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_slices_frontier ON search_crawl_slices(crawl_name, status, stars_min DESC);
+
+-- Full README (canonical lookup, rendered HTML, extracted sections)
+CREATE TABLE IF NOT EXISTS repository_readmes (
+  repo_github_id BIGINT PRIMARY KEY,
+  path VARCHAR(500),
+  file_name VARCHAR(255),
+  format VARCHAR(20),
+  sha VARCHAR(40),
+  size_bytes INTEGER,
+  content TEXT,
+  html TEXT,
+  sections JSONB,
+  badges JSONB DEFAULT '[]',
+  fetched_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Per-facet fetch state (replaces the *_fetched flags of repository_stats)
+CREATE TABLE IF NOT EXISTS repository_fetch_state (
+  repo_github_id BIGINT NOT NULL,
+  facet VARCHAR(30) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER DEFAULT 0,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  next_retry_at TIMESTAMPTZ,
+  PRIMARY KEY (repo_github_id, facet)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fetch_state_queue ON repository_fetch_state(facet, status, next_retry_at);
+
+-- Carry the old flags over, then drop them
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'repository_stats' AND column_name = 'contributors_fetched'
+  ) THEN
+    INSERT INTO repository_fetch_state (repo_github_id, facet, status, last_attempt_at, last_success_at)
+    SELECT repo_github_id, f.facet, 'success', calculated_at, calculated_at
+    FROM repository_stats,
+      LATERAL (VALUES
+        ('contributors', contributors_fetched),
+        ('commit_activity', commit_activity_fetched),
+        ('commits', recent_commits_fetched)
+      ) AS f(facet, fetched)
+    WHERE f.fetched IS TRUE
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE repository_stats
+      DROP COLUMN contributors_fetched,
+      DROP COLUMN commit_activity_fetched,
+      DROP COLUMN recent_commits_fetched;
+  END IF;
+END $$;
+
+INSERT INTO repository_fetch_state (repo_github_id, facet, status, last_attempt_at, last_success_at)
+SELECT repo_github_id, 'readme', 'success', fetched_at, fetched_at FROM repository_readmes WHERE path IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- READMEs are only stored when found; "no README" is a fetch state now
+INSERT INTO repository_fetch_state (repo_github_id, facet, status, last_error, last_attempt_at, next_retry_at)
+SELECT repo_github_id, 'readme', 'not_found', 'No README', fetched_at, fetched_at + INTERVAL '7 days'
+FROM repository_readmes WHERE path IS NULL
+ON CONFLICT DO NOTHING;
+DELETE FROM repository_readmes WHERE path IS NULL;
+ALTER TABLE repository_readmes ALTER COLUMN path SET NOT NULL;
+
+-- Issue / PR analytics
+CREATE TABLE IF NOT EXISTS repository_issues (
+  repo_github_id BIGINT NOT NULL,
+  number INTEGER NOT NULL,
+  title TEXT,
+  state VARCHAR(20) NOT NULL,
+  author_login VARCHAR(255),
+  author_association VARCHAR(50),
+  comments_count INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  closed_at TIMESTAMPTZ,
+  first_response_at TIMESTAMPTZ,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (repo_github_id, number)
+);
+
+CREATE TABLE IF NOT EXISTS repository_pull_requests (
+  repo_github_id BIGINT NOT NULL,
+  number INTEGER NOT NULL,
+  title TEXT,
+  state VARCHAR(20) NOT NULL,
+  is_draft BOOLEAN DEFAULT FALSE,
+  author_login VARCHAR(255),
+  author_association VARCHAR(50),
+  additions INTEGER DEFAULT 0,
+  deletions INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  closed_at TIMESTAMPTZ,
+  merged_at TIMESTAMPTZ,
+  first_response_at TIMESTAMPTZ,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (repo_github_id, number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_issues_repo_created ON repository_issues(repo_github_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_prs_repo_created ON repository_pull_requests(repo_github_id, created_at DESC);
+
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS first_response_time_hours DECIMAL(10, 2);
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS open_pull_requests_count INTEGER;
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS open_pr_backlog_age_days DECIMAL(10, 2);
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS external_pr_merge_ratio DECIMAL(5, 4);
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS issues_calculated_at TIMESTAMPTZ;
+
+-- Release history
+CREATE TABLE IF NOT EXISTS repository_releases (
+  repo_github_id BIGINT NOT NULL,
+  tag_name VARCHAR(255) NOT NULL,
+  name TEXT,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  is_prerelease BOOLEAN DEFAULT FALSE,
+  is_latest BOOLEAN DEFAULT FALSE,
+  author_login VARCHAR(255),
+  body TEXT,
+  html_url TEXT,
+  fetched_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (repo_github_id, tag_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_releases_repo_published ON repository_releases(repo_github_id, published_at DESC);
+
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS release_cadence_days DECIMAL(10, 2);
+
+-- Dependency graph
+CREATE TABLE IF NOT EXISTS repository_packages (
+  repo_github_id BIGINT NOT NULL,
+  ecosystem VARCHAR(20) NOT NULL,
+  package_name VARCHAR(500) NOT NULL,
+  manifest_path VARCHAR(100) NOT NULL,
+  PRIMARY KEY (repo_github_id, ecosystem, package_name)
+);
+
+CREATE TABLE IF NOT EXISTS repository_dependencies (
+  repo_github_id BIGINT NOT NULL,
+  manifest_path VARCHAR(100) NOT NULL,
+  ecosystem VARCHAR(20) NOT NULL,
+  package_name VARCHAR(500) NOT NULL,
+  version_spec VARCHAR(100),
+  dependency_type VARCHAR(20) NOT NULL,
+  PRIMARY KEY (repo_github_id, manifest_path, package_name, dependency_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_packages_name ON repository_packages(ecosystem, package_name);
+CREATE INDEX IF NOT EXISTS idx_dependencies_name ON repository_dependencies(ecosystem, package_name);
+CREATE INDEX IF NOT EXISTS idx_repos_fullname_lower ON repositories(LOWER(full_name));
+
+-- Tech-stack fingerprint
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS tech_stack JSONB DEFAULT '[]';
+CREATE INDEX IF NOT EXISTS idx_repos_tech_stack ON repositories USING GIN (tech_stack jsonb_path_ops);
+
+-- Community health files + versioned health score
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS license_key VARCHAR(100);
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS has_contributing BOOLEAN DEFAULT FALSE;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS code_of_conduct_key VARCHAR(100);
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS has_security_policy BOOLEAN DEFAULT FALSE;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS issue_templates_count INTEGER DEFAULT 0;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS has_pr_template BOOLEAN DEFAULT FALSE;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS has_ci BOOLEAN DEFAULT FALSE;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS funding_links JSONB DEFAULT '[]';
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS health_score_version SMALLINT;
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS health_breakdown JSONB;
+ALTER TABLE repository_stats ADD COLUMN IF NOT EXISTS health_calculated_at TIMESTAMPTZ;
+
+-- Job schedules
+CREATE TABLE IF NOT EXISTS job_schedules (
+  name VARCHAR(100) PRIMARY KEY,
+  job_type VARCHAR(100) NOT NULL,
+  payload JSONB DEFAULT '{}',
+  cron VARCHAR(100) NOT NULL,
+  jitter_seconds INTEGER DEFAULT 0,
+  paused BOOLEAN DEFAULT FALSE,
+  last_tick_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_job_id BIGINT,
+  last_outcome VARCHAR(20),
+  last_error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Rename / transfer / deletion tracking
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS upstream_status VARCHAR(20) DEFAULT 'active';
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS upstream_checked_at TIMESTAMPTZ;
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS unavailable_since TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_repos_upstream_checked ON repositories(upstream_checked_at NULLS FIRST);
+
+CREATE TABLE IF NOT EXISTS repository_aliases (
+  full_name VARCHAR(500) PRIMARY KEY,
+  repo_github_id BIGINT NOT NULL,
+  renamed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_aliases_repo ON repository_aliases(repo_github_id);
+CREATE INDEX IF NOT EXISTS idx_aliases_fullname_lower ON repository_aliases(LOWER(full_name));
+
+-- Organizations
+ALTER TABLE repositories ADD COLUMN IF NOT EXISTS owner_type VARCHAR(20);
+CREATE INDEX IF NOT EXISTS idx_repos_owner_lower ON repositories(LOWER(owner_login));
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id SERIAL PRIMARY KEY,
+  github_id BIGINT UNIQUE NOT NULL,
+  login VARCHAR(255) UNIQUE NOT NULL,
+  name VARCHAR(255),
+  description TEXT,
+  avatar_url TEXT,
+  blog_url TEXT,
+  location VARCHAR(255),
+  email VARCHAR(255),
+  twitter_username VARCHAR(255),
+  is_verified BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ,
+  members_count INTEGER DEFAULT 0,
+  public_repos_count INTEGER DEFAULT 0,
+  repos_analyzed INTEGER DEFAULT 0,
+  total_stars INTEGER DEFAULT 0,
+  total_forks INTEGER DEFAULT 0,
+  language_mix JSONB DEFAULT '[]',
+  top_repos JSONB DEFAULT '[]',
+  activity JSONB DEFAULT '{}',
+  last_fetched TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_snapshots (
+  org_github_id BIGINT NOT NULL,
+  snapshot_date DATE NOT NULL,
+  total_stars INTEGER DEFAULT 0,
+  total_forks INTEGER DEFAULT 0,
+  public_repos_count INTEGER DEFAULT 0,
+  members_count INTEGER DEFAULT 0,
+  PRIMARY KEY (org_github_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orgs_stars ON organizations(total_stars DESC);
+CREATE INDEX IF NOT EXISTS idx_orgs_last_fetched ON organizations(last_fetched);
+
+-- Developer follow graph
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS influence_score DECIMAL(12, 4);
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS influence_rank INTEGER;
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS network_cluster BIGINT;
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS follows_crawled_at TIMESTAMPTZ;
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS network_calculated_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS developer_follows (
+  follower_github_id BIGINT NOT NULL,
+  followed_github_id BIGINT NOT NULL,
+  discovered_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (follower_github_id, followed_github_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_followed ON developer_follows(followed_github_id);
+CREATE INDEX IF NOT EXISTS idx_devs_influence ON developers(influence_rank) WHERE influence_rank IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_devs_cluster ON developers(network_cluster) WHERE network_cluster IS NOT NULL;
+
+-- Developer contribution calendar
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS longest_streak INTEGER DEFAULT 0;
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS contribution_summary JSONB DEFAULT '{}';
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS activity_schedule JSONB DEFAULT '{}';
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS contributions_fetched_at TIMESTAMPTZ;
+ALTER TABLE developers ADD COLUMN IF NOT EXISTS star_velocity DECIMAL(10, 2) DEFAULT 0;
+-- velocity_score held the stars per month until the contribution calendar was ingested
+UPDATE developers SET star_velocity = velocity_score
+WHERE contributions_fetched_at IS NULL AND star_velocity = 0;
+
+CREATE TABLE IF NOT EXISTS developer_contribution_days (
+  developer_github_id BIGINT NOT NULL,
+  contribution_date DATE NOT NULL,
+  contribution_count INTEGER DEFAULT 0,
+  PRIMARY KEY (developer_github_id, contribution_date)
+);
+
+-- Deep commit fetches get their own fetch-state facet; repos whose commits already carry stats count as done
+INSERT INTO repository_fetch_state (repo_github_id, facet, status, last_attempt_at, last_success_at)
+SELECT repo_github_id, 'commit_stats', 'success', MAX(fetched_at), MAX(fetched_at)
+FROM repository_commits
+GROUP BY repo_github_id
+HAVING MAX(total_changes) > 0
+ON CONFLICT (repo_github_id, facet) DO NOTHING;
+
+-- Organization logins that weren't found, so the sync stops retrying them on every run
+CREATE TABLE IF NOT EXISTS organization_lookup_misses (
+  login VARCHAR(255) PRIMARY KEY,
+  checked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- GH Archive pusher ids are no longer kept (the trend signals never read them)
+DELETE FROM gharchive_daily_actors WHERE event_type = 'PushEvent';
@@ -4,6 +4,7 @@ import RepositoryDetail from './RepositoryDetail';
 // Import the new components
 import DeveloperList from './DeveloperList';
 import DeveloperDetail from './DeveloperDetail';
+import OrganizationDetail from './OrganizationDetail';
 
 import Slides from './Slides';
 
@@ -16,6 +17,7 @@ function App() {
         
         <Route path="/developers" element={<DeveloperList />} />
         <Route path="/developer/:login" element={<DeveloperDetail />} />
+        <Route path="/org/:login" element={<OrganizationDetail />} />
 
         <Route path="/slides" element={<Slides />} />
 
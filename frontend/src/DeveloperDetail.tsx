@@ -9,7 +9,7 @@ import {
   TrendingUp, Trophy, Brain, Link, Cloud, Palette,
   Server, Shield, Database, Smartphone, Gamepad2, Cpu,
   Github, GitPullRequest, Terminal, Activity, Layers, Layout, CheckCircle2, Briefcase,
-  Sigma, Zap, Crown, ArrowUpRight , Target 
+  Sigma, Zap, Crown, ArrowUpRight , Target, Share2, UserPlus, Flame, Clock
 } from "lucide-react"
 
 // Language colors mapping (add more as needed)
@@ -111,6 +111,63 @@ const personaConfig: Record<string, { label: string; icon: any; color: string }>
 
 const API_BASE = "/api"
 
+// --- Follower graph (GET /developers/:login/network) ---
+interface NetworkDeveloper {
+  login: string;
+  name: string | null;
+  avatar_url: string | null;
+  dominant_language: string | null;
+  influence_score: number | null;
+  influence_rank: number | null;
+  connections?: number;
+}
+
+interface DeveloperNetwork {
+  influence: { score: number; rank: number; ranked_total: number; cluster_size: number } | null;
+  influential: NetworkDeveloper[];
+  followed_together: NetworkDeveloper[];
+  you_may_also_like: NetworkDeveloper[];
+}
+
+// --- Contribution calendar (details.contribution_calendar, one entry per day) ---
+interface ContributionDay {
+  date: string;
+  count: number;
+}
+
+const scheduleLabels: Record<string, string> = {
+  night_owl: 'Night Owl',
+  early_bird: 'Early Bird',
+  nine_to_five: 'Nine to Five',
+  evening_coder: 'Evening Coder',
+  weekend_warrior: 'Weekend Warrior',
+  around_the_clock: 'Around the Clock',
+};
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Heatmap columns, Sunday first; the first week is padded so rows line up with weekdays
+const toCalendarWeeks = (days: ContributionDay[]) => {
+  if (days.length === 0) return [];
+  const cells: (ContributionDay | null)[] = [
+    ...new Array(new Date(`${days[0].date}T00:00:00Z`).getUTCDay()).fill(null),
+    ...days,
+  ];
+  const weeks: (ContributionDay | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+};
+
+// GitHub-like intensity relative to the busiest day
+const heatColor = (count: number, max: number) => {
+  if (count === 0) return 'bg-white/5';
+  const ratio = count / Math.max(1, max);
+  if (ratio > 0.75) return 'bg-emerald-400';
+  if (ratio > 0.5) return 'bg-emerald-500/80';
+  if (ratio > 0.25) return 'bg-emerald-600/60';
+  return 'bg-emerald-700/40';
+};
+
 const formatNumber = (num: number) => {
   if (num >= 1_000_000) return (num / 1_000_000).toFixed(1).replace(/\.0$/, '') + 'M';
   if (num >= 1_000) return (num / 1_000).toFixed(1).replace(/\.0$/, '') + 'K';
@@ -121,6 +178,7 @@ function DeveloperDetail() {
   const { login } = useParams();
   const navigate = useNavigate();
   const [dev, setDev] = useState<any>(null);
+  const [network, setNetwork] = useState<DeveloperNetwork | null>(null);
 
   useEffect(() => {
     const fetchDetails = async () => {
@@ -136,6 +194,15 @@ function DeveloperDetail() {
     fetchDetails();
   }, [login, navigate]);
 
+  // Only filled once the opt-in follower-graph crawl reached this developer
+  useEffect(() => {
+    setNetwork(null);
+    fetch(`${API_BASE}/developers/${login}/network`)
+      .then(res => res.ok ? res.json() : null)
+      .then(setNetwork)
+      .catch(() => setNetwork(null));
+  }, [login]);
+
   if (!dev) return (
     <div className="min-h-screen bg-[#0B0C15] flex items-center justify-center">
       <div className="w-12 h-12 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin"></div>
@@ -256,6 +323,22 @@ function DeveloperDetail() {
     );
   };
 
+  const calendar: ContributionDay[] = dev.contribution_calendar || [];
+  const calendarWeeks = toCalendarWeeks(calendar);
+  const busiestDay = Math.max(0, ...calendar.map(day => day.count));
+  const activity = dev.activity_schedule || {};
+  const weekdayMax = Math.max(1, ...(activity.weekdays || []));
+  const hourMax = Math.max(1, ...(activity.hours || []));
+  const contributionYears: any[] = dev.contribution_summary?.by_year || [];
+  const yearMax = Math.max(1, ...contributionYears.map(year => year.total));
+  const momentum = Number(dev.momentum_score || 0);
+
+  const networkLists = network ? [
+    { key: 'influential', title: 'Influential in the Network', hint: 'Most influential in their community', people: network.influential, reason: null },
+    { key: 'followed_together', title: 'Frequently Followed Together', hint: 'Followed by the same developers', people: network.followed_together, reason: 'shared followers' },
+    { key: 'you_may_also_like', title: 'You May Also Like', hint: 'Followed by the developers they follow', people: network.you_may_also_like, reason: 'in their network' },
+  ].filter(list => list.people.length > 0) : [];
+
   // Helper Component for Repo Card
 // Replace the RepoCard helper component in DeveloperDetail.tsx
 
@@ -374,9 +457,9 @@ function DeveloperDetail() {
               {/* Badges */}
               <div className="flex flex-wrap justify-center gap-2 mb-8">
                 {dev.is_organization ? (
-                   <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold bg-purple-500/10 border border-purple-500/20 text-purple-400">
-                     <Users className="w-3 h-3" /> Organization
-                   </span>
+                   <RouterLink to={`/org/${dev.login}`} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold bg-purple-500/10 border border-purple-500/20 text-purple-400 hover:bg-purple-500/20 transition-colors">
+                     <Users className="w-3 h-3" /> Organization <ArrowUpRight className="w-3 h-3" />
+                   </RouterLink>
                 ) : dev.badges?.map((b: any, i: number) => (
                   <span key={i} className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold bg-white/5 border border-white/10 text-white">
                     <ShieldCheck className="w-3 h-3 text-purple-400" /> {b.type}
@@ -564,6 +647,181 @@ function DeveloperDetail() {
             </div>
 
 
+            {/* ACTIVITY (Contribution calendar) */}
+            {calendar.length > 0 && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-3xl border border-white/5 p-8">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                  <h3 className="text-xl font-bold flex items-center gap-2">
+                    <Activity className="w-5 h-5 text-emerald-400" /> Activity
+                    <span className="text-sm font-normal text-gray-500">
+                      {(dev.contribution_summary?.total_last_year || 0).toLocaleString()} contributions in the last year
+                    </span>
+                  </h3>
+                  {dev.work_schedule && (
+                    <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold bg-emerald-500/10 border border-emerald-500/20 text-emerald-400">
+                      <Clock className="w-3 h-3" /> {scheduleLabels[dev.work_schedule] || dev.work_schedule}
+                    </span>
+                  )}
+                </div>
+
+                {/* Stats */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                  <div className="bg-black/20 rounded-xl p-4 text-center">
+                    <div className="text-2xl font-bold text-orange-400 flex items-center justify-center gap-1">
+                      <Flame className="w-5 h-5" /> {dev.consistency_streak || 0}
+                    </div>
+                    <div className="text-[10px] text-gray-500 uppercase font-bold">Current Streak (days)</div>
+                  </div>
+                  <div className="bg-black/20 rounded-xl p-4 text-center">
+                    <div className="text-2xl font-bold text-white">{dev.longest_streak || 0}</div>
+                    <div className="text-[10px] text-gray-500 uppercase font-bold">Longest Streak (days)</div>
+                  </div>
+                  <div className="bg-black/20 rounded-xl p-4 text-center" title="Contributions per week over the last 12 weeks">
+                    <div className="text-2xl font-bold text-blue-400">{Number(dev.velocity_score || 0).toFixed(1)}</div>
+                    <div className="text-[10px] text-gray-500 uppercase font-bold">Per Week</div>
+                  </div>
+                  <div className="bg-black/20 rounded-xl p-4 text-center" title="Last 12 weeks' pace over the 40 weeks before">
+                    <div className={`text-2xl font-bold ${momentum >= 1.2 ? 'text-emerald-400' : momentum <= 0.8 ? 'text-red-400' : 'text-gray-300'}`}>
+                      {momentum.toFixed(2)}×
+                    </div>
+                    <div className="text-[10px] text-gray-500 uppercase font-bold">Momentum</div>
+                  </div>
+                </div>
+
+                {/* Heatmap */}
+                <div className="overflow-x-auto pb-2 mb-6">
+                  <div className="flex gap-[3px] min-w-max">
+                    {calendarWeeks.map((week, i) => (
+                      <div key={i} className="flex flex-col gap-[3px]">
+                        {week.map((day, j) => day ? (
+                          <div
+                            key={day.date}
+                            title={`${day.count} contribution${day.count === 1 ? '' : 's'} on ${day.date}`}
+                            className={`w-[11px] h-[11px] rounded-sm ${heatColor(day.count, busiestDay)}`}
+                          />
+                        ) : (
+                          <div key={`pad-${j}`} className="w-[11px] h-[11px]" />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Weekdays & hours */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {activity.weekdays?.length === 7 && (
+                    <div>
+                      <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3">By Weekday</h4>
+                      <div className="flex items-end gap-2 h-20">
+                        {activity.weekdays.map((count: number, i: number) => (
+                          <div key={i} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${count.toLocaleString()} contributions`}>
+                            <div className="w-full bg-emerald-500/60 rounded-t" style={{ height: `${(count / weekdayMax) * 100}%` }} />
+                            <span className="text-[10px] text-gray-500">{WEEKDAY_LABELS[i]}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {activity.hours_sample > 0 && (
+                    <div>
+                      <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3">
+                        By Hour <span className="normal-case font-normal tracking-normal text-gray-600">· {activity.hours_sample} commits sampled</span>
+                      </h4>
+                      <div className="flex items-end gap-[2px] h-20">
+                        {activity.hours.map((count: number, hour: number) => (
+                          <div key={hour} className="flex-1 h-full flex items-end" title={`${hour}:00 · ${count} commits`}>
+                            <div className="w-full bg-blue-500/60 rounded-t" style={{ height: `${(count / hourMax) * 100}%` }} />
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+                        <span>0h</span><span>6h</span><span>12h</span><span>18h</span><span>23h</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Years */}
+                {contributionYears.length > 1 && (
+                  <div className="pt-6 mt-6 border-t border-white/5">
+                    <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3">By Year</h4>
+                    <div className="space-y-2">
+                      {contributionYears.map(year => (
+                        <div key={year.year} className="flex items-center gap-3 text-xs">
+                          <span className="w-10 text-gray-400 font-bold">{year.year}</span>
+                          <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+                            <div className="h-full bg-emerald-500/70" style={{ width: `${(year.total / yearMax) * 100}%` }} />
+                          </div>
+                          <span className="w-16 text-right text-gray-400">{year.total.toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* NETWORK (Follower graph) */}
+            {network && (network.influence || networkLists.length > 0) && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-3xl border border-white/5 p-8">
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-xl font-bold flex items-center gap-2">
+                    <Share2 className="w-5 h-5 text-purple-400" /> Network
+                  </h3>
+                  {network.influence && (
+                    <div className="flex items-center gap-6 text-center">
+                      <div>
+                        <div className="text-2xl font-bold bg-gradient-to-br from-purple-400 to-pink-400 bg-clip-text text-transparent">
+                          #{network.influence.rank.toLocaleString()}
+                        </div>
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">of {network.influence.ranked_total.toLocaleString()}</div>
+                      </div>
+                      <div title="PageRank relative to the average indexed developer">
+                        <div className="text-2xl font-bold text-white">{network.influence.score.toFixed(1)}×</div>
+                        <div className="text-[10px] text-gray-500 uppercase font-bold">Influence</div>
+                      </div>
+                      {network.influence.cluster_size > 1 && (
+                        <div>
+                          <div className="text-2xl font-bold text-blue-400">{network.influence.cluster_size.toLocaleString()}</div>
+                          <div className="text-[10px] text-gray-500 uppercase font-bold">Community</div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-6">
+                  {networkLists.map(list => (
+                    <div key={list.key}>
+                      <h4 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                        {list.key === 'you_may_also_like' ? <UserPlus className="w-3.5 h-3.5" /> : <Users className="w-3.5 h-3.5" />}
+                        {list.title}
+                        <span className="normal-case font-normal tracking-normal text-gray-600">· {list.hint}</span>
+                      </h4>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                        {list.people.map(person => (
+                          <RouterLink
+                            key={person.login}
+                            to={`/developer/${person.login}`}
+                            className="flex items-center gap-3 p-3 bg-black/20 rounded-xl border border-white/5 hover:border-purple-500/30 transition-colors group"
+                          >
+                            <img src={person.avatar_url || "/placeholder.svg"} alt={person.login} className="w-9 h-9 rounded-full border border-gray-700" />
+                            <div className="min-w-0">
+                              <div className="text-sm font-bold text-white group-hover:text-purple-300 truncate">{person.name || person.login}</div>
+                              <div className="text-[11px] text-gray-500 truncate">
+                                {list.reason && person.connections ? `${person.connections} ${list.reason}` : person.dominant_language || `@${person.login}`}
+                                {person.influence_rank && <span className="text-gray-600"> · #{person.influence_rank}</span>}
+                              </div>
+                            </div>
+                          </RouterLink>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {dev.language_expertise?.expertise && dev.language_expertise.expertise.length > 0 && (
               <>
                 {/* LANGUAGE EXPERTISE SECTION */}
@@ -33,7 +33,7 @@ interface Developer {
   is_badge_holder: boolean;
   company?: string;
   is_organization?: boolean;
-  velocity_score?: number;
+  star_velocity?: number;
   primary_work?: {
     repos: Array<{ name: string; stars: number }>;
   };
@@ -371,7 +371,7 @@ function DeveloperList() {
     
     const getMetricValue = () => {
       if (currentView === 'top' || currentView === 'badge') return formatNumber(dev.followers_count);
-      if (currentView === 'rising') return `+${formatNumber(Math.round(dev.velocity_score || 0))}/mo`;
+      if (currentView === 'rising') return `+${formatNumber(Math.round(Number(dev.star_velocity || 0)))}/mo`;
       if (currentView === 'expert') return dev.language_expertise?.expertise?.length || 0;
     };
 
@@ -0,0 +1,394 @@
+import { useState, useEffect } from "react"
+import { useParams, useNavigate, Link as RouterLink } from "react-router-dom"
+import {
+  AreaChart, Area, CartesianGrid, Tooltip, XAxis, YAxis, ResponsiveContainer
+} from "recharts"
+import {
+  MapPin, Link as LinkIcon, Users, Star, GitFork, ArrowLeft, Calendar, Github,
+  BadgeCheck, Code2, Activity, TrendingUp, ArrowUpRight, Building2, BookOpen
+} from "lucide-react"
+
+// --- Interfaces ---
+
+interface LanguageShare {
+  language: string;
+  repos: number;
+  stars: number;
+  share: number;
+}
+
+interface OrganizationRepo {
+  full_name: string;
+  name: string;
+  description: string | null;
+  stars: number;
+  forks: number;
+  language: string | null;
+  pushed_at: string | null;
+}
+
+interface IndexedRepo {
+  id: number;
+  full_name: string;
+  name: string;
+  description: string | null;
+  stars_count: number;
+  forks_count: number;
+  language: string | null;
+  pushed_at: string | null;
+  health_score: number | null;
+}
+
+interface OrganizationSnapshot {
+  snapshot_date: string;
+  total_stars: number;
+  total_forks: number;
+  public_repos_count: number;
+  members_count: number;
+}
+
+interface OrganizationDetails {
+  login: string;
+  name?: string;
+  description?: string;
+  avatar_url?: string;
+  blog_url?: string;
+  location?: string;
+  email?: string;
+  twitter_username?: string;
+  is_verified: boolean;
+  created_at: string;
+  members_count: number;
+  public_repos_count: number;
+  repos_analyzed: number;
+  total_stars: number;
+  total_forks: number;
+  language_mix: LanguageShare[];
+  top_repos: OrganizationRepo[];
+  activity: {
+    repos_pushed_30d?: number;
+    repos_pushed_90d?: number;
+    repos_created_365d?: number;
+    last_pushed_at?: string | null;
+  };
+  last_fetched: string;
+  indexed_repos: IndexedRepo[];
+  trends: {
+    stars_gained_7d: number | null;
+    stars_gained_30d: number | null;
+    snapshots: OrganizationSnapshot[];
+  };
+}
+
+const API_BASE = "/api"
+
+const languageColors: Record<string, string> = {
+  JavaScript: '#f1e05a',
+  TypeScript: '#3178c6',
+  Python: '#3572A5',
+  Java: '#b07219',
+  Go: '#00ADD8',
+  Rust: '#dea584',
+  'C++': '#f34b7d',
+  C: '#555555',
+  PHP: '#4F5D95',
+  Ruby: '#701516',
+  Swift: '#F05138',
+  Kotlin: '#A97BFF',
+  'C#': '#178600',
+  Dart: '#00B4AB',
+  Shell: '#89e051',
+};
+
+const formatNumber = (num: number) => {
+  if (num >= 1_000_000) return (num / 1_000_000).toFixed(1).replace(/\.0$/, '') + 'M';
+  if (num >= 1_000) return (num / 1_000).toFixed(1).replace(/\.0$/, '') + 'K';
+  return num?.toString() || '0';
+};
+
+const formatGain = (gain: number | null) => gain === null ? '—' : `${gain >= 0 ? '+' : ''}${formatNumber(gain)}`;
+
+function OrganizationDetail() {
+  const { login } = useParams();
+  const navigate = useNavigate();
+  const [org, setOrg] = useState<OrganizationDetails | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    const fetchDetails = async () => {
+      setOrg(null);
+      setNotFound(false);
+      try {
+        const res = await fetch(`${API_BASE}/orgs/${login}`);
+        if (res.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        if (!res.ok) throw new Error("Failed to load");
+        setOrg(await res.json());
+      } catch (e) {
+        navigate(-1);
+      }
+    };
+    fetchDetails();
+  }, [login, navigate]);
+
+  if (notFound) return (
+    <div className="min-h-screen bg-[#0B0C15] flex flex-col items-center justify-center gap-4 text-gray-400">
+      <Building2 className="w-12 h-12 text-gray-600" />
+      <p>The organization <span className="text-white font-bold">{login}</span> hasn't been indexed yet.</p>
+      <a href={`https://github.com/${login}`} target="_blank" rel="noopener noreferrer" className="text-purple-400 hover:text-purple-300 inline-flex items-center gap-1">
+        View on GitHub <ArrowUpRight className="w-4 h-4" />
+      </a>
+    </div>
+  );
+
+  if (!org) return (
+    <div className="min-h-screen bg-[#0B0C15] flex items-center justify-center">
+      <div className="w-12 h-12 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin"></div>
+    </div>
+  );
+
+  const chartData = org.trends.snapshots.map(s => ({
+    date: new Date(s.snapshot_date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    stars: s.total_stars,
+  }));
+  // Indexed repos link to their analysis; the rest of the top list goes to GitHub
+  const indexedByName = new Map(org.indexed_repos.map(r => [r.full_name.toLowerCase(), r]));
+  const yearsOnGitHub = Math.floor((Date.now() - new Date(org.created_at).getTime()) / (1000 * 60 * 60 * 24 * 365));
+
+  return (
+    <div className="min-h-screen bg-[#0B0C15] text-white pb-20">
+      <div className="max-w-[1200px] mx-auto px-6 pt-8">
+        <button onClick={() => navigate(-1)} className="flex items-center gap-2 text-gray-500 hover:text-white transition mb-8 group">
+          <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" /> Back
+        </button>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+
+          {/* LEFT COLUMN: Identity & Stats */}
+          <div className="space-y-6">
+            <div className="bg-gray-900/40 backdrop-blur-md rounded-3xl p-8 border border-white/5 text-center relative overflow-hidden">
+              <div className="relative inline-block mb-6">
+                <div className="absolute inset-0 bg-gradient-to-b from-purple-500 to-pink-500 rounded-2xl blur-lg opacity-40"></div>
+                <img src={org.avatar_url} alt={org.login} className="w-32 h-32 rounded-2xl border-4 border-gray-800 relative z-10" />
+              </div>
+
+              <h1 className="text-3xl font-bold mb-1 text-white flex items-center justify-center gap-2">
+                {org.name || org.login}
+                {org.is_verified && <span title="Verified domain"><BadgeCheck className="w-6 h-6 text-blue-400" /></span>}
+              </h1>
+              <a
+                href={`https://github.com/${org.login}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-purple-400 hover:text-purple-300 font-medium mb-4 inline-flex items-center gap-1 transition-colors"
+              >
+                @{org.login} <Github className="w-3 h-3" />
+              </a>
+
+              {org.description && (
+                <p className="text-gray-300 text-sm mb-6 leading-relaxed border-t border-white/5 pt-4 font-light">
+                  {org.description}
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4 border-t border-white/5 pt-6">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-yellow-400">{formatNumber(org.total_stars)}</div>
+                  <div className="text-xs text-gray-500 uppercase font-bold tracking-wider">Stars</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-blue-400">{formatNumber(org.members_count)}</div>
+                  <div className="text-xs text-gray-500 uppercase font-bold tracking-wider">Members</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-purple-400">{formatNumber(org.public_repos_count)}</div>
+                  <div className="text-xs text-gray-500 uppercase font-bold tracking-wider">Repositories</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-emerald-400">{formatNumber(org.total_forks)}</div>
+                  <div className="text-xs text-gray-500 uppercase font-bold tracking-wider">Forks</div>
+                </div>
+              </div>
+              <p className="text-[10px] text-gray-600 mt-4">
+                Stars and forks over the {org.repos_analyzed} most starred public non-fork repositories
+              </p>
+            </div>
+
+            {/* Context */}
+            <div className="bg-gray-900/40 rounded-2xl p-6 border border-white/5 space-y-4 text-sm text-gray-300">
+              {org.location && (
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center text-gray-400">
+                    <MapPin className="w-4 h-4" />
+                  </div>
+                  <span>{org.location}</span>
+                </div>
+              )}
+
+              {org.blog_url && (
+                <a
+                  href={org.blog_url.startsWith('http') ? org.blog_url : `https://${org.blog_url}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-3 group hover:text-white transition-colors"
+                >
+                  <div className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center text-gray-400 group-hover:text-purple-400 group-hover:bg-purple-500/10 transition-colors">
+                    <LinkIcon className="w-4 h-4" />
+                  </div>
+                  <span className="truncate underline decoration-white/10 group-hover:decoration-purple-400/50 underline-offset-2">
+                    {org.blog_url.replace(/^https?:\/\//, '')}
+                  </span>
+                </a>
+              )}
+
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded-lg bg-white/5 flex items-center justify-center text-gray-400">
+                  <Calendar className="w-4 h-4" />
+                </div>
+                <span>
+                  On GitHub since {new Date(org.created_at).getFullYear()}
+                  {yearsOnGitHub > 0 && <span className="text-gray-500"> ({yearsOnGitHub} {yearsOnGitHub === 1 ? 'year' : 'years'})</span>}
+                </span>
+              </div>
+            </div>
+
+            {/* Language Mix */}
+            {org.language_mix.length > 0 && (
+              <div className="bg-gray-900/40 rounded-2xl p-6 border border-white/5">
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+                  <Code2 className="w-4 h-4 text-purple-400" /> Language Mix
+                </h3>
+                <div className="flex h-2 rounded-full overflow-hidden mb-4 bg-white/5">
+                  {org.language_mix.map(l => (
+                    <div key={l.language} style={{ width: `${l.share * 100}%`, backgroundColor: languageColors[l.language] || '#6366f1' }} />
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  {org.language_mix.map(l => (
+                    <div key={l.language} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2 text-gray-300">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: languageColors[l.language] || '#6366f1' }} />
+                        {l.language}
+                      </span>
+                      <span className="text-gray-500 text-xs">
+                        {l.repos} repos · <Star className="w-3 h-3 inline -mt-0.5" /> {formatNumber(l.stars)} · {Math.round(l.share * 100)}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* RIGHT COLUMN: Trends, Activity & Repositories */}
+          <div className="lg:col-span-2 space-y-6">
+
+            {/* Activity */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Stars (7d)', value: formatGain(org.trends.stars_gained_7d), icon: TrendingUp, color: 'text-yellow-400' },
+                { label: 'Stars (30d)', value: formatGain(org.trends.stars_gained_30d), icon: TrendingUp, color: 'text-yellow-400' },
+                { label: 'Repos pushed (30d)', value: org.activity.repos_pushed_30d ?? '—', icon: Activity, color: 'text-emerald-400' },
+                { label: 'New repos (1y)', value: org.activity.repos_created_365d ?? '—', icon: BookOpen, color: 'text-blue-400' },
+              ].map(stat => (
+                <div key={stat.label} className="bg-gray-900/40 rounded-2xl p-5 border border-white/5">
+                  <stat.icon className={`w-4 h-4 mb-2 ${stat.color}`} />
+                  <div className="text-2xl font-bold text-white">{stat.value}</div>
+                  <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">{stat.label}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Star Trend */}
+            {chartData.length > 1 && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
+                <h3 className="text-lg font-bold flex items-center gap-2 text-white mb-6">
+                  <Star className="w-5 h-5 text-yellow-400" /> Stars Across Repositories
+                </h3>
+                <div className="h-[220px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={chartData}>
+                      <defs>
+                        <linearGradient id="colorOrgStars" x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="5%" stopColor="#eab308" stopOpacity={0.4} />
+                          <stop offset="95%" stopColor="#eab308" stopOpacity={0} />
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" vertical={false} />
+                      <XAxis dataKey="date" stroke="#6b7280" fontSize={11} tickLine={false} axisLine={false} minTickGap={30} />
+                      <YAxis stroke="#6b7280" fontSize={11} tickLine={false} axisLine={false} tickFormatter={formatNumber} domain={['auto', 'auto']} />
+                      <Tooltip contentStyle={{ backgroundColor: "#111827", borderColor: "#374151", borderRadius: "8px", color: "#fff" }} />
+                      <Area type="monotone" dataKey="stars" stroke="#eab308" strokeWidth={2} fillOpacity={1} fill="url(#colorOrgStars)" />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            {/* Top Repositories */}
+            <div className="bg-gray-900/40 rounded-2xl p-6 border border-white/5">
+              <h3 className="text-lg font-bold flex items-center gap-2 text-white mb-6">
+                <Users className="w-5 h-5 text-purple-400" /> Top Repositories
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {org.top_repos.map(repo => {
+                  const indexed = indexedByName.get(repo.full_name.toLowerCase());
+                  const content = (
+                    <>
+                      <h4 className="font-bold text-white group-hover:text-purple-300 truncate mb-2">{repo.name}</h4>
+                      <p className="text-gray-400 text-sm line-clamp-2 mb-4 flex-1">{repo.description}</p>
+                      <div className="flex items-center justify-between text-xs text-gray-500 mt-auto">
+                        <div className="flex items-center gap-3">
+                          <span className="flex items-center gap-1 text-yellow-400 font-bold"><Star className="w-3.5 h-3.5 fill-current" /> {formatNumber(repo.stars)}</span>
+                          <span className="flex items-center gap-1"><GitFork className="w-3.5 h-3.5" /> {formatNumber(repo.forks)}</span>
+                          {repo.language && <span>{repo.language}</span>}
+                        </div>
+                        {indexed ? (
+                          <span className="flex items-center gap-1 text-purple-400 font-bold">View Analysis <ArrowUpRight className="w-3 h-3" /></span>
+                        ) : (
+                          <span className="flex items-center gap-1">GitHub <ArrowUpRight className="w-3 h-3" /></span>
+                        )}
+                      </div>
+                    </>
+                  );
+                  const cardClasses = "group bg-gray-800/40 hover:bg-gray-800/60 border border-white/10 hover:border-purple-500/30 p-5 rounded-xl transition-all flex flex-col";
+                  return indexed ? (
+                    <RouterLink key={repo.full_name} to={`/repo/${indexed.full_name}`} className={cardClasses}>{content}</RouterLink>
+                  ) : (
+                    <a key={repo.full_name} href={`https://github.com/${repo.full_name}`} target="_blank" rel="noreferrer" className={cardClasses}>{content}</a>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Indexed Repositories outside the GitHub-wide top list */}
+            {org.indexed_repos.some(r => !org.top_repos.some(t => t.full_name.toLowerCase() === r.full_name.toLowerCase())) && (
+              <div className="bg-gray-900/40 rounded-2xl p-6 border border-white/5">
+                <h3 className="text-lg font-bold flex items-center gap-2 text-white mb-4">
+                  <Building2 className="w-5 h-5 text-purple-400" /> Also Indexed
+                </h3>
+                <div className="divide-y divide-white/5">
+                  {org.indexed_repos
+                    .filter(r => !org.top_repos.some(t => t.full_name.toLowerCase() === r.full_name.toLowerCase()))
+                    .map(repo => (
+                      <RouterLink key={repo.id} to={`/repo/${repo.full_name}`} className="flex items-center justify-between py-3 group">
+                        <span className="text-gray-300 group-hover:text-purple-300 font-medium truncate">{repo.name}</span>
+                        <span className="flex items-center gap-4 text-xs text-gray-500">
+                          {repo.health_score !== null && <span>Health {Math.round(repo.health_score)}</span>}
+                          <span className="flex items-center gap-1 text-yellow-400 font-bold"><Star className="w-3 h-3 fill-current" /> {formatNumber(repo.stars_count)}</span>
+                        </span>
+                      </RouterLink>
+                    ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default OrganizationDetail;
@@ -29,11 +29,15 @@ import {
   ShieldCheck,
   ChevronDown, 
   ChevronUp,
+  Layers,
   Sparkles // NEW: Added Sparkles icon for AI
 } from "lucide-react"
 import {
   AreaChart,
   Area,
+  BarChart,
+  Bar,
+  ReferenceLine,
   CartesianGrid,
   Tooltip,
   XAxis,
@@ -59,6 +63,7 @@ interface Repository {
   name: string
   full_name: string
   owner_login: string
+  owner_type?: 'User' | 'Organization' | null
   owner_avatar_url?: string;
   description?: string
   html_url: string
@@ -77,6 +82,9 @@ interface Repository {
   size_kb?: number;
   is_template?: boolean;
   is_archived: boolean;
+  upstream_status?: 'active' | 'unavailable' | 'blocked';
+  unavailable_since?: string | null;
+  aliases?: { full_name: string; renamed_at: string }[];
   is_fork: boolean;
   has_issues: boolean;
   has_wiki: boolean;
@@ -85,12 +93,66 @@ interface Repository {
   
   // Analysis Data
   health_score?: number;
+  health_score_version?: number | null;
+  health_breakdown?: HealthBreakdown | null;
   activity_score?: number;
   days_since_last_commit?: number;
   commits_last_year?: number;
   latest_release_tag?: string;
   total_releases?: number;
   readme_snippet?: string; // Add this field
+  readme?: RepositoryReadme | null;
+  tech_stack?: TechStackEntry[];
+}
+
+// Per-factor points of the health score (points is null when the factor couldn't be measured)
+interface HealthFactor {
+  id: string;
+  label: string;
+  group: 'activity' | 'community' | 'responsiveness';
+  weight: number;
+  points: number | null;
+  value: string | number | boolean | null;
+}
+
+interface HealthBreakdown {
+  version: number;
+  score: number;
+  measured_weight: number;
+  factors: HealthFactor[];
+  note: string | null;
+}
+
+// Detected by the tech-stack worker; evidence is the file / directory / package that matched
+interface TechStackEntry {
+  id: string;
+  label: string;
+  category: string;
+  evidence: string;
+}
+
+interface ReadmeBadge {
+  alt: string;
+  image_url: string;
+  link_url: string | null;
+}
+
+// Full README from GET /repos/:id/details (content only when GitHub didn't render it)
+interface RepositoryReadme {
+  path: string;
+  file_name: string;
+  format: 'markdown' | 'rst' | 'asciidoc' | 'plain';
+  size_bytes: number | null;
+  html: string | null;
+  content: string | null;
+  sections: {
+    title: string | null;
+    headings: string[];
+    install: string | null;
+    usage: string | null;
+    license: string | null;
+  } | null;
+  badges: ReadmeBadge[];
 }
 
 interface RepositoryLanguage {
@@ -129,6 +191,48 @@ interface Commit {
   fetched_at: string;
 }
 
+interface Release {
+  tag_name: string;
+  name: string | null;
+  published_at: string | null;
+  is_prerelease: boolean;
+  is_latest: boolean;
+  author_login: string | null;
+  html_url: string;
+}
+
+interface ReleaseHistory {
+  data: Release[];
+  total_releases: number;
+  release_cadence_days: string | number | null; // NUMERIC comes back as a string
+}
+
+interface DependencyLink {
+  ecosystem: string;
+  package_name: string;
+  version_spec: string | null;
+  dependency_type: string;
+  repo_id: number | null;      // Indexed repo publishing the package, when there is one
+  full_name: string | null;
+  owner_avatar_url: string | null;
+  stars_count: number | null;
+}
+
+interface DependentRepo {
+  id: number;
+  full_name: string;
+  owner_avatar_url: string | null;
+  stars_count: number;
+  packages: string[];
+}
+
+interface DependencyGraph {
+  manifests: { manifest_path: string; ecosystem: string; package_name: string | null; dependency_count: number }[];
+  depends_on: DependencyLink[];
+  used_by: DependentRepo[];
+  used_by_count: number;
+}
+
 interface DetailedRepo extends Repository {
   languages?: RepositoryLanguage[];
   contributors?: Contributor[];
@@ -138,25 +242,98 @@ interface DetailedRepo extends Repository {
 
 // --- Constants & Helpers ---
 
-// Simple Readme Component
-function ReadmeViewer({ readmeContent }: { readmeContent: string | undefined }) {
-  if (!readmeContent || readmeContent === 'NO_README_FOUND') return null;
+type ReadmeTab = 'readme' | 'install' | 'usage' | 'license';
+
+// Readme Component: GitHub's rendering when we have it, the stored text otherwise
+function ReadmeViewer({ readme, readmeContent }: { readme?: RepositoryReadme | null; readmeContent: string | undefined }) {
+  const [tab, setTab] = useState<ReadmeTab>('readme');
+  const text = readme?.content || readmeContent;
+  if (!readme?.html && (!text || text === 'NO_README_FOUND')) return null;
+
+  const sections = readme?.sections;
+  const tabs = (['install', 'usage', 'license'] as const).filter(t => sections?.[t]);
+  // Section bodies are raw source; only markdown goes through ReactMarkdown
+  const isMarkdown = !readme || readme.format === 'markdown';
+
+  const renderSource = (source: string) => isMarkdown ? (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeHighlight]}>
+      {source}
+    </ReactMarkdown>
+  ) : (
+    <pre className="whitespace-pre-wrap text-sm">{source}</pre>
+  );
 
   return (
     <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6 overflow-hidden">
+      {readme && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4 pb-4 border-b border-white/5">
+          <span className="flex items-center gap-2 text-xs font-mono text-gray-400">
+            <Book className="w-4 h-4" /> {readme.path}
+          </span>
+          {tabs.length > 0 && (
+            <div className="flex gap-1">
+              {(['readme', ...tabs] as ReadmeTab[]).map(t => (
+                <button
+                  key={t}
+                  onClick={() => setTab(t)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold capitalize transition-colors ${
+                    tab === t ? 'bg-purple-500/20 text-purple-300' : 'text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  {t}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'readme' && readme && readme.badges.length > 0 && !readme.html && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {readme.badges.map(b => (
+            <a key={b.image_url} href={b.link_url || undefined} target="_blank" rel="noopener noreferrer">
+              <img src={b.image_url} alt={b.alt} className="h-5" />
+            </a>
+          ))}
+        </div>
+      )}
+
       <div className="markdown-body dark !bg-transparent !text-gray-300">
-        <ReactMarkdown 
-          remarkPlugins={[remarkGfm]} 
-          rehypePlugins={[rehypeHighlight]}
-        >
-          {readmeContent}
-        </ReactMarkdown>
+        {tab !== 'readme' && sections?.[tab]
+          ? renderSource(sections[tab] as string)
+          : readme?.html
+            // Sanitized by GitHub's renderer
+            ? <div dangerouslySetInnerHTML={{ __html: readme.html }} />
+            : renderSource(text || '')}
       </div>
     </div>
   );
 }
 
 const API_BASE = "/api"
+// Commits loaded for the churn chart; the activity list shows the newest RECENT_COMMITS_SHOWN
+const CHURN_COMMITS = 30
+const RECENT_COMMITS_SHOWN = 15
+const RELEASES_SHOWN = 8
+const DEPENDENCIES_SHOWN = 8
+
+// Same order and labels as backend/src/constants/techStack.ts
+const TECH_CATEGORIES: [string, string][] = [
+  ['framework', 'Frameworks'],
+  ['testing', 'Testing'],
+  ['ci', 'CI'],
+  ['containers', 'Containers'],
+  ['infrastructure', 'Infrastructure'],
+  ['monorepo', 'Monorepo'],
+  ['package_manager', 'Package Managers'],
+  ['linting', 'Linting & Formatting'],
+]
+
+const HEALTH_GROUPS: [HealthFactor['group'], string][] = [
+  ['activity', 'Activity'],
+  ['community', 'Community'],
+  ['responsiveness', 'Responsiveness'],
+]
 
 const languageColors: Record<string, string> = {
   JavaScript: "#f1e05a", TypeScript: "#3178c6", Python: "#3572A5", Java: "#b07219",
@@ -243,6 +420,8 @@ function RepositoryDetail() {
   
   const [repo, setRepo] = useState<DetailedRepo | null>(null)
   const [commits, setCommits] = useState<Commit[]>([])
+  const [releases, setReleases] = useState<ReleaseHistory | null>(null)
+  const [dependencies, setDependencies] = useState<DependencyGraph | null>(null)
   const [repoRank, setRepoRank] = useState<number | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isDescExpanded, setIsDescExpanded] = useState(false); 
@@ -269,6 +448,11 @@ function RepositoryDetail() {
       }
 
       const searchData = await searchResponse.json()
+      // Old name of a renamed / transferred repo: move the URL to the current one
+      if (searchData.redirected_from) {
+        navigate(`/repo/${searchData.full_name}${window.location.search}`, { replace: true })
+        return
+      }
       const sourceTable = searchData.source_table || initialSource || 'tops';
       
       const response = await fetch(`${API_BASE}/repos/${searchData.id}/details?source=${sourceTable}`)
@@ -294,11 +478,25 @@ function RepositoryDetail() {
 
       let recentCommits: Commit[] = [];
       try {
-        const commitsResponse = await fetch(`${API_BASE}/repos/${searchData.id}/commits?limit=15&source=${sourceTable}`);
+        const commitsResponse = await fetch(`${API_BASE}/repos/${searchData.id}/commits?limit=${CHURN_COMMITS}&source=${sourceTable}`);
         if (commitsResponse.ok) recentCommits = await commitsResponse.json();
       } catch (error) { console.error(error) }
 
+      let releaseHistory: ReleaseHistory | null = null;
+      try {
+        const releasesResponse = await fetch(`${API_BASE}/repos/${searchData.id}/releases?limit=${RELEASES_SHOWN}`);
+        if (releasesResponse.ok) releaseHistory = await releasesResponse.json();
+      } catch (error) { console.error(error) }
+
+      let dependencyGraph: DependencyGraph | null = null;
+      try {
+        const dependenciesResponse = await fetch(`${API_BASE}/repos/${searchData.id}/dependencies?used_by_limit=${DEPENDENCIES_SHOWN}`);
+        if (dependenciesResponse.ok) dependencyGraph = await dependenciesResponse.json();
+      } catch (error) { console.error(error) }
+
       setCommits(recentCommits);
+      setReleases(releaseHistory);
+      setDependencies(dependencyGraph);
       setRepo({
         ...detailData,
         contributors: contributors.length > 0 ? contributors : undefined,
@@ -423,6 +621,30 @@ function RepositoryDetail() {
     ? repo.commit_activity.slice(-4) 
     : repo.commit_activity;
 
+  // --- Code Churn (only once the deep commit fetch filled the stats) ---
+  const churnData = commits
+    .filter(c => c.additions > 0 || c.deletions > 0)
+    .slice()
+    .reverse()
+    .map(c => ({
+      sha: c.sha.substring(0, 7),
+      date: new Date(c.committer_date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      additions: c.additions,
+      deletions: -c.deletions,
+      files: c.files_changed,
+    }));
+  // --- Tech stack grouped by category (empty categories skipped) ---
+  const techGroups = TECH_CATEGORIES
+    .map(([category, label]) => [category, label, (repo.tech_stack || []).filter(t => t.category === category)] as const)
+    .filter(([, , entries]) => entries.length > 0);
+
+  // --- Dependency graph: only what links to indexed repos is worth a click ---
+  const indexedDependencies = dependencies?.depends_on.filter(d => d.full_name) || [];
+  const churnTotals = churnData.reduce(
+    (acc, c) => ({ additions: acc.additions + c.additions, deletions: acc.deletions - c.deletions, files: acc.files + c.files }),
+    { additions: 0, deletions: 0, files: 0 }
+  );
+
   return (
     <div className="min-h-screen bg-[#0B0C15] text-white selection:bg-purple-500/30 pb-20">
       
@@ -463,9 +685,28 @@ function RepositoryDetail() {
                   <div className="flex items-center gap-3 mb-1">
                     <h1 className="text-3xl md:text-4xl font-bold text-white tracking-tight">{repo.name}</h1>
                     {repo.is_archived && <span className="px-3 py-1 bg-orange-900/30 border border-orange-500/30 text-orange-300 text-xs uppercase font-bold rounded-full">Archived</span>}
+                    {repo.upstream_status && repo.upstream_status !== 'active' && (
+                      <span
+                        className="px-3 py-1 bg-red-900/30 border border-red-500/30 text-red-300 text-xs uppercase font-bold rounded-full"
+                        title={repo.upstream_status === 'blocked'
+                          ? 'Access blocked on GitHub (HTTP 451); data shown is the last snapshot'
+                          : `Deleted or made private on GitHub${repo.unavailable_since ? ` since ${new Date(repo.unavailable_since).toLocaleDateString()}` : ''}; data shown is the last snapshot`}
+                      >
+                        {repo.upstream_status === 'blocked' ? 'Blocked' : 'Unavailable'}
+                      </span>
+                    )}
                     {repo.is_template && <span className="px-3 py-1 bg-blue-900/30 border border-blue-500/30 text-blue-300 text-xs uppercase font-bold rounded-full flex items-center gap-1"><LayoutTemplate className="w-3 h-3" /> Template</span>}
                   </div>
-                  <p className="text-lg text-gray-400 flex items-center gap-2"><span className="text-purple-400">@</span> {repo.owner_login}</p>
+                  {repo.owner_type === 'Organization' ? (
+                    <button onClick={() => navigate(`/org/${repo.owner_login}`)} className="text-lg text-gray-400 hover:text-purple-300 flex items-center gap-2 transition-colors">
+                      <span className="text-purple-400">@</span> {repo.owner_login}
+                    </button>
+                  ) : (
+                    <p className="text-lg text-gray-400 flex items-center gap-2"><span className="text-purple-400">@</span> {repo.owner_login}</p>
+                  )}
+                  {repo.aliases && repo.aliases.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">Formerly {repo.aliases.map(a => a.full_name).join(', ')}</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -552,7 +793,7 @@ function RepositoryDetail() {
           {/* LEFT COLUMN: Community & Code */}
           <div className="lg:col-span-2 space-y-8">
             
-              <ReadmeViewer readmeContent={repo.readme_snippet} />
+              <ReadmeViewer readme={repo.readme} readmeContent={repo.readme_snippet} />
               
             {/* 1. CONTRIBUTORS */}
             {repo.contributors && repo.contributors.length > 0 && (
@@ -695,6 +936,39 @@ function RepositoryDetail() {
               </div>
             )}
 
+            {/* 2b. CHART (Code Churn of the recent commits) */}
+            {churnData.length > 0 && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                  <h3 className="text-lg font-bold flex items-center gap-2 text-white"><Code className="w-5 h-5 text-purple-400" /> Code Churn</h3>
+                  <div className="flex items-center gap-3 text-xs font-bold">
+                    <span className="text-emerald-500">+{churnTotals.additions.toLocaleString()}</span>
+                    <span className="text-red-500">-{churnTotals.deletions.toLocaleString()}</span>
+                    <span className="text-gray-500 uppercase bg-white/5 px-3 py-1 rounded-full">
+                      {churnTotals.files.toLocaleString()} files · last {churnData.length} commits
+                    </span>
+                  </div>
+                </div>
+                <div className="h-[220px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={churnData} stackOffset="sign">
+                      <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" vertical={false} />
+                      <XAxis dataKey="date" stroke="#6b7280" fontSize={11} tickLine={false} axisLine={false} minTickGap={20} />
+                      <YAxis stroke="#6b7280" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v: number) => Math.abs(v).toLocaleString()} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: "#111827", borderColor: "#374151", borderRadius: "8px", color: "#fff" }}
+                        labelFormatter={(_, payload) => payload?.[0]?.payload ? `${payload[0].payload.sha} · ${payload[0].payload.date}` : ''}
+                        formatter={(value: number, name: string) => [Math.abs(value).toLocaleString(), name]}
+                      />
+                      <ReferenceLine y={0} stroke="#374151" />
+                      <Bar dataKey="additions" name="Additions" stackId="churn" fill="#10b981" radius={[3, 3, 0, 0]} />
+                      <Bar dataKey="deletions" name="Deletions" stackId="churn" fill="#ef4444" radius={[0, 0, 3, 3]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
             {/* 3. RECENT ACTIVITY (Commits) */}
             {commits.length > 0 && (
               <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 overflow-hidden">
@@ -712,7 +986,7 @@ function RepositoryDetail() {
                 </div>
                 
                 <div className="divide-y divide-white/5">
-                  {commits.map((commit) => {
+                  {commits.slice(0, RECENT_COMMITS_SHOWN).map((commit) => {
                     const style = getCommitTypeStyle(commit.commit_message);
                     return (
                       <div key={commit.sha} className="p-5 hover:bg-white/[0.02] transition-colors group relative">
@@ -864,27 +1138,87 @@ function RepositoryDetail() {
               </div>
             </div>
 
-            {/* 3. LANGUAGES */}
-            {repo.languages && repo.languages.length > 0 && (
+            {/* 2b. HEALTH (per-factor breakdown of the score) */}
+            {repo.health_breakdown && (
               <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
-                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-4">Tech Stack</h3>
-                <div className="flex h-3 rounded-full overflow-hidden mb-4 bg-gray-800">
-                  {repo.languages.map((lang) => (
-                    <div key={lang.language_name} style={{ width: `${lang.percentage}%`, backgroundColor: languageColors[lang.language_name] || "#6366f1" }} />
-                  ))}
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4" /> Health
+                  </h3>
+                  <span className="text-2xl font-bold text-white" title={`Health model v${repo.health_breakdown.version}`}>
+                    {repo.health_breakdown.score}<span className="text-sm text-gray-500">/100</span>
+                  </span>
                 </div>
-                <div className="flex flex-wrap gap-x-4 gap-y-2">
-                  {repo.languages.slice(0, 6).map((lang) => (
-                    <div key={lang.language_name} className="flex items-center gap-2 text-sm">
-                      <div className="w-2 h-2 rounded-full" style={{ backgroundColor: languageColors[lang.language_name] || "#6366f1" }} />
-                      <span className="text-gray-300">{lang.language_name}</span>
-                      <span className="text-gray-500 text-xs">{Math.round(lang.percentage)}%</span>
+                {repo.health_breakdown.note && (
+                  <div className="text-xs text-red-400 mb-3">{repo.health_breakdown.note}</div>
+                )}
+                <div className="space-y-4">
+                  {HEALTH_GROUPS.map(([group, label]) => (
+                    <div key={group}>
+                      <div className="text-[10px] font-bold text-gray-600 uppercase tracking-wider mb-2">{label}</div>
+                      <div className="space-y-1.5">
+                        {repo.health_breakdown!.factors.filter(f => f.group === group).map(factor => (
+                          <div key={factor.id} className="flex items-center gap-2 text-xs">
+                            <span className={`flex-1 ${factor.points === null ? 'text-gray-600' : 'text-gray-300'}`}>{factor.label}</span>
+                            <div className="w-16 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                              <div
+                                className="h-full bg-emerald-500"
+                                style={{ width: `${factor.points === null ? 0 : (factor.points / factor.weight) * 100}%` }}
+                              />
+                            </div>
+                            <span className="w-12 text-right font-mono text-gray-500">
+                              {factor.points === null ? 'n/a' : `${factor.points}/${factor.weight}`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   ))}
                 </div>
               </div>
             )}
 
+            {/* 3. LANGUAGES & TECH STACK */}
+            {((repo.languages && repo.languages.length > 0) || techGroups.length > 0) && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-4">Tech Stack</h3>
+                {repo.languages && repo.languages.length > 0 && (
+                  <>
+                    <div className="flex h-3 rounded-full overflow-hidden mb-4 bg-gray-800">
+                      {repo.languages.map((lang) => (
+                        <div key={lang.language_name} style={{ width: `${lang.percentage}%`, backgroundColor: languageColors[lang.language_name] || "#6366f1" }} />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {repo.languages.slice(0, 6).map((lang) => (
+                        <div key={lang.language_name} className="flex items-center gap-2 text-sm">
+                          <div className="w-2 h-2 rounded-full" style={{ backgroundColor: languageColors[lang.language_name] || "#6366f1" }} />
+                          <span className="text-gray-300">{lang.language_name}</span>
+                          <span className="text-gray-500 text-xs">{Math.round(lang.percentage)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+                {techGroups.length > 0 && (
+                  <div className={`space-y-3 ${repo.languages && repo.languages.length > 0 ? 'mt-5 pt-5 border-t border-white/5' : ''}`}>
+                    {techGroups.map(([category, label, entries]) => (
+                      <div key={category}>
+                        <div className="text-[10px] uppercase font-bold text-gray-500 mb-1.5">{label}</div>
+                        <div className="flex flex-wrap gap-1.5">
+                          {entries.map(entry => (
+                            <span key={entry.id} title={`Detected from ${entry.evidence}`} className="px-2 py-0.5 bg-white/5 border border-white/10 rounded-md text-xs text-gray-300 cursor-default">
+                              {entry.label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* 4. TOPICS */}
             {repo.topics && repo.topics.length > 0 && (
               <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
@@ -896,6 +1230,96 @@ function RepositoryDetail() {
                  </div>
               </div>
             )}
+
+            {/* 5. RELEASES (Timeline) */}
+            {releases && releases.data.length > 0 && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest flex items-center gap-2">
+                    <Tag className="w-4 h-4" /> Releases
+                  </h3>
+                  {releases.release_cadence_days !== null && (
+                    <span className="text-[10px] font-bold uppercase text-gray-400 bg-white/5 px-2 py-1 rounded-full">
+                      Every ~{Math.max(1, Math.round(Number(releases.release_cadence_days)))} days
+                    </span>
+                  )}
+                </div>
+                <ol className="relative border-l border-white/10 ml-1.5 space-y-4">
+                  {releases.data.map((release) => (
+                    <li key={release.tag_name} className="pl-4 relative">
+                      <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${release.is_latest ? 'bg-purple-400' : release.is_prerelease ? 'bg-yellow-500/70' : 'bg-gray-600'}`} />
+                      <div className="flex items-center gap-2 min-w-0">
+                        <a href={release.html_url} target="_blank" className="text-sm font-mono font-bold text-gray-200 hover:text-purple-400 transition-colors truncate">
+                          {release.tag_name}
+                        </a>
+                        {release.is_latest && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded border bg-purple-500/10 text-purple-400 border-purple-500/30">Latest</span>}
+                        {release.is_prerelease && <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded border bg-yellow-500/10 text-yellow-400 border-yellow-500/30">Pre</span>}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {release.name && release.name !== release.tag_name && <span className="text-gray-400">{release.name} · </span>}
+                        {release.published_at ? formatTimeAgo(release.published_at) : 'unpublished'}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                {releases.total_releases > releases.data.length && (
+                  <a href={`${repo.html_url}/releases`} target="_blank" className="block mt-4 text-xs font-bold text-purple-400 hover:text-purple-300 transition-colors">
+                    All {formatNumber(releases.total_releases)} releases →
+                  </a>
+                )}
+              </div>
+            )}
+
+            {/* 6. DEPENDENCIES (Graph of the indexed repos) */}
+            {dependencies && dependencies.manifests.length > 0 && (
+              <div className="bg-gray-900/40 backdrop-blur-md rounded-2xl border border-white/5 p-6">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-2 flex items-center gap-2">
+                  <Layers className="w-4 h-4" /> Dependencies
+                </h3>
+                <div className="flex flex-wrap gap-2 mb-5">
+                  {dependencies.manifests.map(m => (
+                    <span key={m.manifest_path} className="text-[10px] font-mono text-gray-400 bg-white/5 border border-white/10 px-2 py-0.5 rounded" title={m.package_name || undefined}>
+                      {m.manifest_path} · {m.dependency_count}
+                    </span>
+                  ))}
+                </div>
+
+                <div className="text-xs uppercase font-bold text-gray-500 mb-2">
+                  Depends on <span className="text-gray-600">({indexedDependencies.length} indexed of {dependencies.depends_on.length})</span>
+                </div>
+                {indexedDependencies.length > 0 ? (
+                  <div className="space-y-2 mb-5">
+                    {indexedDependencies.slice(0, DEPENDENCIES_SHOWN).map(d => (
+                      <button key={`${d.ecosystem}:${d.package_name}:${d.dependency_type}`} onClick={() => navigate(`/repo/${d.full_name}`)} className="w-full flex items-center gap-2 text-left group">
+                        <img src={d.owner_avatar_url || "/placeholder.svg"} alt="" className="w-5 h-5 rounded-full border border-gray-700" />
+                        <span className="text-sm text-gray-300 group-hover:text-purple-400 transition-colors truncate">{d.full_name}</span>
+                        {d.dependency_type !== 'runtime' && <span className="text-[10px] uppercase text-gray-500">{d.dependency_type}</span>}
+                        <span className="ml-auto text-xs text-gray-500 flex items-center gap-1"><Star className="w-3 h-3" />{formatNumber(d.stars_count)}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-600 mb-5">None of its dependencies is indexed yet.</p>
+                )}
+
+                <div className="text-xs uppercase font-bold text-gray-500 mb-2">
+                  Used by <span className="text-gray-600">({formatNumber(dependencies.used_by_count)} indexed)</span>
+                </div>
+                {dependencies.used_by.length > 0 ? (
+                  <div className="space-y-2">
+                    {dependencies.used_by.map(r => (
+                      <button key={r.id} onClick={() => navigate(`/repo/${r.full_name}`)} className="w-full flex items-center gap-2 text-left group" title={r.packages.join(', ')}>
+                        <img src={r.owner_avatar_url || "/placeholder.svg"} alt="" className="w-5 h-5 rounded-full border border-gray-700" />
+                        <span className="text-sm text-gray-300 group-hover:text-purple-400 transition-colors truncate">{r.full_name}</span>
+                        <span className="ml-auto text-xs text-gray-500 flex items-center gap-1"><Star className="w-3 h-3" />{formatNumber(r.stars_count)}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-600">No indexed repository depends on it.</p>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </main>
@@ -4,7 +4,7 @@ import {
   Star, GitFork, TrendingUp, Activity, Award, Users, 
   Zap, Flame, ChevronRight, Code2, LayoutGrid, Search, X,
   Menu, ArrowDownUp, Filter, Briefcase, RotateCcw, Sparkles,
-  Calendar, Clock, History, AlertCircle
+  Calendar, Clock, History, AlertCircle, Tag
 } from 'lucide-react';
 
 // --- Interfaces ---
@@ -16,6 +16,7 @@ interface Repository {
   full_name: string;
   owner_login: string;
   owner_avatar_url?: string;
+  owner_type?: 'User' | 'Organization' | null;
   description?: string;
   html_url: string;
   homepage_url?: string;
@@ -40,12 +41,35 @@ interface Repository {
   health_score?: number;
   activity_score?: number;
   days_since_last_commit?: number;
+  // GH Archive trend breakdown, keyed by window ('7d' | '30d' | '90d')
+  trend_signals?: Record<string, TrendSignals>;
   // NEW: Added for AI results
   similarity?: number;
 }
 
+interface TrendSignals {
+  stars: number;
+  forks: number;
+  issues: number;
+  pull_requests: number;
+  actors: number;
+  burst_damped: boolean;
+  score: number;
+}
+
+// A language/topic top list maintained by the backend (GET /api/top-lists)
+interface TopList {
+  kind: 'language' | 'topic';
+  value: string;
+  label: string;
+  category: string;
+  repo_count: number;
+}
+
 const API_BASE = '/api';
 
+const trendWindowByView: Record<string, string> = { 'trend-7d': '7d', 'trend-30d': '30d', 'trend-90d': '90d' };
+
 const languageColors: Record<string, string> = {
   JavaScript: '#f1e05a', TypeScript: '#3178c6', Python: '#3572A5', Java: '#b07219',
   Go: '#00ADD8', Rust: '#dea584', 'C++': '#f34b7d', C: '#555555', PHP: '#4F5D95',
@@ -54,7 +78,7 @@ const languageColors: Record<string, string> = {
 
 // Added 'smart-search' to valid views
 type NavigationView = 'top-repos' | 'growing-repos' | 'trending-repos' | 'smart-search' | 'top-devs' | 'expert-devs' | 'growing-devs' | 'badge-devs'
-  | 'trend-7d' | 'trend-30d' | 'trend-90d';
+  | 'trend-7d' | 'trend-30d' | 'trend-90d' | 'top-list';
 type SortOption = 'stars' | 'forks' | 'updated';
 
 function RepositoryList() {
@@ -68,6 +92,8 @@ function RepositoryList() {
   // Legacy Search (for standard views)
   const urlQuery = searchParams.get('q') || '';
   const activeLanguage = searchParams.get('language');
+  // Category tag of the selected top list (view=top-list)
+  const activeList = searchParams.get('list');
   const sortBy = (searchParams.get('sort') as SortOption) || 'stars';
 
   // Smart Search State (Dedicated)
@@ -78,6 +104,7 @@ function RepositoryList() {
   const [localSearch, setLocalSearch] = useState(currentView === 'smart-search' ? smartQueryParam : urlQuery);
   
   const [repos, setRepos] = useState<Repository[]>([]);
+  const [topLists, setTopLists] = useState<TopList[]>([]);
   const [isLoading, setIsLoading] = useState(true);       
   const [isValidating, setIsValidating] = useState(false); 
   const [isFetchingMore, setIsFetchingMore] = useState(false);
@@ -137,10 +164,14 @@ function RepositoryList() {
       case 'trend-7d': return 'trending_weekly';
       case 'trend-30d': return 'trending_monthly';
       case 'trend-90d': return 'trending_quarterly';
+      case 'top-list': return activeList || 'tops';
       default: return 'tops'; 
     }
   };
 
+  // Top Rated pages through /repos/top, top lists through /repos/filter (same cursor)
+  const isPaginatedView = currentView === 'top-list' || (currentView === 'top-repos' && !urlQuery && !activeLanguage);
+
   const getFetchUrl = (isLoadMore = false) => {
     // A. SMART SEARCH LOGIC (New)
     if (currentView === 'smart-search') {
@@ -148,7 +179,7 @@ function RepositoryList() {
       return `${API_BASE}/search/smart?q=${encodeURIComponent(smartQueryParam)}`;
     }
 
-    const isNewTrendView = ['trend-7d', 'trend-30d', 'trend-90d'].includes(currentView);
+    const isNewTrendView = ['trend-7d', 'trend-30d', 'trend-90d', 'top-list'].includes(currentView);
 
     // B. EXISTING LOGIC (Standard Views)
     if (urlQuery || activeLanguage || sortBy === 'updated' || isNewTrendView) {
@@ -158,6 +189,7 @@ function RepositoryList() {
       url += `&source=${encodeURIComponent(source)}`;
       if (sortBy === 'updated') url += `&sort_by=updated`;
       else if (sortBy === 'forks') url += `&sort_by=forks`;
+      if (isLoadMore && cursor) url += `&lastStars=${cursor.lastStars}&lastId=${cursor.lastId}`;
       return url; 
     }
 
@@ -187,9 +219,8 @@ function RepositoryList() {
       else setIsLoading(true);
       
       setCursor(null);
-      // Disable pagination for smart search or strict filter views
-      const isNewTrendView = ['trend-7d', 'trend-30d', 'trend-90d'].includes(currentView);
-      setHasMore(currentView !== 'smart-search' && !urlQuery && !activeLanguage && !isNewTrendView); 
+      // Pagination is enabled by the response's cursor (see isPaginatedView)
+      setHasMore(false); 
       hasRestoredScroll.current = false; 
 
       try {
@@ -208,7 +239,7 @@ function RepositoryList() {
 
         setRepos(newData);
         
-        if (json.nextCursor && currentView === 'top-repos') {
+        if (json.nextCursor && isPaginatedView) {
           setCursor(json.nextCursor);
           setHasMore(json.hasMore);
         }
@@ -222,7 +253,15 @@ function RepositoryList() {
 
     fetchData();
     fetchStats();
-  }, [currentView, urlQuery, activeLanguage, sortBy, smartQueryParam]); // Added smartQueryParam
+  }, [currentView, urlQuery, activeLanguage, activeList, sortBy, smartQueryParam]); // Added smartQueryParam
+
+  // Sidebar entries for the language/topic top lists
+  useEffect(() => {
+    fetch(`${API_BASE}/top-lists`)
+      .then(res => res.json())
+      .then(json => setTopLists(json.data || []))
+      .catch(() => { /* ignore */ });
+  }, []);
 
   const fetchStats = async () => {
     try {
@@ -238,9 +277,8 @@ function RepositoryList() {
   const loadMore = useCallback(async () => {
     if (!hasMore || isFetchingMore || isLoading || isValidating) return;
     
-    // Safety check: Only standard views support pagination
-    const isNewTrendView = ['trend-7d', 'trend-30d', 'trend-90d'].includes(currentView);
-    if (currentView === 'smart-search' || urlQuery || activeLanguage || isNewTrendView) return;
+    // Safety check: Only Top Rated and the top lists support pagination
+    if (!isPaginatedView) return;
 
     setIsFetchingMore(true);
     try {
@@ -262,7 +300,7 @@ function RepositoryList() {
     } finally {
       setIsFetchingMore(false);
     }
-  }, [hasMore, isFetchingMore, isLoading, isValidating, cursor, currentView, urlQuery, activeLanguage]);
+  }, [hasMore, isFetchingMore, isLoading, isValidating, cursor, currentView, urlQuery, activeLanguage, activeList, sortBy]);
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -284,7 +322,7 @@ function RepositoryList() {
   // --- 6. SCROLL RESTORATION LOGIC ---
 
   useLayoutEffect(() => {
-    const key = `scroll_pos_${currentView}_${activeLanguage || 'all'}_${urlQuery || 'none'}_${smartQueryParam || 'none'}`;
+    const key = `scroll_pos_${currentView}_${activeList || ''}${activeLanguage || 'all'}_${urlQuery || 'none'}_${smartQueryParam || 'none'}`;
     
     if (!isLoading && repos.length > 0 && !hasRestoredScroll.current) {
       const saved = sessionStorage.getItem(key);
@@ -307,7 +345,7 @@ function RepositoryList() {
 
   // --- 7. HANDLERS ---
 
-  const handleViewChange = (view: NavigationView) => {
+  const handleViewChange = (view: NavigationView, list?: string) => {
     setIsMobileMenuOpen(false);
     
     if (['top-devs', 'growing-devs', 'expert-devs', 'badge-devs'].includes(view)) {
@@ -320,7 +358,7 @@ function RepositoryList() {
     }
     
     // For repo views, we reset filters when switching
-    navigate(`/?view=${view}`);
+    navigate(`/?view=${view}${list ? `&list=${encodeURIComponent(list)}` : ''}`);
   };
 
   const updateFilter = (key: string, value: string | null) => {
@@ -333,7 +371,7 @@ function RepositoryList() {
   };
 
   const handleClearFilters = () => {
-    navigate(`/?view=${currentView}`); 
+    navigate(`/?view=${currentView}${activeList ? `&list=${encodeURIComponent(activeList)}` : ''}`); 
     setLocalSearch('');
   };
 
@@ -346,11 +384,11 @@ function RepositoryList() {
 
   // --- 8. SUB-COMPONENTS ---
 
-  const SidebarItem = ({ view, icon: Icon, label }: any) => {
-    const isActive = currentView === view;
+  const SidebarItem = ({ view, icon: Icon, label, list }: any) => {
+    const isActive = currentView === view && (!list || list === activeList);
     return (
       <button
-        onClick={() => handleViewChange(view)}
+        onClick={() => handleViewChange(view, list)}
         className={`w-full flex items-center justify-between px-4 py-3.5 rounded-xl transition-all duration-300 group relative overflow-hidden ${
           isActive
             ? 'bg-gradient-to-r from-purple-600/90 to-pink-600/90 text-white shadow-lg shadow-purple-500/20 border border-white/10'
@@ -401,6 +439,7 @@ function RepositoryList() {
     const languageColor = languageColors[repo.language || ''] || '#6366f1';
     const activity = getActivityLevel(repo.days_since_last_commit);
     const isSmartResult = currentView === 'smart-search';
+    const trendSignals = repo.trend_signals?.[trendWindowByView[currentView]];
 
     return (
       <div
@@ -435,7 +474,17 @@ function RepositoryList() {
           <div className="flex-1 min-w-0">
             <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-1">
               <h3 className="text-lg sm:text-xl font-bold text-gray-100 group-hover:text-purple-300 transition truncate tracking-tight">{repo.name}</h3>
-              <span className="text-xs sm:text-sm text-gray-500 font-medium truncate">/ {repo.owner_login}</span>
+              {repo.owner_type === 'Organization' ? (
+                <span
+                  onClick={(e) => { e.stopPropagation(); navigate(`/org/${repo.owner_login}`); }}
+                  className="text-xs sm:text-sm text-gray-500 hover:text-purple-300 font-medium truncate transition-colors"
+                  title="View organization"
+                >
+                  / {repo.owner_login}
+                </span>
+              ) : (
+                <span className="text-xs sm:text-sm text-gray-500 font-medium truncate">/ {repo.owner_login}</span>
+              )}
               {repo.is_archived && <span className="px-2 py-0.5 bg-orange-900/30 border border-orange-500/30 text-orange-300 text-[10px] uppercase font-bold rounded-full">Archived</span>}
             </div>
             <p className="text-gray-400 text-sm line-clamp-1 mb-3 font-medium">{repo.description || 'No description available'}</p>
@@ -448,6 +497,19 @@ function RepositoryList() {
               )}
               {repo.topics?.slice(0, 3).map(t => <span key={t} className="hidden sm:inline-block hover:text-purple-400 transition-colors">#{t}</span>)}
             </div>
+            {trendSignals && (
+              // Why it's trending: the signals behind the composite score
+              <div className="flex flex-wrap items-center gap-3 mt-2 text-[11px] font-medium text-gray-500">
+                <span className="flex items-center gap-1 text-green-400"><TrendingUp className="w-3 h-3" />+{formatNumber(trendSignals.stars)} stars</span>
+                <span className="flex items-center gap-1"><GitFork className="w-3 h-3" />{formatNumber(trendSignals.forks)} forks</span>
+                <span>{formatNumber(trendSignals.issues)} issues</span>
+                <span>{formatNumber(trendSignals.pull_requests)} PRs</span>
+                <span className="flex items-center gap-1"><Users className="w-3 h-3" />{formatNumber(trendSignals.actors)} people</span>
+                {trendSignals.burst_damped && (
+                  <span className="px-1.5 py-0.5 bg-orange-900/30 border border-orange-500/30 text-orange-300 rounded-full" title="A single-day spike was damped in the score">Spike damped</span>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="hidden md:flex flex-shrink-0 items-center gap-6 bg-gray-900/30 px-6 py-3 rounded-xl border border-gray-800 group-hover:border-gray-700/50 transition-colors">
@@ -538,6 +600,16 @@ function RepositoryList() {
                 <SidebarItem view="smart-search" icon={Sparkles} label="Intelligent Search" />
               </nav>
             </div>
+            {topLists.length > 0 && (
+              <div>
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-4 px-4">Top Lists</h3>
+                <nav className="space-y-2">
+                  {topLists.map(l => (
+                    <SidebarItem key={l.category} view="top-list" list={l.category} icon={l.kind === 'language' ? Code2 : Tag} label={l.label} />
+                  ))}
+                </nav>
+              </div>
+            )}
             <div>
               <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-4 px-4">Developers</h3>
               <div className="space-y-2">
@@ -576,6 +648,16 @@ function RepositoryList() {
                   <SidebarItem view="smart-search" icon={Sparkles} label="Intelligent Search" />
                 </div>
               </div>
+              {topLists.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest mb-4">Top Lists</h3>
+                  <div className="space-y-2">
+                    {topLists.map(l => (
+                      <SidebarItem key={l.category} view="top-list" list={l.category} icon={l.kind === 'language' ? Code2 : Tag} label={l.label} />
+                    ))}
+                  </div>
+                </div>
+              )}
               <div className="space-y-2">
                 <SidebarItem view="top-devs" icon={Users} label="Hall of Fame" />
                 <SidebarItem view="badge-devs" icon={Award} label="Badge Holders" />
@@ -679,6 +761,7 @@ function RepositoryList() {
                        {currentView === 'trend-7d' && 'Past 7 Days Trends'}
                        {currentView === 'trend-30d' && 'Past 30 Days Trends'}
                        {currentView === 'trend-90d' && 'Past 90 Days Trends'}
+                       {currentView === 'top-list' && `Top ${topLists.find(l => l.category === activeList)?.label || 'List'} Repositories`}
                      </>
                    )}
                  </>
@@ -698,8 +781,8 @@ function RepositoryList() {
             <div className={`space-y-4 pb-12 transition-all duration-300 ${isValidating ? 'opacity-50 grayscale pointer-events-none' : 'opacity-100'}`}>
               {repos.map((repo, index) => renderRepositoryCard(repo, index))}
               
-              {/* Infinite Scroll Sentinel (Only active in Top Repos browse mode) */}
-              {hasMore && !urlQuery && !activeLanguage && currentView === 'top-repos' && (
+              {/* Infinite Scroll Sentinel (Top Repos browse mode and top lists) */}
+              {hasMore && isPaginatedView && (
                  <div ref={observerTarget} className="py-8 flex justify-center items-center">
                    {isFetchingMore ? (
                      <div className="flex items-center gap-3 text-purple-400 text-sm font-bold">